@@ -0,0 +1,232 @@
+/**
+ * Audio export page - renders a selection or page saved by the background into a downloadable file
+ * Rendering runs here rather than in the service worker, which may be stopped during long exports and
+ * has no MediaRecorder. Voice and speed come from the page's site profile, pronunciations from the lexicon.
+ */
+
+import { MessageType } from '@common/types/messages';
+import { devLog } from '@common/dev-utils';
+import { AudioRenderingEngine, RenderedAudio, DEFAULT_ENGINE, isEngineId } from '@common/tts-engine';
+import {
+  AudioExportJob,
+  AudioExportStore,
+  Chapter,
+  createAudioEngine,
+  registerAudioEngine,
+  encodeWav,
+  getExportFileName,
+  renderExport
+} from '@common/audio-export';
+import { PronunciationLexicon, LexiconStore } from '@common/pronunciation-lexicon';
+import { getHostname } from '@common/site-profiles';
+import { formatDuration } from '@common/speech-progress';
+import { RemoteTTSEngine, RemoteEngineStore } from '@common/remote-tts-engine';
+
+type ExportFormat = 'wav' | 'webm';
+
+const WEBM_TYPE = 'audio/webm;codecs=opus';
+
+class AudioExportPage {
+  private elements = {
+    title: document.getElementById('exportTitle') as HTMLElement,
+    summary: document.getElementById('exportSummary') as HTMLElement,
+    formatSelect: document.getElementById('formatSelect') as HTMLSelectElement,
+    startBtn: document.getElementById('startBtn') as HTMLButtonElement,
+    cancelBtn: document.getElementById('cancelBtn') as HTMLButtonElement,
+    progress: document.getElementById('progress') as HTMLProgressElement,
+    status: document.getElementById('status') as HTMLElement,
+    result: document.getElementById('result') as HTMLElement,
+    preview: document.getElementById('preview') as HTMLAudioElement,
+    downloadLink: document.getElementById('downloadLink') as HTMLAnchorElement,
+    chaptersHeading: document.getElementById('chaptersHeading') as HTMLElement,
+    chapterList: document.getElementById('chapterList') as HTMLOListElement
+  };
+  private job: AudioExportJob | null = null;
+  private engine: AudioRenderingEngine | null = null;
+  private controller: AbortController | null = null;
+  private fileUrl: string | null = null;
+
+  constructor() {
+    this.elements.startBtn.addEventListener('click', () => this.start());
+    this.elements.cancelBtn.addEventListener('click', () => this.controller?.abort());
+    this.load().catch((error) => {
+      console.error('Error loading export:', error);
+      this.setStatus(`This export could not be started: ${(error as Error).message}`, true);
+    });
+  }
+
+  private async load() {
+    const id = new URLSearchParams(window.location.search).get('job');
+    this.job = id ? await new AudioExportStore().get(id) : null;
+    if (!this.job) {
+      throw new Error('it has expired, export the page again');
+    }
+
+    document.title = `Export: ${this.job.title}`;
+    this.elements.title.textContent = this.job.title || 'Export as Audio';
+    const paragraphs = this.job.blocks.length;
+    this.elements.summary.textContent = `${this.job.scope === 'selection' ? 'Selection' : 'Page'}, ` +
+      `${paragraphs} ${paragraphs === 1 ? 'paragraph' : 'paragraphs'}`;
+
+    // MediaRecorder's Opus support depends on the platform
+    const webmOption = this.elements.formatSelect.querySelector('option[value="webm"]') as HTMLOptionElement;
+    webmOption.disabled = typeof MediaRecorder === 'undefined' || !MediaRecorder.isTypeSupported(WEBM_TYPE);
+
+    const [settings, remote] = await Promise.all([
+      chrome.storage.sync.get({ ttsEngine: DEFAULT_ENGINE }),
+      new RemoteEngineStore().get()
+    ]);
+    if (remote) {
+      registerAudioEngine('remote', () => new RemoteTTSEngine(remote));
+    }
+    this.engine = createAudioEngine(isEngineId(settings.ttsEngine) ? settings.ttsEngine : undefined);
+    if (!this.engine) {
+      this.setStatus('Exporting needs the speech server: system voices only play through the speakers and can\'t be saved. Set one up under "Speech Server" in the options first.', true);
+      return;
+    }
+
+    this.elements.startBtn.disabled = false;
+  }
+
+  private async start() {
+    if (!this.job || !this.engine) return;
+
+    const job = this.job;
+    const engine = this.engine;
+    const controller = new AbortController();
+    this.controller = controller;
+    this.setBusy(true);
+    this.setStatus('Preparing…');
+
+    try {
+      const [speech, entries, voices] = await Promise.all([
+        chrome.runtime.sendMessage({ type: MessageType.GET_SPEECH_SETTINGS, payload: { url: job.url } }),
+        new LexiconStore().getAll(),
+        engine.getVoices()
+      ]);
+      const data = speech?.success ? speech.data : {};
+      const pitch = Number(data.settings?.pitch);
+      const volume = Number(data.settings?.volume);
+      // The page's voice is a system voice unless the engine has one by that name
+      const voiceName = voices.some(voice => voice.name === data.voice?.name) ? data.voice.name : undefined;
+
+      const audio = await renderExport(engine, job.blocks, {
+        speak: {
+          voiceName,
+          rate: Number(data.settings?.rate) || 1,
+          pitch: Number.isFinite(pitch) ? pitch : 1,
+          volume: Number.isFinite(volume) ? volume : 1
+        },
+        lexicon: new PronunciationLexicon(entries),
+        hostname: getHostname(job.url) || undefined,
+        normalizeText: data.language?.normalizeText !== false,
+        disabledNormalizations: data.language?.disabledNormalizations,
+        title: job.title
+      }, (rendered, total) => {
+        this.elements.progress.value = rendered / total;
+        this.setStatus(`Rendering sentence ${rendered} of ${total}…`);
+      }, controller.signal);
+
+      const format = this.elements.formatSelect.value as ExportFormat;
+      let file: Blob;
+      if (format === 'webm') {
+        this.setStatus(`Encoding… this takes as long as the audio, ${formatDuration(audio.samples.length / audio.sampleRate * 1000)}`);
+        file = await this.recordWebm(audio, controller.signal);
+      } else {
+        file = new Blob([encodeWav(audio, audio.chapters)], { type: 'audio/wav' });
+      }
+
+      this.showResult(file, getExportFileName(job.title, format), format === 'wav' ? audio.chapters : []);
+      this.setStatus(`Done: ${formatDuration(audio.samples.length / audio.sampleRate * 1000)} of audio`);
+      devLog('[Export] Rendered', job.blocks.length, 'blocks as', format);
+    } catch (error) {
+      if (controller.signal.aborted) {
+        this.setStatus('Export cancelled');
+      } else {
+        console.error('Error exporting audio:', error);
+        this.setStatus(`The export failed: ${(error as Error).message}`, true);
+      }
+    } finally {
+      this.controller = null;
+      this.setBusy(false);
+    }
+  }
+
+  // MediaRecorder only records streams, so the audio is played into one in real time
+  private recordWebm(audio: RenderedAudio, signal: AbortSignal): Promise<Blob> {
+    const context = new AudioContext({ sampleRate: audio.sampleRate });
+    const buffer = context.createBuffer(1, audio.samples.length, audio.sampleRate);
+    buffer.getChannelData(0).set(audio.samples);
+
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+    const destination = context.createMediaStreamDestination();
+    source.connect(destination);
+    const recorder = new MediaRecorder(destination.stream, { mimeType: WEBM_TYPE });
+    const chunks: Blob[] = [];
+
+    return new Promise((resolve, reject) => {
+      recorder.ondataavailable = (event) => chunks.push(event.data);
+      recorder.onstop = () => {
+        context.close();
+        if (signal.aborted) {
+          reject(new Error('Export cancelled'));
+        } else {
+          resolve(new Blob(chunks, { type: WEBM_TYPE }));
+        }
+      };
+      recorder.onerror = () => {
+        context.close();
+        reject(new Error('recording the audio failed'));
+      };
+      source.onended = () => recorder.stop();
+      signal.addEventListener('abort', () => source.stop(), { once: true });
+
+      recorder.start();
+      source.start();
+    });
+  }
+
+  private showResult(file: Blob, fileName: string, chapters: Chapter[]) {
+    if (this.fileUrl) {
+      URL.revokeObjectURL(this.fileUrl);
+    }
+    this.fileUrl = URL.createObjectURL(file);
+
+    this.elements.preview.src = this.fileUrl;
+    this.elements.downloadLink.href = this.fileUrl;
+    this.elements.downloadLink.download = fileName;
+    this.elements.downloadLink.textContent = `Download ${fileName}`;
+
+    this.elements.chapterList.innerHTML = '';
+    chapters.forEach((chapter) => {
+      const item = document.createElement('li');
+      item.textContent = chapter.title;
+      const time = document.createElement('span');
+      time.className = 'chapter-time';
+      time.textContent = formatDuration(chapter.startTime * 1000);
+      item.appendChild(time);
+      this.elements.chapterList.appendChild(item);
+    });
+    this.elements.chaptersHeading.hidden = chapters.length === 0;
+    this.elements.result.hidden = false;
+  }
+
+  private setBusy(busy: boolean) {
+    this.elements.startBtn.disabled = busy;
+    this.elements.formatSelect.disabled = busy;
+    this.elements.cancelBtn.hidden = !busy;
+    this.elements.progress.hidden = !busy;
+    if (busy) {
+      this.elements.progress.value = 0;
+      this.elements.result.hidden = true;
+    }
+  }
+
+  private setStatus(message: string, isError = false) {
+    this.elements.status.textContent = message;
+    this.elements.status.classList.toggle('error', isError);
+  }
+}
+
+new AudioExportPage();
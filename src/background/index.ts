@@ -1,5 +1,18 @@
 import { MessageType, Message, MessageResponse } from '@common/types/messages';
 import { VoiceManager, VoiceInfo } from '@common/voice-manager';
+import { SeekUnit, SeekDirection, SpeechPosition, LanguageSettings } from '@common/speech-synthesizer';
+import { ChromeTTSEngine } from '@common/chrome-tts-engine';
+import { SpeechHost, SpeechCommand, SpeechCommandResult, SpeechHostEvent } from '@common/speech-host';
+import { TTSEngineId, DEFAULT_ENGINE, isEngineId } from '@common/tts-engine';
+import { SiteProfileStore, SiteProfile, ProsodySettings, applySiteProfile, getHostname } from '@common/site-profiles';
+import { LexiconStore } from '@common/pronunciation-lexicon';
+import { toSSMLDocument } from '@common/ssml-parser';
+import { ReadingQueue, QueueItem, NewQueueItem, parseQueueItem } from '@common/reading-queue';
+import { COMMAND_ACTIONS } from '@common/shortcuts';
+import { PDF_READER_ORIGINS, getPdfReaderUrl, getPdfFileUrl } from '@common/pdf-reader';
+import { AudioExportStore, ExportBlock, ExportScope } from '@common/audio-export';
+import { RemoteEngineStore, RemoteEngineConfig, fetchRemoteVoices } from '@common/remote-tts-engine';
+import { parseDisabledNormalizations } from '@common/text-normalizer';
 // Temporary debug logging - replace devLog with console.log for debugging
 const debugLog = (...args: unknown[]) => {
   if (process.env.NODE_ENV === 'development') {
@@ -13,6 +26,9 @@ interface SelectionData {
   url: string;
   title: string;
   timestamp: number;
+  // Frame whose content script holds the selection: 0 for the page and the frames it reaches itself,
+  // another id for a cross-origin frame
+  frameId: number;
 }
 
 class SelectionManager {
@@ -40,18 +56,22 @@ class SelectionManager {
     switch (request.type) {
       case MessageType.SELECTION_CHANGED:
         if (request.payload && sender.tab) {
-          this.updateSelection(request.payload, sender.tab);
+          this.updateSelection(request.payload, sender.tab, sender.frameId ?? 0);
         }
         return { success: true };
         
       case MessageType.SELECTION_CLEARED:
-        this.clearSelection();
+        // Another frame losing its selection leaves the one selected elsewhere in place
+        if (!this.currentSelection || (sender.tab?.id === this.activeTab?.id && (sender.frameId ?? 0) === this.currentSelection.frameId)) {
+          this.clearSelection();
+        }
         return { success: true };
         
       case MessageType.GET_SELECTION:
         return {
           selection: this.currentSelection,
-          tabId: this.activeTab?.id
+          tabId: this.activeTab?.id,
+          frameId: this.currentSelection?.frameId
         };
         
       case MessageType.SELECTION_ERROR:
@@ -65,13 +85,14 @@ class SelectionManager {
     }
   }
 
-  private updateSelection(selectionData: Record<string, unknown>, tab: chrome.tabs.Tab) {
+  private updateSelection(selectionData: Record<string, unknown>, tab: chrome.tabs.Tab, frameId: number) {
     if (typeof selectionData.text === 'string' && typeof selectionData.url === 'string') {
       this.currentSelection = {
         text: selectionData.text,
         url: selectionData.url,
         title: typeof selectionData.title === 'string' ? selectionData.title : '',
-        timestamp: Date.now()
+        timestamp: Date.now(),
+        frameId
       };
       
       this.activeTab = tab;
@@ -126,12 +147,26 @@ class SelectionManager {
   public getSelectionInfo(): SelectionData | null {
     return this.currentSelection;
   }
+
+  // Frame to ask for the selected text in `tabId`
+  public getSelectionFrameId(tabId: number): number {
+    return this.currentSelection && this.activeTab?.id === tabId ? this.currentSelection.frameId : 0;
+  }
 }
 
 class ContextMenuManager {
   private speakMenuId = 'tts-speak';
   private stopMenuId = 'tts-stop';
   private pauseResumeMenuId = 'tts-pause-resume';
+  private navigateMenuId = 'tts-navigate';
+  private addToQueueMenuId = 'tts-add-to-queue';
+  private exportAudioMenuId = 'tts-export-audio';
+  private seekMenuItems: Record<string, { title: string; unit: SeekUnit; direction: SeekDirection }> = {
+    'tts-previous-sentence': { title: 'Previous Sentence', unit: 'sentence', direction: 'previous' },
+    'tts-next-sentence': { title: 'Next Sentence', unit: 'sentence', direction: 'next' },
+    'tts-previous-paragraph': { title: 'Previous Paragraph', unit: 'paragraph', direction: 'previous' },
+    'tts-next-paragraph': { title: 'Next Paragraph', unit: 'paragraph', direction: 'next' },
+  };
   private isMenuCreated = false;
   private selectionManager: SelectionManager;
   private ttsManager: TTSManager | null = null;
@@ -156,6 +191,10 @@ class ContextMenuManager {
     if (chrome.contextMenus && chrome.contextMenus.onClicked) {
       chrome.contextMenus.onClicked.addListener(this.handleMenuClick.bind(this));
     }
+
+    new RemoteEngineStore().onChanged((config) => {
+      if (this.isMenuCreated) this.updateExportMenu(config);
+    });
     
     debugLog('Context Menu Manager initialized');
   }
@@ -217,6 +256,9 @@ class ContextMenuManager {
           if (chrome.runtime.lastError) {
             debugLog('Error creating pause/resume menu:', chrome.runtime.lastError);
           } else {
+            this.createNavigationMenu();
+            this.createQueueMenu();
+            this.createExportMenu();
             this.isMenuCreated = true;
             debugLog('TTS context menus created successfully');
             this.syncMenuWithCurrentState();
@@ -226,13 +268,81 @@ class ContextMenuManager {
     });
   }
 
+  // "Navigate" submenu with sentence and paragraph seeking
+  private createNavigationMenu() {
+    chrome.contextMenus.create({
+      id: this.navigateMenuId,
+      title: 'Navigate',
+      contexts: ['page', 'selection'],
+      enabled: false, // Initially disabled
+      documentUrlPatterns: ['http://*/*', 'https://*/*']
+    }, () => {
+      if (chrome.runtime.lastError) {
+        debugLog('Error creating navigate menu:', chrome.runtime.lastError);
+      }
+    });
+
+    Object.entries(this.seekMenuItems).forEach(([id, item]) => {
+      chrome.contextMenus.create({
+        id,
+        parentId: this.navigateMenuId,
+        title: item.title,
+        contexts: ['page', 'selection'],
+        documentUrlPatterns: ['http://*/*', 'https://*/*']
+      }, () => {
+        if (chrome.runtime.lastError) {
+          debugLog('Error creating seek menu:', id, chrome.runtime.lastError);
+        }
+      });
+    });
+  }
+
+  // Always available: queues the selection, the link under the cursor, or the whole page
+  private createQueueMenu() {
+    chrome.contextMenus.create({
+      id: this.addToQueueMenuId,
+      title: 'Add to Reading Queue',
+      contexts: ['page', 'selection', 'link'],
+      documentUrlPatterns: ['http://*/*', 'https://*/*']
+    }, () => {
+      if (chrome.runtime.lastError) {
+        debugLog('Error creating add to queue menu:', chrome.runtime.lastError);
+      }
+    });
+  }
+
+  // Exports the selection, or the whole page when nothing is selected. Hidden until a speech server is
+  // set up, the only engine that renders audio
+  private createExportMenu() {
+    chrome.contextMenus.create({
+      id: this.exportAudioMenuId,
+      title: 'Export as Audio',
+      contexts: ['page', 'selection'],
+      visible: false,
+      documentUrlPatterns: ['http://*/*', 'https://*/*']
+    }, () => {
+      if (chrome.runtime.lastError) {
+        debugLog('Error creating export audio menu:', chrome.runtime.lastError);
+        return;
+      }
+      new RemoteEngineStore().get().then(config => this.updateExportMenu(config));
+    });
+  }
+
+  private updateExportMenu(config: RemoteEngineConfig | null) {
+    chrome.contextMenus.update(this.exportAudioMenuId, { visible: !!config }, () => {
+      if (chrome.runtime.lastError) {
+        debugLog('Error updating export audio menu:', chrome.runtime.lastError);
+      }
+    });
+  }
 
   private async syncMenuWithCurrentState() {
     try {
       const [activeTab] = await chrome.tabs.query({ active: true, currentWindow: true });
       
       if (activeTab && activeTab.id) {
-        chrome.tabs.sendMessage(activeTab.id, { type: MessageType.GET_SELECTION })
+        chrome.tabs.sendMessage(activeTab.id, { type: MessageType.GET_SELECTION }, { frameId: this.selectionManager.getSelectionFrameId(activeTab.id) })
           .then(response => {
             if (response && response.hasSelection) {
               this.updateMenuState(true);
@@ -267,9 +377,28 @@ class ContextMenuManager {
             await this.togglePauseTTS(tab);
           }
           break;
+
+        case this.addToQueueMenuId:
+          if (tab?.id) {
+            await this.addToQueue(info, tab);
+          }
+          break;
+
+        case this.exportAudioMenuId:
+          if (tab?.id) {
+            const scope: ExportScope = info.selectionText ? 'selection' : 'page';
+            await openAudioExport(tab, scope, scope === 'selection' ? this.selectionManager.getSelectionFrameId(tab.id) : 0);
+          }
+          break;
           
-        default:
+        default: {
+          const seekItem = this.seekMenuItems[String(info.menuItemId)];
+          if (seekItem) {
+            await this.ttsManager?.seekTTS({ unit: seekItem.unit, direction: seekItem.direction, source: 'context-menu' });
+            break;
+          }
           debugLog('Unknown menu item clicked:', info.menuItemId);
+        }
       }
     } catch (error) {
       debugLog('Error handling menu click:', error);
@@ -287,8 +416,8 @@ class ContextMenuManager {
         throw new Error('Invalid tab information');
       }
 
-      // Get fresh selection data
-      const response = await this.getSelectionFromTab(tab.id);
+      // Get fresh selection data; pages without a content script only have the context menu's copy
+      const response = await this.getSelectionFromTab(tab.id).catch(() => null);
       
       if (!response || !response.hasSelection) {
         // Fallback to context menu selection text
@@ -315,6 +444,38 @@ class ContextMenuManager {
     }
   }
 
+  private async addToQueue(info: chrome.contextMenus.OnClickData, tab: chrome.tabs.Tab) {
+    if (!this.ttsManager) {
+      throw new Error('TTS Manager not available');
+    }
+
+    let item: NewQueueItem;
+    if (info.linkUrl) {
+      item = { kind: 'url', url: info.linkUrl, title: info.linkUrl };
+    } else if (info.selectionText) {
+      // The page's own selection keeps line breaks that info.selectionText drops
+      const response = await this.getSelectionFromTab(tab.id!).catch(() => null);
+      const text = response?.text || info.selectionText;
+      item = {
+        kind: 'selection',
+        url: tab.url || info.pageUrl,
+        tabId: tab.id,
+        text,
+        title: text.length > 60 ? text.substring(0, 60) + '...' : text
+      };
+    } else {
+      item = { kind: 'page', url: tab.url || info.pageUrl, tabId: tab.id, title: tab.title || info.pageUrl };
+    }
+
+    await this.ttsManager.handleMessage({
+      type: MessageType.QUEUE_ADD,
+      payload: { ...item }
+    }, { tab: tab } as chrome.runtime.MessageSender);
+
+    this.showTTSFeedback(tab, 'queued');
+    debugLog('Added to reading queue:', item.kind, item.title);
+  }
+
   private async stopTTS(tab: chrome.tabs.Tab) {
     try {
       // Stop TTS using the TTS manager
@@ -379,12 +540,14 @@ class ContextMenuManager {
     });
   }
 
+  // Asks the frame that owns the selection; every frame runs a content script, so a broadcast would race
   private async getSelectionFromTab(tabId: number, retries = 2): Promise<{ hasSelection: boolean; text?: string; info?: unknown }> {
+    const frameId = this.selectionManager.getSelectionFrameId(tabId);
     for (let i = 0; i <= retries; i++) {
       try {
         const response = await chrome.tabs.sendMessage(tabId, {
           type: MessageType.GET_SELECTION
-        });
+        }, { frameId });
         return response;
       } catch (error) {
         if (i === retries) {
@@ -530,6 +693,12 @@ class ContextMenuManager {
         }
       });
 
+      chrome.contextMenus.update(this.navigateMenuId, { enabled: isActive }, () => {
+        if (chrome.runtime.lastError) {
+          debugLog('Error updating navigate menu:', chrome.runtime.lastError);
+        }
+      });
+
       chrome.contextMenus.update(this.pauseResumeMenuId, pauseResumeProperties, () => {
         if (chrome.runtime.lastError) {
           debugLog('Error updating pause/resume menu:', chrome.runtime.lastError);
@@ -574,6 +743,15 @@ class ContextMenuManager {
       }
     });
 
+    // Update navigate menu (enabled when active)
+    chrome.contextMenus.update(this.navigateMenuId, {
+      enabled: isActive
+    }, () => {
+      if (chrome.runtime.lastError) {
+        debugLog('Error updating navigate menu:', chrome.runtime.lastError);
+      }
+    });
+
     // Update pause/resume menu (enabled when active)
     chrome.contextMenus.update(this.pauseResumeMenuId, {
       enabled: isActive,
@@ -595,14 +773,91 @@ class ContextMenuManager {
   }
 }
 
+// The offscreen document that reads for the background with Web Speech or a speech server (see src/offscreen).
+// Chrome closes audio documents that stay silent for a while, so it is (re)created whenever a reading starts.
+// Both engines share the one document; every command says which engine it is for.
+class OffscreenSpeechClient {
+  private static readonly DOCUMENT_URL = 'offscreen.html';
+  private static creating: Promise<void> | null = null;
+
+  constructor(private readonly engine: TTSEngineId) {}
+
+  async execute(command: SpeechCommand): Promise<SpeechCommandResult> {
+    try {
+      if (command.command === 'speak') {
+        await OffscreenSpeechClient.ensureDocument();
+      } else if (!(await chrome.offscreen.hasDocument())) {
+        return { success: false, error: 'Offscreen document is not open' };
+      }
+
+      const response = await chrome.runtime.sendMessage({
+        type: MessageType.OFFSCREEN_SPEECH,
+        payload: {
+          ...command,
+          engine: this.engine,
+          // Like the lexicon, the server settings travel with the text
+          ...(command.command === 'speak' && this.engine === 'remote' ? { remote: await new RemoteEngineStore().get() } : {})
+        }
+      });
+      return response || { success: false };
+    } catch (error) {
+      debugLog('Offscreen speech command failed:', command.command, error);
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
+  private static async ensureDocument(): Promise<void> {
+    if (await chrome.offscreen.hasDocument()) {
+      return;
+    }
+
+    // Two readings started in quick succession must not both try to create the document
+    if (!OffscreenSpeechClient.creating) {
+      OffscreenSpeechClient.creating = chrome.offscreen.createDocument({
+        url: OffscreenSpeechClient.DOCUMENT_URL,
+        reasons: [chrome.offscreen.Reason.AUDIO_PLAYBACK],
+        justification: 'Reads text aloud with the Web Speech API or a speech server while the user keeps browsing'
+      }).finally(() => {
+        OffscreenSpeechClient.creating = null;
+      });
+    }
+    await OffscreenSpeechClient.creating;
+  }
+}
+
+// A reading handed to a speech host outside the tab, see TTSManager.speakInBackground()
+interface HostedReadingRequest {
+  text: string;
+  voice: unknown;
+  engine: TTSEngineId;
+  tabId: number | null;
+  // Page the text comes from, for site-scoped pronunciations
+  url?: string;
+  startAt?: SpeechPosition;
+  settings?: Partial<ProsodySettings>;
+  language?: LanguageSettings;
+}
+
 class TTSManager {
   private isActive = false;
   private isPaused = false;
+  // Progress of the reading as last reported, for a popup opened while it plays
+  private lastProgress: Record<string, unknown> | null = null;
   private currentTabId: number | null = null;
   private stopTimeout: NodeJS.Timeout | null = null;
   private forceStopAttempts = 0;
   private contextMenuManager: ContextMenuManager | null = null;
   private voiceManager: VoiceManager;
+  private readingQueue = new ReadingQueue();
+  private siteProfiles = new SiteProfileStore();
+  private lexiconStore = new LexiconStore();
+  // Readings hosted outside the tab, see speakInBackground(): chrome.tts runs in the service worker,
+  // Web Speech and the speech server in the offscreen document. hostedEngine is set while one of them is reading.
+  private workerSpeech: SpeechHost | null = null;
+  private offscreenSpeech = new OffscreenSpeechClient('web-speech');
+  private remoteSpeech = new OffscreenSpeechClient('remote');
+  private hostedEngine: TTSEngineId | null = null;
+  private readingId = 0;
 
   constructor(voiceManager: VoiceManager) {
     this.voiceManager = voiceManager;
@@ -618,11 +873,31 @@ class TTSManager {
     chrome.tabs.onActivated.addListener(this.handleTabChange.bind(this));
     chrome.tabs.onUpdated.addListener(this.handleTabUpdate.bind(this));
     chrome.tabs.onRemoved.addListener(this.handleTabRemoved.bind(this));
+
+    this.readingQueue.init().catch(error => {
+      console.error('Failed to initialize reading queue:', error);
+    });
+
+    const remoteEngine = new RemoteEngineStore();
+    remoteEngine.get().then(config => this.loadRemoteVoices(config));
+    remoteEngine.onChanged(config => this.loadRemoteVoices(config));
     
     debugLog('TTS Manager initialized with tab navigation listeners');
   }
 
+  // The speech server's voices are listed with the system voices, so they can be picked like them
+  private async loadRemoteVoices(config: RemoteEngineConfig | null): Promise<void> {
+    try {
+      await this.voiceManager.setRemoteVoices(config ? await fetchRemoteVoices(config) : []);
+    } catch (error) {
+      console.error('Failed to load speech server voices:', error);
+    }
+  }
+
   async handleMessage(request: Message, sender: chrome.runtime.MessageSender): Promise<Record<string, unknown>> {
+    // A message can wake the service worker before the stored queue has loaded
+    await this.readingQueue.whenReady();
+
     switch (request.type) {
       case MessageType.START_TTS:
         return await this.startTTS(request.payload, sender);
@@ -643,6 +918,69 @@ class TTSManager {
         const state = await this.togglePause();
         return { ...state };
       }
+
+      case MessageType.SEEK_TTS:
+        return await this.seekTTS(request.payload || {});
+
+      case MessageType.SET_RATE_TTS:
+        return await this.setRateTTS(request.payload || {});
+
+      case MessageType.SPEAK_IN_BACKGROUND: {
+        if (!request.payload || typeof request.payload.text !== 'string') {
+          throw new Error('No text provided for TTS');
+        }
+        const { text, voice, startAt, engine, settings, language } = request.payload;
+        await this.speakInBackground({
+          text,
+          voice: voice || this.voiceManager.getSelectedVoice(),
+          engine: isEngineId(engine) ? engine : DEFAULT_ENGINE,
+          tabId: sender.tab?.id ?? null,
+          url: sender.tab?.url,
+          startAt: startAt as SpeechPosition | undefined,
+          settings: settings as Partial<ProsodySettings> | undefined,
+          language: language as LanguageSettings | undefined
+        });
+        return { success: true };
+      }
+
+      case MessageType.OFFSCREEN_EVENT:
+        if (request.payload?.event) {
+          this.handleHostEvent(request.payload.event as SpeechHostEvent, Number(request.payload.readingId));
+        }
+        return { success: true };
+
+      case MessageType.QUEUE_GET:
+        return { ...this.readingQueue.getState() };
+
+      case MessageType.QUEUE_ADD: {
+        const newItem = parseQueueItem(request.payload);
+        if (!newItem) {
+          throw new Error('Invalid queue item');
+        }
+        const item = await this.readingQueue.add(newItem);
+        return { success: true, item };
+      }
+
+      case MessageType.QUEUE_REMOVE:
+        return await this.removeQueueItem(String(request.payload?.id));
+
+      case MessageType.QUEUE_MOVE:
+        return {
+          success: await this.readingQueue.move(String(request.payload?.id), Number(request.payload?.toIndex))
+        };
+
+      case MessageType.QUEUE_PLAY:
+        return await this.playQueue(typeof request.payload?.id === 'string' ? request.payload.id : undefined);
+
+      case MessageType.QUEUE_SKIP:
+        return await this.skipQueueItem();
+
+      case MessageType.QUEUE_CLEAR:
+        if (this.readingQueue.isActive()) {
+          await this.stopTTS({ source: 'queue' });
+        }
+        await this.readingQueue.clear();
+        return { success: true };
         
       case MessageType.TTS_STATE_CHANGED:
         return this.handleStateChange(request.payload || {}, sender);
@@ -653,10 +991,18 @@ class TTSManager {
       case MessageType.GET_TTS_STATE:
         return this.getState();
 
+      case MessageType.GET_SPEECH_SETTINGS: {
+        const url = typeof request.payload?.url === 'string' ? request.payload.url : sender.tab?.url;
+        return { ...(await this.resolveSpeechSettings(url)) };
+      }
+
       case MessageType.GET_VOICE_DATA:
         return {
           voices: this.voiceManager.getAvailableVoices(),
-          selectedVoice: this.voiceManager.getSelectedVoice()
+          selectedVoice: this.voiceManager.getSelectedVoice(),
+          languageVoices: this.voiceManager.getLanguageVoices(),
+          favoriteVoices: this.voiceManager.getFavoriteVoices(),
+          recentVoices: this.voiceManager.getRecentVoices()
         };
         
       case MessageType.SELECT_VOICE:
@@ -666,6 +1012,22 @@ class TTSManager {
         }
         return { success: false };
         
+      case MessageType.SET_LANGUAGE_VOICE:
+        if (request.payload && typeof request.payload.lang === 'string') {
+          const voiceName = typeof request.payload.voiceName === 'string' ? request.payload.voiceName : null;
+          return { success: await this.voiceManager.setLanguageVoice(request.payload.lang, voiceName) };
+        }
+        return { success: false };
+
+      case MessageType.SET_FAVORITE_VOICES: {
+        const names = Array.isArray(request.payload?.voiceNames) ? request.payload.voiceNames : [];
+        const voices = this.voiceManager.getAvailableVoices();
+        await this.voiceManager.setFavoriteVoices(
+          names.map(name => voices.find(voice => voice.name === name)).filter((voice): voice is VoiceInfo => !!voice)
+        );
+        return { favoriteVoices: this.voiceManager.getFavoriteVoices() };
+      }
+
       case MessageType.PREVIEW_VOICE:
         if (request.payload && typeof request.payload.voiceName === 'string') {
           await this.previewVoice(request.payload.voiceName);
@@ -727,16 +1089,13 @@ class TTSManager {
 
   private async startTTS(data: Record<string, unknown> | undefined, sender: chrome.runtime.MessageSender): Promise<Record<string, unknown>> {
     try {
-      if (!data || typeof data.text !== 'string') {
+      // SSML may be passed instead of text; the synthesizers recognise it by its <speak> root
+      const text = typeof data?.ssml === 'string' ? toSSMLDocument(data.ssml) : data?.text;
+      if (!data || typeof text !== 'string') {
         throw new Error('No text provided for TTS');
       }
 
-      const { text } = data;
       const tabId = typeof data.tabId === 'number' ? data.tabId : sender.tab?.id;
-      
-      if (!tabId) {
-        throw new Error('No tab ID available for TTS');
-      }
 
       // Stop any existing TTS first
       if (this.isActive) {
@@ -749,29 +1108,40 @@ class TTSManager {
       // Reset force stop attempts
       this.forceStopAttempts = 0;
 
-      // Get voice from data or use default
-      const voice = data.voice || this.voiceManager.getSelectedVoice();
+      // The site profile of the page overrides the requested or globally selected voice
+      const url = await this.getTabUrl(tabId, sender);
+      const speech = await this.resolveSpeechSettings(
+        url,
+        (data.voice as VoiceInfo | undefined) || this.voiceManager.getSelectedVoice()
+      );
+      const voice = speech.voice;
 
       // Send speech command to content script
-      await chrome.tabs.sendMessage(tabId, {
-        type: MessageType.START_SPEECH,
-        payload: { text: text, voice: voice }
-      });
-
-      // Update state immediately for context menu updates
-      this.isActive = true;
-      this.isPaused = false;
-      this.currentTabId = tabId;
-      
-      // Trigger context menu update immediately
-      if (this.contextMenuManager) {
-        debugLog('[Context-Menu-Debug] TTS started, updating context menus');
-        this.contextMenuManager.updateMenusForTTSState('started', { isPlaying: true, isPaused: false });
+      const delivered = tabId
+        ? await chrome.tabs.sendMessage(tabId, {
+          type: MessageType.START_SPEECH,
+          payload: { text: text, voice: voice, settings: speech.settings, language: speech.language }
+        }).then(() => true, (error) => {
+          debugLog('Content script not reachable, reading with chrome.tts:', error);
+          return false;
+        })
+        : false;
+
+      // Pages where content scripts can't run (chrome:// pages, the Web Store) are read with chrome.tts
+      if (!delivered || !tabId) {
+        await this.speakInBackground({
+          text,
+          voice,
+          engine: 'chrome-tts',
+          tabId: tabId ?? null,
+          url,
+          settings: speech.settings,
+          language: speech.language
+        });
+        return { success: true, engine: 'chrome-tts' };
       }
-      
-      // Set up automatic stop timeout for very long text
-      this.setStopTimeout();
-      
+
+      this.markStarted(tabId);
       debugLog('TTS started for text:', text.substring(0, 50) + '...');
       
       return { success: true };
@@ -781,8 +1151,192 @@ class TTSManager {
     }
   }
 
+  private async getTabUrl(tabId: number | undefined, sender: chrome.runtime.MessageSender): Promise<string | undefined> {
+    if (sender.tab?.url && sender.tab.id === tabId) {
+      return sender.tab.url;
+    }
+    if (!tabId) return undefined;
+
+    try {
+      return (await chrome.tabs.get(tabId)).url;
+    } catch {
+      return undefined;
+    }
+  }
+
+  // Global rate/pitch/volume and `fallbackVoice`, overridden by the site profile matching `url`,
+  // and the voices to switch to when the text changes language
+  private async resolveSpeechSettings(
+    url: string | undefined,
+    fallbackVoice: VoiceInfo | null = this.voiceManager.getSelectedVoice()
+  ): Promise<{
+    voice: VoiceInfo | null;
+    settings: ProsodySettings;
+    profile: SiteProfile | null;
+    language: LanguageSettings;
+  }> {
+    const [defaults, profile] = await Promise.all([
+      chrome.storage.sync.get({ rate: 1, pitch: 1, volume: 1, autoLanguage: true, normalizeText: true, disabledNormalizations: {} }),
+      // A PDF in the reader page uses the profile of the site it came from
+      url ? this.siteProfiles.findForUrl(getPdfFileUrl(url) || url) : Promise.resolve(null)
+    ]);
+    // Pitch and volume can be 0; a rate can't
+    const pitch = Number(defaults.pitch);
+    const volume = Number(defaults.volume);
+    const effective = applySiteProfile({
+      rate: Number(defaults.rate) || 1,
+      pitch: Number.isFinite(pitch) ? pitch : 1,
+      volume: Number.isFinite(volume) ? volume : 1
+    }, profile);
+
+    const profileVoice = effective.voice
+      ? this.voiceManager.getAvailableVoices().find(voice => voice.name === effective.voice) || null
+      : null;
+
+    return {
+      voice: profileVoice || fallbackVoice,
+      settings: { rate: effective.rate, pitch: effective.pitch, volume: effective.volume },
+      profile,
+      language: {
+        autoDetect: defaults.autoLanguage !== false,
+        voices: this.voiceManager.getLanguageVoices(),
+        normalizeText: defaults.normalizeText !== false,
+        disabledNormalizations: parseDisabledNormalizations(defaults.disabledNormalizations)
+      }
+    };
+  }
+
+  // Update state immediately for context menu updates
+  private markStarted(tabId: number | null): void {
+    this.isActive = true;
+    this.isPaused = false;
+    this.currentTabId = tabId;
+    
+    // Trigger context menu update immediately
+    if (this.contextMenuManager) {
+      debugLog('[Context-Menu-Debug] TTS started, updating context menus');
+      this.contextMenuManager.updateMenusForTTSState('started', { isPlaying: true, isPaused: false });
+    }
+    
+    // Set up automatic stop timeout for very long text
+    this.clearStopTimeout();
+    this.setStopTimeout();
+  }
+
+  // Reads outside the page: with chrome.tts in the service worker, or with Web Speech or the speech server
+  // in the offscreen document. Either way playback survives the tab navigating away or closing. Boundary and state events
+  // are relayed to the tab (if any) for highlighting and reading progress.
+  private async speakInBackground(request: HostedReadingRequest): Promise<void> {
+    const { text, voice, engine, tabId, url } = request;
+
+    if (this.isActive && !this.hostedEngine) {
+      await this.stopTTS({ source: 'new-request' });
+    }
+    await this.stopHostedReading();
+
+    // The offscreen document can't read extension storage, so the pronunciations travel with the text
+    const lexicon = await this.lexiconStore.getAll().catch(error => {
+      console.error('Failed to load pronunciation lexicon:', error);
+      return [];
+    });
+
+    const readingId = ++this.readingId;
+    const voiceName = (voice as { name?: unknown } | null | undefined)?.name;
+    const result = await this.getSpeechHost(engine).execute({
+      command: 'speak',
+      readingId,
+      text,
+      // Web Speech voice names may not exist in chrome.tts; the engine's default is used then
+      voiceName: typeof voiceName === 'string' ? voiceName : undefined,
+      options: request.settings,
+      startAt: request.startAt,
+      lexicon,
+      hostname: url ? getHostname(url) ?? undefined : undefined,
+      language: request.language
+    });
+    if (!result.success) {
+      throw new Error(result.error || 'Could not start background speech');
+    }
+
+    this.hostedEngine = engine;
+    this.markStarted(tabId);
+
+    debugLog('TTS started in background with', engine, 'for text:', text.substring(0, 50) + '...', 'tab:', tabId);
+  }
+
+  private getSpeechHost(engine: TTSEngineId): SpeechHost | OffscreenSpeechClient {
+    if (engine === 'remote') {
+      return this.remoteSpeech;
+    }
+    if (engine !== 'chrome-tts') {
+      return this.offscreenSpeech;
+    }
+    if (!this.workerSpeech) {
+      this.workerSpeech = new SpeechHost(new ChromeTTSEngine(), (event, readingId) => this.handleHostEvent(event, readingId));
+    }
+    return this.workerSpeech;
+  }
+
+  // Sends a command to the host that is reading; null while the tab reads by itself
+  private async commandHost(command: SpeechCommand): Promise<SpeechCommandResult | null> {
+    return this.hostedEngine ? this.getSpeechHost(this.hostedEngine).execute(command) : null;
+  }
+
+  // Stops the hosted reading and tells its tab right away, so the host's own late 'stopped' can be ignored
+  private async stopHostedReading(): Promise<void> {
+    const engine = this.hostedEngine;
+    if (!engine) return;
+
+    this.hostedEngine = null;
+    this.readingId++;
+    this.relayToTab({ kind: 'state', state: 'stopped', position: null });
+    await this.getSpeechHost(engine).execute({ command: 'stop' });
+  }
+
+  // State changes, boundaries and errors of the hosted reading, handled like the ones tabs send
+  private handleHostEvent(event: SpeechHostEvent, readingId: number): void {
+    if (readingId !== this.readingId || !this.hostedEngine) {
+      // A reading that was stopped or replaced since
+      return;
+    }
+
+    if (event.kind === 'boundary') {
+      this.relayToTab({ kind: 'boundary', event: event.event });
+      return;
+    }
+
+    if (event.kind === 'error') {
+      this.handleTTSError(event.error);
+      return;
+    }
+
+    this.relayToTab({ kind: 'state', state: event.state, position: event.position });
+    if (event.state === 'stopped' || event.state === 'completed') {
+      this.hostedEngine = null;
+    }
+
+    const sender = this.currentTabId ? { tab: { id: this.currentTabId } } as chrome.runtime.MessageSender : {};
+    this.handleStateChange({ state: event.state, playbackState: event.playbackState }, sender);
+  }
+
+  private relayToTab(payload: Record<string, unknown>): void {
+    if (!this.currentTabId) return;
+
+    chrome.tabs.sendMessage(this.currentTabId, {
+      type: MessageType.SPEECH_EVENT,
+      payload
+    }).catch(() => {
+      // The page may be reloading or have no content script; playback continues regardless
+    });
+  }
+
   public async stopTTS(options: Record<string, unknown> = {}): Promise<Record<string, unknown>> {
     const { source = 'manual', force = false } = options;
+
+    // Any stop that the queue didn't ask for itself ends queue playback
+    if (source !== 'queue' && source !== 'new-request') {
+      await this.readingQueue.stop();
+    }
     
     try {
       if (!this.isActive && !force) {
@@ -793,6 +1347,8 @@ class TTSManager {
       // Clear the stop timeout
       this.clearStopTimeout();
 
+      await this.stopHostedReading();
+
       if (this.currentTabId) {
         // Send stop command to content script
         await chrome.tabs.sendMessage(this.currentTabId, {
@@ -805,6 +1361,7 @@ class TTSManager {
       }
 
       // Reset state
+      const tabId = this.currentTabId;
       this.isActive = false;
       this.isPaused = false;
       this.currentTabId = null;
@@ -816,7 +1373,7 @@ class TTSManager {
       }
       
       // Broadcast stop state
-      this.broadcastStateChange('stopped', { isPlaying: false });
+      this.broadcastStateChange('stopped', { isPlaying: false }, tabId);
       
       debugLog('TTS stopped, source:', source);
       
@@ -832,6 +1389,12 @@ class TTSManager {
 
   private async pauseTTS(options: Record<string, unknown> = {}): Promise<Record<string, unknown>> {
     const { source = 'manual' } = options;
+
+    const hosted = await this.commandHost({ command: 'pause' });
+    if (hosted) {
+      // State updates arrive through handleHostEvent
+      return { ...hosted };
+    }
     
     if (this.isActive && this.currentTabId) {
       try {
@@ -861,6 +1424,11 @@ class TTSManager {
 
   private async resumeTTS(options: Record<string, unknown> = {}): Promise<Record<string, unknown>> {
     const { source = 'manual' } = options;
+
+    const hosted = await this.commandHost({ command: 'resume' });
+    if (hosted) {
+      return { ...hosted };
+    }
     
     if (this.isActive && this.currentTabId) {
       try {
@@ -892,6 +1460,11 @@ class TTSManager {
     const { source = 'manual' } = options;
     
     debugLog('[TTS-Debug] Background togglePause called - isActive:', this.isActive, 'currentTabId:', this.currentTabId, 'source:', source);
+
+    const hosted = await this.commandHost({ command: 'togglePause' });
+    if (hosted) {
+      return { ...hosted };
+    }
     
     if (this.isActive && this.currentTabId) {
       try {
@@ -912,14 +1485,200 @@ class TTSManager {
     return { isPaused: false };
   }
 
+  // Seeks by a sentence or paragraph, or with `fraction` to the sentence nearest that share of the text
+  async seekTTS(options: Record<string, unknown>): Promise<Record<string, unknown>> {
+    const { unit = 'sentence', direction = 'next', source = 'manual' } = options;
+    const fraction = typeof options.fraction === 'number' ? options.fraction : undefined;
+
+    const hosted = await this.commandHost(fraction !== undefined
+      ? { command: 'seekTo', fraction }
+      : { command: 'seek', unit: unit as SeekUnit, direction: direction as SeekDirection });
+    if (hosted) {
+      return { ...hosted };
+    }
+
+    if (this.isActive && this.currentTabId) {
+      try {
+        const response = await chrome.tabs.sendMessage(this.currentTabId, {
+          type: MessageType.SEEK_SPEECH,
+          payload: { unit, direction, fraction, source }
+        });
+
+        debugLog('TTS seek:', direction, unit, 'source:', source, 'response:', response);
+        return response || { success: false };
+      } catch (error) {
+        console.error('Error seeking TTS:', error);
+        return { success: false };
+      }
+    }
+    return { success: false };
+  }
+
+  async setRateTTS(options: Record<string, unknown>): Promise<Record<string, unknown>> {
+    const rate = Number(options.rate);
+    if (!(rate >= 0.1 && rate <= 10)) {
+      return { success: false, error: 'Invalid rate' };
+    }
+
+    const hosted = await this.commandHost({ command: 'setRate', rate });
+    if (hosted) {
+      return { ...hosted };
+    }
+
+    if (this.isActive && this.currentTabId) {
+      try {
+        const response = await chrome.tabs.sendMessage(this.currentTabId, {
+          type: MessageType.SET_SPEECH_RATE,
+          payload: { rate, source: options.source || 'manual' }
+        });
+        return response || { success: false };
+      } catch (error) {
+        console.error('Error changing TTS rate:', error);
+        return { success: false };
+      }
+    }
+    return { success: false };
+  }
+
+  private async playQueue(id?: string): Promise<Record<string, unknown>> {
+    const item = await this.readingQueue.start(id);
+    if (!item) {
+      return { success: false, error: 'Reading queue is empty' };
+    }
+
+    await this.playQueueItem(item);
+    return { success: true };
+  }
+
+  private async skipQueueItem(): Promise<Record<string, unknown>> {
+    const next = await this.readingQueue.skip();
+    if (!next) {
+      await this.stopTTS({ source: 'queue' });
+      return { success: false, error: 'No more items in the reading queue' };
+    }
+
+    await this.playQueueItem(next);
+    return { success: true };
+  }
+
+  private async removeQueueItem(id: string): Promise<Record<string, unknown>> {
+    const wasPlaying = this.readingQueue.isActive() && this.readingQueue.getCurrentItem()?.id === id;
+    const removed = await this.readingQueue.remove(id);
+
+    if (removed && wasPlaying) {
+      await this.stopTTS({ source: 'queue' });
+    }
+    return { success: removed };
+  }
+
+  private async advanceQueue(): Promise<void> {
+    const next = await this.readingQueue.complete();
+    if (next) {
+      await this.playQueueItem(next);
+    } else {
+      debugLog('Reading queue finished');
+    }
+  }
+
+  private async playQueueItem(item: QueueItem): Promise<void> {
+    if (this.isActive) {
+      await this.stopTTS({ source: 'queue' });
+      await new Promise(resolve => setTimeout(resolve, 100));
+    }
+
+    try {
+      const tabId = await this.getQueueItemTab(item);
+      await this.readingQueue.setTabId(tabId);
+
+      if (item.kind === 'selection' && item.text) {
+        await this.startTTS({ text: item.text, tabId }, {} as chrome.runtime.MessageSender);
+      } else {
+        // The content script extracts the page itself; TTS_STATE_CHANGED tells us when it starts
+        await this.sendToTabWithRetry(tabId, {
+          type: MessageType.SPEAK_SELECTION,
+          payload: { fullPage: true }
+        });
+      }
+
+      debugLog('Playing queue item:', item.kind, item.title, 'in tab:', tabId);
+    } catch (error) {
+      console.error('Could not play queue item, skipping:', item.title, error);
+      const next = await this.readingQueue.skip();
+      if (next) {
+        await this.playQueueItem(next);
+      }
+    }
+  }
+
+  // Uses the tab the item came from while it still shows the same page, otherwise opens the URL
+  private async getQueueItemTab(item: QueueItem): Promise<number> {
+    if (item.tabId) {
+      try {
+        const tab = await chrome.tabs.get(item.tabId);
+        if (tab.id && tab.url && this.isSamePage(tab.url, item.url)) {
+          return tab.id;
+        }
+      } catch (error) {
+        debugLog('Queue item tab is gone, reopening:', item.url);
+      }
+    }
+
+    const tab = await chrome.tabs.create({ url: item.url, active: false });
+    if (!tab.id) {
+      throw new Error('Could not open tab for queue item');
+    }
+    await this.waitForTabLoad(tab.id);
+    return tab.id;
+  }
+
+  private isSamePage(a: string, b: string): boolean {
+    return a.split('#')[0] === b.split('#')[0];
+  }
+
+  private waitForTabLoad(tabId: number, timeoutMs = 30000): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        chrome.tabs.onUpdated.removeListener(listener);
+        reject(new Error('Timed out waiting for tab to load'));
+      }, timeoutMs);
+
+      const listener = (updatedTabId: number, changeInfo: chrome.tabs.TabChangeInfo) => {
+        if (updatedTabId === tabId && changeInfo.status === 'complete') {
+          clearTimeout(timeout);
+          chrome.tabs.onUpdated.removeListener(listener);
+          resolve();
+        }
+      };
+      chrome.tabs.onUpdated.addListener(listener);
+    });
+  }
+
+  private async sendToTabWithRetry(tabId: number, message: Message, retries = 3): Promise<unknown> {
+    for (let i = 0; i <= retries; i++) {
+      try {
+        return await chrome.tabs.sendMessage(tabId, message);
+      } catch (error) {
+        if (i === retries) {
+          throw error;
+        }
+        // Freshly opened tabs may not have the content script yet
+        await new Promise(resolve => setTimeout(resolve, 500));
+      }
+    }
+    throw new Error('Could not communicate with tab');
+  }
+
   private async forceStopTTS(): Promise<Record<string, unknown>> {
     debugLog('Force stopping TTS');
     
     this.forceStopAttempts++;
+    await this.readingQueue.stop();
     
     try {
       // Clear any timeouts
       this.clearStopTimeout();
+
+      await this.stopHostedReading();
       
       // Send force stop to content script
       if (this.currentTabId) {
@@ -948,12 +1707,13 @@ class TTSManager {
 
   private forceCleanup() {
     // Aggressively clean up state
+    const tabId = this.currentTabId;
     this.isActive = false;
     this.currentTabId = null;
     this.clearStopTimeout();
     
     // Broadcast stopped state
-    this.broadcastStateChange('stopped', { isPlaying: false });
+    this.broadcastStateChange('stopped', { isPlaying: false }, tabId);
     
     debugLog('TTS force cleanup completed');
   }
@@ -976,6 +1736,14 @@ class TTSManager {
   private handleStateChange(data: Record<string, unknown>, sender?: chrome.runtime.MessageSender): Record<string, unknown> {
     const state = data.state as string;
     const playbackState = data.playbackState as Record<string, unknown> || {};
+    // Taken before 'stopped' and 'completed' forget the tab
+    const tabId = sender?.tab?.id ?? this.currentTabId;
+    if (playbackState.progress && typeof playbackState.progress === 'object') {
+      this.lastProgress = playbackState.progress as Record<string, unknown>;
+    }
+    if (state === 'stopped' || state === 'completed') {
+      this.lastProgress = null;
+    }
     
     debugLog('[Context-Menu-Debug] Received TTS state change:', state, 'playbackState:', playbackState);
     
@@ -1000,12 +1768,22 @@ class TTSManager {
         break;
         
       case 'ended':
+        // One sentence finished and the next one follows; 'completed' marks the end of the text
+        return { success: true };
+
+      case 'completed':
       case 'stopped':
         this.isActive = false;
         this.isPaused = false;
         this.currentTabId = null;
         this.clearStopTimeout();
         debugLog('[Context-Menu-Debug] TTS stopped - isActive:', this.isActive);
+
+        if (state === 'completed' && this.readingQueue.isActive() && sender?.tab?.id === this.readingQueue.getTabId()) {
+          this.advanceQueue().catch(error => {
+            console.error('Error advancing reading queue:', error);
+          });
+        }
         break;
         
       case 'paused':
@@ -1033,8 +1811,8 @@ class TTSManager {
       this.contextMenuManager.updateMenusForTTSState(state, playbackState);
     }
     
-    // Broadcast state change to interested parties (popup, etc.)
-    this.broadcastStateChange(state, playbackState);
+    // Broadcast state change to interested parties (popup, the page's mini player)
+    this.broadcastStateChange(state, playbackState, tabId);
     
     return { success: true };
   }
@@ -1052,14 +1830,23 @@ class TTSManager {
     return { success: true };
   }
 
-  private broadcastStateChange(state: string, playbackState: Record<string, unknown>): void {
-    // Send to popup if open
-    chrome.runtime.sendMessage({
+  private broadcastStateChange(state: string, playbackState: Record<string, unknown>, tabId: number | null = this.currentTabId): void {
+    const message = {
       type: MessageType.TTS_STATE_CHANGED,
       payload: { state, playbackState }
-    }).catch(() => {
+    };
+
+    // Send to popup if open
+    chrome.runtime.sendMessage(message).catch(() => {
       // Popup may not be open, ignore error
     });
+
+    // And to the page being read, for its mini player
+    if (tabId) {
+      chrome.tabs.sendMessage(tabId, message).catch(() => {
+        // The page may be reloading or have no content script
+      });
+    }
   }
 
   private showErrorNotification(errorData: Record<string, unknown>): void {
@@ -1086,24 +1873,33 @@ class TTSManager {
 
   // Tab change handlers
   private handleTabChange(activeInfo: chrome.tabs.TabActiveInfo) {
-    // Stop TTS when switching tabs
-    if (this.isActive && this.currentTabId !== activeInfo.tabId) {
+    // Stop TTS when switching tabs, unless the reading queue is playing across tabs or playback is hosted
+    if (this.isActive && this.currentTabId !== activeInfo.tabId && !this.readingQueue.isActive() && !this.hostedEngine) {
       this.stopTTS({ source: 'navigation' });
     }
   }
 
   private handleTabUpdate(tabId: number, changeInfo: chrome.tabs.TabChangeInfo, _tab: chrome.tabs.Tab) {
-    // Stop TTS when page reloads or navigates
-    if (changeInfo.status === 'loading' && this.currentTabId === tabId) {
+    // Stop TTS when page reloads or navigates; hosted playback doesn't depend on the page
+    if (changeInfo.status === 'loading' && this.currentTabId === tabId && !this.hostedEngine) {
       this.stopTTS({ source: 'navigation' });
     }
   }
 
   private handleTabRemoved(tabId: number, _removeInfo: chrome.tabs.TabRemoveInfo) {
-    // Clean up if the tab with active TTS is closed
+    // Clean up if the tab with active TTS is closed; hosted playback just has no tab to report to
     if (this.currentTabId === tabId) {
-      this.forceCleanup();
+      if (this.hostedEngine) {
+        this.currentTabId = null;
+      } else {
+        this.forceCleanup();
+      }
     }
+    this.readingQueue.whenReady().then(() => {
+      if (this.readingQueue.getTabId() === tabId) {
+        return this.readingQueue.stop();
+      }
+    });
   }
 
   // Public API methods
@@ -1113,11 +1909,64 @@ class TTSManager {
       isPaused: this.isPaused,
       currentTabId: this.currentTabId,
       forceStopAttempts: this.forceStopAttempts,
-      hasTimeout: this.stopTimeout !== null
+      hasTimeout: this.stopTimeout !== null,
+      progress: this.lastProgress
     };
   }
 }
 
+// Browser-wide shortcuts declared under "commands" in the manifest; Chrome delivers them wherever focus is
+class CommandManager {
+  constructor(private readonly ttsManager: TTSManager, private readonly selectionManager: SelectionManager) {
+    if (chrome.commands?.onCommand) {
+      chrome.commands.onCommand.addListener((command, tab) => {
+        this.handleCommand(command, tab).catch(error => debugLog('Error handling command:', command, error));
+      });
+    }
+  }
+
+  private async handleCommand(command: string, tab?: chrome.tabs.Tab): Promise<void> {
+    const action = COMMAND_ACTIONS[command];
+    debugLog('Keyboard command:', command, 'tab:', tab?.id);
+
+    switch (action) {
+      case 'readSelection':
+      case 'readPage': {
+        const tabId = tab?.id ?? (await chrome.tabs.query({ active: true, currentWindow: true }))[0]?.id;
+        if (!tabId) return;
+
+        let payload: Record<string, unknown> = action === 'readPage' ? { fullPage: true } : {};
+        // A selection in a cross-origin frame is fetched from that frame and read by the page
+        const frameId = action === 'readSelection' ? this.selectionManager.getSelectionFrameId(tabId) : 0;
+        if (frameId !== 0) {
+          const selection = await chrome.tabs.sendMessage(tabId, { type: MessageType.GET_SELECTION }, { frameId });
+          if (selection?.text) {
+            payload = { text: selection.text };
+          }
+        }
+        await chrome.tabs.sendMessage(tabId, { type: MessageType.SPEAK_SELECTION, payload }, { frameId: 0 });
+        break;
+      }
+      case 'togglePause':
+        await this.ttsManager.togglePause({ source: 'keyboard' });
+        break;
+      case 'stop':
+        await this.ttsManager.stopTTS({ source: 'keyboard' });
+        break;
+      case 'previousSentence':
+      case 'nextSentence':
+        await this.ttsManager.seekTTS({
+          unit: 'sentence',
+          direction: action === 'nextSentence' ? 'next' : 'previous',
+          source: 'keyboard'
+        });
+        break;
+      default:
+        debugLog('Unknown command:', command);
+    }
+  }
+}
+
 // Initialize selection manager and context menu manager with error handling
 let selectionManager: SelectionManager;
 let contextMenuManager: ContextMenuManager;
@@ -1134,6 +1983,7 @@ try {
   selectionManager = new SelectionManager();
   contextMenuManager = new ContextMenuManager(selectionManager, voiceManager);
   ttsManager = new TTSManager(voiceManager);
+  new CommandManager(ttsManager, selectionManager);
   
   // Link the managers for bi-directional communication
   selectionManager.setContextMenuManager(contextMenuManager);
@@ -1185,8 +2035,12 @@ chrome.runtime.onMessage.addListener(
     if (ttsManager) {
       try {
         if ([MessageType.START_TTS, MessageType.STOP_TTS, MessageType.FORCE_STOP_TTS, MessageType.PAUSE_TTS, 
-             MessageType.RESUME_TTS, MessageType.TOGGLE_PAUSE_TTS, MessageType.TTS_STATE_CHANGED, MessageType.TTS_ERROR, MessageType.GET_TTS_STATE,
-             MessageType.GET_VOICE_DATA, MessageType.SELECT_VOICE, MessageType.PREVIEW_VOICE, MessageType.UPDATE_VOICE_DATA].includes(message.type)) {
+             MessageType.RESUME_TTS, MessageType.TOGGLE_PAUSE_TTS, MessageType.SEEK_TTS, MessageType.SET_RATE_TTS, MessageType.SPEAK_IN_BACKGROUND, MessageType.OFFSCREEN_EVENT, MessageType.TTS_STATE_CHANGED, MessageType.TTS_ERROR, MessageType.GET_TTS_STATE,
+             MessageType.GET_SPEECH_SETTINGS,
+             MessageType.GET_VOICE_DATA, MessageType.SELECT_VOICE, MessageType.PREVIEW_VOICE, MessageType.UPDATE_VOICE_DATA,
+             MessageType.SET_LANGUAGE_VOICE, MessageType.SET_FAVORITE_VOICES,
+             MessageType.QUEUE_GET, MessageType.QUEUE_ADD, MessageType.QUEUE_REMOVE, MessageType.QUEUE_MOVE, MessageType.QUEUE_PLAY,
+             MessageType.QUEUE_SKIP, MessageType.QUEUE_CLEAR].includes(message.type)) {
           ttsManager.handleMessage(message, sender)
             .then(response => sendResponse({ success: true, data: response }))
             .catch(error => sendResponse({ success: false, error: error.message }));
@@ -1222,6 +2076,14 @@ chrome.runtime.onMessage.addListener(
         sendResponse({ success: true });
         return true;
 
+      case MessageType.OPEN_PDF_READER:
+        handleOpenPdfReader(message.payload, sender, sendResponse);
+        return true;
+
+      case MessageType.EXPORT_AUDIO:
+        handleExportAudio(message.payload, sendResponse);
+        return true;
+
       default:
         sendResponse({ success: false, error: 'Unknown message type' });
         return false;
@@ -1249,6 +2111,81 @@ try {
 }
 
 // Handler functions
+// Content scripts can't navigate to extension pages, so PDFs are reopened in the reader from here
+async function handleOpenPdfReader(
+  payload: Record<string, unknown> | undefined,
+  sender: chrome.runtime.MessageSender,
+  sendResponse: (response: MessageResponse) => void
+) {
+  try {
+    const url = typeof payload?.url === 'string' ? payload.url : sender.tab?.url;
+    if (!url || sender.tab?.id === undefined) {
+      throw new Error('No PDF to open');
+    }
+    // Access can be withdrawn from the extensions page after the option was turned on
+    if (!(await chrome.permissions.contains({ origins: PDF_READER_ORIGINS }))) {
+      throw new Error('The PDF reader has no access to this site');
+    }
+
+    await chrome.tabs.update(sender.tab.id, { url: getPdfReaderUrl(url) });
+    sendResponse({ success: true });
+  } catch (error) {
+    sendResponse({ success: false, error: (error as Error).message });
+  }
+}
+
+// The popup exports the selection when there is one and the page otherwise
+async function handleExportAudio(
+  payload: Record<string, unknown> | undefined,
+  sendResponse: (response: MessageResponse) => void
+) {
+  try {
+    const tabId = typeof payload?.tabId === 'number' ? payload.tabId : undefined;
+    if (tabId === undefined) {
+      throw new Error('No tab to export');
+    }
+
+    const tab = await chrome.tabs.get(tabId);
+    await openAudioExport(tab, undefined, selectionManager.getSelectionFrameId(tabId));
+    sendResponse({ success: true });
+  } catch (error) {
+    sendResponse({ success: false, error: (error as Error).message });
+  }
+}
+
+// Collects the text from the tab and opens the export page next to it; the page does the rendering
+async function openAudioExport(tab: chrome.tabs.Tab, scope: ExportScope | undefined, frameId: number) {
+  if (!(await new RemoteEngineStore().get())) {
+    throw new Error('Exporting needs a speech server; set one up under "Speech Server" in the options');
+  }
+
+  const content = await chrome.tabs.sendMessage(tab.id!, { type: MessageType.GET_EXPORT_CONTENT, payload: { scope } }, { frameId })
+    .catch((error) => {
+      debugLog('Could not get export content:', error);
+      return null;
+    });
+  if (!content?.success) {
+    throw new Error('Reload the page to export it as audio');
+  }
+
+  const blocks = (content.blocks || []) as ExportBlock[];
+  if (blocks.length === 0) {
+    throw new Error(content.scope === 'selection' ? 'No text selected' : 'There is no text to export on this page');
+  }
+
+  const job = await new AudioExportStore().save({
+    title: tab.title || content.title || '',
+    url: tab.url || content.url,
+    scope: content.scope,
+    blocks
+  });
+  await chrome.tabs.create({
+    url: `${chrome.runtime.getURL('audio-export.html')}?job=${encodeURIComponent(job.id)}`,
+    index: tab.index + 1,
+    openerTabId: tab.id
+  });
+}
+
 async function handleGetState(sendResponse: (response: MessageResponse) => void) {
   try {
     const state = await chrome.storage.sync.get(['theme', 'fontSize']);
@@ -0,0 +1,390 @@
+/**
+ * Audio export - rendering a selection or page to a file for listening offline
+ * Live readings play through the speakers and leave nothing behind, so exports go through an
+ * engine that can hand over the audio it synthesizes (AudioRenderingEngine). Blocks are prepared
+ * the way readings are, rendered sentence by sentence with pauses between paragraphs, and encoded
+ * as WAV with a chapter marker (cue point and label) at every heading.
+ * The speech server (RemoteTTSEngine) is the only engine that renders audio so far; system voices
+ * can't be recorded, so without a server set up there is no export.
+ */
+
+import { AudioRenderingEngine, EngineSpeakOptions, RenderedAudio, TTSEngine, TTSEngineId, canRenderAudio } from './tts-engine';
+import { PronunciationLexicon } from './pronunciation-lexicon';
+import { preprocessForSpeech, splitSentences } from './speech-synthesizer';
+import { normalizeForSpeech, DisabledNormalizations } from './text-normalizer';
+
+export type ExportScope = 'selection' | 'page';
+
+export interface ExportBlock {
+  text: string;
+  isHeading: boolean;
+  lang?: string;
+}
+
+// What the export page renders; saved by the background when an export is requested
+export interface AudioExportJob {
+  id: string;
+  title: string;
+  url: string;
+  scope: ExportScope;
+  blocks: ExportBlock[];
+  createdAt: number;
+}
+
+export interface Chapter {
+  title: string;
+  // Seconds from the start of the audio
+  startTime: number;
+}
+
+export interface ExportedAudio extends RenderedAudio {
+  chapters: Chapter[];
+}
+
+export interface RenderExportOptions {
+  speak: EngineSpeakOptions;
+  lexicon?: PronunciationLexicon | null;
+  hostname?: string;
+  // Say numbers, dates and units the way the language reads them (on unless false)
+  normalizeText?: boolean;
+  disabledNormalizations?: DisabledNormalizations;
+  // Name of the chapter holding whatever comes before the first heading
+  title?: string;
+}
+
+export type ExportProgressListener = (rendered: number, total: number) => void;
+
+type AudioEngineFactory = () => TTSEngine;
+
+interface Utterance {
+  text: string;
+  lang?: string;
+  // Heading text when this utterance starts a chapter
+  chapter?: string;
+  // Silence before the utterance, in seconds
+  pauseBefore: number;
+}
+
+const STORAGE_KEY = 'audioExportJobs';
+// Recent jobs are kept so reloading the export page renders the same text again
+const MAX_JOBS = 5;
+const SENTENCE_PAUSE = 0.2;
+const PARAGRAPH_PAUSE = 0.5;
+const HEADING_PAUSE = 1.0;
+const MAX_FILE_NAME_LENGTH = 80;
+
+// Engines able to render audio, by the id users pick them with in the options
+const audioEngines = new Map<TTSEngineId, AudioEngineFactory>();
+
+export function registerAudioEngine(id: TTSEngineId, factory: AudioEngineFactory): void {
+  audioEngines.set(id, factory);
+}
+
+// The preferred engine when it can render audio, otherwise the first available one that can;
+// engines that only play through the speakers are passed over
+export function createAudioEngine(preferred?: TTSEngineId): AudioRenderingEngine | null {
+  const factories = [
+    ...(preferred && audioEngines.has(preferred) ? [audioEngines.get(preferred)!] : []),
+    ...audioEngines.values()
+  ];
+  for (const factory of factories) {
+    const engine = factory();
+    if (canRenderAudio(engine) && engine.isAvailable()) return engine;
+  }
+  return null;
+}
+
+function toUtterances(blocks: ExportBlock[], options: RenderExportOptions): Utterance[] {
+  const lexicon = options.lexicon || null;
+  const utterances: Utterance[] = [];
+  let previousWasHeading = false;
+
+  blocks.forEach((block) => {
+    const prepared = preprocessForSpeech(block.text, lexicon, { lang: block.lang, hostname: options.hostname });
+    const sentences = splitSentences(prepared)
+      .map(sentence => options.normalizeText === false ? sentence : normalizeForSpeech(sentence, block.lang, options.disabledNormalizations))
+      .filter(sentence => sentence.trim().length > 0);
+    if (sentences.length === 0) return;
+
+    sentences.forEach((text, index) => {
+      utterances.push({
+        text,
+        lang: block.lang,
+        chapter: block.isHeading && index === 0 ? block.text.replace(/\s+/g, ' ').trim() : undefined,
+        pauseBefore: index > 0 ? SENTENCE_PAUSE : previousWasHeading ? HEADING_PAUSE : PARAGRAPH_PAUSE
+      });
+    });
+    previousWasHeading = block.isHeading;
+  });
+
+  return utterances;
+}
+
+// Linear interpolation is plenty for speech between the usual 16-48 kHz rates
+export function resample(samples: Float32Array, fromRate: number, toRate: number): Float32Array {
+  if (fromRate === toRate || samples.length === 0) return samples;
+
+  const length = Math.max(1, Math.round(samples.length * toRate / fromRate));
+  const result = new Float32Array(length);
+  const step = (samples.length - 1) / Math.max(length - 1, 1);
+  for (let i = 0; i < length; i++) {
+    const position = i * step;
+    const index = Math.floor(position);
+    const next = samples[Math.min(index + 1, samples.length - 1)];
+    result[i] = samples[index] + (next - samples[index]) * (position - index);
+  }
+  return result;
+}
+
+/**
+ * Renders `blocks` one sentence at a time and joins the pieces, with silence between sentences,
+ * paragraphs and after headings. The first piece's sample rate is the rate of the whole file.
+ */
+export async function renderExport(
+  engine: Pick<AudioRenderingEngine, 'renderAudio'>,
+  blocks: ExportBlock[],
+  options: RenderExportOptions,
+  onProgress?: ExportProgressListener,
+  signal?: AbortSignal
+): Promise<ExportedAudio> {
+  const utterances = toUtterances(blocks, options);
+  const pieces: Float32Array[] = [];
+  const chapters: Chapter[] = [];
+  let sampleRate = 0;
+  let length = 0;
+
+  for (let index = 0; index < utterances.length; index++) {
+    if (signal?.aborted) {
+      throw new Error('Export cancelled');
+    }
+
+    const utterance = utterances[index];
+    const rendered = await engine.renderAudio(utterance.text, { ...options.speak, lang: utterance.lang || options.speak.lang }, signal);
+    sampleRate = sampleRate || rendered.sampleRate;
+
+    // Nothing is put before the first piece, so the file starts with speech
+    if (length > 0) {
+      const silence = new Float32Array(Math.round(utterance.pauseBefore * sampleRate));
+      pieces.push(silence);
+      length += silence.length;
+    }
+    if (utterance.chapter) {
+      chapters.push({ title: utterance.chapter, startTime: length / sampleRate });
+    }
+
+    const samples = resample(rendered.samples, rendered.sampleRate, sampleRate);
+    pieces.push(samples);
+    length += samples.length;
+    onProgress?.(index + 1, utterances.length);
+  }
+
+  if (length === 0) {
+    throw new Error('There is no text to export');
+  }
+
+  // Text before the first heading gets a chapter of its own, so chapters cover the whole file
+  if (chapters.length > 0 && chapters[0].startTime > 0) {
+    chapters.unshift({ title: options.title || 'Introduction', startTime: 0 });
+  }
+
+  const samples = new Float32Array(length);
+  pieces.reduce((offset, piece) => {
+    samples.set(piece, offset);
+    return offset + piece.length;
+  }, 0);
+
+  return { sampleRate, samples, chapters };
+}
+
+function writeString(view: DataView, offset: number, value: string) {
+  for (let i = 0; i < value.length; i++) {
+    view.setUint8(offset + i, value.charCodeAt(i));
+  }
+}
+
+/**
+ * 16-bit mono PCM WAV. Chapters are written as a "cue " chunk with one cue point each and a
+ * "LIST"/"adtl" chunk labelling them, which audio editors and many players show as markers.
+ */
+export function encodeWav(audio: RenderedAudio, chapters: Chapter[] = []): ArrayBuffer {
+  const encoder = new TextEncoder();
+  const labels = chapters.map(chapter => encoder.encode(chapter.title));
+  const dataSize = audio.samples.length * 2;
+  const cueSize = chapters.length > 0 ? 8 + 4 + chapters.length * 24 : 0;
+  // "labl" sub-chunks hold a cue id and a NUL-terminated text, padded to an even size
+  const labelSizes = labels.map(label => 4 + label.length + 1);
+  const listSize = chapters.length > 0
+    ? 8 + 4 + labelSizes.reduce((total, size) => total + 8 + size + (size % 2), 0)
+    : 0;
+
+  const buffer = new ArrayBuffer(44 + dataSize + cueSize + listSize);
+  const view = new DataView(buffer);
+
+  writeString(view, 0, 'RIFF');
+  view.setUint32(4, buffer.byteLength - 8, true);
+  writeString(view, 8, 'WAVE');
+
+  writeString(view, 12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, audio.sampleRate, true);
+  view.setUint32(28, audio.sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+
+  writeString(view, 36, 'data');
+  view.setUint32(40, dataSize, true);
+  let offset = 44;
+  audio.samples.forEach((sample) => {
+    const clamped = Math.max(-1, Math.min(1, sample));
+    view.setInt16(offset, clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff, true);
+    offset += 2;
+  });
+
+  if (chapters.length === 0) return buffer;
+
+  writeString(view, offset, 'cue ');
+  view.setUint32(offset + 4, cueSize - 8, true);
+  view.setUint32(offset + 8, chapters.length, true);
+  offset += 12;
+  chapters.forEach((chapter, index) => {
+    const position = Math.round(chapter.startTime * audio.sampleRate);
+    view.setUint32(offset, index + 1, true);
+    view.setUint32(offset + 4, position, true);
+    writeString(view, offset + 8, 'data');
+    view.setUint32(offset + 12, 0, true);
+    view.setUint32(offset + 16, 0, true);
+    view.setUint32(offset + 20, position, true);
+    offset += 24;
+  });
+
+  writeString(view, offset, 'LIST');
+  view.setUint32(offset + 4, listSize - 8, true);
+  writeString(view, offset + 8, 'adtl');
+  offset += 12;
+  labels.forEach((label, index) => {
+    writeString(view, offset, 'labl');
+    view.setUint32(offset + 4, labelSizes[index], true);
+    view.setUint32(offset + 8, index + 1, true);
+    new Uint8Array(buffer, offset + 12, label.length).set(label);
+    // The NUL terminator and padding are already zero
+    offset += 8 + labelSizes[index] + (labelSizes[index] % 2);
+  });
+
+  return buffer;
+}
+
+function readString(view: DataView, offset: number, length: number): string {
+  let value = '';
+  for (let i = 0; i < length; i++) {
+    value += String.fromCharCode(view.getUint8(offset + i));
+  }
+  return value;
+}
+
+/**
+ * Reads PCM (8/16/24/32-bit) or 32-bit float WAV data, mixing channels down to mono.
+ * Servers that stream WAV often leave the data size unset, so data runs to the end of the file then.
+ */
+export function decodeWav(buffer: ArrayBuffer): RenderedAudio {
+  const view = new DataView(buffer);
+  if (buffer.byteLength < 12 || readString(view, 0, 4) !== 'RIFF' || readString(view, 8, 4) !== 'WAVE') {
+    throw new Error('Not a WAV file');
+  }
+
+  let format = 0;
+  let channels = 1;
+  let sampleRate = 0;
+  let bitsPerSample = 16;
+  let offset = 12;
+  while (offset + 8 <= buffer.byteLength) {
+    const id = readString(view, offset, 4);
+    const size = view.getUint32(offset + 4, true);
+
+    if (id === 'fmt ') {
+      format = view.getUint16(offset + 8, true);
+      channels = view.getUint16(offset + 10, true);
+      sampleRate = view.getUint32(offset + 12, true);
+      bitsPerSample = view.getUint16(offset + 22, true);
+      // WAVE_FORMAT_EXTENSIBLE keeps the actual format at the start of its sub-format GUID
+      if (format === 0xfffe && size >= 26) {
+        format = view.getUint16(offset + 32, true);
+      }
+    } else if (id === 'data') {
+      if (!sampleRate || (format !== 1 && format !== 3)) {
+        throw new Error('Unsupported WAV format');
+      }
+      const bytes = bitsPerSample / 8;
+      const end = Math.min(offset + 8 + size, buffer.byteLength);
+      const frames = Math.floor((end - offset - 8) / (bytes * channels));
+      const samples = new Float32Array(frames);
+
+      for (let frame = 0; frame < frames; frame++) {
+        let sum = 0;
+        for (let channel = 0; channel < channels; channel++) {
+          const position = offset + 8 + (frame * channels + channel) * bytes;
+          sum += readSample(view, position, format, bitsPerSample);
+        }
+        samples[frame] = sum / channels;
+      }
+      return { sampleRate, samples };
+    }
+    offset += 8 + size + (size % 2);
+  }
+
+  throw new Error('WAV file has no audio data');
+}
+
+function readSample(view: DataView, position: number, format: number, bits: number): number {
+  if (format === 3) {
+    return bits === 64 ? view.getFloat64(position, true) : view.getFloat32(position, true);
+  }
+  switch (bits) {
+    case 8:
+      return (view.getUint8(position) - 128) / 128;
+    case 24: {
+      const value = view.getUint8(position) | (view.getUint8(position + 1) << 8) | (view.getInt8(position + 2) << 16);
+      return value / 0x800000;
+    }
+    case 32:
+      return view.getInt32(position, true) / 0x80000000;
+    default:
+      return view.getInt16(position, true) / 0x8000;
+  }
+}
+
+// A file name from the page title, without characters file systems reject
+export function getExportFileName(title: string, extension: string): string {
+  const name = title
+    .replace(/[\\/:*?"<>|]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, MAX_FILE_NAME_LENGTH)
+    .trim();
+  return `${name || 'Reading'}.${extension}`;
+}
+
+export class AudioExportStore {
+  async get(id: string): Promise<AudioExportJob | null> {
+    const jobs = await this.load();
+    return jobs.find(job => job.id === id) || null;
+  }
+
+  async save(job: Omit<AudioExportJob, 'id' | 'createdAt'>): Promise<AudioExportJob> {
+    const saved: AudioExportJob = {
+      ...job,
+      id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+      createdAt: Date.now()
+    };
+    const jobs = await this.load();
+    await chrome.storage.local.set({ [STORAGE_KEY]: [saved, ...jobs].slice(0, MAX_JOBS) });
+    return saved;
+  }
+
+  private async load(): Promise<AudioExportJob[]> {
+    const result = await chrome.storage.local.get(STORAGE_KEY);
+    const jobs = result[STORAGE_KEY];
+    return Array.isArray(jobs) ? jobs : [];
+  }
+}
@@ -0,0 +1,140 @@
+/**
+ * ChromeTTSEngine - TTSEngine backed by the chrome.tts extension API
+ * Runs in the background service worker, so it keeps speaking when the page's content script
+ * goes away and can read on pages where content scripts are not allowed (chrome:// pages, the Web Store).
+ */
+
+import { TTSEngine, EngineVoice, EngineSpeakOptions, EngineEventListener } from './tts-engine';
+
+// chrome.tts.pause/resume exist but are missing from @types/chrome
+type ChromeTTSApi = typeof chrome.tts & {
+  pause(): void;
+  resume(): void;
+};
+
+export class ChromeTTSEngine implements TTSEngine {
+  readonly id = 'chrome-tts' as const;
+  private voices: EngineVoice[] = [];
+  private speaking = false;
+  private paused = false;
+  // Each utterance gets an id so a replaced utterance's late events don't touch the current state
+  private utteranceId = 0;
+
+  private get api(): ChromeTTSApi {
+    return chrome.tts as ChromeTTSApi;
+  }
+
+  isAvailable(): boolean {
+    return typeof chrome !== 'undefined' && !!chrome.tts;
+  }
+
+  getVoices(): Promise<EngineVoice[]> {
+    return new Promise((resolve) => {
+      try {
+        chrome.tts.getVoices((voices) => {
+          this.voices = (voices || [])
+            .filter(voice => voice.voiceName)
+            .map((voice, index) => ({
+              name: voice.voiceName as string,
+              lang: voice.lang || '',
+              localService: !voice.remote,
+              default: index === 0
+            }));
+          resolve(this.voices);
+        });
+      } catch (error) {
+        console.warn('Could not load chrome.tts voices:', error);
+        resolve([]);
+      }
+    });
+  }
+
+  speak(text: string, options: EngineSpeakOptions, onEvent: EngineEventListener): void {
+    const id = ++this.utteranceId;
+    // Web Speech voice names that chrome.tts doesn't know would make the utterance fail
+    const voiceName = this.voices.some(voice => voice.name === options.voiceName) ? options.voiceName : undefined;
+
+    this.speaking = true;
+    this.paused = false;
+
+    chrome.tts.speak(text, {
+      voiceName,
+      lang: voiceName ? undefined : options.lang,
+      rate: options.rate,
+      pitch: options.pitch,
+      volume: options.volume,
+      enqueue: false,
+      onEvent: (event) => {
+        const isCurrent = id === this.utteranceId;
+
+        switch (event.type) {
+          case 'start':
+            onEvent({ type: 'start' });
+            break;
+          case 'word':
+          case 'sentence':
+            onEvent({
+              type: 'boundary',
+              name: event.type,
+              charIndex: event.charIndex || 0,
+              charLength: event.length
+            });
+            break;
+          case 'pause':
+            onEvent({ type: 'pause' });
+            break;
+          case 'resume':
+            onEvent({ type: 'resume' });
+            break;
+          case 'end':
+            if (isCurrent) this.speaking = false;
+            onEvent({ type: 'end' });
+            break;
+          case 'interrupted':
+          case 'cancelled':
+            if (isCurrent) this.speaking = false;
+            onEvent({ type: 'interrupted' });
+            break;
+          case 'error':
+            if (isCurrent) this.speaking = false;
+            onEvent({ type: 'error', error: event.errorMessage || 'unknown' });
+            break;
+        }
+      }
+    }, () => {
+      if (chrome.runtime.lastError) {
+        if (id === this.utteranceId) this.speaking = false;
+        onEvent({ type: 'error', error: chrome.runtime.lastError.message || 'unknown' });
+      }
+    });
+  }
+
+  pause(): void {
+    this.api.pause();
+    this.paused = true;
+  }
+
+  resume(): void {
+    this.api.resume();
+    this.paused = false;
+  }
+
+  stop(): void {
+    this.utteranceId++;
+    this.speaking = false;
+    chrome.tts.stop();
+    if (this.paused) {
+      // Don't leave the engine paused for the next utterance
+      this.api.resume();
+      this.paused = false;
+    }
+  }
+
+  isSpeaking(): boolean {
+    return this.speaking;
+  }
+
+  isPaused(): boolean {
+    return this.paused;
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * Code reading - how source code on a page is spoken
+ * Read as prose, code comes out symbol by symbol, so code blocks are skipped, announced ("Code block, 12 lines")
+ * or verbalized: identifiers are split into words, operators and brackets are named, and every line is a sentence.
+ */
+
+export type CodeReadingPolicy = 'skip' | 'announce' | 'verbalize';
+
+export const DEFAULT_CODE_READING: CodeReadingPolicy = 'announce';
+
+export function isCodeReadingPolicy(value: unknown): value is CodeReadingPolicy {
+  return value === 'skip' || value === 'announce' || value === 'verbalize';
+}
+
+// Longer symbols first, so "===" isn't read as three "equals"; ";" is left out and only ends a line
+const SYMBOL_WORDS: [string, string][] = [
+  ['===', 'strictly equals'], ['!==', 'strictly not equals'], ['...', 'spread'], ['**=', 'power equals'],
+  ['=>', 'arrow'], ['->', 'arrow'], ['==', 'equals'], ['!=', 'not equals'], ['<=', 'less than or equal'], ['>=', 'greater than or equal'],
+  ['&&', 'and'], ['||', 'or'], ['??', 'or else'], ['++', 'plus plus'], ['--', 'minus minus'],
+  ['+=', 'plus equals'], ['-=', 'minus equals'], ['*=', 'times equals'], ['/=', 'divide equals'],
+  ['**', 'to the power of'], ['<<', 'shift left'], ['>>', 'shift right'], ['::', 'double colon'],
+  ['//', 'comment'], ['/*', 'comment'], ['*/', 'end comment'],
+  ['=', 'equals'], ['+', 'plus'], ['-', 'minus'], ['*', 'times'], ['/', 'slash'], ['%', 'percent'],
+  ['<', 'less than'], ['>', 'greater than'], ['!', 'not'], ['&', 'ampersand'], ['|', 'pipe'], ['^', 'caret'], ['~', 'tilde'],
+  ['?', 'question mark'], [':', 'colon'], ['.', 'dot'], ['#', 'hash'], ['@', 'at'], ['$', 'dollar'], ['\\', 'backslash'],
+  ['(', 'open paren'], [')', 'close paren'], ['[', 'open bracket'], [']', 'close bracket'], ['{', 'open brace'], ['}', 'close brace'],
+  ['"', 'quote'], ['\'', 'quote'], ['`', 'backtick']
+];
+
+const SYMBOLS = new Map(SYMBOL_WORDS);
+
+const TOKEN_PATTERN = new RegExp(
+  `([A-Za-z_][\\w$]*)|(\\d+(?:\\.\\d+)?)|(,)|(${SYMBOL_WORDS.map(([symbol]) => symbol.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|')})`,
+  'g'
+);
+
+// "getUserName" -> "get user name", "HTTPServer" -> "HTTP server", "MAX_RETRY_COUNT" -> "MAX RETRY COUNT"
+export function splitIdentifier(identifier: string): string {
+  return identifier
+    .replace(/([a-z\d])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .split(/[_\s]+/)
+    .filter(Boolean)
+    // Acronyms stay in capitals so they are spelled out
+    .map(word => (/^[A-Z][a-z]/.test(word) ? word.toLowerCase() : word))
+    .join(' ');
+}
+
+// One line of code as words, without final punctuation; unknown characters are dropped
+export function verbalizeCodeLine(line: string): string {
+  const words: string[] = [];
+  for (const [, identifier, number, comma, symbol] of line.matchAll(TOKEN_PATTERN)) {
+    if (identifier) {
+      words.push(splitIdentifier(identifier));
+    } else if (number) {
+      words.push(number);
+    } else if (comma && words.length > 0) {
+      words[words.length - 1] += ',';
+    } else if (symbol) {
+      words.push(SYMBOLS.get(symbol)!);
+    }
+  }
+  return words.filter(Boolean).join(' ');
+}
+
+// Each non-empty line becomes a sentence of its own
+export function verbalizeCode(code: string): string {
+  return code
+    .split('\n')
+    .map(verbalizeCodeLine)
+    .filter(line => line.length > 0)
+    .map(line => `${line.replace(/,$/, '')}.`)
+    .join(' ');
+}
+
+export function describeCodeBlock(code: string): string {
+  const lines = code.split('\n').filter(line => line.trim().length > 0).length;
+  return `Code block, ${lines} ${lines === 1 ? 'line' : 'lines'}.`;
+}
+
+// What is spoken for a code block under `policy`, or null when it is skipped
+export function getSpokenCode(code: string, policy: CodeReadingPolicy): string | null {
+  if (!code.trim()) return null;
+
+  switch (policy) {
+    case 'skip':
+      return null;
+    case 'announce':
+      return describeCodeBlock(code);
+    case 'verbalize':
+      return verbalizeCode(code) || null;
+  }
+}
@@ -0,0 +1,31 @@
+/**
+ * Image reading - how images and figure captions on a page are spoken
+ * Images are announced by their text alternative ("Image: A map of the route.") and figure captions read as
+ * captions, or, with descriptions, followed by their longer aria-describedby text; decorative images stay silent.
+ */
+
+export type ImageReadingPolicy = 'skip' | 'alt' | 'describe';
+
+export const DEFAULT_IMAGE_READING: ImageReadingPolicy = 'alt';
+
+export function isImageReadingPolicy(value: unknown): value is ImageReadingPolicy {
+  return value === 'skip' || value === 'alt' || value === 'describe';
+}
+
+function toSentence(text: string): string {
+  const trimmed = text.replace(/\s+/g, ' ').trim();
+  return /[.!?]$/.test(trimmed) ? trimmed : `${trimmed.replace(/[,;:]+$/, '')}.`;
+}
+
+// What is spoken for an image named `name` under `policy`, or null when it is skipped
+export function getSpokenImage(name: string, description: string, policy: ImageReadingPolicy): string | null {
+  if (policy === 'skip' || !name.trim()) return null;
+
+  const spoken = `Image: ${toSentence(name)}`;
+  return policy === 'describe' && description.trim() ? `${spoken} ${toSentence(description)}` : spoken;
+}
+
+export function getSpokenCaption(caption: string, policy: ImageReadingPolicy): string | null {
+  if (policy === 'skip' || !caption.trim()) return null;
+  return `Caption: ${toSentence(caption)}`;
+}
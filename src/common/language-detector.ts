@@ -0,0 +1,101 @@
+/**
+ * Language detection for picking a voice per paragraph
+ * Scripts other than Latin give the language away directly; Latin text is compared against small built-in
+ * trigram profiles of the most common languages. Short or ambiguous text yields null, so callers can fall
+ * back to what the page declares.
+ */
+
+// The most frequent trigrams of each language, most frequent first ("_" marks a word boundary)
+const TRIGRAM_PROFILES: Record<string, string> = {
+  en: '_th the he_ and nd_ _an ing ng_ _of of_ _to to_ _in in_ ed_ ion tio ent is_ _is er_ re_ es_ on_ at_ hat tha _wh _a_ ere her for _fo or_ _be _co ly_ ter _ha ve_ e_t s_t d_t e_a _it ith wit _wi _yo you ou_ _we _ma _wa was _ar are _so _se _re ake _ab bou out',
+  es: '_de de_ os_ as_ _la la_ el_ _el es_ en_ _en que _qu ue_ _lo los _co ent ión ció aci _se se_ ado do_ a_d o_d e_l nte _y_ _a_ _un una _po por par _pa ra_ con _es est las a_l er_ _ha _su su_ más _má ier _pr pro ien _me _tr ar_ ía_ ido ida aqu quí _nu _pe _so',
+  fr: '_de de_ es_ _le le_ ent nt_ _la la_ les _et et_ re_ ion _qu que ue_ des e_d e_l _pa par _co on_ _un ne_ _po our ur_ ait men eme _en ans _da dan _à_ est _pr ous _ce _il s_d t_d ns_ _vo vou _no nou _su sur _pl plu eur _ma ais _sa _vi',
+  de: 'en_ er_ _de der die _di ie_ und _un nd_ ich sch ein _ei che ch_ cht _in in_ den _da das ung gen te_ ine ten _ge _zu zu_ ist _is st_ nde ber _ve ver _mi mit auf _au n_d n_s e_d _ih ihr hr_ _si sie _we _wi wir _ma ter sse ße_ _be _so eit _ha',
+  it: '_di di_ che _ch he_ la_ _la to_ re_ ell del _de ion one zio lla _co _il il_ per _pe ne_ no_ le_ ent _in ato a_d e_d o_d i_d _un are nte con _e_ _è_ gli _gl sta _ne nel ta_ _si _su sul ui_ _qu qui _pi più _tu _so _ma ri_',
+  pt: '_de de_ os_ _qu que ue_ do_ _do da_ _da ão_ ção açã _co em_ _em ent es_ _se ra_ as_ _a_ _e_ _o_ com _pa par ara não _nã o_d a_d nte men est dos _os ado _um uma te_ _pr _na na_ ões _ma mai ais se_ eu_ _ou ou_ nto lhe _te ela _ve _so ver',
+  nl: 'en_ _de de_ het _he et_ van _va an_ een _ee er_ n_d ijk _in in_ ver ing aar _da dat at_ oor _ge gen te_ sch _is is_ met _me nde ten zij cht _op op_ _ni nie _wa _zi _om om_ _le eer _ov ove ons _on _ik ik_ _je je_ _ze ze_ _wo ij_ _bi ee_'
+};
+
+// Writing systems used by (practically) one language; checked in order, so kana wins over shared Han characters
+const SCRIPT_LANGUAGES: [RegExp, string][] = [
+  [/[\u3040-\u30FF]/g, 'ja'],
+  [/[\uAC00-\uD7AF\u1100-\u11FF]/g, 'ko'],
+  [/[\u4E00-\u9FFF]/g, 'zh'],
+  [/[\u0370-\u03FF]/g, 'el'],
+  [/[\u0590-\u05FF]/g, 'he'],
+  [/[\u0600-\u06FF]/g, 'ar'],
+  [/[\u0900-\u097F]/g, 'hi'],
+  [/[\u0E00-\u0E7F]/g, 'th']
+];
+
+// Below this many letters a guess is little better than chance
+const MIN_LETTERS = 15;
+// The best language must beat the runner-up by this factor
+const MIN_MARGIN = 1.1;
+
+let profiles: Map<string, Map<string, number>> | null = null;
+
+// Trigram → weight, from 1 for the most frequent down to 1/n
+function getProfiles(): Map<string, Map<string, number>> {
+  if (!profiles) {
+    profiles = new Map(Object.entries(TRIGRAM_PROFILES).map(([lang, trigrams]) => {
+      const list = trigrams.split(' ');
+      return [lang, new Map(list.map((trigram, rank) => [trigram.replace(/_/g, ' '), (list.length - rank) / list.length]))];
+    }));
+  }
+  return profiles;
+}
+
+function detectScript(text: string, letterCount: number): string | null {
+  if (/[\u0400-\u04FF]/.test(text)) {
+    const cyrillic = text.match(/[\u0400-\u04FF]/g)?.length || 0;
+    if (cyrillic > letterCount / 2) {
+      return /[іїєґ]/i.test(text) ? 'uk' : 'ru';
+    }
+  }
+
+  for (const [pattern, lang] of SCRIPT_LANGUAGES) {
+    const count = text.match(pattern)?.length || 0;
+    // Kana mixed with kanji is still Japanese, so any kana is enough there
+    if (count > 0 && (lang === 'ja' || count > letterCount / 2)) {
+      return lang;
+    }
+  }
+  return null;
+}
+
+function getTrigrams(text: string): string[] {
+  const normalized = ` ${text.toLowerCase().replace(/[^\p{L}]+/gu, ' ').trim()} `;
+  const trigrams: string[] = [];
+  for (let i = 0; i < normalized.length - 2; i++) {
+    trigrams.push(normalized.slice(i, i + 3));
+  }
+  return trigrams;
+}
+
+// BCP 47 primary language ("en", "es", "ja") of `text`, or null when it can't be told reliably
+export function detectLanguage(text: string): string | null {
+  const letterCount = text.match(/\p{L}/gu)?.length || 0;
+  if (letterCount === 0) return null;
+
+  const byScript = detectScript(text, letterCount);
+  if (byScript) return byScript;
+  if (letterCount < MIN_LETTERS) return null;
+
+  const trigrams = getTrigrams(text);
+  const scores = Array.from(getProfiles(), ([lang, profile]) => ({
+    lang,
+    score: trigrams.reduce((sum, trigram) => sum + (profile.get(trigram) || 0), 0) / trigrams.length
+  })).sort((a, b) => b.score - a.score);
+
+  const [best, runnerUp] = scores;
+  if (best.score === 0 || best.score < runnerUp.score * MIN_MARGIN) {
+    return null;
+  }
+  return best.lang;
+}
+
+// "en" for "en-GB", "en_US" or "EN"
+export function getPrimaryLanguage(tag: string): string {
+  return tag.trim().toLowerCase().split(/[-_]/)[0];
+}
@@ -0,0 +1,40 @@
+/**
+ * PDF reader - opening PDFs in the extension's reader page
+ * Chrome's built-in viewer draws PDFs in a plugin the content script can't see into, so when the
+ * "Open PDFs in the reader" option is on, PDFs are reopened in pdf-viewer.html, which lays their
+ * text out as HTML and runs the content script on it. The reader's pages carry their page number,
+ * which is how readings there know which page they are on.
+ */
+
+// chrome.storage.sync key of the opt-in
+export const PDF_READER_SETTING = 'openPdfsInReader';
+// Fetching PDFs from any site needs host access, requested when the option is turned on
+export const PDF_READER_ORIGINS = ['<all_urls>'];
+// Marks a PDF URL the reader opened itself ("Open original"), so it isn't intercepted again
+export const ORIGINAL_PDF_HASH = 'tts-original';
+export const PAGE_NUMBER_ATTRIBUTE = 'data-page-number';
+
+const READER_PAGE = 'pdf-viewer.html';
+
+export function getPdfReaderUrl(fileUrl: string): string {
+  return `${chrome.runtime.getURL(READER_PAGE)}?file=${encodeURIComponent(fileUrl)}`;
+}
+
+// The PDF shown by a reader URL, or null for any other URL
+export function getPdfFileUrl(url: string | undefined): string | null {
+  if (!url) return null;
+  try {
+    const parsed = new URL(url);
+    if (parsed.protocol !== 'chrome-extension:' || !parsed.pathname.endsWith(`/${READER_PAGE}`)) return null;
+    return parsed.searchParams.get('file');
+  } catch {
+    return null;
+  }
+}
+
+// Page number of the reader page holding `element`, or null outside the reader
+export function getPageNumber(element: Element | null | undefined): number | null {
+  const page = element?.closest(`[${PAGE_NUMBER_ATTRIBUTE}]`);
+  const number = page ? parseInt(page.getAttribute(PAGE_NUMBER_ATTRIBUTE) || '', 10) : NaN;
+  return Number.isFinite(number) ? number : null;
+}
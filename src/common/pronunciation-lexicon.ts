@@ -0,0 +1,167 @@
+/**
+ * PronunciationLexicon - user-defined "say X as Y" rules applied before text is spoken
+ * Literal entries match whole words (so "AI" doesn't fire inside "MAIL"), regex entries are used as written
+ * and may refer to groups in the replacement ($1). Entries can be limited to a voice language and a site,
+ * and are applied in list order. LexiconStore keeps them in chrome.storage.local and handles JSON import/export.
+ */
+
+import { matchesHostPattern, normalizeHostPattern } from './site-profiles';
+
+export interface LexiconEntry {
+  id: string;
+  match: string;
+  replacement: string;
+  isRegex: boolean;
+  caseSensitive: boolean;
+  // Language prefix such as "en" or "de-CH"; the entry only applies to voices of that language
+  lang?: string;
+  // Host pattern as in site profiles ("docs.example.com", "*.example.com")
+  site?: string;
+}
+
+export interface LexiconContext {
+  lang?: string;
+  hostname?: string;
+}
+
+interface CompiledEntry {
+  entry: LexiconEntry;
+  pattern: RegExp;
+}
+
+const STORAGE_KEY = 'pronunciationLexicon';
+const EXPORT_VERSION = 1;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Returns why an entry can't be used, or null when it is fine
+export function validateLexiconEntry(entry: Pick<LexiconEntry, 'match' | 'isRegex'>): string | null {
+  if (!entry.match) return 'The text to replace is empty';
+  if (!entry.isRegex) return null;
+
+  try {
+    const pattern = new RegExp(entry.match, 'g');
+    if (pattern.test('')) return 'The pattern matches empty text';
+  } catch (error) {
+    return `Invalid regular expression: ${(error as Error).message}`;
+  }
+  return null;
+}
+
+function compileEntry(entry: LexiconEntry): RegExp | null {
+  if (validateLexiconEntry(entry)) return null;
+
+  const flags = entry.caseSensitive ? 'g' : 'gi';
+  // Word characters around a literal would mean it is part of a longer word; works for "C++" and ".NET" too
+  const source = entry.isRegex ? entry.match : `(?<![\\p{L}\\p{N}_])${escapeRegExp(entry.match)}(?![\\p{L}\\p{N}_])`;
+  return new RegExp(source, entry.isRegex ? flags : `${flags}u`);
+}
+
+function matchesLang(entryLang: string | undefined, lang: string | undefined): boolean {
+  if (!entryLang) return true;
+  if (!lang) return false;
+
+  const wanted = entryLang.toLowerCase().replace('_', '-');
+  const actual = lang.toLowerCase().replace('_', '-');
+  return actual === wanted || actual.startsWith(`${wanted}-`);
+}
+
+export class PronunciationLexicon {
+  private compiled: CompiledEntry[] = [];
+
+  constructor(entries: LexiconEntry[] = []) {
+    this.setEntries(entries);
+  }
+
+  // Invalid entries are skipped rather than breaking speech
+  setEntries(entries: LexiconEntry[]): void {
+    this.compiled = entries.flatMap(entry => {
+      const pattern = compileEntry(entry);
+      return pattern ? [{ entry, pattern }] : [];
+    });
+  }
+
+  isEmpty(): boolean {
+    return this.compiled.length === 0;
+  }
+
+  apply(text: string, context: LexiconContext = {}): string {
+    return this.compiled.reduce((result, { entry, pattern }) => {
+      if (!matchesLang(entry.lang, context.lang)) return result;
+      if (entry.site && (!context.hostname || !matchesHostPattern(entry.site, context.hostname))) return result;
+
+      pattern.lastIndex = 0;
+      return entry.isRegex
+        ? result.replace(pattern, entry.replacement)
+        // Literal replacements are used as is, "$" included
+        : result.replace(pattern, () => entry.replacement);
+    }, text);
+  }
+}
+
+export function createLexiconEntry(fields: Partial<LexiconEntry> = {}): LexiconEntry {
+  return {
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    match: '',
+    replacement: '',
+    isRegex: false,
+    caseSensitive: false,
+    ...fields
+  };
+}
+
+export function exportLexicon(entries: LexiconEntry[]): string {
+  return JSON.stringify({
+    version: EXPORT_VERSION,
+    entries: entries.map(({ id: _id, ...entry }) => entry)
+  }, null, 2);
+}
+
+// Accepts an export file or a bare array of entries; throws when nothing usable is found
+export function importLexicon(json: string): LexiconEntry[] {
+  const data = JSON.parse(json);
+  const items: unknown[] | null = Array.isArray(data) ? data : Array.isArray(data?.entries) ? data.entries : null;
+  if (!items) {
+    throw new Error('Expected a list of pronunciation entries');
+  }
+
+  return items.flatMap((item) => {
+    if (!item || typeof item !== 'object') return [];
+    const raw = item as Record<string, unknown>;
+    if (typeof raw.match !== 'string' || typeof raw.replacement !== 'string') return [];
+
+    const entry = createLexiconEntry({
+      match: raw.match,
+      replacement: raw.replacement,
+      isRegex: raw.isRegex === true,
+      caseSensitive: raw.caseSensitive === true,
+      lang: typeof raw.lang === 'string' && raw.lang.trim() ? raw.lang.trim() : undefined,
+      site: typeof raw.site === 'string' && normalizeHostPattern(raw.site) ? normalizeHostPattern(raw.site) : undefined
+    });
+    return validateLexiconEntry(entry) ? [] : [entry];
+  });
+}
+
+export class LexiconStore {
+  async getAll(): Promise<LexiconEntry[]> {
+    const result = await chrome.storage.local.get(STORAGE_KEY);
+    const entries = result[STORAGE_KEY];
+    return Array.isArray(entries) ? entries : [];
+  }
+
+  async saveAll(entries: LexiconEntry[]): Promise<void> {
+    await chrome.storage.local.set({ [STORAGE_KEY]: entries });
+  }
+
+  // Calls `listener` with the new entries whenever the lexicon changes in any extension context
+  onChanged(listener: (entries: LexiconEntry[]) => void): void {
+    chrome.storage.onChanged?.addListener((changes, areaName) => {
+      if (areaName === 'local' && changes[STORAGE_KEY]) {
+        const entries = changes[STORAGE_KEY].newValue;
+        listener(Array.isArray(entries) ? entries : []);
+      }
+    });
+  }
+}
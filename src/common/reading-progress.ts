@@ -0,0 +1,109 @@
+/**
+ * ReadingProgressStore - remembers where page readings stopped, per URL
+ * Entries are keyed by normalized URL and carry a fingerprint of the page content, so a position
+ * is only offered again when the page still says the same thing. Old entries expire.
+ */
+
+export interface ReadingProgressEntry {
+  fingerprint: string;
+  // Readable block (see content-extractor) and sentence within it where reading stopped
+  blockIndex: number;
+  sentenceIndex: number;
+  blockCount: number;
+  // PDF page of that block, when the reading was in the PDF reader
+  page?: number;
+  pageCount?: number;
+  title: string;
+  updatedAt: number;
+}
+
+const STORAGE_KEY = 'readingProgress';
+const MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+const MAX_ENTRIES = 200;
+const TRACKING_PARAMS = /^(utm_\w+|fbclid|gclid|mc_cid|mc_eid|ref|ref_src)$/i;
+
+// Same article regardless of fragment, tracking parameters, parameter order or trailing slash
+export function normalizeUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    parsed.hash = '';
+
+    const params = Array.from(parsed.searchParams.entries())
+      .filter(([key]) => !TRACKING_PARAMS.test(key))
+      .sort(([a], [b]) => a.localeCompare(b));
+    parsed.search = new URLSearchParams(params).toString();
+
+    const path = parsed.pathname.length > 1 ? parsed.pathname.replace(/\/+$/, '') : parsed.pathname;
+    return `${parsed.protocol}//${parsed.host.toLowerCase()}${path}${parsed.search}`;
+  } catch {
+    return url;
+  }
+}
+
+// FNV-1a hash of the whitespace-normalized text; cheap and stable across visits
+export function fingerprintText(text: string): string {
+  const normalized = text.replace(/\s+/g, ' ').trim().toLowerCase();
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < normalized.length; i++) {
+    hash ^= normalized.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `${(hash >>> 0).toString(16)}-${normalized.length}`;
+}
+
+export class ReadingProgressStore {
+  async get(url: string, fingerprint?: string): Promise<ReadingProgressEntry | null> {
+    const entries = await this.load();
+    const entry = entries[normalizeUrl(url)];
+
+    if (!entry || this.isExpired(entry)) return null;
+    if (fingerprint !== undefined && entry.fingerprint !== fingerprint) return null;
+    return entry;
+  }
+
+  async save(url: string, entry: ReadingProgressEntry): Promise<void> {
+    const entries = await this.load();
+    entries[normalizeUrl(url)] = entry;
+    await this.store(this.prune(entries));
+  }
+
+  async remove(url: string): Promise<void> {
+    const entries = await this.load();
+    const key = normalizeUrl(url);
+    if (key in entries) {
+      delete entries[key];
+      await this.store(entries);
+    }
+  }
+
+  private isExpired(entry: ReadingProgressEntry): boolean {
+    return Date.now() - entry.updatedAt > MAX_AGE_MS;
+  }
+
+  // Drops expired entries and keeps only the most recently updated ones
+  private prune(entries: Record<string, ReadingProgressEntry>): Record<string, ReadingProgressEntry> {
+    const kept = Object.entries(entries)
+      .filter(([, entry]) => !this.isExpired(entry))
+      .sort(([, a], [, b]) => b.updatedAt - a.updatedAt)
+      .slice(0, MAX_ENTRIES);
+    return Object.fromEntries(kept);
+  }
+
+  private async load(): Promise<Record<string, ReadingProgressEntry>> {
+    try {
+      const stored = await chrome.storage.local.get(STORAGE_KEY);
+      return (stored[STORAGE_KEY] as Record<string, ReadingProgressEntry>) || {};
+    } catch (error) {
+      console.error('Error loading reading progress:', error);
+      return {};
+    }
+  }
+
+  private async store(entries: Record<string, ReadingProgressEntry>): Promise<void> {
+    try {
+      await chrome.storage.local.set({ [STORAGE_KEY]: entries });
+    } catch (error) {
+      console.error('Error saving reading progress:', error);
+    }
+  }
+}
@@ -0,0 +1,232 @@
+/**
+ * ReadingQueue - persistent playlist of things to read, owned by the background script
+ * Items are selections, whole pages of open tabs, or links that are opened when their turn comes.
+ * Finished items are removed; skipped items stay in the list so they can be played later.
+ */
+
+import { MessageType } from './types/messages';
+
+export type QueueItemKind = 'selection' | 'page' | 'url';
+
+export interface QueueItem {
+  id: string;
+  kind: QueueItemKind;
+  title: string;
+  url: string;
+  tabId?: number;
+  text?: string;
+  addedAt: number;
+}
+
+export type NewQueueItem = Omit<QueueItem, 'id' | 'addedAt'>;
+
+export interface ReadingQueueState {
+  items: QueueItem[];
+  currentId: string | null;
+  isPlaying: boolean;
+}
+
+// The tab the current item is read in is stored too: the service worker may be restarted mid-item,
+// and only that tab's "completed" moves the queue on
+interface StoredQueueState extends ReadingQueueState {
+  tabId?: number | null;
+}
+
+const STORAGE_KEY = 'readingQueue';
+
+const ITEM_KINDS: QueueItemKind[] = ['selection', 'page', 'url'];
+
+// Items from messages: only web pages can be queued, and a selection needs its text
+export function parseQueueItem(value: unknown): NewQueueItem | null {
+  if (!value || typeof value !== 'object') return null;
+  const { kind, url, title, text, tabId } = value as Record<string, unknown>;
+
+  if (!ITEM_KINDS.includes(kind as QueueItemKind) || typeof url !== 'string' || !/^https?:\/\//i.test(url)) return null;
+  if (text !== undefined && typeof text !== 'string') return null;
+  if (kind === 'selection' && !(typeof text === 'string' && text.trim())) return null;
+
+  return {
+    kind: kind as QueueItemKind,
+    url,
+    title: typeof title === 'string' && title.trim() ? title : url,
+    ...(typeof tabId === 'number' && Number.isInteger(tabId) ? { tabId } : {}),
+    ...(typeof text === 'string' ? { text } : {})
+  };
+}
+
+export class ReadingQueue {
+  private items: QueueItem[] = [];
+  private currentId: string | null = null;
+  private isPlaying = false;
+  private tabId: number | null = null;
+  private nextId = Date.now();
+  // The stored queue; changes wait for it, or a woken service worker would save over it
+  private ready: Promise<void> = Promise.resolve();
+
+  init(): Promise<void> {
+    this.ready = this.load();
+    return this.ready;
+  }
+
+  // For the synchronous getters, which read whatever is in memory
+  whenReady(): Promise<void> {
+    return this.ready;
+  }
+
+  private async load(): Promise<void> {
+    try {
+      const stored = await chrome.storage.local.get(STORAGE_KEY);
+      const state = stored[STORAGE_KEY] as StoredQueueState | undefined;
+
+      if (state && Array.isArray(state.items)) {
+        this.items = state.items;
+        this.currentId = this.items.some(item => item.id === state.currentId) ? state.currentId : null;
+        this.isPlaying = Boolean(state.isPlaying) && this.currentId !== null;
+        this.tabId = this.isPlaying && typeof state.tabId === 'number' ? state.tabId : null;
+      }
+    } catch (error) {
+      console.error('Error loading reading queue:', error);
+    }
+  }
+
+  getState(): ReadingQueueState {
+    return {
+      items: [...this.items],
+      currentId: this.currentId,
+      isPlaying: this.isPlaying
+    };
+  }
+
+  getCurrentItem(): QueueItem | null {
+    return this.items.find(item => item.id === this.currentId) || null;
+  }
+
+  isActive(): boolean {
+    return this.isPlaying;
+  }
+
+  // Tab reading the current item, null when the queue isn't playing
+  getTabId(): number | null {
+    return this.tabId;
+  }
+
+  async setTabId(tabId: number): Promise<void> {
+    await this.ready;
+    if (!this.isPlaying) return;
+    this.tabId = tabId;
+    await this.save();
+  }
+
+  async add(item: NewQueueItem): Promise<QueueItem> {
+    await this.ready;
+    const queued: QueueItem = {
+      ...item,
+      id: `queue-${this.nextId++}`,
+      addedAt: Date.now()
+    };
+    this.items.push(queued);
+    await this.save();
+    return queued;
+  }
+
+  async remove(id: string): Promise<boolean> {
+    await this.ready;
+    const index = this.items.findIndex(item => item.id === id);
+    if (index === -1) return false;
+
+    this.items.splice(index, 1);
+    if (this.currentId === id) {
+      this.currentId = null;
+      this.isPlaying = false;
+      this.tabId = null;
+    }
+    await this.save();
+    return true;
+  }
+
+  async move(id: string, toIndex: number): Promise<boolean> {
+    await this.ready;
+    const index = this.items.findIndex(item => item.id === id);
+    if (index === -1) return false;
+
+    const [item] = this.items.splice(index, 1);
+    const target = Math.min(Math.max(toIndex, 0), this.items.length);
+    this.items.splice(target, 0, item);
+    await this.save();
+    return true;
+  }
+
+  async clear(): Promise<void> {
+    await this.ready;
+    this.items = [];
+    this.currentId = null;
+    this.isPlaying = false;
+    this.tabId = null;
+    await this.save();
+  }
+
+  // Starts (or restarts) playback at the given item, the current item, or the first one
+  async start(id?: string): Promise<QueueItem | null> {
+    await this.ready;
+    const item = this.items.find(candidate => candidate.id === id) || this.getCurrentItem() || this.items[0];
+    if (!item) return null;
+
+    this.currentId = item.id;
+    this.isPlaying = true;
+    await this.save();
+    return item;
+  }
+
+  async stop(): Promise<void> {
+    await this.ready;
+    if (!this.isPlaying) return;
+    this.isPlaying = false;
+    this.tabId = null;
+    await this.save();
+  }
+
+  // The current item was read to the end: drop it and move on to the item that followed it
+  async complete(): Promise<QueueItem | null> {
+    await this.ready;
+    const index = this.items.findIndex(item => item.id === this.currentId);
+    if (index !== -1) {
+      this.items.splice(index, 1);
+    }
+    return this.moveTo(index === -1 ? 0 : index);
+  }
+
+  // Moves past the current item without removing it
+  async skip(): Promise<QueueItem | null> {
+    await this.ready;
+    const index = this.items.findIndex(item => item.id === this.currentId);
+    return this.moveTo(index + 1);
+  }
+
+  private async moveTo(index: number): Promise<QueueItem | null> {
+    const next = this.items[index] || null;
+    this.currentId = next ? next.id : null;
+    this.isPlaying = next !== null;
+    if (!next) this.tabId = null;
+    await this.save();
+    return next;
+  }
+
+  private async save(): Promise<void> {
+    try {
+      const state: StoredQueueState = { ...this.getState(), tabId: this.tabId };
+      await chrome.storage.local.set({ [STORAGE_KEY]: state });
+    } catch (error) {
+      console.error('Error saving reading queue:', error);
+    }
+    this.notifyChange();
+  }
+
+  private notifyChange(): void {
+    chrome.runtime.sendMessage({
+      type: MessageType.QUEUE_UPDATED,
+      payload: { ...this.getState() }
+    }).catch(() => {
+      // Popup may not be open, ignore error
+    });
+  }
+}
@@ -0,0 +1,404 @@
+/**
+ * RemoteTTSEngine - neural voices from an OpenAI-compatible speech server, such as a self-hosted model
+ * Each sentence is sent to the server's /audio/speech endpoint and the returned audio is played through an
+ * audio element, so it runs in the offscreen document (or the audio export page), never in the service worker.
+ * The next sentences are fetched while one plays, which hides the server's latency. When the server
+ * can't be reached, sentences are read with the fallback engine (Web Speech) instead of stopping the reading.
+ */
+
+import {
+  AudioRenderingEngine,
+  EngineEventListener,
+  EngineSpeakOptions,
+  EngineUtterance,
+  EngineVoice,
+  RenderedAudio,
+  TTSEngine
+} from './tts-engine';
+import { decodeWav } from './audio-export';
+
+export interface RemoteEngineConfig {
+  // Base of the API, e.g. http://localhost:8880/v1; speech is requested from <baseUrl>/audio/speech
+  baseUrl: string;
+  apiKey: string;
+  model: string;
+  // Path under the base URL, or a full URL, listing the server's voices
+  voicesEndpoint: string;
+}
+
+// The parts of an audio element playback needs; tests pass a fake
+export type AudioPlayer = Pick<HTMLAudioElement, 'src' | 'volume' | 'play' | 'pause' | 'onended' | 'onerror'>;
+
+export const DEFAULT_REMOTE_CONFIG: RemoteEngineConfig = {
+  baseUrl: '',
+  apiKey: '',
+  model: 'tts-1',
+  voicesEndpoint: 'audio/voices'
+};
+
+const STORAGE_KEY = 'remoteEngine';
+const REQUEST_TIMEOUT_MS = 20000;
+// After a failure, sentences go straight to the fallback for a while instead of waiting on the server each time
+const RETRY_AFTER_MS = 30000;
+const MAX_CACHED = 8;
+
+export function resolveEndpoint(baseUrl: string, path: string): string {
+  if (/^https?:\/\//i.test(path)) return path;
+  return `${baseUrl.replace(/\/+$/, '')}/${path.replace(/^\/+/, '')}`;
+}
+
+// Host permission pattern covering the server, requested when the server is saved
+export function getServerOrigins(config: Pick<RemoteEngineConfig, 'baseUrl'>): string[] {
+  try {
+    return [`${new URL(config.baseUrl).origin}/*`];
+  } catch {
+    return [];
+  }
+}
+
+function getHeaders(config: RemoteEngineConfig, json = false): Record<string, string> {
+  return {
+    ...(json ? { 'Content-Type': 'application/json' } : {}),
+    ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {})
+  };
+}
+
+/**
+ * Servers list voices in different shapes: an array, or one under "voices" or "data", of names or of
+ * objects with an id (id, voice_id or name) and maybe a language (language, lang or locale).
+ */
+export function parseRemoteVoices(json: unknown): EngineVoice[] {
+  const record = json as Record<string, unknown> | null;
+  const list = Array.isArray(json) ? json : Array.isArray(record?.voices) ? record!.voices : Array.isArray(record?.data) ? record!.data : [];
+  const seen = new Set<string>();
+
+  return (list as unknown[]).flatMap((item, index): EngineVoice[] => {
+    const raw = (typeof item === 'object' && item !== null ? item : {}) as Record<string, unknown>;
+    const name = typeof item === 'string' ? item : [raw.id, raw.voice_id, raw.name].find(value => typeof value === 'string');
+    if (typeof name !== 'string' || !name.trim() || seen.has(name)) return [];
+    seen.add(name);
+
+    const lang = [raw.language, raw.lang, raw.locale].find(value => typeof value === 'string');
+    return [{ name, lang: typeof lang === 'string' ? lang : '', localService: false, default: index === 0 }];
+  });
+}
+
+export async function fetchRemoteVoices(config: RemoteEngineConfig, signal?: AbortSignal): Promise<EngineVoice[]> {
+  const response = await fetch(resolveEndpoint(config.baseUrl, config.voicesEndpoint), {
+    headers: getHeaders(config),
+    signal: signal || AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+  });
+  if (!response.ok) {
+    throw new Error(`Voice list request failed (${response.status})`);
+  }
+  return parseRemoteVoices(await response.json());
+}
+
+async function requestSpeech(
+  config: RemoteEngineConfig,
+  text: string,
+  voice: string | undefined,
+  options: EngineSpeakOptions,
+  format: 'mp3' | 'wav',
+  signal?: AbortSignal
+): Promise<Blob> {
+  const response = await fetch(resolveEndpoint(config.baseUrl, 'audio/speech'), {
+    method: 'POST',
+    headers: getHeaders(config, true),
+    body: JSON.stringify({
+      model: config.model,
+      input: text,
+      ...(voice ? { voice } : {}),
+      // The API's speed range; pitch has no equivalent
+      speed: Math.min(Math.max(options.rate, 0.25), 4),
+      response_format: format
+    }),
+    signal: signal || AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+  });
+  if (!response.ok) {
+    throw new Error(`Speech request failed (${response.status})`);
+  }
+  return response.blob();
+}
+
+export class RemoteTTSEngine implements AudioRenderingEngine {
+  readonly id = 'remote' as const;
+  private voices: Promise<EngineVoice[]> | null = null;
+  // Audio per voice, speed and text; prefetched sentences wait here until they are spoken
+  private cache = new Map<string, Promise<Blob>>();
+  private player: AudioPlayer | null = null;
+  private playerUrl: string | null = null;
+  private listener: EngineEventListener | null = null;
+  private utteranceId = 0;
+  private speaking = false;
+  private paused = false;
+  private started = false;
+  private usingFallback = false;
+  private failedAt = -Infinity;
+
+  constructor(
+    private config: RemoteEngineConfig | null,
+    private readonly fallback: TTSEngine | null = null,
+    private readonly createPlayer: () => AudioPlayer = () => new Audio()
+  ) {}
+
+  isAvailable(): boolean {
+    return !!this.config?.baseUrl;
+  }
+
+  getVoices(): Promise<EngineVoice[]> {
+    if (!this.config || !this.isAvailable()) return Promise.resolve([]);
+
+    if (!this.voices) {
+      this.voices = fetchRemoteVoices(this.config).catch((error) => {
+        console.warn('Could not load the speech server voices:', error);
+        this.voices = null;
+        return [];
+      });
+    }
+    return this.voices;
+  }
+
+  speak(text: string, options: EngineSpeakOptions, onEvent: EngineEventListener): void {
+    this.interrupt();
+    const id = ++this.utteranceId;
+    this.listener = onEvent;
+    this.speaking = true;
+    this.paused = false;
+    this.started = false;
+
+    if (!this.isAvailable() || Date.now() - this.failedAt < RETRY_AFTER_MS) {
+      this.speakWithFallback(id, text, options, onEvent);
+      return;
+    }
+
+    this.fetchSpeech(text, options)
+      .then((audio) => {
+        if (id === this.utteranceId) this.play(id, text, audio, options, onEvent);
+      })
+      .catch((error) => {
+        if (id === this.utteranceId) this.handleFailure(id, text, options, onEvent, error);
+      });
+  }
+
+  prefetch(utterances: EngineUtterance[]): void {
+    if (!this.isAvailable() || Date.now() - this.failedAt < RETRY_AFTER_MS) return;
+
+    utterances.forEach(({ text, options }) => {
+      // Failures show up again, and are handled, when the sentence is spoken
+      this.fetchSpeech(text, options).catch(() => undefined);
+    });
+  }
+
+  async renderAudio(text: string, options: EngineSpeakOptions, signal?: AbortSignal): Promise<RenderedAudio> {
+    if (!this.config || !this.isAvailable()) {
+      throw new Error('No speech server is set up');
+    }
+
+    const voice = await this.resolveVoice(options.voiceName);
+    const audio = await requestSpeech(this.config, text, voice, options, 'wav', signal);
+    const data = await audio.arrayBuffer();
+    try {
+      return decodeWav(data);
+    } catch {
+      return this.decodeCompressed(data);
+    }
+  }
+
+  pause(): void {
+    this.paused = true;
+    if (this.usingFallback) {
+      this.fallback?.pause();
+    } else {
+      this.player?.pause();
+    }
+  }
+
+  resume(): void {
+    this.paused = false;
+    if (this.usingFallback) {
+      this.fallback?.resume();
+    } else if (this.player) {
+      this.startPlayer(this.utteranceId, this.player);
+    }
+  }
+
+  stop(): void {
+    this.utteranceId++;
+    this.interrupt();
+    this.paused = false;
+  }
+
+  isSpeaking(): boolean {
+    return this.speaking;
+  }
+
+  isPaused(): boolean {
+    return this.paused;
+  }
+
+  // Ends whatever is playing; the utterance's listener hears 'interrupted' like with the other engines
+  private interrupt(): void {
+    if (this.usingFallback) {
+      this.usingFallback = false;
+      // The fallback reports its own interruption
+      this.fallback?.stop();
+    } else if (this.speaking) {
+      this.listener?.({ type: 'interrupted' });
+    }
+    this.releasePlayer();
+    this.listener = null;
+    this.speaking = false;
+  }
+
+  private async resolveVoice(voiceName: string | undefined): Promise<string | undefined> {
+    const voices = await this.getVoices();
+    // System voice names mean nothing to the server; its first voice stands in for them
+    return voices.find(voice => voice.name === voiceName)?.name || voices[0]?.name;
+  }
+
+  private getCacheKey(text: string, options: EngineSpeakOptions): string {
+    return `${options.voiceName || ''}|${options.rate}|${text}`;
+  }
+
+  private fetchSpeech(text: string, options: EngineSpeakOptions): Promise<Blob> {
+    const config = this.config!;
+    const key = this.getCacheKey(text, options);
+    const cached = this.cache.get(key);
+    if (cached) return cached;
+
+    const request = this.resolveVoice(options.voiceName)
+      .then(voice => requestSpeech(config, text, voice, options, 'mp3'));
+    request.catch(() => this.cache.delete(key));
+
+    this.cache.set(key, request);
+    // Oldest entries go first; Map keeps insertion order
+    while (this.cache.size > MAX_CACHED) {
+      this.cache.delete(this.cache.keys().next().value as string);
+    }
+    return request;
+  }
+
+  private play(id: number, text: string, audio: Blob, options: EngineSpeakOptions, onEvent: EngineEventListener): void {
+    const player = this.createPlayer();
+    this.player = player;
+    this.playerUrl = URL.createObjectURL(audio);
+
+    player.volume = Math.min(Math.max(options.volume, 0), 1);
+    player.onended = () => {
+      if (id !== this.utteranceId) return;
+      this.releasePlayer();
+      this.speaking = false;
+      onEvent({ type: 'end' });
+    };
+    player.onerror = () => {
+      if (id !== this.utteranceId) return;
+      this.releasePlayer();
+      // Audio the browser can't decode would fail the same way when the sentence is read again
+      this.cache.delete(this.getCacheKey(text, options));
+      this.handleFailure(id, text, options, onEvent, new Error('The audio could not be played'));
+    };
+    player.src = this.playerUrl;
+
+    // Paused while the audio was on its way; resume() starts it
+    if (!this.paused) {
+      this.startPlayer(id, player);
+    }
+  }
+
+  private startPlayer(id: number, player: AudioPlayer): void {
+    player.play()
+      .then(() => {
+        if (id !== this.utteranceId || this.started) return;
+        this.started = true;
+        this.listener?.({ type: 'start' });
+      })
+      .catch((error) => {
+        // play() rejects with AbortError when pause() comes first; that is no failure
+        if (id === this.utteranceId && (error as Error).name !== 'AbortError') {
+          console.warn('Could not play speech server audio:', error);
+        }
+      });
+  }
+
+  private handleFailure(id: number, text: string, options: EngineSpeakOptions, onEvent: EngineEventListener, error: unknown): void {
+    console.warn('Speech server failed, reading with the system voice:', error);
+    this.failedAt = Date.now();
+    this.speakWithFallback(id, text, options, onEvent);
+  }
+
+  private speakWithFallback(id: number, text: string, options: EngineSpeakOptions, onEvent: EngineEventListener): void {
+    if (!this.fallback?.isAvailable()) {
+      this.speaking = false;
+      onEvent({ type: 'error', error: 'The speech server is not available' });
+      return;
+    }
+
+    this.usingFallback = true;
+    // Server voice names mean nothing to the fallback; the language picks its voice
+    this.fallback.speak(text, { ...options, voiceName: undefined }, (event) => {
+      if ((event.type === 'end' || event.type === 'error') && id === this.utteranceId) {
+        this.usingFallback = false;
+        this.speaking = false;
+      }
+      onEvent(event);
+    });
+    if (this.paused) {
+      this.fallback.pause();
+    }
+  }
+
+  private releasePlayer(): void {
+    if (this.player) {
+      this.player.onended = null;
+      this.player.onerror = null;
+      this.player.pause();
+      this.player = null;
+    }
+    if (this.playerUrl) {
+      URL.revokeObjectURL(this.playerUrl);
+      this.playerUrl = null;
+    }
+  }
+
+  // Servers that ignore response_format send their default (usually MP3), which only the browser can decode
+  private async decodeCompressed(data: ArrayBuffer): Promise<RenderedAudio> {
+    if (typeof OfflineAudioContext === 'undefined') {
+      throw new Error('The speech server sent audio that can\'t be decoded here');
+    }
+    const context = new OfflineAudioContext(1, 1, 44100);
+    const buffer = await context.decodeAudioData(data);
+    const samples = new Float32Array(buffer.length);
+    for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+      const channelData = buffer.getChannelData(channel);
+      channelData.forEach((sample, index) => {
+        samples[index] += sample / buffer.numberOfChannels;
+      });
+    }
+    return { sampleRate: buffer.sampleRate, samples };
+  }
+}
+
+export class RemoteEngineStore {
+  // Null until a server is set up
+  async get(): Promise<RemoteEngineConfig | null> {
+    const result = await chrome.storage.local.get(STORAGE_KEY);
+    const stored = result[STORAGE_KEY] as Partial<RemoteEngineConfig> | undefined;
+    if (!stored?.baseUrl) return null;
+    return { ...DEFAULT_REMOTE_CONFIG, ...stored };
+  }
+
+  // Kept in local storage: the API key stays on this device instead of syncing to every signed-in browser
+  async save(config: RemoteEngineConfig): Promise<void> {
+    await chrome.storage.local.set({ [STORAGE_KEY]: config });
+  }
+
+  onChanged(listener: (config: RemoteEngineConfig | null) => void): void {
+    chrome.storage.onChanged?.addListener((changes, areaName) => {
+      if (areaName === 'local' && changes[STORAGE_KEY]) {
+        const config = changes[STORAGE_KEY].newValue as Partial<RemoteEngineConfig> | undefined;
+        listener(config?.baseUrl ? { ...DEFAULT_REMOTE_CONFIG, ...config } : null);
+      }
+    });
+  }
+}
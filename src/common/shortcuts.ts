@@ -0,0 +1,228 @@
+/**
+ * Shortcuts - in-page keyboard shortcuts and the browser-wide commands declared in the manifest
+ * In-page shortcuts are stored as text ("Ctrl+Shift+S") and can be remapped or cleared on the options page,
+ * which warns about shortcuts used twice, taken by the browser (Ctrl+Shift+R reloads) or by a browser-wide
+ * command. Browser-wide commands work wherever focus is, but Chrome lets only its own settings page change them.
+ */
+
+export type ShortcutAction =
+  | 'readSelection'
+  | 'readPage'
+  | 'togglePause'
+  | 'stop'
+  | 'previousSentence'
+  | 'nextSentence'
+  | 'previousParagraph'
+  | 'nextParagraph';
+
+// Shortcut per action; an empty string turns the action's shortcut off
+export type ShortcutMap = Record<ShortcutAction, string>;
+
+export const SHORTCUT_ACTIONS: { action: ShortcutAction; label: string }[] = [
+  { action: 'readSelection', label: 'Read selected text' },
+  { action: 'readPage', label: 'Read entire page' },
+  { action: 'togglePause', label: 'Pause/Resume' },
+  { action: 'stop', label: 'Stop' },
+  { action: 'previousSentence', label: 'Previous sentence' },
+  { action: 'nextSentence', label: 'Next sentence' },
+  { action: 'previousParagraph', label: 'Previous paragraph' },
+  { action: 'nextParagraph', label: 'Next paragraph' }
+];
+
+export const DEFAULT_SHORTCUTS: ShortcutMap = {
+  readSelection: 'Ctrl+Shift+S',
+  readPage: 'Ctrl+Shift+E',
+  togglePause: 'Ctrl+Shift+Space',
+  stop: 'Ctrl+Shift+X',
+  previousSentence: 'Ctrl+Shift+ArrowLeft',
+  nextSentence: 'Ctrl+Shift+ArrowRight',
+  previousParagraph: 'Ctrl+Shift+ArrowUp',
+  nextParagraph: 'Ctrl+Shift+ArrowDown'
+};
+
+// Manifest commands, handled by the background script
+export const COMMAND_ACTIONS: Record<string, ShortcutAction> = {
+  'read-selection': 'readSelection',
+  'read-page': 'readPage',
+  'toggle-pause': 'togglePause',
+  'stop': 'stop',
+  'previous-sentence': 'previousSentence',
+  'next-sentence': 'nextSentence'
+};
+
+// Browser shortcuts a page never gets to see, or shouldn't take over
+const RESERVED_SHORTCUTS: Record<string, string> = {
+  'Ctrl+R': 'reload',
+  'Ctrl+Shift+R': 'hard reload',
+  'Ctrl+T': 'new tab',
+  'Ctrl+Shift+T': 'reopen closed tab',
+  'Ctrl+W': 'close tab',
+  'Ctrl+Shift+W': 'close window',
+  'Ctrl+N': 'new window',
+  'Ctrl+Shift+N': 'new incognito window',
+  'Ctrl+Tab': 'next tab',
+  'Ctrl+Shift+Tab': 'previous tab',
+  'Ctrl+L': 'address bar',
+  'Ctrl+D': 'bookmark page',
+  'Ctrl+F': 'find',
+  'Ctrl+H': 'history',
+  'Ctrl+J': 'downloads',
+  'Ctrl+P': 'print',
+  'Ctrl+Shift+B': 'bookmarks bar',
+  'Ctrl+Shift+O': 'bookmark manager',
+  'Ctrl+Shift+I': 'developer tools',
+  'Ctrl+Shift+J': 'console',
+  'Ctrl+Shift+C': 'inspect element',
+  'Ctrl+Shift+Delete': 'clear browsing data',
+  'Alt+F4': 'close window'
+};
+
+const STORAGE_KEY = 'shortcuts';
+
+const MODIFIERS = ['Ctrl', 'Alt', 'Shift', 'Meta'] as const;
+const MODIFIER_KEYS = new Set(['Control', 'Alt', 'Shift', 'Meta', 'AltGraph', 'CapsLock', 'OS']);
+
+const KEY_NAMES: Record<string, string> = {
+  ' ': 'Space', Spacebar: 'Space', Esc: 'Escape', Left: 'ArrowLeft', Right: 'ArrowRight', Up: 'ArrowUp', Down: 'ArrowDown',
+  Del: 'Delete', Comma: ',', Period: '.'
+};
+
+type KeyEventLike = Pick<KeyboardEvent, 'key' | 'code' | 'ctrlKey' | 'altKey' | 'shiftKey' | 'metaKey'>;
+
+function normalizeKey(key: string): string {
+  const named = KEY_NAMES[key] || key;
+  return named.length === 1 ? named.toUpperCase() : named;
+}
+
+function buildShortcut(modifiers: Iterable<string>, key: string): string {
+  const held = new Set(modifiers);
+  return [...MODIFIERS.filter(modifier => held.has(modifier)), key].join('+');
+}
+
+// The shortcut a key press makes, or null for a lone modifier key
+export function getShortcutFromEvent(event: KeyEventLike): string | null {
+  if (MODIFIER_KEYS.has(event.key)) return null;
+
+  // Letters and digits by their position, so Alt and Shift combinations and other layouts still give "S"
+  const positional = /^(?:Key([A-Z])|Digit(\d))$/.exec(event.code || '');
+  const key = positional ? positional[1] || positional[2] : normalizeKey(event.key);
+
+  const modifiers: string[] = [];
+  if (event.ctrlKey) modifiers.push('Ctrl');
+  if (event.altKey) modifiers.push('Alt');
+  if (event.shiftKey) modifiers.push('Shift');
+  if (event.metaKey) modifiers.push('Meta');
+  return buildShortcut(modifiers, key);
+}
+
+// "shift + ctrl + s" -> "Ctrl+Shift+S"; Cmd/Command/Option are understood; null when there is no key
+export function normalizeShortcut(text: string): string | null {
+  const parts = text.split('+').map(part => part.trim()).filter(Boolean);
+  const modifiers: string[] = [];
+  let key: string | null = null;
+
+  for (const part of parts) {
+    const lower = part.toLowerCase();
+    if (lower === 'ctrl' || lower === 'control' || lower === 'macctrl') modifiers.push('Ctrl');
+    else if (lower === 'alt' || lower === 'option') modifiers.push('Alt');
+    else if (lower === 'shift') modifiers.push('Shift');
+    else if (lower === 'meta' || lower === 'cmd' || lower === 'command') modifiers.push('Meta');
+    else if (key === null) key = normalizeKey(part.length === 1 ? part : part.charAt(0).toUpperCase() + part.slice(1));
+    else return null;
+  }
+  return key ? buildShortcut(modifiers, key) : null;
+}
+
+// Why `shortcut` can't be used, or null when it can
+export function validateShortcut(shortcut: string): string | null {
+  const parts = shortcut.split('+');
+  if (!parts.some(part => part === 'Ctrl' || part === 'Alt' || part === 'Meta')) {
+    return 'Needs Ctrl, Alt or Cmd so it does not get in the way of typing';
+  }
+  return null;
+}
+
+// Stored shortcuts on top of the defaults; unknown actions and malformed values are dropped
+export function resolveShortcuts(stored: unknown): ShortcutMap {
+  const shortcuts = { ...DEFAULT_SHORTCUTS };
+  if (!stored || typeof stored !== 'object') return shortcuts;
+
+  for (const { action } of SHORTCUT_ACTIONS) {
+    const value = (stored as Record<string, unknown>)[action];
+    if (value === '') {
+      shortcuts[action] = '';
+    } else if (typeof value === 'string') {
+      const normalized = normalizeShortcut(value);
+      if (normalized && !validateShortcut(normalized)) {
+        shortcuts[action] = normalized;
+      }
+    }
+  }
+  return shortcuts;
+}
+
+export function matchShortcut(event: KeyEventLike, shortcuts: ShortcutMap): ShortcutAction | null {
+  const pressed = getShortcutFromEvent(event);
+  if (!pressed) return null;
+  return SHORTCUT_ACTIONS.find(({ action }) => shortcuts[action] === pressed)?.action ?? null;
+}
+
+/**
+ * Problems with each action's shortcut: used by another action, reserved by the browser, or taken by one of the
+ * browser-wide `commands` ({ shortcut: description }), which win over the page.
+ */
+export function findShortcutConflicts(
+  shortcuts: ShortcutMap,
+  commands: { shortcut: string; description: string }[] = []
+): Partial<Record<ShortcutAction, string>> {
+  const conflicts: Partial<Record<ShortcutAction, string>> = {};
+
+  for (const { action } of SHORTCUT_ACTIONS) {
+    const shortcut = shortcuts[action];
+    if (!shortcut) continue;
+
+    const other = SHORTCUT_ACTIONS.find(candidate => candidate.action !== action && shortcuts[candidate.action] === shortcut);
+    // On Macs the browser uses Cmd where other systems use Ctrl
+    const reserved = RESERVED_SHORTCUTS[shortcut] || RESERVED_SHORTCUTS[shortcut.replace('Meta', 'Ctrl')];
+    const command = commands.find(candidate => normalizeShortcut(candidate.shortcut) === shortcut);
+
+    if (other) {
+      conflicts[action] = `Also used for "${other.label}"`;
+    } else if (reserved) {
+      conflicts[action] = `Used by the browser (${reserved})`;
+    } else if (command) {
+      conflicts[action] = `Taken by the browser-wide shortcut for "${command.description}"`;
+    }
+  }
+  return conflicts;
+}
+
+// "Ctrl+Shift+ArrowLeft" -> "Ctrl+Shift+←"
+export function formatShortcut(shortcut: string): string {
+  return shortcut
+    .replace('ArrowLeft', '←')
+    .replace('ArrowRight', '→')
+    .replace('ArrowUp', '↑')
+    .replace('ArrowDown', '↓')
+    .replace('Meta', 'Cmd');
+}
+
+export class ShortcutStore {
+  async get(): Promise<ShortcutMap> {
+    const result = await chrome.storage.sync.get(STORAGE_KEY);
+    return resolveShortcuts(result[STORAGE_KEY]);
+  }
+
+  async save(shortcuts: ShortcutMap): Promise<void> {
+    await chrome.storage.sync.set({ [STORAGE_KEY]: shortcuts });
+  }
+
+  // Calls `listener` with the new shortcuts whenever they change in any extension context
+  onChanged(listener: (shortcuts: ShortcutMap) => void): void {
+    chrome.storage.onChanged?.addListener((changes, areaName) => {
+      if (areaName === 'sync' && changes[STORAGE_KEY]) {
+        listener(resolveShortcuts(changes[STORAGE_KEY].newValue));
+      }
+    });
+  }
+}
@@ -0,0 +1,150 @@
+/**
+ * SiteProfileStore - per-site reading profiles that override the global speech settings
+ * A profile is keyed by a hostname pattern ("wiki.example.com" or "*.example.com") and can set the voice,
+ * rate, pitch and volume, narrow "Read entire page" to (or away from) parts of the page by CSS selector, and
+ * turn the in-page keyboard shortcuts off where they clash with the site's own.
+ */
+
+export interface SiteProfile {
+  pattern: string;
+  voice?: string;
+  rate?: number;
+  pitch?: number;
+  volume?: number;
+  // Read only inside these elements, e.g. ".post-body"; falls back to automatic detection when nothing matches
+  contentSelector?: string;
+  // Never read inside these elements, e.g. ".comments"
+  excludeSelector?: string;
+  // Leave keys to the site; the browser-wide shortcuts keep working
+  disableShortcuts?: boolean;
+  updatedAt: number;
+}
+
+export interface ProsodySettings {
+  rate: number;
+  pitch: number;
+  volume: number;
+}
+
+export interface EffectiveSpeechSettings extends ProsodySettings {
+  // Voice name chosen by the profile; the globally selected voice applies otherwise
+  voice?: string;
+  contentSelector?: string;
+  excludeSelector?: string;
+  profilePattern?: string;
+}
+
+const STORAGE_KEY = 'siteProfiles';
+
+// Lowercase hostname pattern without scheme, path or port; "*." is kept as the only wildcard
+export function normalizeHostPattern(pattern: string): string {
+  let host = pattern.trim().toLowerCase()
+    .replace(/^[a-z][a-z0-9+.-]*:\/\//, '')
+    .replace(/[/?#].*$/, '')
+    .replace(/:\d+$/, '');
+
+  const isWildcard = host.startsWith('*.');
+  host = host.replace(/^\*\./, '').replace(/\*/g, '').replace(/^\.+|\.+$/g, '');
+  return host && isWildcard ? `*.${host}` : host;
+}
+
+// "*.example.com" covers example.com and all of its subdomains; other patterns match the exact host
+export function matchesHostPattern(pattern: string, hostname: string): boolean {
+  const normalized = normalizeHostPattern(pattern);
+  const host = hostname.toLowerCase();
+  if (!normalized) return false;
+
+  if (normalized.startsWith('*.')) {
+    const domain = normalized.slice(2);
+    return host === domain || host.endsWith(`.${domain}`);
+  }
+  return host === normalized;
+}
+
+export function getHostname(url: string): string | null {
+  try {
+    return new URL(url).hostname || null;
+  } catch {
+    return null;
+  }
+}
+
+// Exact hosts win over wildcards; among wildcards the longer (more specific) domain wins
+function getSpecificity(pattern: string): number {
+  return pattern.startsWith('*.') ? pattern.length : 1000 + pattern.length;
+}
+
+export function applySiteProfile(defaults: ProsodySettings, profile: SiteProfile | null): EffectiveSpeechSettings {
+  if (!profile) return { ...defaults };
+
+  return {
+    rate: profile.rate ?? defaults.rate,
+    pitch: profile.pitch ?? defaults.pitch,
+    volume: profile.volume ?? defaults.volume,
+    voice: profile.voice || undefined,
+    contentSelector: profile.contentSelector || undefined,
+    excludeSelector: profile.excludeSelector || undefined,
+    profilePattern: profile.pattern
+  };
+}
+
+export class SiteProfileStore {
+  async getAll(): Promise<SiteProfile[]> {
+    const result = await chrome.storage.sync.get(STORAGE_KEY);
+    const profiles = result[STORAGE_KEY];
+    return Array.isArray(profiles) ? profiles : [];
+  }
+
+  async findForUrl(url: string): Promise<SiteProfile | null> {
+    const hostname = getHostname(url);
+    if (!hostname) return null;
+
+    const matches = (await this.getAll()).filter(profile => matchesHostPattern(profile.pattern, hostname));
+    matches.sort((a, b) => getSpecificity(normalizeHostPattern(b.pattern)) - getSpecificity(normalizeHostPattern(a.pattern)));
+    return matches[0] || null;
+  }
+
+  // Creates the profile for `pattern` or updates the given fields of the existing one
+  async save(pattern: string, changes: Partial<Omit<SiteProfile, 'pattern' | 'updatedAt'>>): Promise<SiteProfile> {
+    const normalized = normalizeHostPattern(pattern);
+    if (!normalized) {
+      throw new Error('Invalid site pattern');
+    }
+
+    const profiles = await this.getAll();
+    const index = profiles.findIndex(profile => profile.pattern === normalized);
+    const profile: SiteProfile = {
+      ...(index >= 0 ? profiles[index] : {}),
+      ...changes,
+      pattern: normalized,
+      updatedAt: Date.now()
+    };
+
+    if (index >= 0) {
+      profiles[index] = profile;
+    } else {
+      profiles.push(profile);
+    }
+    await chrome.storage.sync.set({ [STORAGE_KEY]: profiles });
+    return profile;
+  }
+
+  async remove(pattern: string): Promise<void> {
+    const normalized = normalizeHostPattern(pattern);
+    const profiles = await this.getAll();
+    const remaining = profiles.filter(profile => profile.pattern !== normalized);
+    if (remaining.length !== profiles.length) {
+      await chrome.storage.sync.set({ [STORAGE_KEY]: remaining });
+    }
+  }
+
+  // Calls `listener` with the new profiles whenever they change in any extension context
+  onChanged(listener: (profiles: SiteProfile[]) => void): void {
+    chrome.storage.onChanged?.addListener((changes, areaName) => {
+      if (areaName === 'sync' && changes[STORAGE_KEY]) {
+        const profiles = changes[STORAGE_KEY].newValue;
+        listener(Array.isArray(profiles) ? profiles : []);
+      }
+    });
+  }
+}
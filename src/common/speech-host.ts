@@ -0,0 +1,128 @@
+/**
+ * SpeechHost - runs a SpeechSynthesizer outside the page on behalf of the background TTSManager
+ * The service worker hosts one with chrome.tts, the offscreen document one with Web Speech. Both take
+ * the same commands and report back state, boundary and error events tagged with the reading they belong to,
+ * so reports of a reading that was replaced in the meantime can be ignored.
+ */
+
+import { Message, MessageType } from './types/messages';
+import {
+  SpeechSynthesizer,
+  SpeechPosition,
+  LanguageSettings,
+  SpeechBoundaryEvent,
+  PlaybackStateType,
+  SeekUnit,
+  SeekDirection
+} from './speech-synthesizer';
+import { TTSEngine } from './tts-engine';
+import { ProsodySettings } from './site-profiles';
+import { PronunciationLexicon, LexiconEntry } from './pronunciation-lexicon';
+
+export type SpeechCommand =
+  | {
+    command: 'speak';
+    readingId: number;
+    text: string;
+    voiceName?: string;
+    options?: Partial<ProsodySettings>;
+    startAt?: SpeechPosition;
+    lexicon?: LexiconEntry[];
+    // Site the text comes from, for site-scoped lexicon entries
+    hostname?: string;
+    language?: LanguageSettings;
+  }
+  | { command: 'stop' }
+  | { command: 'pause' }
+  | { command: 'resume' }
+  | { command: 'togglePause' }
+  | { command: 'seek'; unit: SeekUnit; direction: SeekDirection }
+  | { command: 'seekTo'; fraction: number }
+  | { command: 'setRate'; rate: number };
+
+export interface SpeechCommandResult {
+  success: boolean;
+  isPaused?: boolean;
+  error?: string;
+}
+
+export type SpeechHostEvent =
+  | { kind: 'state'; state: PlaybackStateType; playbackState: Record<string, unknown>; position: SpeechPosition | null }
+  | { kind: 'boundary'; event: SpeechBoundaryEvent }
+  | { kind: 'error'; error: Record<string, unknown> };
+
+export type SpeechHostListener = (event: SpeechHostEvent, readingId: number) => void;
+
+export class SpeechHost {
+  private synthesizer: SpeechSynthesizer;
+  private readingId = 0;
+
+  constructor(engine: TTSEngine, private readonly listener: SpeechHostListener) {
+    this.synthesizer = new SpeechSynthesizer(engine, (message) => this.handleReport(message));
+    this.synthesizer.onBoundary((event) => this.listener({ kind: 'boundary', event: { ...event } }, this.readingId));
+  }
+
+  async execute(command: SpeechCommand): Promise<SpeechCommandResult> {
+    switch (command.command) {
+      case 'speak': {
+        if (command.voiceName) {
+          // A freshly created host may still be enumerating voices; unknown voices fall back to the default
+          await this.synthesizer.whenVoicesLoaded();
+          this.synthesizer.setVoice(command.voiceName);
+        }
+        this.synthesizer.setLexicon(
+          command.lexicon?.length ? new PronunciationLexicon(command.lexicon) : null,
+          command.hostname
+        );
+        // speak() stops the previous reading synchronously; that 'stopped' still belongs to the old reading
+        const speaking = this.synthesizer.speak(command.text, command.options || {}, command.startAt, command.language);
+        this.readingId = command.readingId;
+        speaking.catch(error => console.error('Error in hosted speech:', error));
+        return { success: true };
+      }
+
+      case 'stop':
+        this.synthesizer.stop();
+        return { success: true };
+
+      case 'pause':
+        return { success: this.synthesizer.pause() };
+
+      case 'resume':
+        return { success: this.synthesizer.resume() };
+
+      case 'togglePause': {
+        const success = this.synthesizer.togglePause();
+        return { success, isPaused: this.synthesizer.getPlaybackState().isPaused };
+      }
+
+      case 'seek':
+        return { success: this.synthesizer.seek(command.unit, command.direction) };
+
+      case 'seekTo':
+        return { success: this.synthesizer.seekToFraction(command.fraction) };
+
+      case 'setRate':
+        return { success: this.synthesizer.changeRate(command.rate) };
+
+      default:
+        return { success: false, error: 'Unknown speech command' };
+    }
+  }
+
+  private handleReport(message: Message): void {
+    const payload = message.payload || {};
+
+    if (message.type === MessageType.TTS_ERROR) {
+      this.listener({ kind: 'error', error: payload }, this.readingId);
+      return;
+    }
+
+    this.listener({
+      kind: 'state',
+      state: payload.state as PlaybackStateType,
+      playbackState: (payload.playbackState as Record<string, unknown>) || {},
+      position: this.synthesizer.getPosition()
+    }, this.readingId);
+  }
+}
@@ -0,0 +1,164 @@
+/**
+ * SpeechProgressTracker - how far a reading has got and how long the rest will take
+ * Progress counts the characters and words of the spoken sentences: finished sentences whole, the one being
+ * spoken up to its last word boundary. The time left comes from the pace measured in this reading, scaled to
+ * the current rate, and from a typical pace until enough has been heard to measure it.
+ */
+
+export interface SpeechProgress {
+  spokenChars: number;
+  totalChars: number;
+  spokenWords: number;
+  totalWords: number;
+  // Time spent speaking, pauses left out
+  elapsedMs: number;
+  remainingMs: number;
+  // Pace at the current rate
+  wordsPerMinute: number;
+}
+
+// Typical pace of synthetic speech at rate 1
+export const DEFAULT_WORDS_PER_MINUTE = 170;
+// Words to hear before the measured pace is trusted over the typical one
+const MIN_MEASURED_WORDS = 15;
+
+export function countWords(text: string): number {
+  return text.match(/\S+/g)?.length ?? 0;
+}
+
+// 192000 -> "3:12", 3725000 -> "1:02:05"
+export function formatDuration(ms: number): string {
+  const totalSeconds = Math.max(0, Math.round(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+}
+
+export class SpeechProgressTracker {
+  private texts: string[] = [];
+  // Characters and words before each sentence; the last entry holds the totals
+  private charOffsets: number[] = [0];
+  private wordOffsets: number[] = [0];
+  private currentIndex = 0;
+  private currentChars = 0;
+  private rate = 1;
+
+  private elapsedMs = 0;
+  private sentenceStartedAt: number | null = null;
+  private sentenceActiveMs = 0;
+  // Pace measurement over sentences heard from start to end, normalized to rate 1
+  private measuredWords = 0;
+  private measuredMs = 0;
+
+  constructor(private readonly now: () => number = () => Date.now()) {}
+
+  start(texts: string[], startIndex = 0, rate = 1): void {
+    this.texts = texts;
+    this.charOffsets = [0];
+    this.wordOffsets = [0];
+    texts.forEach((text, index) => {
+      this.charOffsets.push(this.charOffsets[index] + text.length);
+      this.wordOffsets.push(this.wordOffsets[index] + countWords(text));
+    });
+    this.currentIndex = startIndex;
+    this.currentChars = 0;
+    this.rate = rate;
+    this.elapsedMs = 0;
+    this.sentenceStartedAt = null;
+    this.sentenceActiveMs = 0;
+    this.measuredWords = 0;
+    this.measuredMs = 0;
+  }
+
+  setRate(rate: number): void {
+    this.rate = rate;
+  }
+
+  sentenceStarted(index: number): void {
+    this.currentIndex = index;
+    this.currentChars = 0;
+    this.sentenceActiveMs = 0;
+    this.sentenceStartedAt = this.now();
+  }
+
+  // Start of the word being spoken, within the current sentence
+  wordStarted(charIndex: number): void {
+    this.currentChars = Math.max(this.currentChars, Math.min(charIndex, this.texts[this.currentIndex]?.length ?? 0));
+  }
+
+  sentenceEnded(): void {
+    const activeMs = this.takeActiveTime();
+    this.measuredWords += countWords(this.texts[this.currentIndex] || '');
+    this.measuredMs += activeMs * this.rate;
+    this.currentChars = this.texts[this.currentIndex]?.length ?? 0;
+  }
+
+  // The sentence was cut off by a seek or a speed change; its time counts, its pace doesn't
+  sentenceInterrupted(): void {
+    this.takeActiveTime();
+  }
+
+  pause(): void {
+    if (this.sentenceStartedAt !== null) {
+      this.sentenceActiveMs += this.now() - this.sentenceStartedAt;
+      this.sentenceStartedAt = null;
+    }
+  }
+
+  resume(): void {
+    if (this.sentenceStartedAt === null) {
+      this.sentenceStartedAt = this.now();
+    }
+  }
+
+  getProgress(): SpeechProgress {
+    const totalChars = this.charOffsets[this.charOffsets.length - 1];
+    const totalWords = this.wordOffsets[this.wordOffsets.length - 1];
+    const current = this.texts[this.currentIndex] || '';
+    const spokenChars = Math.min(this.charOffsets[this.currentIndex] ?? totalChars, totalChars) + this.currentChars;
+    const spokenWords = Math.min(this.wordOffsets[this.currentIndex] ?? totalWords, totalWords) +
+      countWords(current.slice(0, this.currentChars));
+
+    const pace = this.measuredWords >= MIN_MEASURED_WORDS && this.measuredMs > 0
+      ? this.measuredWords / (this.measuredMs / 60000)
+      : DEFAULT_WORDS_PER_MINUTE;
+    const wordsPerMinute = pace * this.rate;
+
+    return {
+      spokenChars: Math.min(spokenChars, totalChars),
+      totalChars,
+      spokenWords: Math.min(spokenWords, totalWords),
+      totalWords,
+      elapsedMs: this.elapsedMs + this.getSentenceActiveTime(),
+      remainingMs: Math.round((Math.max(totalWords - spokenWords, 0) / wordsPerMinute) * 60000),
+      wordsPerMinute: Math.round(wordsPerMinute)
+    };
+  }
+
+  // Sentence starting closest to `fraction` (0 to 1) of the text
+  getSentenceAt(fraction: number): number {
+    if (this.texts.length === 0) return -1;
+
+    const target = Math.min(Math.max(fraction, 0), 1) * this.charOffsets[this.texts.length];
+    let nearest = 0;
+    for (let index = 1; index < this.texts.length; index++) {
+      if (Math.abs(this.charOffsets[index] - target) < Math.abs(this.charOffsets[nearest] - target)) {
+        nearest = index;
+      }
+    }
+    return nearest;
+  }
+
+  private getSentenceActiveTime(): number {
+    return this.sentenceActiveMs + (this.sentenceStartedAt !== null ? this.now() - this.sentenceStartedAt : 0);
+  }
+
+  private takeActiveTime(): number {
+    const activeMs = this.getSentenceActiveTime();
+    this.elapsedMs += activeMs;
+    this.sentenceActiveMs = 0;
+    this.sentenceStartedAt = null;
+    return activeMs;
+  }
+}
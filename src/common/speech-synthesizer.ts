@@ -1,15 +1,23 @@
 /**
- * SpeechSynthesizer - Web Speech API integration for TTS Chrome Extension
- * Provides robust text-to-speech functionality with error handling and retry logic
+ * SpeechSynthesizer - sentence queue, seeking and playback state on top of a TTSEngine
+ * Provides robust text-to-speech functionality with error handling and retry logic.
+ * Uses the Web Speech engine unless another engine is passed in (the background uses chrome.tts).
  */
 
-import { MessageType } from './types/messages';
+import { Message, MessageType } from './types/messages';
+import { TTSEngine, EngineVoice, EngineEvent, EngineSpeakOptions } from './tts-engine';
+import { WebSpeechEngine } from './web-speech-engine';
+import { PronunciationLexicon, LexiconContext } from './pronunciation-lexicon';
+import { isSSML, parseSSML, SSMLProsody } from './ssml-parser';
+import { detectLanguage } from './language-detector';
+import { normalizeForSpeech, DisabledNormalizations } from './text-normalizer';
+import { SpeechProgress, SpeechProgressTracker } from './speech-progress';
 
 export interface SpeechSettings {
   rate: number;
   pitch: number;
   volume: number;
-  voice: SpeechSynthesisVoice | null;
+  voice: EngineVoice | null;
 }
 
 export interface PlaybackState {
@@ -19,6 +27,11 @@ export interface PlaybackState {
   currentText: string | null;
   pausePosition: PausePosition | null;
   canResume: boolean;
+  // Sentence being read out of all sentences queued, and the speed they are read at
+  sentenceIndex: number;
+  sentenceCount: number;
+  rate: number;
+  progress: SpeechProgress;
 }
 
 export interface PausePosition {
@@ -37,20 +50,154 @@ export interface VoiceInfo {
 export type ErrorType = 'network' | 'permission' | 'audio-busy' | 'audio-hardware' | 
   'language-not-supported' | 'voice-unavailable' | 'initialization' | 'unknown';
 
-export type PlaybackStateType = 'started' | 'ended' | 'stopped' | 'paused' | 'resumed';
+export type PlaybackStateType = 'started' | 'ended' | 'completed' | 'stopped' | 'paused' | 'resumed';
+
+export interface SpeechBoundaryEvent {
+  chunkIndex: number;
+  chunkText: string;
+  charIndex: number;
+  charLength: number;
+  name: 'word' | 'sentence';
+}
+
+export type SeekUnit = 'sentence' | 'paragraph';
+export type SeekDirection = 'next' | 'previous';
+
+// Position inside the spoken text: paragraphs are separated by blank lines
+export interface SpeechPosition {
+  paragraphIndex: number;
+  sentenceIndex: number;
+}
+
+// How a reading picks voices when its text switches language
+export interface LanguageSettings {
+  // Read every paragraph with a voice for its language instead of one voice for everything
+  autoDetect: boolean;
+  // Preferred voice name per primary language ("es"); other languages get the first available voice
+  voices?: Record<string, string>;
+  // Languages the page declares with lang attributes, per paragraph (null where it declares none)
+  paragraphLangs?: (string | null)[];
+  // The document's language, for paragraphs too short to detect
+  documentLang?: string;
+  // Say numbers, dates, amounts and units the way the language reads them (on unless false)
+  normalizeText?: boolean;
+  // Categories left as written, per primary language (see parseDisabledNormalizations)
+  disabledNormalizations?: DisabledNormalizations;
+}
+
+// One sentence (or a slice of a very long one) and the paragraph it belongs to
+interface SpeechSegment {
+  text: string;
+  paragraphIndex: number;
+  // From SSML markup: scales the reading's rate/pitch/volume, switches language and pauses before speaking
+  prosody?: SSMLProsody;
+  lang?: string;
+  pauseBefore?: number;
+}
+
+export type BoundaryListener = (event: SpeechBoundaryEvent) => void;
+export type PlaybackStateListener = (state: PlaybackStateType, playbackState: PlaybackState) => void;
+// Receives TTS_STATE_CHANGED and TTS_ERROR messages
+export type SpeechReporter = (message: Message) => void;
+
+const reportToBackground: SpeechReporter = (message) => {
+  if (typeof chrome !== 'undefined' && chrome.runtime) {
+    chrome.runtime.sendMessage(message).catch(error => {
+      if (process.env.NODE_ENV === 'development') {
+        // eslint-disable-next-line no-console
+        console.log('Could not report speech state:', error);
+      }
+    });
+  }
+};
+
+// How far ahead engines that fetch their audio are told about upcoming sentences
+const PREFETCH_SENTENCES = 2;
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
+
+// Collapses whitespace, applies the user's pronunciations and spells out abbreviations, links and addresses
+export function preprocessForSpeech(text: string, lexicon: PronunciationLexicon | null, context: LexiconContext = {}): string {
+  const normalized = text.replace(/\s+/g, ' ');
+  // The user's pronunciations come first so they can override the built-in rules below
+  const pronounced = lexicon ? lexicon.apply(normalized, context) : normalized;
+
+  return pronounced
+    // Handle common abbreviations
+    .replace(/\bDr\./g, 'Doctor')
+    .replace(/\bMr\./g, 'Mister')
+    .replace(/\bMrs\./g, 'Missus')
+    .replace(/\bMs\./g, 'Miss')
+    // Handle URLs (basic)
+    .replace(/https?:\/\/[^\s]+/g, 'link')
+    // Handle email addresses
+    .replace(/\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Z|a-z]{2,}\b/g, 'email address')
+    // Clean up extra spaces
+    .trim();
+}
+
+// Splits a paragraph into sentences, so seeking can move one sentence at a time.
+// Only punctuation followed by whitespace ends a sentence ("3.14" and "e.g." stay intact).
+export function splitSentences(text: string, maxChunkSize = 200): string[] {
+  return text
+    .split(/(?<=[.!?]["'”’)\]]*)\s+/)
+    .map(sentence => sentence.trim())
+    .filter(sentence => sentence.length > 0)
+    .flatMap(sentence =>
+      sentence.length > maxChunkSize ? chunkLongSentence(sentence, maxChunkSize) : [sentence]
+    );
+}
+
+function chunkLongSentence(sentence: string, maxSize: number): string[] {
+  const words = sentence.split(' ');
+  const chunks: string[] = [];
+  let currentChunk = '';
+  
+  for (const word of words) {
+    if (currentChunk.length + word.length + 1 <= maxSize) {
+      currentChunk += (currentChunk ? ' ' : '') + word;
+    } else {
+      if (currentChunk) {
+        chunks.push(currentChunk);
+      }
+      currentChunk = word;
+    }
+  }
+  
+  if (currentChunk) {
+    chunks.push(currentChunk);
+  }
+  
+  return chunks;
+}
 
 export class SpeechSynthesizer {
   private isInitialized = false;
+  private voicesLoading: Promise<void>;
   private isPlaying = false;
   private isPaused = false;
-  private currentUtterance: SpeechSynthesisUtterance | null = null;
-  private speechQueue: Array<{ text: string; options: Partial<SpeechSettings> }> = [];
-  private availableVoices: SpeechSynthesisVoice[] = [];
-  private defaultVoice: SpeechSynthesisVoice | null = null;
+  private currentText: string | null = null;
+  private segments: SpeechSegment[] = [];
+  private segmentOptions: Partial<SpeechSettings> = {};
+  private progress = new SpeechProgressTracker();
+  private availableVoices: EngineVoice[] = [];
+  private defaultVoice: EngineVoice | null = null;
   private pausePosition: PausePosition | null = null;
   private pausedText: string | null = null;
   private currentChunkIndex = 0;
+  // Bumped whenever the queue is cancelled, so events from cancelled utterances are ignored
+  private playbackGeneration = 0;
   private lastToggleTime = 0; // For debouncing pause/resume operations
+  private boundaryListeners = new Set<BoundaryListener>();
+  private languageVoices: Record<string, string> = {};
+  private normalizeText = true;
+  private disabledNormalizations: DisabledNormalizations = {};
+  private lexicon: PronunciationLexicon | null = null;
+  // Site the text comes from, for site-scoped lexicon entries
+  private lexiconHostname: string | undefined;
+  private stateListeners = new Set<PlaybackStateListener>();
   private settings: SpeechSettings = {
     rate: 1.0,
     pitch: 1.0,
@@ -58,16 +205,19 @@ export class SpeechSynthesizer {
     voice: null
   };
 
-  constructor() {
+  constructor(
+    private readonly engine: TTSEngine = new WebSpeechEngine(),
+    private readonly report: SpeechReporter = reportToBackground
+  ) {
     // Initialize immediately with basic functionality
     this.initializeSync();
     // Load voices in background without blocking
-    this.loadVoicesAsync();
+    this.voicesLoading = this.loadVoicesAsync();
   }
 
   private initializeSync(): void {
-    // Check if Speech Synthesis is supported
-    if (!('speechSynthesis' in window)) {
+    // Check if the engine is supported here
+    if (!this.engine.isAvailable()) {
       console.warn('Speech Synthesis not supported');
       return;
     }
@@ -101,6 +251,11 @@ export class SpeechSynthesizer {
     }
   }
 
+  // Resolves once voice enumeration has finished (or failed), e.g. before selecting a voice by name
+  whenVoicesLoaded(): Promise<void> {
+    return this.voicesLoading;
+  }
+
   async init(): Promise<void> {
     // For backward compatibility - now just waits for voice loading
     if (!this.isInitialized) {
@@ -109,54 +264,20 @@ export class SpeechSynthesizer {
     // Don't block - voices load in background
   }
 
-  private async loadVoices(): Promise<SpeechSynthesisVoice[]> {
-    return new Promise((resolve) => {
-      // Check cache first for faster subsequent loads
-      let voices = speechSynthesis.getVoices();
-      
-      if (voices.length > 0) {
-        this.processVoices(voices);
-        resolve(voices);
-        return;
-      }
+  private async loadVoices(): Promise<EngineVoice[]> {
+    const voices = await this.engine.getVoices();
 
-      // Setup voice loading with shorter timeout and fallback
-      let isResolved = false;
-      
-      const voicesChangedHandler = () => {
-        if (isResolved) return;
-        
-        voices = speechSynthesis.getVoices();
-        if (voices.length > 0) {
-          isResolved = true;
-          speechSynthesis.removeEventListener('voiceschanged', voicesChangedHandler);
-          this.processVoices(voices);
-          resolve(voices);
-        }
-      };
-      
-      speechSynthesis.addEventListener('voiceschanged', voicesChangedHandler);
-      
-      // Reduced timeout to 2 seconds instead of 5
-      setTimeout(() => {
-        if (!isResolved) {
-          isResolved = true;
-          speechSynthesis.removeEventListener('voiceschanged', voicesChangedHandler);
-          
-          // Always resolve, even with no voices - use system default
-          if (voices.length === 0) {
-            console.warn('No voices loaded, using system default');
-            this.useSystemDefaults();
-          } else {
-            this.processVoices(voices);
-          }
-          resolve(voices);
-        }
-      }, 2000);
-    });
+    // Always continue, even with no voices - use system default
+    if (voices.length === 0) {
+      console.warn('No voices loaded, using system default');
+      this.useSystemDefaults();
+    } else {
+      this.processVoices(voices);
+    }
+    return voices;
   }
 
-  private processVoices(voices: SpeechSynthesisVoice[]): void {
+  private processVoices(voices: EngineVoice[]): void {
     this.availableVoices = voices.filter(voice => !voice.localService || voice.localService);
     
     // Select default voice (prefer English, then system default)
@@ -181,7 +302,7 @@ export class SpeechSynthesizer {
     }
   }
 
-  private selectDefaultVoice(voices: SpeechSynthesisVoice[]): SpeechSynthesisVoice | null {
+  private selectDefaultVoice(voices: EngineVoice[]): EngineVoice | null {
     // Priority order: English native voices, English voices, system default, any voice
     const englishNative = voices.find(v => v.lang.startsWith('en') && v.localService);
     const english = voices.find(v => v.lang.startsWith('en'));
@@ -199,16 +320,20 @@ export class SpeechSynthesizer {
     };
 
     this.onEnd = () => {
+      const isLastChunk = this.currentChunkIndex >= this.segments.length - 1;
       this.isPlaying = false;
       this.isPaused = false;
-      this.currentUtterance = null;
-      this.processQueue();
+      this.currentText = null;
+      if (!isLastChunk) {
+        this.currentChunkIndex++;
+        this.processQueue(true);
+      }
       this.notifyPlaybackState('ended');
-    };
-
-    this.onError = (event: SpeechSynthesisErrorEvent) => {
-      console.error('Speech synthesis error:', event);
-      this.handleSpeechError(event);
+      if (isLastChunk) {
+        this.segments = [];
+        this.currentChunkIndex = 0;
+        this.notifyPlaybackState('completed');
+      }
     };
 
     this.onPause = () => {
@@ -224,11 +349,15 @@ export class SpeechSynthesizer {
 
   private onStart!: () => void;
   private onEnd!: () => void;
-  private onError!: (event: SpeechSynthesisErrorEvent) => void;
   private onPause!: () => void;
   private onResume!: () => void;
 
-  async speak(text: string, options: Partial<SpeechSettings> = {}): Promise<void> {
+  async speak(
+    text: string,
+    options: Partial<SpeechSettings> = {},
+    startAt?: SpeechPosition,
+    language?: LanguageSettings
+  ): Promise<void> {
     if (!this.isInitialized) {
       throw new Error('Speech Synthesizer not initialized');
     }
@@ -237,166 +366,216 @@ export class SpeechSynthesizer {
       throw new Error('Invalid text for speech synthesis');
     }
 
-    // Stop current speech if playing
-    if (this.isPlaying) {
+    // Stop current speech if playing (or between two queued sentences)
+    if (this.isPlaying || this.segments.length > 0) {
       this.stop();
     }
 
-    // Preprocess text
-    const processedText = this.preprocessText(text);
-    
-    // Handle long text by chunking
-    const chunks = this.chunkText(processedText);
-    
-    if (chunks.length === 1) {
-      // Single chunk - speak directly
-      return this.speakChunk(chunks[0], options);
-    } else {
-      // Multiple chunks - queue them
-      return this.speakChunks(chunks, options);
+    const lang = (options.voice || this.settings.voice || this.defaultVoice)?.lang;
+    this.languageVoices = language?.voices || {};
+    this.normalizeText = language?.normalizeText !== false;
+    this.disabledNormalizations = language?.disabledNormalizations || {};
+    const segments = isSSML(text) ? this.segmentSSML(text, lang) : this.segmentText(text, lang, language);
+    if (segments.length === 0) {
+      throw new Error('Invalid text for speech synthesis');
     }
-  }
 
-  private preprocessText(text: string): string {
-    return text
-      // Normalize whitespace
-      .replace(/\s+/g, ' ')
-      // Handle common abbreviations
-      .replace(/\bDr\./g, 'Doctor')
-      .replace(/\bMr\./g, 'Mister')
-      .replace(/\bMrs\./g, 'Missus')
-      .replace(/\bMs\./g, 'Miss')
-      // Handle URLs (basic)
-      .replace(/https?:\/\/[^\s]+/g, 'link')
-      // Handle email addresses
-      .replace(/\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Z|a-z]{2,}\b/g, 'email address')
-      // Clean up extra spaces
-      .trim();
+    return this.speakChunks(segments, options, startAt ? this.findSegmentIndex(segments, startAt) : 0);
   }
 
-  private chunkText(text: string, maxChunkSize = 200): string[] {
-    if (text.length <= maxChunkSize) {
-      return [text];
-    }
+  // Preprocess and chunk each paragraph separately so a chunk never spans two paragraphs
+  private segmentText(text: string, lang?: string, language?: LanguageSettings): SpeechSegment[] {
+    const paragraphs = text.split(/\n\s*\n/);
+    const paragraphLangs = language?.autoDetect ? this.getParagraphLangs(paragraphs, language) : [];
 
-    const chunks: string[] = [];
-    const sentences = text.split(/[.!?]+/).filter(s => s.trim().length > 0);
-    
-    let currentChunk = '';
-    
-    for (const sentence of sentences) {
-      const trimmedSentence = sentence.trim();
-      
-      if (currentChunk.length + trimmedSentence.length <= maxChunkSize) {
-        currentChunk += (currentChunk ? '. ' : '') + trimmedSentence;
-      } else {
-        if (currentChunk) {
-          chunks.push(currentChunk + '.');
-        }
-        
-        // Handle very long sentences
-        if (trimmedSentence.length > maxChunkSize) {
-          const subChunks = this.chunkLongSentence(trimmedSentence, maxChunkSize);
-          chunks.push(...subChunks);
-          currentChunk = '';
-        } else {
-          currentChunk = trimmedSentence;
-        }
-      }
-    }
-    
-    if (currentChunk) {
-      chunks.push(currentChunk + '.');
-    }
-    
-    return chunks.filter(chunk => chunk.trim().length > 0);
+    // Indexes count every paragraph of the text, including ones the lexicon empties, so they keep matching
+    // the page's blocks for highlighting and saved progress
+    return paragraphs
+      .map((paragraph, paragraphIndex) => ({
+        text: this.preprocessText(paragraph, paragraphLangs[paragraphIndex] || lang),
+        lang: paragraphLangs[paragraphIndex],
+        paragraphIndex
+      }))
+      .filter(paragraph => paragraph.text.length > 0)
+      .flatMap(paragraph =>
+        splitSentences(paragraph.text).map(chunk => ({
+          text: this.normalizeChunk(chunk, paragraph.lang || lang),
+          paragraphIndex: paragraph.paragraphIndex,
+          lang: paragraph.lang
+        }))
+      );
   }
 
-  private chunkLongSentence(sentence: string, maxSize: number): string[] {
-    const words = sentence.split(' ');
-    const chunks: string[] = [];
-    let currentChunk = '';
-    
-    for (const word of words) {
-      if (currentChunk.length + word.length + 1 <= maxSize) {
-        currentChunk += (currentChunk ? ' ' : '') + word;
-      } else {
-        if (currentChunk) {
-          chunks.push(currentChunk);
-        }
-        currentChunk = word;
+  // Declared languages win; detection fills in the rest, and text too short to detect gets the language of the whole
+  private getParagraphLangs(paragraphs: string[], language: LanguageSettings): (string | undefined)[] {
+    let overall: string | undefined | null;
+    const getOverall = () => {
+      if (overall === undefined) {
+        overall = detectLanguage(paragraphs.join(' ')) || language.documentLang || null;
       }
+      return overall || undefined;
+    };
+
+    return paragraphs.map((paragraph, index) =>
+      language.paragraphLangs?.[index] || detectLanguage(paragraph) || getOverall()
+    );
+  }
+
+  // Every SSML segment is spoken on its own so its prosody can be applied; a pause belongs to its first sentence
+  private segmentSSML(markup: string, lang?: string): SpeechSegment[] {
+    return parseSSML(markup).flatMap(part =>
+      splitSentences(this.preprocessText(part.text, part.lang || lang)).map((chunk, index) => ({
+        text: this.normalizeChunk(chunk, part.lang || lang),
+        paragraphIndex: part.paragraphIndex,
+        prosody: part.prosody,
+        lang: part.lang,
+        pauseBefore: index === 0 ? part.pauseBefore : 0
+      }))
+    );
+  }
+
+  private findSegmentIndex(segments: SpeechSegment[], position: SpeechPosition): number {
+    // A paragraph with nothing to read continues with the next one
+    const paragraphStart = segments.findIndex(segment => segment.paragraphIndex >= position.paragraphIndex);
+    if (paragraphStart === -1) return 0;
+
+    // Clamp to the paragraph in case it has fewer sentences than recorded
+    let index = paragraphStart;
+    while (
+      index - paragraphStart < position.sentenceIndex &&
+      segments[index + 1]?.paragraphIndex === position.paragraphIndex
+    ) {
+      index++;
     }
-    
-    if (currentChunk) {
-      chunks.push(currentChunk);
-    }
-    
-    return chunks;
+    return index;
+  }
+
+  private preprocessText(text: string, lang?: string): string {
+    return preprocessForSpeech(text, this.lexicon, { lang, hostname: this.lexiconHostname });
   }
 
-  private async speakChunk(text: string, options: Partial<SpeechSettings> = {}): Promise<void> {
+  // Runs on sentences rather than paragraphs: a rewritten "19.10.2024" ("19. Oktober 2024") must not end a sentence
+  private normalizeChunk(text: string, lang?: string): string {
+    return this.normalizeText ? normalizeForSpeech(text, lang, this.disabledNormalizations) : text;
+  }
+
+  private getEngineOptions(segment: SpeechSegment, options: Partial<SpeechSettings>): EngineSpeakOptions {
+    const { prosody } = segment;
+    const baseVoice = options.voice || this.settings.voice;
+    const voice = segment.lang ? this.findVoiceForLang(segment.lang, baseVoice) : baseVoice;
+
+    return {
+      voiceName: voice?.name,
+      // The voice's own language, so engines that match on both keep the chosen voice
+      lang: voice?.lang || segment.lang,
+      rate: clamp((options.rate ?? this.settings.rate) * (prosody?.rate ?? 1), 0.1, 10),
+      pitch: clamp((options.pitch ?? this.settings.pitch) * (prosody?.pitch ?? 1), 0, 2),
+      volume: clamp((options.volume ?? this.settings.volume) * (prosody?.volume ?? 1), 0, 1)
+    };
+  }
+
+  private async speakChunk(segment: SpeechSegment, options: Partial<SpeechSettings> = {}): Promise<void> {
+    const generation = this.playbackGeneration;
+    const { text } = segment;
+
     return new Promise((resolve, reject) => {
-      const utterance = new SpeechSynthesisUtterance(text);
-      
-      // Apply settings
-      utterance.voice = options.voice || this.settings.voice;
-      utterance.rate = options.rate || this.settings.rate;
-      utterance.pitch = options.pitch || this.settings.pitch;
-      utterance.volume = options.volume || this.settings.volume;
-      
-      // Set up event handlers
-      utterance.onstart = () => {
-        this.currentUtterance = utterance;
-        this.onStart();
-      };
-      
-      utterance.onend = () => {
-        this.onEnd();
-        resolve();
-      };
-      
-      utterance.onerror = (event: SpeechSynthesisErrorEvent) => {
-        // Check if this is an expected interruption
-        if (event.error === 'interrupted' || event.error === 'canceled') {
-          // This is expected when stopping TTS - don't treat as error
-          resolve(); // Resolve instead of reject for interruptions
-          return;
+      const handleEvent = (event: EngineEvent) => {
+        switch (event.type) {
+          case 'start':
+            if (generation !== this.playbackGeneration) return;
+            this.currentText = text;
+            this.progress.sentenceStarted(this.currentChunkIndex);
+            this.onStart();
+            // Not every voice reports word boundaries, so announce the whole chunk up front
+            this.notifyBoundary({
+              chunkIndex: this.currentChunkIndex,
+              chunkText: text,
+              charIndex: 0,
+              charLength: text.length,
+              name: 'sentence'
+            });
+            break;
+
+          case 'boundary':
+            if (event.name !== 'word' || generation !== this.playbackGeneration) return;
+            this.progress.wordStarted(event.charIndex);
+            this.notifyBoundary({
+              chunkIndex: this.currentChunkIndex,
+              chunkText: text,
+              charIndex: event.charIndex,
+              charLength: event.charLength || this.getWordLength(text, event.charIndex),
+              name: 'word'
+            });
+            break;
+
+          case 'end':
+            // Utterances cancelled by a seek may still report their end; the new position owns the state now
+            if (generation === this.playbackGeneration) {
+              this.progress.sentenceEnded();
+              this.onEnd();
+            }
+            resolve();
+            break;
+
+          case 'interrupted':
+            // This is expected when stopping TTS - don't treat as error
+            resolve();
+            break;
+
+          case 'error':
+            reject(new Error(`Speech synthesis error: ${event.error}`));
+            break;
+
+          case 'pause':
+            this.onPause();
+            break;
+
+          case 'resume':
+            this.onResume();
+            break;
         }
-        
-        this.onError(event);
-        reject(new Error(`Speech synthesis error: ${event.error}`));
       };
-      
-      utterance.onpause = this.onPause;
-      utterance.onresume = this.onResume;
-      
+
       // Start speech
       try {
-        speechSynthesis.speak(utterance);
+        this.engine.speak(text, this.getEngineOptions(segment, options), handleEvent);
+        // Engines that fetch their audio get the next sentences ready while this one plays
+        this.engine.prefetch?.(
+          this.segments
+            .slice(this.currentChunkIndex + 1, this.currentChunkIndex + 1 + PREFETCH_SENTENCES)
+            .map(next => ({ text: next.text, options: this.getEngineOptions(next, options) }))
+        );
       } catch (error) {
         reject(error);
       }
     });
   }
 
-  private async speakChunks(chunks: string[], options: Partial<SpeechSettings> = {}): Promise<void> {
-    this.speechQueue = chunks.map(chunk => ({ text: chunk, options }));
-    this.currentChunkIndex = 0;
+  private async speakChunks(segments: SpeechSegment[], options: Partial<SpeechSettings> = {}, startIndex = 0): Promise<void> {
+    this.segments = segments;
+    this.segmentOptions = options;
+    this.currentChunkIndex = startIndex;
+    this.progress.start(segments.map(segment => segment.text), startIndex, options.rate || this.settings.rate);
     return this.processQueue();
   }
 
-  private async processQueue(): Promise<void> {
-    if (this.speechQueue.length === 0 || this.isPlaying) {
+  // `withPause` honours SSML breaks when playback moves on by itself; jumps and seeks start right away
+  private async processQueue(withPause = false): Promise<void> {
+    const segment = this.segments[this.currentChunkIndex];
+    if (!segment || this.isPlaying) {
       return;
     }
 
-    const nextItem = this.speechQueue.shift();
-    if (!nextItem) return;
-    
+    if (withPause && segment.pauseBefore) {
+      const generation = this.playbackGeneration;
+      await new Promise(resolve => setTimeout(resolve, segment.pauseBefore));
+      if (generation !== this.playbackGeneration || this.isPlaying) {
+        return;
+      }
+    }
+
     try {
-      await this.speakChunk(nextItem.text, nextItem.options);
-      this.currentChunkIndex++;
+      await this.speakChunk(segment, this.segmentOptions);
     } catch (error) {
       // Check if this is an expected interruption error
       const errorMessage = (error as Error).message || '';
@@ -416,21 +595,84 @@ export class SpeechSynthesizer {
     }
   }
 
+  // Moves playback by one sentence or paragraph; seeking while paused resumes at the new position
+  seek(unit: SeekUnit, direction: SeekDirection): boolean {
+    if (this.segments.length === 0) {
+      return false;
+    }
+
+    const target = unit === 'sentence'
+      ? this.findSentenceTarget(direction)
+      : this.findParagraphTarget(direction);
+    if (target === -1) {
+      return false;
+    }
+
+    this.jumpTo(target);
+    return true;
+  }
+
+  private findSentenceTarget(direction: SeekDirection): number {
+    if (direction === 'next') {
+      return this.currentChunkIndex + 1 < this.segments.length ? this.currentChunkIndex + 1 : -1;
+    }
+    // At the first sentence, "previous" restarts it
+    return Math.max(this.currentChunkIndex - 1, 0);
+  }
+
+  private findParagraphTarget(direction: SeekDirection): number {
+    const currentParagraph = this.segments[this.currentChunkIndex].paragraphIndex;
+
+    if (direction === 'next') {
+      return this.segments.findIndex(segment => segment.paragraphIndex > currentParagraph);
+    }
+
+    // Paragraph numbers can skip ones with nothing to read; at the first paragraph, "previous" restarts it
+    const previous = [...this.segments].reverse().find(segment => segment.paragraphIndex < currentParagraph);
+    const targetParagraph = previous ? previous.paragraphIndex : currentParagraph;
+    return this.segments.findIndex(segment => segment.paragraphIndex === targetParagraph);
+  }
+
+  // Moves playback to the sentence nearest to `fraction` (0 to 1) of the text, e.g. from a click on a progress bar
+  seekToFraction(fraction: number): boolean {
+    const target = this.segments.length > 0 ? this.progress.getSentenceAt(fraction) : -1;
+    if (target === -1) {
+      return false;
+    }
+
+    this.jumpTo(target);
+    return true;
+  }
+
+  private jumpTo(index: number): void {
+    this.playbackGeneration++;
+    this.engine.stop();
+    this.progress.sentenceInterrupted();
+
+    this.currentText = null;
+    this.isPlaying = false;
+    this.isPaused = false;
+    this.pausePosition = null;
+    this.pausedText = null;
+    this.currentChunkIndex = index;
+    this.processQueue();
+  }
+
   pause(): boolean {
     // Enhanced API state logging
     // eslint-disable-next-line no-console
     console.log('[TTS-Debug] Pause called - API State:', {
       isPlaying: this.isPlaying,
       isPaused: this.isPaused,
-      'speechSynthesis.speaking': speechSynthesis.speaking,
-      'speechSynthesis.paused': speechSynthesis.paused,
-      'speechSynthesis.pending': speechSynthesis.pending
+      engine: this.engine.id,
+      'engine.speaking': this.engine.isSpeaking(),
+      'engine.paused': this.engine.isPaused()
     });
     
-    // Check if speech synthesis is actually speaking
-    if (!speechSynthesis.speaking) {
+    // Check if the engine is actually speaking
+    if (!this.engine.isSpeaking()) {
       // eslint-disable-next-line no-console
-      console.log('[TTS-Debug] speechSynthesis is not speaking, cannot pause');
+      console.log('[TTS-Debug] Engine is not speaking, cannot pause');
       return false;
     }
     
@@ -440,36 +682,12 @@ export class SpeechSynthesizer {
         this.storePausePosition();
         
         // Pause speech synthesis
-        speechSynthesis.pause();
-        
-        // Add small delay and validate pause worked
-        setTimeout(() => {
-          // eslint-disable-next-line no-console
-          console.log('[TTS-Debug] Post-pause API state:', {
-            'speechSynthesis.speaking': speechSynthesis.speaking,
-            'speechSynthesis.paused': speechSynthesis.paused,
-            'speechSynthesis.pending': speechSynthesis.pending
-          });
-          
-          // Check if pause actually worked
-          if (!speechSynthesis.paused && speechSynthesis.speaking) {
-            // eslint-disable-next-line no-console
-            console.warn('[TTS-Debug] WARNING: Pause may have failed - speechSynthesis.paused is still false');
-            // Try pause again
-            speechSynthesis.pause();
-            setTimeout(() => {
-              // eslint-disable-next-line no-console
-              console.log('[TTS-Debug] Retry pause result - speechSynthesis.paused:', speechSynthesis.paused);
-            }, 50);
-          }
-        }, 50);
+        this.engine.pause();
+        this.progress.pause();
         
         this.isPaused = true;
         this.notifyPlaybackState('paused');
         
-        // eslint-disable-next-line no-console
-        console.log('[TTS-Debug] Speech paused successfully, speechSynthesis.paused:', speechSynthesis.paused);
-        
         if (process.env.NODE_ENV === 'development') {
           // eslint-disable-next-line no-console
           console.log('Speech paused at position:', this.pausePosition);
@@ -490,54 +708,31 @@ export class SpeechSynthesizer {
     // eslint-disable-next-line no-console
     console.log('[TTS-Debug] Resume called - API State:', {
       isPaused: this.isPaused,
-      'speechSynthesis.speaking': speechSynthesis.speaking,
-      'speechSynthesis.paused': speechSynthesis.paused,
-      'speechSynthesis.pending': speechSynthesis.pending
+      engine: this.engine.id,
+      'engine.speaking': this.engine.isSpeaking(),
+      'engine.paused': this.engine.isPaused()
     });
     
     // Check for API state mismatch
-    if (this.isPaused && !speechSynthesis.paused) {
+    if (this.isPaused && !this.engine.isPaused()) {
       // eslint-disable-next-line no-console
-      console.warn('[TTS-Debug] WARNING: State mismatch - extension thinks paused but speechSynthesis.paused is false');
+      console.warn('[TTS-Debug] WARNING: State mismatch - extension thinks paused but the engine is not paused');
       // Try to recover by assuming speech is actually playing
       this.isPaused = false;
+      this.progress.resume();
       this.notifyPlaybackState('resumed');
       return true;
     }
     
-    if (this.isPaused && speechSynthesis.paused) {
+    if (this.isPaused) {
       try {
         // Resume speech synthesis
-        speechSynthesis.resume();
-        
-        // Add small delay and validate resume worked
-        setTimeout(() => {
-          // eslint-disable-next-line no-console
-          console.log('[TTS-Debug] Post-resume API state:', {
-            'speechSynthesis.speaking': speechSynthesis.speaking,
-            'speechSynthesis.paused': speechSynthesis.paused,
-            'speechSynthesis.pending': speechSynthesis.pending
-          });
-          
-          // Check if resume actually worked
-          if (speechSynthesis.paused) {
-            // eslint-disable-next-line no-console
-            console.warn('[TTS-Debug] WARNING: Resume may have failed - speechSynthesis.paused is still true');
-            // Try resume again
-            speechSynthesis.resume();
-            setTimeout(() => {
-              // eslint-disable-next-line no-console
-              console.log('[TTS-Debug] Retry resume result - speechSynthesis.paused:', speechSynthesis.paused);
-            }, 50);
-          }
-        }, 50);
+        this.engine.resume();
+        this.progress.resume();
         
         this.isPaused = false;
         this.notifyPlaybackState('resumed');
         
-        // eslint-disable-next-line no-console
-        console.log('[TTS-Debug] Speech resumed successfully');
-        
         if (process.env.NODE_ENV === 'development') {
           // eslint-disable-next-line no-console
           console.log('Speech resumed');
@@ -554,12 +749,12 @@ export class SpeechSynthesizer {
   }
 
   private storePausePosition(): void {
-    if (this.currentUtterance) {
+    if (this.currentText) {
       // Store current text and position
-      this.pausedText = this.currentUtterance.text;
+      this.pausedText = this.currentText;
       this.pausePosition = {
         chunkIndex: this.currentChunkIndex,
-        queueLength: this.speechQueue.length,
+        queueLength: this.segments.length - this.currentChunkIndex - 1,
         timestamp: Date.now()
       };
     }
@@ -583,9 +778,9 @@ export class SpeechSynthesizer {
     console.log('[TTS-Debug] TogglePause called - Current State:', {
       isPaused: this.isPaused,
       isPlaying: this.isPlaying,
-      'speechSynthesis.speaking': speechSynthesis.speaking,
-      'speechSynthesis.paused': speechSynthesis.paused,
-      'speechSynthesis.pending': speechSynthesis.pending,
+      engine: this.engine.id,
+      'engine.speaking': this.engine.isSpeaking(),
+      'engine.paused': this.engine.isPaused(),
       timeSinceLastToggle: timeSinceLastToggle + 'ms'
     });
     
@@ -601,9 +796,10 @@ export class SpeechSynthesizer {
   }
 
   stop(): void {
-    speechSynthesis.cancel();
-    this.speechQueue = [];
-    this.currentUtterance = null;
+    this.playbackGeneration++;
+    this.engine.stop();
+    this.segments = [];
+    this.currentText = null;
     this.isPlaying = false;
     this.isPaused = false;
     this.pausePosition = null;
@@ -617,35 +813,78 @@ export class SpeechSynthesizer {
     return {
       isPlaying: this.isPlaying,
       isPaused: this.isPaused,
-      hasQueue: this.speechQueue.length > 0,
-      currentText: this.currentUtterance?.text || null,
+      hasQueue: this.currentChunkIndex < this.segments.length - 1,
+      currentText: this.currentText,
       pausePosition: this.pausePosition,
-      canResume: this.isPaused && this.pausedText !== null
+      canResume: this.isPaused && this.pausedText !== null,
+      sentenceIndex: this.currentChunkIndex,
+      sentenceCount: this.segments.length,
+      rate: this.segmentOptions.rate || this.settings.rate,
+      progress: this.progress.getProgress()
+    };
+  }
+
+  // Paragraph and sentence being read, or null when nothing is queued
+  getPosition(): SpeechPosition | null {
+    const segment = this.segments[this.currentChunkIndex];
+    if (!segment) return null;
+
+    const paragraphStart = this.segments.findIndex(candidate => candidate.paragraphIndex === segment.paragraphIndex);
+    return {
+      paragraphIndex: segment.paragraphIndex,
+      sentenceIndex: this.currentChunkIndex - paragraphStart
     };
   }
 
+  // Local listeners (same context as the synthesizer)
+  onBoundary(listener: BoundaryListener): () => void {
+    this.boundaryListeners.add(listener);
+    return () => this.boundaryListeners.delete(listener);
+  }
+
+  onPlaybackStateChange(listener: PlaybackStateListener): () => void {
+    this.stateListeners.add(listener);
+    return () => this.stateListeners.delete(listener);
+  }
+
+  private notifyBoundary(event: SpeechBoundaryEvent): void {
+    this.boundaryListeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('Error in boundary listener:', error);
+      }
+    });
+  }
+
+  private getWordLength(text: string, charIndex: number): number {
+    const match = /^\S+/.exec(text.slice(charIndex));
+    return match ? match[0].length : 0;
+  }
+
   private notifyPlaybackState(state: PlaybackStateType): void {
-    // Send message to background script
-    if (typeof chrome !== 'undefined' && chrome.runtime) {
-      chrome.runtime.sendMessage({
-        type: MessageType.TTS_STATE_CHANGED,
-        payload: {
-          state: state,
-          playbackState: this.getPlaybackState(),
-          timestamp: Date.now()
-        }
-      }).catch(error => {
-        if (process.env.NODE_ENV === 'development') {
-          // eslint-disable-next-line no-console
-          console.log('Could not notify playback state:', error);
-        }
-      });
-    }
+    const playbackState = this.getPlaybackState();
+    this.stateListeners.forEach(listener => {
+      try {
+        listener(state, playbackState);
+      } catch (error) {
+        console.error('Error in playback state listener:', error);
+      }
+    });
+
+    this.report({
+      type: MessageType.TTS_STATE_CHANGED,
+      payload: {
+        state: state,
+        playbackState: { ...playbackState },
+        timestamp: Date.now()
+      }
+    });
   }
 
-  private handleSpeechError(error: Error | SpeechSynthesisErrorEvent): void {
+  private handleSpeechError(error: Error): void {
     // Check if this is an expected "interrupted" error from stopping TTS
-    const errorMessage = 'error' in error ? error.error : error.message || 'unknown';
+    const errorMessage = error.message || 'unknown';
     const isInterrupted = errorMessage.includes('interrupted') || errorMessage.includes('canceled');
     
     if (isInterrupted) {
@@ -669,8 +908,8 @@ export class SpeechSynthesizer {
     this.notifyError(errorType, error);
   }
 
-  private categorizeError(error: Error | SpeechSynthesisErrorEvent): ErrorType {
-    const errorMessage = 'error' in error ? error.error : error.message || 'unknown';
+  private categorizeError(error: Error): ErrorType {
+    const errorMessage = error.message || 'unknown';
     
     if (errorMessage.includes('network')) return 'network';
     if (errorMessage.includes('not-allowed')) return 'permission';
@@ -682,22 +921,15 @@ export class SpeechSynthesizer {
     return 'unknown';
   }
 
-  private notifyError(errorType: ErrorType, originalError: Error | SpeechSynthesisErrorEvent): void {
-    if (typeof chrome !== 'undefined' && chrome.runtime) {
-      chrome.runtime.sendMessage({
-        type: MessageType.TTS_ERROR,
-        payload: {
-          errorType: errorType,
-          error: 'message' in originalError ? originalError.message : originalError.error || 'Unknown error',
-          timestamp: Date.now()
-        }
-      }).catch(error => {
-        if (process.env.NODE_ENV === 'development') {
-          // eslint-disable-next-line no-console
-          console.log('Could not notify error:', error);
-        }
-      });
-    }
+  private notifyError(errorType: ErrorType, originalError: Error): void {
+    this.report({
+      type: MessageType.TTS_ERROR,
+      payload: {
+        errorType: errorType,
+        error: originalError.message || 'Unknown error',
+        timestamp: Date.now()
+      }
+    });
   }
 
   private handleInitializationError(error: Error): void {
@@ -729,10 +961,37 @@ export class SpeechSynthesizer {
     return false;
   }
 
-  getVoice(): SpeechSynthesisVoice | null {
+  getVoice(): EngineVoice | null {
     return this.settings.voice;
   }
 
+  // Voice for text in `lang`: the given voice if it speaks it, else the user's preferred voice for the language,
+  // else the best match among the available ones
+  private findVoiceForLang(lang: string, voice: EngineVoice | null): EngineVoice | null {
+    const wanted = lang.toLowerCase().replace('_', '-');
+    const primary = wanted.split('-')[0];
+    const langOf = (candidate: EngineVoice) => candidate.lang.toLowerCase().replace('_', '-');
+    const matchesExactly = (candidate: EngineVoice) => langOf(candidate) === wanted;
+    const matchesLanguage = (candidate: EngineVoice) => langOf(candidate).split('-')[0] === primary;
+
+    // A bare language ("es", as detected) is spoken by any regional voice of it
+    if (voice && (matchesExactly(voice) || (wanted === primary && matchesLanguage(voice)))) return voice;
+
+    const preferredName = this.languageVoices[primary];
+    const preferred = preferredName && this.availableVoices.find(candidate => candidate.name === preferredName);
+    if (preferred) return preferred;
+
+    return this.availableVoices.find(matchesExactly)
+      || (voice && matchesLanguage(voice) ? voice : this.availableVoices.find(matchesLanguage))
+      || voice;
+  }
+
+  // Pronunciation rules for the following speak() calls; `hostname` selects site-scoped entries
+  setLexicon(lexicon: PronunciationLexicon | null, hostname?: string): void {
+    this.lexicon = lexicon;
+    this.lexiconHostname = hostname;
+  }
+
   setRate(rate: number): boolean {
     if (rate >= 0.1 && rate <= 10) {
       this.settings.rate = rate;
@@ -741,6 +1000,19 @@ export class SpeechSynthesizer {
     return false;
   }
 
+  // Speed of the reading in progress too; a sentence being spoken restarts at the new speed
+  changeRate(rate: number): boolean {
+    if (!this.setRate(rate)) {
+      return false;
+    }
+    this.segmentOptions = { ...this.segmentOptions, rate };
+    this.progress.setRate(rate);
+    if (this.isPlaying && !this.isPaused) {
+      this.jumpTo(this.currentChunkIndex);
+    }
+    return true;
+  }
+
   setPitch(pitch: number): boolean {
     if (pitch >= 0 && pitch <= 2) {
       this.settings.pitch = pitch;
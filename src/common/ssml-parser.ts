@@ -0,0 +1,297 @@
+/**
+ * SSML parser - turns an SSML document into segments the speech engines can play one utterance at a time
+ * Web Speech ignores most markup, so <prosody>, <emphasis>, <break>, <say-as>, <sub> and <lang> are resolved
+ * here into plain text with a rate/pitch/volume, language and pause per segment. Unknown elements keep their
+ * text and malformed markup is read as well as it can be; this parser has no DOM so it also runs in the worker.
+ */
+
+// Multipliers of the reading's own rate, pitch and volume
+export interface SSMLProsody {
+  rate: number;
+  pitch: number;
+  volume: number;
+}
+
+export interface SSMLSegment {
+  text: string;
+  prosody: SSMLProsody;
+  lang?: string;
+  // Silence before the segment, in milliseconds
+  pauseBefore: number;
+  // Counts <p> elements, so seeking by paragraph works as for plain text
+  paragraphIndex: number;
+}
+
+interface ElementContext {
+  name: string;
+  prosody: SSMLProsody;
+  lang?: string;
+  transform?: (text: string) => string;
+  // Inside <sub>, whose alias is read instead of its content
+  skipText?: boolean;
+}
+
+const NEUTRAL_PROSODY: SSMLProsody = { rate: 1, pitch: 1, volume: 1 };
+
+const RATE_KEYWORDS: Record<string, number> = {
+  'x-slow': 0.5, slow: 0.75, medium: 1, fast: 1.25, 'x-fast': 1.75, default: 1
+};
+const PITCH_KEYWORDS: Record<string, number> = {
+  'x-low': 0.6, low: 0.8, medium: 1, high: 1.2, 'x-high': 1.4, default: 1
+};
+const VOLUME_KEYWORDS: Record<string, number> = {
+  silent: 0, 'x-soft': 0.4, soft: 0.7, medium: 1, loud: 1, 'x-loud': 1, default: 1
+};
+const EMPHASIS_LEVELS: Record<string, SSMLProsody> = {
+  strong: { rate: 0.85, pitch: 1.1, volume: 1 },
+  moderate: { rate: 0.9, pitch: 1.05, volume: 1 },
+  reduced: { rate: 1.1, pitch: 0.95, volume: 0.8 },
+  none: NEUTRAL_PROSODY
+};
+const BREAK_STRENGTHS: Record<string, number> = {
+  none: 0, 'x-weak': 100, weak: 250, medium: 500, strong: 800, 'x-strong': 1200
+};
+
+const TOKEN_PATTERN = new RegExp([
+  '<!--[\\s\\S]*?-->',
+  '<\\?[\\s\\S]*?\\?>',
+  '<!\\[CDATA\\[([\\s\\S]*?)\\]\\]>',
+  '<(\\/?)([A-Za-z][\\w:.-]*)((?:\\s+[^\\s=/>]+(?:\\s*=\\s*(?:"[^"]*"|\'[^\']*\'|[^\\s>]+))?)*)\\s*(\\/?)>',
+  '([^<]+)',
+  // A "<" that doesn't start a tag is text
+  '(<)'
+].join('|'), 'g');
+
+const ATTRIBUTE_PATTERN = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/g;
+
+const NAMED_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: '\'', nbsp: ' ' };
+
+export function isSSML(text: string): boolean {
+  return /^\s*(<\?xml[^>]*\?>\s*)?<speak[\s>/]/i.test(text);
+}
+
+// Wraps markup passed without its <speak> root, e.g. "Hello <break time='1s'/> world"
+export function toSSMLDocument(markup: string): string {
+  return isSSML(markup) ? markup : `<speak>${markup}</speak>`;
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const value = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(value) && value <= 0x10ffff ? String.fromCodePoint(value) : entity;
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of source.matchAll(ATTRIBUTE_PATTERN)) {
+    attributes[match[1].toLowerCase()] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+  }
+  return attributes;
+}
+
+// Keywords, "150%" (of the default), "+20%"/"-10%" (relative) and, per attribute, semitones, decibels or a bare multiplier
+function parseProsodyValue(value: string | undefined, keywords: Record<string, number>, unit?: 'st' | 'dB' | 'number'): number | null {
+  if (!value) return null;
+  const trimmed = value.trim().toLowerCase();
+  if (trimmed in keywords) return keywords[trimmed];
+
+  const percent = /^([+-]?)(\d*\.?\d+)%$/.exec(trimmed);
+  if (percent) {
+    const amount = parseFloat(percent[2]) / 100;
+    return percent[1] === '-' ? 1 - amount : percent[1] === '+' ? 1 + amount : amount;
+  }
+
+  const number = /^([+-]?\d*\.?\d+)(st|db)?$/.exec(trimmed);
+  if (!number) return null;
+  const amount = parseFloat(number[1]);
+  if (number[2] === 'st' && unit === 'st') return Math.pow(2, amount / 12);
+  if (number[2] === 'db' && unit === 'dB') return Math.pow(10, amount / 20);
+  if (!number[2] && unit === 'number' && amount >= 0) return amount;
+  return null;
+}
+
+function parseDuration(value: string | undefined): number | null {
+  const match = value ? /^\s*(\d*\.?\d+)\s*(ms|s)\s*$/i.exec(value) : null;
+  if (!match) return null;
+  const amount = parseFloat(match[1]);
+  return Math.round(match[2].toLowerCase() === 's' ? amount * 1000 : amount);
+}
+
+function ordinal(value: number): string {
+  const lastTwo = value % 100;
+  const suffix = lastTwo >= 11 && lastTwo <= 13 ? 'th' : ['th', 'st', 'nd', 'rd'][value % 10] || 'th';
+  return `${value}${suffix}`;
+}
+
+// Text rewrites for <say-as interpret-as="...">; other interpretations are read as written
+function getSayAsTransform(interpretAs: string | undefined): ((text: string) => string) | undefined {
+  switch (interpretAs?.toLowerCase()) {
+    case 'characters':
+    case 'spell-out':
+    case 'letters':
+      return text => Array.from(text.replace(/\s+/g, '')).join(' ');
+    case 'digits':
+    case 'telephone':
+      return text => text.replace(/\d/g, digit => ` ${digit} `).replace(/\s+/g, ' ').trim();
+    case 'ordinal':
+      return text => (/^\d+$/.test(text) ? ordinal(parseInt(text, 10)) : text);
+    default:
+      return undefined;
+  }
+}
+
+function multiply(a: SSMLProsody, b: Partial<SSMLProsody>): SSMLProsody {
+  return {
+    rate: a.rate * (b.rate ?? 1),
+    pitch: a.pitch * (b.pitch ?? 1),
+    volume: a.volume * (b.volume ?? 1)
+  };
+}
+
+function sameProsody(a: SSMLProsody, b: SSMLProsody): boolean {
+  return a.rate === b.rate && a.pitch === b.pitch && a.volume === b.volume;
+}
+
+export function parseSSML(markup: string): SSMLSegment[] {
+  const segments: SSMLSegment[] = [];
+  const stack: ElementContext[] = [{ name: '#document', prosody: NEUTRAL_PROSODY }];
+  let paragraphIndex = 0;
+  let pendingPause = 0;
+  // The next text starts a new segment even with the same prosody (after <s>, <p> and <break>)
+  let splitBefore = false;
+  let paragraphBefore = false;
+
+  const current = () => stack[stack.length - 1];
+
+  const addText = (raw: string) => {
+    const context = current();
+    if (context.skipText) return;
+
+    let text = raw.replace(/\s+/g, ' ');
+    if (context.transform) {
+      const transform = context.transform;
+      text = text.replace(/^(\s*)(.*?)(\s*)$/, (_, before: string, core: string, after: string) =>
+        core ? `${before}${transform(core)}${after}` : `${before}${after}`
+      );
+    }
+
+    const last = segments[segments.length - 1];
+    const canJoin = last && !splitBefore && !paragraphBefore && pendingPause === 0;
+    const isWordless = !/[\p{L}\p{N}]/u.test(text);
+
+    // Spaces and stray punctuation ("</emphasis>!") go with the text before them rather than on their own
+    if (canJoin && (isWordless || (sameProsody(last.prosody, context.prosody) && last.lang === context.lang))) {
+      last.text += text;
+      return;
+    }
+    if (isWordless) return;
+
+    if (paragraphBefore && segments.length > 0) {
+      paragraphIndex++;
+    }
+    segments.push({
+      text,
+      prosody: context.prosody,
+      lang: context.lang,
+      pauseBefore: pendingPause,
+      paragraphIndex
+    });
+    pendingPause = 0;
+    splitBefore = false;
+    paragraphBefore = false;
+  };
+
+  const openElement = (name: string, attributes: Record<string, string>) => {
+    const parent = current();
+    const context: ElementContext = { ...parent, name };
+    const lang = attributes['xml:lang'] || attributes.lang;
+    if (lang) {
+      context.lang = lang;
+    }
+
+    switch (name) {
+      case 'p':
+        paragraphBefore = true;
+        break;
+
+      case 's':
+        splitBefore = true;
+        break;
+
+      case 'break': {
+        const duration = parseDuration(attributes.time) ?? BREAK_STRENGTHS[attributes.strength?.toLowerCase() ?? 'medium'] ?? BREAK_STRENGTHS.medium;
+        pendingPause += duration;
+        splitBefore = true;
+        break;
+      }
+
+      case 'emphasis':
+        context.prosody = multiply(parent.prosody, EMPHASIS_LEVELS[attributes.level?.toLowerCase() ?? 'moderate'] ?? EMPHASIS_LEVELS.moderate);
+        break;
+
+      case 'prosody':
+        context.prosody = multiply(parent.prosody, {
+          rate: parseProsodyValue(attributes.rate, RATE_KEYWORDS, 'number') ?? undefined,
+          pitch: parseProsodyValue(attributes.pitch, PITCH_KEYWORDS, 'st') ?? undefined,
+          volume: parseProsodyValue(attributes.volume, VOLUME_KEYWORDS, 'dB') ?? undefined
+        });
+        break;
+
+      case 'say-as':
+        context.transform = getSayAsTransform(attributes['interpret-as']) ?? parent.transform;
+        break;
+
+      case 'sub':
+        if (attributes.alias !== undefined) {
+          addText(attributes.alias);
+          context.skipText = true;
+        }
+        break;
+    }
+
+    stack.push(context);
+  };
+
+  const closeElement = (name: string) => {
+    // Closing tags without a matching open element are ignored; unclosed ones inside it are closed too
+    const index = stack.map(context => context.name).lastIndexOf(name);
+    if (index <= 0) return;
+
+    stack.length = index;
+    if (name === 'p') {
+      paragraphBefore = true;
+    } else if (name === 's') {
+      splitBefore = true;
+    }
+  };
+
+  for (const match of markup.matchAll(TOKEN_PATTERN)) {
+    const [, cdata, closing, tagName, attributeSource, selfClosing, text, strayBracket] = match;
+
+    if (cdata !== undefined) {
+      addText(cdata);
+    } else if (tagName) {
+      const name = tagName.toLowerCase();
+      if (closing) {
+        closeElement(name);
+      } else {
+        openElement(name, parseAttributes(attributeSource || ''));
+        if (selfClosing || name === 'break') {
+          closeElement(name);
+        }
+      }
+    } else if (text !== undefined) {
+      addText(decodeEntities(text));
+    } else if (strayBracket) {
+      addText(strayBracket);
+    }
+  }
+
+  return segments
+    .map(segment => ({ ...segment, text: segment.text.trim() }))
+    .filter(segment => segment.text.length > 0);
+}
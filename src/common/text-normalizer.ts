@@ -0,0 +1,612 @@
+/**
+ * TextNormalizer - rewrites numbers, dates and symbols into the words a voice should say
+ * Voices read "2024-10-19", "$1.2M", "3km/h" or "v2.3.1" in very different ways (or spell them out character
+ * by character), so the common forms are turned into plain language first. Each language has its own rules;
+ * text in a language without rules is left alone, and categories can be switched off per normalizer or per language.
+ */
+
+export type NormalizationCategory =
+  | 'phoneNumbers'
+  | 'dates'
+  | 'versions'
+  | 'times'
+  | 'currency'
+  | 'percentages'
+  | 'ranges'
+  | 'units'
+  | 'romanNumerals'
+  | 'ordinals';
+
+// In the order they are applied
+export const NORMALIZATION_CATEGORIES: NormalizationCategory[] = ['phoneNumbers', 'dates', 'versions', 'times', 'currency',
+  'percentages', 'ranges', 'units', 'romanNumerals', 'ordinals'];
+
+// Categories switched off per primary language, as set in the options ({ de: ['dates'] })
+export type DisabledNormalizations = Record<string, NormalizationCategory[]>;
+
+// Singular and plural form of a unit, currency or scale word
+export type WordForms = [singular: string, plural: string];
+
+export interface CurrencyWords {
+  name: WordForms;
+  // Cents and the like, for amounts written with two decimals
+  subunit?: WordForms;
+}
+
+type Scale = 'thousand' | 'million' | 'billion' | 'trillion';
+
+export interface NormalizationRules {
+  // Locale for Intl date formatting
+  locale: string;
+  decimalSeparator: '.' | ',';
+  // How all-numeric dates such as 10/19/2024 are written, used unless only the other order gives a valid date
+  dateOrder: 'mdy' | 'dmy';
+  words: {
+    percent: string;
+    to: string;
+    point: string;
+    per: string;
+    version: string;
+    plus: string;
+    and: string;
+    // Sign of negative amounts with units ("-5 °C")
+    minus: string;
+    // Between the parts of an IP address
+    dot: string;
+  };
+  // Whether an amount takes the singular ("1 dollar", and in French "1,5 million")
+  isSingular: (value: number) => boolean;
+  scales: Record<Scale, WordForms>;
+  // Written scales besides k/M/B/T, e.g. "million" or "Mio."
+  scaleAliases: Record<string, Scale>;
+  // A scale and the currency together: "1,2 millones de dólares"
+  joinScale: (scale: string, currency: string) => string;
+  currencies: Record<string, CurrencyWords>;
+  // Unit symbols as written after a number ("km", "°C"); also used after "/" as in "km/h"
+  units: Record<string, WordForms>;
+  // `hours` are 0-23; `isTwelveHour` when the text said "am" or "pm"
+  formatTime: (hours: number, minutes: number, isTwelveHour: boolean) => string;
+  // Words written after a time that its spoken form already says ("14:30 Uhr", "14:30 h")
+  timeSuffixes?: string[];
+  // Words after which a Roman numeral is a plain number ("Chapter IV", "World War II")
+  romanKeywords: string[];
+  // Roman numerals after names ("Henry VIII"), or undefined to leave them as written
+  formatRegnal?: (value: number) => string;
+  // Monarchs' and popes' names; after any other name a numeral is a title's ("Malcolm X", "Final Fantasy VII")
+  regnalNames?: string[];
+  ordinals?: {
+    pattern: RegExp;
+    // `nextWord` is the word right after the ordinal, if any ("3.º lugar")
+    format: (value: number, marker: string, nextWord?: string) => string | null;
+  };
+}
+
+const SCALE_SYMBOLS: Record<string, Scale> = { k: 'thousand', K: 'thousand', M: 'million', B: 'billion', bn: 'billion', T: 'trillion' };
+
+const CURRENCY_CODES: Record<string, string> = { USD: '$', EUR: '€', GBP: '£', JPY: '¥', INR: '₹' };
+
+const NUMBER = '\\d+(?:[.,]\\d+)*';
+
+const ROMAN_NUMERAL = 'M{0,3}(?:CM|CD|D?C{0,3})(?:XC|XL|L?X{0,3})(?:IX|IV|V?I{0,3})';
+
+const ROMAN_VALUES: Record<string, number> = { I: 1, V: 5, X: 10, L: 50, C: 100, D: 500, M: 1000 };
+
+const EN_ONES = ['zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten', 'eleven', 'twelve',
+  'thirteen', 'fourteen', 'fifteen', 'sixteen', 'seventeen', 'eighteen', 'nineteen'];
+const EN_TENS = ['', '', 'twenty', 'thirty', 'forty', 'fifty', 'sixty', 'seventy', 'eighty', 'ninety'];
+const EN_IRREGULAR_ORDINALS: Record<string, string> = {
+  one: 'first', two: 'second', three: 'third', five: 'fifth', eight: 'eighth', nine: 'ninth', twelve: 'twelfth'
+};
+
+const ES_ORDINALS = ['', 'primero', 'segundo', 'tercero', 'cuarto', 'quinto', 'sexto', 'séptimo', 'octavo', 'noveno', 'décimo'];
+// Words after an ordinal that aren't the noun it belongs to ("el 1.º de mayo", "1.º y 2.º")
+const ES_FUNCTION_WORDS = new Set(['de', 'del', 'y', 'e', 'o', 'u', 'a', 'al', 'en', 'con', 'por', 'para', 'que']);
+const FR_ORDINALS = ['', 'premier', 'deuxième', 'troisième', 'quatrième', 'cinquième', 'sixième', 'septième', 'huitième', 'neuvième', 'dixième'];
+
+function englishCardinal(value: number): string {
+  if (value < 20) return EN_ONES[value];
+  if (value < 100) {
+    return EN_TENS[Math.floor(value / 10)] + (value % 10 ? `-${EN_ONES[value % 10]}` : '');
+  }
+  if (value < 1000) {
+    return `${EN_ONES[Math.floor(value / 100)]} hundred` + (value % 100 ? ` ${englishCardinal(value % 100)}` : '');
+  }
+  return `${englishCardinal(Math.floor(value / 1000))} thousand` + (value % 1000 ? ` ${englishCardinal(value % 1000)}` : '');
+}
+
+// "twenty-first"; only the last word of the cardinal changes
+function englishOrdinal(value: number): string {
+  return englishCardinal(value).replace(/[a-z]+$/, (word) =>
+    EN_IRREGULAR_ORDINALS[word] || (word.endsWith('y') ? `${word.slice(0, -1)}ieth` : `${word}th`)
+  );
+}
+
+function pluralize(forms: WordForms, singular: boolean): string {
+  return singular ? forms[0] : forms[1];
+}
+
+// Every language names the same units; "s" only counts after a slash ("m/s"), since "90s" is a decade
+type UnitSymbol = 'km' | 'm' | 'cm' | 'mm' | 'kg' | 'g' | 'mg' | 'lb' | 'lbs' | 'oz' | 'mi' | 'ft' | 'l' | 'L' | 'ml' | 'mL'
+  | 'h' | 'min' | 's' | 'ms' | 'mph' | '°C' | '°F' | 'KB' | 'MB' | 'GB' | 'TB' | 'kWh' | 'kW' | 'W' | 'V' | 'Hz' | 'kHz' | 'MHz' | 'GHz';
+
+function units(names: Record<UnitSymbol, WordForms>): Record<string, WordForms> {
+  return names;
+}
+
+export const DEFAULT_NORMALIZATION_RULES: Record<string, NormalizationRules> = {
+  en: {
+    locale: 'en-US',
+    decimalSeparator: '.',
+    dateOrder: 'mdy',
+    words: { percent: 'percent', to: 'to', point: 'point', per: 'per', version: 'version', plus: 'plus', and: 'and', minus: 'minus', dot: 'dot' },
+    isSingular: value => value === 1,
+    scales: {
+      thousand: ['thousand', 'thousand'],
+      million: ['million', 'million'],
+      billion: ['billion', 'billion'],
+      trillion: ['trillion', 'trillion']
+    },
+    scaleAliases: { thousand: 'thousand', million: 'million', billion: 'billion', trillion: 'trillion' },
+    joinScale: (scale, currency) => `${scale} ${currency}`,
+    currencies: {
+      $: { name: ['dollar', 'dollars'], subunit: ['cent', 'cents'] },
+      '€': { name: ['euro', 'euros'], subunit: ['cent', 'cents'] },
+      '£': { name: ['pound', 'pounds'], subunit: ['penny', 'pence'] },
+      '¥': { name: ['yen', 'yen'] },
+      '₹': { name: ['rupee', 'rupees'], subunit: ['paisa', 'paise'] }
+    },
+    units: units({
+      km: ['kilometer', 'kilometers'], m: ['meter', 'meters'], cm: ['centimeter', 'centimeters'], mm: ['millimeter', 'millimeters'],
+      kg: ['kilogram', 'kilograms'], g: ['gram', 'grams'], mg: ['milligram', 'milligrams'],
+      lb: ['pound', 'pounds'], lbs: ['pound', 'pounds'], oz: ['ounce', 'ounces'], mi: ['mile', 'miles'], ft: ['foot', 'feet'],
+      l: ['liter', 'liters'], L: ['liter', 'liters'], ml: ['milliliter', 'milliliters'], mL: ['milliliter', 'milliliters'],
+      h: ['hour', 'hours'], min: ['minute', 'minutes'], s: ['second', 'seconds'], ms: ['millisecond', 'milliseconds'],
+      mph: ['mile per hour', 'miles per hour'], '°C': ['degree Celsius', 'degrees Celsius'], '°F': ['degree Fahrenheit', 'degrees Fahrenheit'],
+      KB: ['kilobyte', 'kilobytes'], MB: ['megabyte', 'megabytes'], GB: ['gigabyte', 'gigabytes'], TB: ['terabyte', 'terabytes'],
+      kWh: ['kilowatt hour', 'kilowatt hours'], kW: ['kilowatt', 'kilowatts'], W: ['watt', 'watts'], V: ['volt', 'volts'],
+      Hz: ['hertz', 'hertz'], kHz: ['kilohertz', 'kilohertz'], MHz: ['megahertz', 'megahertz'], GHz: ['gigahertz', 'gigahertz']
+    }),
+    // Morning times written without "am" could be either clock, so they keep their form
+    formatTime: (hours, minutes, isTwelveHour) => {
+      const meridiem = hours >= 12 ? ' PM' : hours === 0 || isTwelveHour ? ' AM' : '';
+      const hour = hours === 0 ? 12 : hours > 12 ? hours - 12 : hours;
+      if (minutes === 0) return meridiem ? `${hour}${meridiem}` : `${hour} o'clock`;
+      return `${hour}:${String(minutes).padStart(2, '0')}${meridiem}`;
+    },
+    romanKeywords: ['chapter', 'part', 'volume', 'vol.', 'book', 'act', 'scene', 'section', 'article', 'appendix', 'phase',
+      'stage', 'level', 'episode', 'season', 'type', 'class', 'war', 'bowl'],
+    formatRegnal: value => `the ${englishOrdinal(value)}`,
+    regnalNames: ['Alexander', 'Alfonso', 'Alfred', 'Anne', 'Benedict', 'Boniface', 'Catherine', 'Charles', 'Clement',
+      'Constantine', 'Edward', 'Elizabeth', 'Ferdinand', 'Francis', 'Frederick', 'George', 'Gregory', 'Gustav', 'Henry',
+      'Innocent', 'Ivan', 'James', 'John', 'Leo', 'Louis', 'Mary', 'Napoleon', 'Nicholas', 'Otto', 'Paul', 'Peter', 'Philip',
+      'Pius', 'Ptolemy', 'Ramesses', 'Richard', 'Urban', 'William'],
+    ordinals: {
+      pattern: /(?<![\p{L}\p{N}.,])(\d+)(st|nd|rd|th)(?![\p{L}\p{N}])/gu,
+      format: value => (value < 1000000 ? englishOrdinal(value) : null)
+    }
+  },
+
+  es: {
+    locale: 'es-ES',
+    decimalSeparator: ',',
+    dateOrder: 'dmy',
+    words: { percent: 'por ciento', to: 'a', point: 'punto', per: 'por', version: 'versión', plus: 'más', and: 'con', minus: 'menos', dot: 'punto' },
+    isSingular: value => value === 1,
+    scales: {
+      thousand: ['mil', 'mil'],
+      million: ['millón', 'millones'],
+      billion: ['mil millones', 'mil millones'],
+      trillion: ['billón', 'billones']
+    },
+    scaleAliases: { mil: 'thousand', 'millón': 'million', millones: 'million', 'billón': 'trillion', billones: 'trillion' },
+    joinScale: (scale, currency) => `${scale} de ${currency}`,
+    currencies: {
+      $: { name: ['dólar', 'dólares'], subunit: ['centavo', 'centavos'] },
+      '€': { name: ['euro', 'euros'], subunit: ['céntimo', 'céntimos'] },
+      '£': { name: ['libra', 'libras'], subunit: ['penique', 'peniques'] },
+      '¥': { name: ['yen', 'yenes'] },
+      '₹': { name: ['rupia', 'rupias'] }
+    },
+    units: units({
+      km: ['kilómetro', 'kilómetros'], m: ['metro', 'metros'], cm: ['centímetro', 'centímetros'], mm: ['milímetro', 'milímetros'],
+      kg: ['kilogramo', 'kilogramos'], g: ['gramo', 'gramos'], mg: ['miligramo', 'miligramos'],
+      lb: ['libra', 'libras'], lbs: ['libra', 'libras'], oz: ['onza', 'onzas'], mi: ['milla', 'millas'], ft: ['pie', 'pies'],
+      l: ['litro', 'litros'], L: ['litro', 'litros'], ml: ['mililitro', 'mililitros'], mL: ['mililitro', 'mililitros'],
+      h: ['hora', 'horas'], min: ['minuto', 'minutos'], s: ['segundo', 'segundos'], ms: ['milisegundo', 'milisegundos'],
+      mph: ['milla por hora', 'millas por hora'], '°C': ['grado Celsius', 'grados Celsius'], '°F': ['grado Fahrenheit', 'grados Fahrenheit'],
+      KB: ['kilobyte', 'kilobytes'], MB: ['megabyte', 'megabytes'], GB: ['gigabyte', 'gigabytes'], TB: ['terabyte', 'terabytes'],
+      kWh: ['kilovatio hora', 'kilovatios hora'], kW: ['kilovatio', 'kilovatios'], W: ['vatio', 'vatios'], V: ['voltio', 'voltios'],
+      Hz: ['hercio', 'hercios'], kHz: ['kilohercio', 'kilohercios'], MHz: ['megahercio', 'megahercios'], GHz: ['gigahercio', 'gigahercios']
+    }),
+    formatTime: (hours, minutes) => (minutes === 0 ? `${hours} ${hours === 1 ? 'hora' : 'horas'}` : `${hours} y ${minutes}`),
+    timeSuffixes: ['h', 'hs'],
+    romanKeywords: ['capítulo', 'parte', 'tomo', 'volumen', 'libro', 'acto', 'escena', 'sección', 'artículo', 'siglo', 'temporada'],
+    formatRegnal: value => ES_ORDINALS[value] || String(value),
+    regnalNames: ['Alejandro', 'Alfonso', 'Benedicto', 'Carlos', 'Enrique', 'Felipe', 'Fernando', 'Francisco', 'Gregorio',
+      'Isabel', 'Jaime', 'Juan', 'León', 'Luis', 'Pablo', 'Pedro', 'Pío', 'Sancho'],
+    ordinals: {
+      pattern: /(?<![\p{L}\p{N}.,])(\d+)\.?(º|ª|er)(?![\p{L}\p{N}])/gu,
+      format: (value, marker, nextWord) => {
+        const word = ES_ORDINALS[value];
+        if (!word) return null;
+        if (marker === 'ª') return `${word.slice(0, -1)}a`;
+        // "1.er piso", "3.er lugar", and "3.º lugar" too: "primero" and "tercero" lose their "o" before a noun
+        const beforeNoun = nextWord !== undefined && !ES_FUNCTION_WORDS.has(nextWord.toLowerCase());
+        return marker === 'er' || beforeNoun ? word.replace(/^(prim|terc)ero$/, '$1er') : word;
+      }
+    }
+  },
+
+  fr: {
+    locale: 'fr-FR',
+    decimalSeparator: ',',
+    dateOrder: 'dmy',
+    words: { percent: 'pour cent', to: 'à', point: 'point', per: 'par', version: 'version', plus: 'plus', and: 'et', minus: 'moins', dot: 'point' },
+    isSingular: value => value < 2,
+    scales: {
+      thousand: ['mille', 'mille'],
+      million: ['million', 'millions'],
+      billion: ['milliard', 'milliards'],
+      trillion: ['billion', 'billions']
+    },
+    scaleAliases: { mille: 'thousand', million: 'million', millions: 'million', milliard: 'billion', milliards: 'billion', Md: 'billion' },
+    joinScale: (scale, currency) => `${scale} ${/^[aeiouy]/i.test(currency) ? 'd\'' : 'de '}${currency}`,
+    currencies: {
+      $: { name: ['dollar', 'dollars'], subunit: ['cent', 'cents'] },
+      '€': { name: ['euro', 'euros'], subunit: ['centime', 'centimes'] },
+      '£': { name: ['livre', 'livres'], subunit: ['penny', 'pence'] },
+      '¥': { name: ['yen', 'yens'] },
+      '₹': { name: ['roupie', 'roupies'] }
+    },
+    units: units({
+      km: ['kilomètre', 'kilomètres'], m: ['mètre', 'mètres'], cm: ['centimètre', 'centimètres'], mm: ['millimètre', 'millimètres'],
+      kg: ['kilogramme', 'kilogrammes'], g: ['gramme', 'grammes'], mg: ['milligramme', 'milligrammes'],
+      lb: ['livre', 'livres'], lbs: ['livre', 'livres'], oz: ['once', 'onces'], mi: ['mile', 'miles'], ft: ['pied', 'pieds'],
+      l: ['litre', 'litres'], L: ['litre', 'litres'], ml: ['millilitre', 'millilitres'], mL: ['millilitre', 'millilitres'],
+      h: ['heure', 'heures'], min: ['minute', 'minutes'], s: ['seconde', 'secondes'], ms: ['milliseconde', 'millisecondes'],
+      mph: ['mile par heure', 'miles par heure'], '°C': ['degré Celsius', 'degrés Celsius'], '°F': ['degré Fahrenheit', 'degrés Fahrenheit'],
+      KB: ['kilooctet', 'kilooctets'], MB: ['mégaoctet', 'mégaoctets'], GB: ['gigaoctet', 'gigaoctets'], TB: ['téraoctet', 'téraoctets'],
+      kWh: ['kilowattheure', 'kilowattheures'], kW: ['kilowatt', 'kilowatts'], W: ['watt', 'watts'], V: ['volt', 'volts'],
+      Hz: ['hertz', 'hertz'], kHz: ['kilohertz', 'kilohertz'], MHz: ['mégahertz', 'mégahertz'], GHz: ['gigahertz', 'gigahertz']
+    }),
+    formatTime: (hours, minutes) => `${hours} ${hours < 2 ? 'heure' : 'heures'}${minutes ? ` ${minutes}` : ''}`,
+    timeSuffixes: ['h'],
+    romanKeywords: ['chapitre', 'partie', 'tome', 'volume', 'livre', 'acte', 'scène', 'section', 'article', 'saison'],
+    // Kings are counted with cardinals, except the first
+    formatRegnal: value => (value === 1 ? 'premier' : String(value)),
+    regnalNames: ['Benoît', 'Charles', 'François', 'Grégoire', 'Guillaume', 'Henri', 'Jean', 'Léon', 'Louis', 'Napoléon',
+      'Paul', 'Philippe', 'Pie', 'Pierre', 'Élisabeth'],
+    ordinals: {
+      pattern: /(?<![\p{L}\p{N}.,])(\d+)(ère|re|er|ème|e)(?![\p{L}\p{N}])/gu,
+      format: (value, marker) => {
+        if (value === 1) return marker === 'er' ? 'premier' : 'première';
+        return marker === 'er' || marker === 're' || marker === 'ère' ? null : FR_ORDINALS[value] || null;
+      }
+    }
+  },
+
+  de: {
+    locale: 'de-DE',
+    decimalSeparator: ',',
+    dateOrder: 'dmy',
+    words: { percent: 'Prozent', to: 'bis', point: 'Punkt', per: 'pro', version: 'Version', plus: 'plus', and: 'und', minus: 'minus', dot: 'Punkt' },
+    isSingular: value => value === 1,
+    scales: {
+      thousand: ['Tausend', 'Tausend'],
+      million: ['Million', 'Millionen'],
+      billion: ['Milliarde', 'Milliarden'],
+      trillion: ['Billion', 'Billionen']
+    },
+    scaleAliases: { Tsd: 'thousand', 'Tsd.': 'thousand', 'Mio.': 'million', Mio: 'million', 'Mrd.': 'billion', Mrd: 'billion',
+      Million: 'million', Millionen: 'million', Milliarde: 'billion', Milliarden: 'billion' },
+    joinScale: (scale, currency) => `${scale} ${currency}`,
+    currencies: {
+      $: { name: ['Dollar', 'Dollar'], subunit: ['Cent', 'Cent'] },
+      '€': { name: ['Euro', 'Euro'], subunit: ['Cent', 'Cent'] },
+      '£': { name: ['Pfund', 'Pfund'], subunit: ['Penny', 'Pence'] },
+      '¥': { name: ['Yen', 'Yen'] },
+      '₹': { name: ['Rupie', 'Rupien'] }
+    },
+    units: units({
+      km: ['Kilometer', 'Kilometer'], m: ['Meter', 'Meter'], cm: ['Zentimeter', 'Zentimeter'], mm: ['Millimeter', 'Millimeter'],
+      kg: ['Kilogramm', 'Kilogramm'], g: ['Gramm', 'Gramm'], mg: ['Milligramm', 'Milligramm'],
+      lb: ['Pfund', 'Pfund'], lbs: ['Pfund', 'Pfund'], oz: ['Unze', 'Unzen'], mi: ['Meile', 'Meilen'], ft: ['Fuß', 'Fuß'],
+      l: ['Liter', 'Liter'], L: ['Liter', 'Liter'], ml: ['Milliliter', 'Milliliter'], mL: ['Milliliter', 'Milliliter'],
+      h: ['Stunde', 'Stunden'], min: ['Minute', 'Minuten'], s: ['Sekunde', 'Sekunden'], ms: ['Millisekunde', 'Millisekunden'],
+      mph: ['Meile pro Stunde', 'Meilen pro Stunde'], '°C': ['Grad Celsius', 'Grad Celsius'], '°F': ['Grad Fahrenheit', 'Grad Fahrenheit'],
+      KB: ['Kilobyte', 'Kilobyte'], MB: ['Megabyte', 'Megabyte'], GB: ['Gigabyte', 'Gigabyte'], TB: ['Terabyte', 'Terabyte'],
+      kWh: ['Kilowattstunde', 'Kilowattstunden'], kW: ['Kilowatt', 'Kilowatt'], W: ['Watt', 'Watt'], V: ['Volt', 'Volt'],
+      Hz: ['Hertz', 'Hertz'], kHz: ['Kilohertz', 'Kilohertz'], MHz: ['Megahertz', 'Megahertz'], GHz: ['Gigahertz', 'Gigahertz']
+    }),
+    formatTime: (hours, minutes) => `${hours} Uhr${minutes ? ` ${minutes}` : ''}`,
+    timeSuffixes: ['Uhr', 'h'],
+    romanKeywords: ['kapitel', 'teil', 'band', 'buch', 'akt', 'szene', 'abschnitt', 'artikel', 'staffel'],
+    // "Ludwig XIV." is read as an ordinal when written with its dot
+    formatRegnal: value => `${value}.`,
+    regnalNames: ['Benedikt', 'Elisabeth', 'Ferdinand', 'Franz', 'Friedrich', 'Georg', 'Gregor', 'Gustav', 'Heinrich',
+      'Johannes', 'Karl', 'Leo', 'Ludwig', 'Maximilian', 'Otto', 'Paul', 'Pius', 'Wilhelm']
+    // "3." is just as often the end of a sentence, so ordinals are left to the voice
+  }
+};
+
+function getRulesLanguage(lang: string): string {
+  return lang.trim().toLowerCase().split(/[-_]/)[0];
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Longest first, so "min" wins over "mi" and "kWh" over "kW"
+function alternation(options: string[]): string {
+  return [...options].sort((a, b) => b.length - a.length).map(escapeRegExp).join('|');
+}
+
+// Keywords match with or without a capital first letter: "Chapter IV", "in chapter IV"
+function capitalizable(keywords: string[]): string {
+  return [...keywords]
+    .sort((a, b) => b.length - a.length)
+    .map(keyword => `[${keyword[0].toUpperCase()}${keyword[0]}]${escapeRegExp(keyword.slice(1))}`)
+    .join('|');
+}
+
+function parseRoman(numeral: string): number {
+  let total = 0;
+  for (let i = 0; i < numeral.length; i++) {
+    const value = ROMAN_VALUES[numeral[i]];
+    const next = ROMAN_VALUES[numeral[i + 1]] || 0;
+    total += value < next ? -value : value;
+  }
+  return total;
+}
+
+function isIPAddress(text: string): boolean {
+  const parts = text.split('.');
+  return parts.length === 4 && parts.every(part => /^(0|[1-9]\d{0,2})$/.test(part) && Number(part) <= 255);
+}
+
+function isValidDate(year: number, month: number, day: number): boolean {
+  if (month < 1 || month > 12 || day < 1) return false;
+  return day <= new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+interface CompiledRules {
+  rules: NormalizationRules;
+  currencyBefore: RegExp;
+  currencyAfter: RegExp;
+  units: RegExp;
+  romanKeyword: RegExp;
+  time: RegExp;
+  // Null without regnal names
+  regnal: RegExp | null;
+  dateFormat: Intl.DateTimeFormat;
+}
+
+export class TextNormalizer {
+  private compiled = new Map<string, CompiledRules>();
+  private disabled: Set<NormalizationCategory>;
+
+  constructor(
+    private readonly rules: Record<string, NormalizationRules> = DEFAULT_NORMALIZATION_RULES,
+    disabled: NormalizationCategory[] = []
+  ) {
+    this.disabled = new Set(disabled);
+  }
+
+  // `lang` is a BCP 47 tag; text in languages without rules is returned unchanged. `skip` adds to the
+  // normalizer's disabled categories for this text
+  normalize(text: string, lang = 'en', skip: NormalizationCategory[] = []): string {
+    const compiled = this.getCompiledRules(lang);
+    if (!compiled) return text;
+
+    const steps: [NormalizationCategory, (input: string) => string][] = [
+      ['phoneNumbers', input => this.normalizePhoneNumbers(input, compiled.rules)],
+      ['dates', input => this.normalizeDates(input, compiled)],
+      ['versions', input => this.normalizeVersions(input, compiled.rules)],
+      ['times', input => this.normalizeTimes(input, compiled)],
+      ['currency', input => this.normalizeCurrency(input, compiled)],
+      ['percentages', input => input.replace(new RegExp(`(?<![\\p{L}\\p{N}.,])(${NUMBER})\\s?%`, 'gu'), `$1 ${compiled.rules.words.percent}`)],
+      ['ranges', input => this.normalizeRanges(input, compiled.rules)],
+      ['units', input => this.normalizeUnits(input, compiled)],
+      ['romanNumerals', input => this.normalizeRomanNumerals(input, compiled)],
+      ['ordinals', input => this.normalizeOrdinals(input, compiled.rules)]
+    ];
+
+    return steps.reduce((result, [category, step]) =>
+      (this.disabled.has(category) || skip.includes(category) ? result : step(result)), text);
+  }
+
+  private getCompiledRules(lang: string): CompiledRules | null {
+    const primary = getRulesLanguage(lang);
+    const rules = this.rules[primary];
+    if (!rules) return null;
+
+    let compiled = this.compiled.get(primary);
+    if (!compiled) {
+      const currency = alternation([...Object.keys(rules.currencies), ...Object.keys(CURRENCY_CODES)]);
+      const scale = alternation([...Object.keys(SCALE_SYMBOLS), ...Object.keys(rules.scaleAliases)]);
+      const unit = alternation(Object.keys(rules.units).filter(symbol => symbol !== 's'));
+      const perUnit = alternation(Object.keys(rules.units));
+
+      compiled = {
+        rules,
+        currencyBefore: new RegExp(`(?<![\\p{L}\\p{N}])(${currency})\\s?(${NUMBER})(?:\\s?(${scale}))?(?![\\p{L}\\p{N}-])`, 'gu'),
+        currencyAfter: new RegExp(`(?<![\\p{L}\\p{N}.,])(${NUMBER})(?:\\s?(${scale}))?\\s?(${currency})(?![\\p{L}\\p{N}])`, 'gu'),
+        units: new RegExp(`(?<![\\p{L}\\p{N}.,])(?:(?<![\\p{L}\\p{N}])([-−]))?(${NUMBER})\\s?(${unit})(?:\\/(${perUnit}))?(?![\\p{L}\\p{N}])`, 'gu'),
+        romanKeyword: new RegExp(`(?<![\\p{L}])(${capitalizable(rules.romanKeywords)})(\\s+)(${ROMAN_NUMERAL})(?![\\p{L}\\p{N}])`, 'gu'),
+        // The suffix is dropped, as formatTime says it already
+        time: new RegExp(`(?<![\\p{L}\\p{N}:.,])([01]?\\d|2[0-3]):([0-5]\\d)(?:\\s?([AaPp])\\.?[Mm]\\.?(?![\\p{L}])` +
+          `${rules.timeSuffixes?.length ? `|\\s?(?:${alternation(rules.timeSuffixes)})(?![\\p{L}])` : ''})?(?![\\p{N}]|:\\d)`, 'gu'),
+        regnal: rules.formatRegnal && rules.regnalNames?.length
+          ? new RegExp(`(?<![\\p{L}])(${alternation(rules.regnalNames)})(\\s+)(X{0,3}(?:IX|IV|V?I{0,3}))(\\.?)(?![\\p{L}\\p{N}])`, 'gu')
+          : null,
+        dateFormat: new Intl.DateTimeFormat(rules.locale, { dateStyle: 'long', timeZone: 'UTC' })
+      };
+      this.compiled.set(primary, compiled);
+    }
+    return compiled;
+  }
+
+  private parseAmount(amount: string, rules: NormalizationRules): number {
+    const thousands = rules.decimalSeparator === '.' ? ',' : '.';
+    return parseFloat(amount.split(thousands).join('').replace(rules.decimalSeparator, '.'));
+  }
+
+  // "+1 (555) 123-4567" is read digit by digit, a pause between groups
+  private normalizePhoneNumbers(text: string, rules: NormalizationRules): string {
+    const readGroups = (digits: string) =>
+      digits.split(/[\s().-]+/).filter(Boolean).map(group => group.split('').join(' ')).join(', ');
+
+    return text
+      .replace(/(?<![\p{L}\p{N}+])\+(\d{1,3})((?:[\s.-]?\(?\d+\)?){2,})(?![\p{N}])/gu, (match, country: string, rest: string) => {
+        const digits = (country + rest).replace(/\D/g, '');
+        if (digits.length < 7 || digits.length > 15) return match;
+        return `${rules.words.plus} ${readGroups(country)}, ${readGroups(rest)}`;
+      })
+      .replace(/(?<![\p{L}\p{N}.-])(\(\d{3}\)\s?\d{3}[\s.-]\d{4}|\d{3}([.-])\d{3}\2\d{4})(?![\p{N}-])/gu, number => readGroups(number));
+  }
+
+  // ISO dates and all-numeric dates in the language's order become "October 19, 2024" / "19 de octubre de 2024"
+  private normalizeDates(text: string, compiled: CompiledRules): string {
+    const format = (year: number, month: number, day: number) =>
+      compiled.dateFormat.format(new Date(Date.UTC(year, month - 1, day)));
+
+    return text
+      .replace(/(?<![\p{L}\p{N}.,/-])(\d{4})-(\d{2})-(\d{2})(?![\p{N}]|[-/.]\d)/gu, (match, year: string, month: string, day: string) =>
+        (isValidDate(+year, +month, +day) ? format(+year, +month, +day) : match)
+      )
+      .replace(/(?<![\p{L}\p{N}.,/-])(\d{1,2})([./-])(\d{1,2})\2(\d{4})(?![\p{N}]|[-/.]\d)/gu, (match, first: string, _separator: string, second: string, year: string) => {
+        const [month, day] = compiled.rules.dateOrder === 'mdy' ? [+first, +second] : [+second, +first];
+        if (isValidDate(+year, month, day)) return format(+year, month, day);
+        // 19/10/2024 on an American page is still the 19th of October
+        if (isValidDate(+year, day, month)) return format(+year, day, month);
+        return match;
+      });
+  }
+
+  private normalizeVersions(text: string, rules: NormalizationRules): string {
+    const read = (version: string) => version.split('.').join(` ${rules.words.point} `);
+    return text
+      .replace(/(?<![\p{L}\p{N}])v(\d+(?:\.\d+)*)(?![\p{L}\p{N}]|\.\d)/gu, (_, version: string) => `${rules.words.version} ${read(version)}`)
+      // Three or more parts can't be a decimal number, but "1.234.567" can be one with thousands separators.
+      // Four parts of 0-255 are an IP address ("192.168.1.1"), read with "dot"
+      .replace(/(?<![\p{L}\p{N}.,])(\d+\.\d+\.\d+(?:\.\d+)*)(?![\p{L}\p{N}]|\.\d)/gu, (match, version: string) => {
+        if (isIPAddress(version)) return version.split('.').join(` ${rules.words.dot} `);
+        return /^\d{1,3}(\.\d{3})+$/.test(version) ? match : read(version);
+      });
+  }
+
+  // "14:30", "14:30 Uhr", "9:05 pm", "9pm"; 12-hour times are turned into 24-hour ones before formatting
+  private normalizeTimes(text: string, compiled: CompiledRules): string {
+    const { rules } = compiled;
+    const format = (match: string, hourText: string, minuteText: string | undefined, meridiem: string | undefined) => {
+      let hours = parseInt(hourText, 10);
+      const minutes = minuteText ? parseInt(minuteText, 10) : 0;
+      if (meridiem) {
+        if (hours < 1 || hours > 12) return match;
+        hours = meridiem.toLowerCase() === 'p' ? (hours % 12) + 12 : hours % 12;
+      }
+      return rules.formatTime(hours, minutes, Boolean(meridiem));
+    };
+
+    return text
+      .replace(compiled.time, (match, hours: string, minutes: string, meridiem?: string) => format(match, hours, minutes, meridiem))
+      .replace(/(?<![\p{L}\p{N}:.,])(1[0-2]|0?[1-9])\s?([AaPp])\.?[Mm]\.?(?![\p{L}\p{N}])/gu,
+        (match, hours: string, meridiem: string) => format(match, hours, undefined, meridiem));
+  }
+
+  private normalizeCurrency(text: string, compiled: CompiledRules): string {
+    const { rules } = compiled;
+    const read = (match: string, symbol: string, amount: string, scaleText: string | undefined) => {
+      const currency = rules.currencies[CURRENCY_CODES[symbol] || symbol];
+      if (!currency) return match;
+
+      const value = this.parseAmount(amount, rules);
+      if (scaleText) {
+        const scale = SCALE_SYMBOLS[scaleText] || rules.scaleAliases[scaleText];
+        return `${amount} ${rules.joinScale(pluralize(rules.scales[scale], rules.isSingular(value)), currency.name[1])}`;
+      }
+
+      // "3.50" is 3 dollars and 50 cents, but "3.5" is just three and a half dollars
+      const cents = new RegExp(`^(\\d+(?:[.,]\\d{3})*)${escapeRegExp(rules.decimalSeparator)}(\\d{2})$`).exec(amount);
+      if (cents && currency.subunit) {
+        const whole = this.parseAmount(cents[1], rules);
+        const subunit = parseInt(cents[2], 10);
+        const subunitText = `${subunit} ${pluralize(currency.subunit, rules.isSingular(subunit))}`;
+        if (subunit === 0) return `${cents[1]} ${pluralize(currency.name, rules.isSingular(whole))}`;
+        if (whole === 0) return subunitText;
+        return `${cents[1]} ${pluralize(currency.name, rules.isSingular(whole))} ${rules.words.and} ${subunitText}`;
+      }
+      return `${amount} ${pluralize(currency.name, rules.isSingular(value))}`;
+    };
+
+    return text
+      .replace(compiled.currencyBefore, (match, symbol: string, amount: string, scale?: string) => read(match, symbol, amount, scale))
+      .replace(compiled.currencyAfter, (match, amount: string, scale: string | undefined, symbol: string) => read(match, symbol, amount, scale));
+  }
+
+  // "10-20" and "1990–1995"; a hyphen with spaces around it may be a minus, so only the en dash allows them.
+  // Ranges go up: scores put the winner first ("won 3-2") and draws repeat a number ("1-1"), so those stay
+  private normalizeRanges(text: string, rules: NormalizationRules): string {
+    return text.replace(
+      new RegExp(`(?<![\\p{L}\\p{N}.,:/-])(${NUMBER})(?:-|\\s?–\\s?)(${NUMBER})(?![\\p{N}]|[-/:]\\d)`, 'gu'),
+      (match, from: string, to: string) =>
+        (this.parseAmount(from, rules) < this.parseAmount(to, rules) ? `${from} ${rules.words.to} ${to}` : match)
+    );
+  }
+
+  private normalizeUnits(text: string, compiled: CompiledRules): string {
+    const { rules } = compiled;
+    return text.replace(compiled.units, (_, sign: string | undefined, amount: string, unit: string, perUnit?: string) => {
+      const name = pluralize(rules.units[unit], rules.isSingular(this.parseAmount(amount, rules)));
+      const value = sign ? `${rules.words.minus} ${amount}` : amount;
+      return perUnit ? `${value} ${name} ${rules.words.per} ${rules.units[perUnit][0]}` : `${value} ${name}`;
+    });
+  }
+
+  private normalizeRomanNumerals(text: string, compiled: CompiledRules): string {
+    const { rules } = compiled;
+    const withKeywords = text.replace(compiled.romanKeyword, (match, keyword: string, space: string, numeral: string) => {
+      // "World War I" but not "in part I agree"
+      if (!numeral || (numeral === 'I' && keyword[0] !== keyword[0].toUpperCase())) return match;
+      return `${keyword}${space}${parseRoman(numeral)}`;
+    });
+    if (!rules.formatRegnal || !compiled.regnal) return withKeywords;
+
+    // Only after a monarch's name, and never a lone "I", which is far more often the pronoun
+    const formatRegnal = rules.formatRegnal;
+    return withKeywords.replace(compiled.regnal,
+      (match, name: string, space: string, numeral: string, dot: string) => {
+        if (!numeral || numeral === 'I') return match;
+        const spoken = formatRegnal(parseRoman(numeral));
+        return `${name}${space}${spoken}${spoken.endsWith('.') ? '' : dot}`;
+      });
+  }
+
+  private normalizeOrdinals(text: string, rules: NormalizationRules): string {
+    if (!rules.ordinals) return text;
+    const { pattern, format } = rules.ordinals;
+    return text.replace(pattern, (match, digits: string, marker: string, offset: number) => {
+      const nextWord = /^\s+(\p{L}+)/u.exec(text.slice(offset + match.length))?.[1];
+      return format(parseInt(digits, 10), marker, nextWord) ?? match;
+    });
+  }
+}
+
+const defaultNormalizer = new TextNormalizer();
+
+export function normalizeForSpeech(text: string, lang?: string, disabled?: DisabledNormalizations): string {
+  return defaultNormalizer.normalize(text, lang, disabled?.[getRulesLanguage(lang || 'en')]);
+}
+
+// Settings from storage: unknown languages are kept (rules can be added later), unknown categories dropped
+export function parseDisabledNormalizations(value: unknown): DisabledNormalizations {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return {};
+  const disabled: DisabledNormalizations = {};
+  Object.entries(value as Record<string, unknown>).forEach(([lang, categories]) => {
+    if (!Array.isArray(categories)) return;
+    const known = NORMALIZATION_CATEGORIES.filter(category => categories.includes(category));
+    if (known.length) disabled[getRulesLanguage(lang)] = known;
+  });
+  return disabled;
+}
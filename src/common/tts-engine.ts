@@ -0,0 +1,84 @@
+/**
+ * TTSEngine - the speech backend a SpeechSynthesizer plays its sentences through
+ * Web Speech runs in the page (content script); chrome.tts runs in the background service worker,
+ * so playback there outlives the page's content script and works where content scripts can't run.
+ * Engines that synthesize the audio themselves can also hand it over instead of playing it
+ * (AudioRenderingEngine), which is what exporting a reading to a file needs.
+ * The remote engine plays audio from a speech server and, like Web Speech in the background, runs in the
+ * offscreen document.
+ */
+
+export type TTSEngineId = 'web-speech' | 'chrome-tts' | 'remote';
+
+export interface EngineVoice {
+  name: string;
+  lang: string;
+  localService: boolean;
+  default: boolean;
+}
+
+export interface EngineSpeakOptions {
+  voiceName?: string;
+  lang?: string;
+  rate: number;
+  pitch: number;
+  volume: number;
+}
+
+export type EngineEvent =
+  | { type: 'start' }
+  | { type: 'end' }
+  | { type: 'boundary'; name: 'word' | 'sentence'; charIndex: number; charLength?: number }
+  | { type: 'pause' }
+  | { type: 'resume' }
+  // The utterance was cancelled by stop() or replaced; not an error
+  | { type: 'interrupted' }
+  | { type: 'error'; error: string };
+
+export type EngineEventListener = (event: EngineEvent) => void;
+
+export interface EngineUtterance {
+  text: string;
+  options: EngineSpeakOptions;
+}
+
+export interface TTSEngine {
+  readonly id: TTSEngineId;
+  isAvailable(): boolean;
+  // Resolves with whatever voices are known, possibly none, once the engine has had a chance to load them
+  getVoices(): Promise<EngineVoice[]>;
+  // Speaks one utterance, replacing anything currently spoken; events are reported for this utterance only
+  speak(text: string, options: EngineSpeakOptions, onEvent: EngineEventListener): void;
+  pause(): void;
+  resume(): void;
+  stop(): void;
+  isSpeaking(): boolean;
+  isPaused(): boolean;
+  // Hints at what will be spoken next, for engines that need time to fetch or synthesize it
+  prefetch?(utterances: EngineUtterance[]): void;
+}
+
+// Mono PCM samples in [-1, 1]
+export interface RenderedAudio {
+  sampleRate: number;
+  samples: Float32Array;
+}
+
+export interface AudioRenderingEngine extends TTSEngine {
+  // Synthesizes one utterance without playing it
+  renderAudio(text: string, options: EngineSpeakOptions, signal?: AbortSignal): Promise<RenderedAudio>;
+}
+
+// System voices (Web Speech, chrome.tts) only ever play through the speakers
+export function canRenderAudio(engine: TTSEngine): engine is AudioRenderingEngine {
+  return typeof (engine as Partial<AudioRenderingEngine>).renderAudio === 'function';
+}
+
+export const DEFAULT_ENGINE: TTSEngineId = 'web-speech';
+
+// Voice URIs of speech server voices in the VoiceManager, telling them apart from system voices
+export const REMOTE_VOICE_PREFIX = 'remote:';
+
+export function isEngineId(value: unknown): value is TTSEngineId {
+  return value === 'web-speech' || value === 'chrome-tts' || value === 'remote';
+}
@@ -17,9 +17,20 @@ export enum MessageType {
   PAUSE_TTS = 'PAUSE_TTS',
   RESUME_TTS = 'RESUME_TTS',
   TOGGLE_PAUSE_TTS = 'TOGGLE_PAUSE_TTS',
+  SEEK_TTS = 'SEEK_TTS',
+  // Speed of the reading in progress
+  SET_RATE_TTS = 'SET_RATE_TTS',
   TTS_STATE_CHANGED = 'TTS_STATE_CHANGED',
   TTS_ERROR = 'TTS_ERROR',
   GET_TTS_STATE = 'GET_TTS_STATE',
+  // Voice and rate/pitch/volume for a page, with its site profile applied
+  GET_SPEECH_SETTINGS = 'GET_SPEECH_SETTINGS',
+  // Content script hands text to a speech host outside the page; its events come back as SPEECH_EVENT
+  SPEAK_IN_BACKGROUND = 'SPEAK_IN_BACKGROUND',
+  SPEECH_EVENT = 'SPEECH_EVENT',
+  // Background drives the offscreen document's speech host, which reports back with OFFSCREEN_EVENT
+  OFFSCREEN_SPEECH = 'OFFSCREEN_SPEECH',
+  OFFSCREEN_EVENT = 'OFFSCREEN_EVENT',
   
   // Content script speech synthesis
   START_SPEECH = 'START_SPEECH',
@@ -28,10 +39,19 @@ export enum MessageType {
   PAUSE_SPEECH = 'PAUSE_SPEECH',
   RESUME_SPEECH = 'RESUME_SPEECH',
   TOGGLE_PAUSE_SPEECH = 'TOGGLE_PAUSE_SPEECH',
+  SEEK_SPEECH = 'SEEK_SPEECH',
+  SET_SPEECH_RATE = 'SET_SPEECH_RATE',
   
   // Content script
   CONTENT_READY = 'CONTENT_READY',
   HIGHLIGHT_TEXT = 'HIGHLIGHT_TEXT',
+  RESUME_READING = 'RESUME_READING',
+  // A PDF page asks to be reopened in the extension's PDF reader
+  OPEN_PDF_READER = 'OPEN_PDF_READER',
+  // The selection or the page's readable blocks, for exporting them as audio
+  GET_EXPORT_CONTENT = 'GET_EXPORT_CONTENT',
+  // Popup asks the background to open the audio export page for a tab
+  EXPORT_AUDIO = 'EXPORT_AUDIO',
   
   // Text selection
   SELECTION_CHANGED = 'SELECTION_CHANGED',
@@ -46,6 +66,18 @@ export enum MessageType {
   PREVIEW_VOICE = 'PREVIEW_VOICE',
   VOICE_CHANGED = 'VOICE_CHANGED',
   UPDATE_VOICE_DATA = 'UPDATE_VOICE_DATA',
+  SET_LANGUAGE_VOICE = 'SET_LANGUAGE_VOICE',
+  SET_FAVORITE_VOICES = 'SET_FAVORITE_VOICES',
+
+  // Reading queue
+  QUEUE_GET = 'QUEUE_GET',
+  QUEUE_ADD = 'QUEUE_ADD',
+  QUEUE_REMOVE = 'QUEUE_REMOVE',
+  QUEUE_MOVE = 'QUEUE_MOVE',
+  QUEUE_PLAY = 'QUEUE_PLAY',
+  QUEUE_SKIP = 'QUEUE_SKIP',
+  QUEUE_CLEAR = 'QUEUE_CLEAR',
+  QUEUE_UPDATED = 'QUEUE_UPDATED',
 }
 
 export interface Message {
@@ -0,0 +1,68 @@
+/**
+ * Voice catalog - searching and filtering the voice list for the options page's voice browser and the popup
+ * Systems ship hundreds of voices, so they are narrowed down by name, language, gender, quality and whether
+ * they run on the device; matches are listed best quality first.
+ */
+
+import type { VoiceInfo } from './voice-manager';
+import { VOICE_QUALITIES, VoiceGender, VoiceQuality } from './voice-metadata';
+import { getPrimaryLanguage } from './language-detector';
+
+// 'local' voices run on the device, 'remote' ones on a server (online system voices and the speech server)
+export type VoiceLocation = 'local' | 'remote';
+
+// Empty fields don't filter
+export interface VoiceFilter {
+  query?: string;
+  // Primary language ("es" covers es-ES and es-MX)
+  language?: string;
+  gender?: VoiceGender;
+  quality?: VoiceQuality;
+  location?: VoiceLocation;
+}
+
+export interface VoiceLanguage {
+  code: string;
+  name: string;
+  count: number;
+}
+
+// Every word of the query has to appear in the voice's name or language, in any order
+function matchesQuery(voice: VoiceInfo, query: string): boolean {
+  const haystack = `${voice.name} ${voice.displayName} ${voice.lang} ${voice.languageDisplay}`.toLowerCase();
+  return query.toLowerCase().split(/\s+/).filter(Boolean).every(word => haystack.includes(word));
+}
+
+export function filterVoices(voices: VoiceInfo[], filter: VoiceFilter): VoiceInfo[] {
+  return voices
+    .filter(voice =>
+      (!filter.query || matchesQuery(voice, filter.query)) &&
+      (!filter.language || getPrimaryLanguage(voice.lang) === filter.language) &&
+      (!filter.gender || voice.gender === filter.gender) &&
+      (!filter.quality || voice.quality === filter.quality) &&
+      (!filter.location || (filter.location === 'local') === voice.localService)
+    )
+    .sort((a, b) =>
+      VOICE_QUALITIES.indexOf(a.quality) - VOICE_QUALITIES.indexOf(b.quality) ||
+      a.displayName.localeCompare(b.displayName)
+    );
+}
+
+// The languages voices are available in, by name, for the language filter
+export function getVoiceLanguages(voices: VoiceInfo[], locale = 'en'): VoiceLanguage[] {
+  const counts = new Map<string, number>();
+  voices.forEach((voice) => {
+    const code = getPrimaryLanguage(voice.lang);
+    if (code) counts.set(code, (counts.get(code) || 0) + 1);
+  });
+
+  let names: Intl.DisplayNames | null = null;
+  try {
+    names = new Intl.DisplayNames([locale], { type: 'language' });
+  } catch {
+    // Unknown locale; codes are shown instead
+  }
+
+  return Array.from(counts, ([code, count]) => ({ code, name: names?.of(code) || code, count }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
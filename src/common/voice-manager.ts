@@ -1,3 +1,7 @@
+import { getPrimaryLanguage } from './language-detector';
+import { EngineVoice, REMOTE_VOICE_PREFIX } from './tts-engine';
+import { describeVoice, getPreviewText, isRemoteVoice, VOICE_QUALITIES } from './voice-metadata';
+
 export interface VoiceInfo {
   name: string;
   lang: string;
@@ -18,12 +22,17 @@ export interface VoicePreferences {
   defaultVoices: Map<string, VoiceInfo>;
 }
 
+export const MAX_FAVORITE_VOICES = 3;
+
 export class VoiceManager {
   private availableVoices: VoiceInfo[] = [];
+  // Voices of the speech server (see RemoteTTSEngine), listed after the system voices
+  private remoteVoices: VoiceInfo[] = [];
   private voicesByLanguage: Map<string, VoiceInfo[]> = new Map();
   private selectedVoice: VoiceInfo | null = null;
   private favoriteVoices: VoiceInfo[] = [];
   private recentVoices: VoiceInfo[] = [];
+  // The user's voice per primary language ("es"), used when a reading switches language
   private defaultVoices: Map<string, VoiceInfo> = new Map();
   private initialized = false;
 
@@ -84,29 +93,19 @@ export class VoiceManager {
   }
 
   private processVoices(voices: SpeechSynthesisVoice[]): void {
-    this.availableVoices = [];
+    this.setVoices(voices.map(voice => describeVoice(voice)));
+  }
+
+  // System voices come from speechSynthesis (or a context that has it); the server's are added to them
+  private setVoices(systemVoices: VoiceInfo[]): void {
+    this.availableVoices = [...systemVoices.filter(voice => !isRemoteVoice(voice)), ...this.remoteVoices];
     this.voicesByLanguage.clear();
-    
-    voices.forEach(voice => {
-      const voiceInfo: VoiceInfo = {
-        name: voice.name,
-        lang: voice.lang,
-        voiceURI: voice.voiceURI,
-        localService: voice.localService,
-        default: voice.default,
-        displayName: this.formatVoiceName(voice),
-        languageDisplay: this.formatLanguage(voice.lang),
-        quality: this.determineVoiceQuality(voice),
-        gender: this.guessGender(voice.name),
-        engine: this.determineEngine(voice)
-      };
-      
-      this.availableVoices.push(voiceInfo);
-      
+
+    this.availableVoices.forEach(voice => {
       if (!this.voicesByLanguage.has(voice.lang)) {
         this.voicesByLanguage.set(voice.lang, []);
       }
-      this.voicesByLanguage.get(voice.lang)!.push(voiceInfo);
+      this.voicesByLanguage.get(voice.lang)!.push(voice);
     });
     
     this.sortVoices();
@@ -116,72 +115,14 @@ export class VoiceManager {
     }
   }
 
-  private formatVoiceName(voice: SpeechSynthesisVoice): string {
-    let name = voice.name;
-    
-    name = name.replace(/^Microsoft\s+/i, '');
-    name = name.replace(/^Google\s+/i, '');
-    name = name.replace(/^Apple\s+/i, '');
-    
-    if (!voice.localService) {
-      name += ' (Online)';
-    }
-    
-    return name;
-  }
-
-  private formatLanguage(langCode: string): string {
-    const languageNames: Record<string, string> = {
-      'en-US': 'English (US)',
-      'en-GB': 'English (UK)',
-      'en-AU': 'English (Australia)',
-      'es-ES': 'Spanish (Spain)',
-      'es-MX': 'Spanish (Mexico)',
-      'fr-FR': 'French',
-      'de-DE': 'German',
-      'it-IT': 'Italian',
-      'pt-BR': 'Portuguese (Brazil)',
-      'ja-JP': 'Japanese',
-      'ko-KR': 'Korean',
-      'zh-CN': 'Chinese (Simplified)',
-      'zh-TW': 'Chinese (Traditional)'
-    };
-    
-    return languageNames[langCode] || langCode;
-  }
-
-  private determineVoiceQuality(voice: SpeechSynthesisVoice): VoiceInfo['quality'] {
-    if (!voice.localService) return 'premium';
-    if (voice.name.toLowerCase().includes('enhanced')) return 'enhanced';
-    if (voice.name.toLowerCase().includes('compact')) return 'compact';
-    return 'standard';
-  }
-
-  private guessGender(voiceName: string): VoiceInfo['gender'] {
-    const name = voiceName.toLowerCase();
-    
-    const femaleIndicators = ['female', 'woman', 'girl', 'samantha', 'victoria', 
-                             'kate', 'karen', 'nicole', 'jennifer', 'lisa'];
-    const maleIndicators = ['male', 'man', 'boy', 'daniel', 'thomas', 'james', 
-                           'robert', 'john', 'michael', 'david'];
-    
-    if (femaleIndicators.some(indicator => name.includes(indicator))) {
-      return 'female';
-    }
-    if (maleIndicators.some(indicator => name.includes(indicator))) {
-      return 'male';
-    }
-    
-    return 'neutral';
-  }
-
-  private determineEngine(voice: SpeechSynthesisVoice): string {
-    const name = voice.name.toLowerCase();
-    if (name.includes('microsoft')) return 'Microsoft';
-    if (name.includes('google')) return 'Google';
-    if (name.includes('apple')) return 'Apple';
-    if (name.includes('amazon')) return 'Amazon';
-    return 'System';
+  // Replaces the speech server's voices, e.g. after its settings changed; an empty list removes them
+  async setRemoteVoices(voices: EngineVoice[]): Promise<void> {
+    this.remoteVoices = voices.map(voice => describeVoice({
+      ...voice,
+      voiceURI: `${REMOTE_VOICE_PREFIX}${voice.name}`
+    }));
+    this.setVoices(this.availableVoices);
+    await this.storeVoiceData();
   }
 
   private sortVoices(): void {
@@ -191,8 +132,7 @@ export class VoiceManager {
       if (a.lang.startsWith(userLang) && !b.lang.startsWith(userLang)) return -1;
       if (!a.lang.startsWith(userLang) && b.lang.startsWith(userLang)) return 1;
       
-      const qualityOrder = { premium: 0, enhanced: 1, standard: 2, compact: 3 };
-      const qualityDiff = qualityOrder[a.quality] - qualityOrder[b.quality];
+      const qualityDiff = VOICE_QUALITIES.indexOf(a.quality) - VOICE_QUALITIES.indexOf(b.quality);
       if (qualityDiff !== 0) return qualityDiff;
       
       return a.displayName.localeCompare(b.displayName);
@@ -203,9 +143,14 @@ export class VoiceManager {
     // Use navigator.language if available, otherwise default to 'en-US'
     const userLang = typeof navigator !== 'undefined' ? navigator.language : 'en-US';
     
-    let voice = this.availableVoices.find(v => 
-      v.lang === userLang && v.quality !== 'compact'
-    );
+    const preferred = this.defaultVoices.get(getPrimaryLanguage(userLang));
+    let voice = preferred && this.isVoiceAvailable(preferred) ? preferred : undefined;
+
+    if (!voice) {
+      voice = this.availableVoices.find(v => 
+        v.lang === userLang && v.quality !== 'compact'
+      );
+    }
     
     if (!voice) {
       voice = this.availableVoices.find(v => 
@@ -226,7 +171,7 @@ export class VoiceManager {
 
   private async loadPreferences(): Promise<void> {
     try {
-      const stored = await chrome.storage.sync.get(['selectedVoice', 'favoriteVoices', 'recentVoices']);
+      const stored = await chrome.storage.sync.get(['selectedVoice', 'favoriteVoices', 'recentVoices', 'defaultVoices']);
       
       if (stored.selectedVoice) {
         this.selectedVoice = stored.selectedVoice;
@@ -239,6 +184,10 @@ export class VoiceManager {
       if (stored.recentVoices) {
         this.recentVoices = stored.recentVoices;
       }
+
+      if (stored.defaultVoices) {
+        this.defaultVoices = new Map(Object.entries(stored.defaultVoices as Record<string, VoiceInfo>));
+      }
     } catch (error) {
       console.error('Error loading voice preferences:', error);
     }
@@ -249,21 +198,12 @@ export class VoiceManager {
       const stored = await chrome.storage.local.get(['availableVoices', 'voicesByLanguage']);
       
       if (stored.availableVoices) {
-        this.availableVoices = stored.availableVoices;
-        
-        // Rebuild voicesByLanguage map
-        this.voicesByLanguage.clear();
-        this.availableVoices.forEach(voice => {
-          if (!this.voicesByLanguage.has(voice.lang)) {
-            this.voicesByLanguage.set(voice.lang, []);
-          }
-          this.voicesByLanguage.get(voice.lang)!.push(voice);
-        });
-        
-        // Verify selected voice is still available
-        if (this.selectedVoice && !this.isVoiceAvailable(this.selectedVoice)) {
-          this.selectDefaultVoice();
+        const voices = stored.availableVoices as VoiceInfo[];
+        // The server's voices are kept until the background fetches them again
+        if (!this.remoteVoices.length) {
+          this.remoteVoices = voices.filter(voice => isRemoteVoice(voice));
         }
+        this.setVoices(voices);
       }
     } catch (error) {
       console.error('Error loading stored voice data:', error);
@@ -293,7 +233,8 @@ export class VoiceManager {
       await chrome.storage.sync.set({
         selectedVoice: this.selectedVoice,
         favoriteVoices: this.favoriteVoices,
-        recentVoices: this.recentVoices
+        recentVoices: this.recentVoices,
+        defaultVoices: Object.fromEntries(this.defaultVoices)
       });
     } catch (error) {
       console.error('Error saving voice preferences:', error);
@@ -335,6 +276,36 @@ export class VoiceManager {
     return false;
   }
 
+  // Names of the voices the user chose per primary language
+  getLanguageVoices(): Record<string, string> {
+    const voices: Record<string, string> = {};
+    this.defaultVoices.forEach((voice, lang) => {
+      if (this.isVoiceAvailable(voice)) {
+        voices[lang] = voice.name;
+      }
+    });
+    return voices;
+  }
+
+  // Sets (or with null, clears) the voice for reading text in `lang`
+  async setLanguageVoice(lang: string, voiceName: string | null): Promise<boolean> {
+    const primary = getPrimaryLanguage(lang);
+    if (!primary) return false;
+
+    if (voiceName === null) {
+      this.defaultVoices.delete(primary);
+    } else {
+      const voice = this.availableVoices.find(v => v.name === voiceName);
+      if (!voice || getPrimaryLanguage(voice.lang) !== primary) {
+        return false;
+      }
+      this.defaultVoices.set(primary, voice);
+    }
+
+    await this.savePreferences();
+    return true;
+  }
+
   private updateRecentVoices(voice: VoiceInfo): void {
     this.recentVoices = this.recentVoices.filter(v => v.name !== voice.name);
     this.recentVoices.unshift(voice);
@@ -350,7 +321,7 @@ export class VoiceManager {
   }
 
   async setFavoriteVoices(voices: VoiceInfo[]): Promise<void> {
-    this.favoriteVoices = voices.slice(0, 3);
+    this.favoriteVoices = voices.slice(0, MAX_FAVORITE_VOICES);
     await this.savePreferences();
   }
 
@@ -374,7 +345,7 @@ export class VoiceManager {
       throw new Error('Voice preview not available in background context');
     }
 
-    const previewText = text || this.getPreviewText(voice.lang);
+    const previewText = text || getPreviewText(voice.lang);
     
     return new Promise((resolve, reject) => {
       const utterance = new SpeechSynthesisUtterance(previewText);
@@ -396,46 +367,15 @@ export class VoiceManager {
     });
   }
 
-  private getPreviewText(lang: string): string {
-    const previewTexts: Record<string, string> = {
-      'en': 'Hello! This is a preview of the selected voice. The quick brown fox jumps over the lazy dog.',
-      'es': '¡Hola! Esta es una vista previa de la voz seleccionada. El rápido zorro marrón salta sobre el perro perezoso.',
-      'fr': 'Bonjour! Ceci est un aperçu de la voix sélectionnée. Le rapide renard brun saute par-dessus le chien paresseux.',
-      'de': 'Hallo! Dies ist eine Vorschau der ausgewählten Stimme. Der schnelle braune Fuchs springt über den faulen Hund.',
-      'it': 'Ciao! Questa è un\'anteprima della voce selezionata. La rapida volpe marrone salta sopra il cane pigro.',
-      'pt': 'Olá! Esta é uma prévia da voz selecionada. A rápida raposa marrom pula sobre o cão preguiçoso.',
-      'ja': 'こんにちは！これは選択された音声のプレビューです。素早い茶色のキツネが怠け者の犬を飛び越えます。',
-      'ko': '안녕하세요! 선택한 음성의 미리보기입니다. 빠른 갈색 여우가 게으른 개를 뛰어넘습니다.',
-      'zh': '你好！这是所选语音的预览。敏捷的棕色狐狸跳过了懒狗。'
-    };
-    
-    const langPrefix = lang.split('-')[0];
-    return previewTexts[langPrefix] || previewTexts['en'];
-  }
-
   isInitialized(): boolean {
     return this.initialized;
   }
 
   // Method to update voice data from a context with speechSynthesis access
   async updateVoiceData(voices: VoiceInfo[]): Promise<void> {
-    this.availableVoices = voices;
-    this.voicesByLanguage.clear();
-    
-    // Rebuild voicesByLanguage map
-    voices.forEach(voice => {
-      if (!this.voicesByLanguage.has(voice.lang)) {
-        this.voicesByLanguage.set(voice.lang, []);
-      }
-      this.voicesByLanguage.get(voice.lang)!.push(voice);
-    });
+    this.setVoices(voices);
     
     // Store for background script access
     await this.storeVoiceData();
-    
-    // Verify selected voice is still available
-    if (!this.selectedVoice || !this.isVoiceAvailable(this.selectedVoice)) {
-      this.selectDefaultVoice();
-    }
   }
-}
\ No newline at end of file
+}
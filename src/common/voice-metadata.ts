@@ -0,0 +1,166 @@
+/**
+ * Voice metadata - what the extension knows about a voice beyond what the browser reports
+ * Browsers only give a voice's name, language and whether it runs on the device, so gender and quality come
+ * from the name: the words vendors put in it ("Female", "Natural") and, for named voices, the table below.
+ * VoiceManager, the popup and the content script all describe voices with describeVoice().
+ */
+
+import type { VoiceInfo } from './voice-manager';
+import { REMOTE_VOICE_PREFIX } from './tts-engine';
+
+export type VoiceGender = VoiceInfo['gender'];
+export type VoiceQuality = VoiceInfo['quality'];
+
+// What browsers and speech servers tell about a voice
+export type VoiceSource = Pick<SpeechSynthesisVoice, 'name' | 'lang' | 'voiceURI' | 'localService' | 'default'>;
+
+// Best first; also the order voices are listed in
+export const VOICE_QUALITIES: VoiceQuality[] = ['premium', 'enhanced', 'standard', 'compact'];
+
+/**
+ * Genders of named voices, by the voice's name in lower case. Vendors reuse names across languages
+ * ("Daniel" is a British Apple voice and a Brazilian Microsoft one), so a name must mean the same gender
+ * everywhere it is used before it is added here. Keep the groups sorted when adding voices.
+ */
+export const VOICE_GENDERS: Record<string, VoiceGender> = {
+  // Apple (macOS, iOS)
+  aaron: 'male', alex: 'male', alice: 'female', allison: 'female', alva: 'female', 'amélie': 'female',
+  anna: 'female', ava: 'female', carmit: 'female', damayanti: 'female', daniel: 'male', diego: 'male',
+  ellen: 'female', evan: 'male', federica: 'female', fiona: 'female', fred: 'male', joana: 'female',
+  jorge: 'male', juan: 'male', kanya: 'female', karen: 'female', kyoko: 'female', laura: 'female',
+  lekha: 'female', luca: 'male', luciana: 'female', maged: 'male', mariska: 'female', markus: 'male',
+  'mei-jia': 'female', melina: 'female', milena: 'female', moira: 'female', 'mónica': 'female', monica: 'female',
+  nicky: 'female', nora: 'female', oskar: 'male', otoya: 'male', paulina: 'female', petra: 'female',
+  rishi: 'male', samantha: 'female', sara: 'female', satu: 'female', 'sin-ji': 'female', tessa: 'female',
+  thomas: 'male', 'ting-ting': 'female', tom: 'male', veena: 'female', victoria: 'female', xander: 'male',
+  yannick: 'male', yelda: 'female', yuna: 'female', yuri: 'male', zoe: 'female', zuzana: 'female',
+  // Microsoft (Windows and Edge "Online (Natural)" voices)
+  andrew: 'male', aria: 'female', ayumi: 'female', brian: 'male', christopher: 'male', clara: 'female',
+  conrad: 'male', cosimo: 'male', dalia: 'female', david: 'male', denise: 'female', elsa: 'female',
+  elvira: 'female', emma: 'female', eric: 'male', francisca: 'female', george: 'male', guy: 'male',
+  haruka: 'female', hazel: 'female', heami: 'female', hedda: 'female', heera: 'female', helena: 'female',
+  henri: 'male', hortense: 'female', huihui: 'female', ichiro: 'male', injoon: 'male', irina: 'female',
+  isabella: 'female', jenny: 'female', julie: 'female', kangkang: 'male', katja: 'female', keita: 'male',
+  libby: 'female', liam: 'male', maria: 'female', mark: 'male', michelle: 'female', nanami: 'female',
+  natasha: 'female', pablo: 'male', paul: 'male', pavel: 'male', ravi: 'male', raul: 'male', roger: 'male',
+  ryan: 'male', sabina: 'female', sayaka: 'female', sonia: 'female', stefan: 'male', steffan: 'male',
+  sunhi: 'female', susan: 'female', tracy: 'female', william: 'male', xiaoxiao: 'female', yaoyao: 'female',
+  yating: 'female', yunxi: 'male', zhiwei: 'male', zira: 'female',
+  // OpenAI-compatible speech servers
+  alloy: 'neutral', ash: 'male', ballad: 'male', coral: 'female', echo: 'male', fable: 'male', nova: 'female',
+  onyx: 'male', sage: 'female', shimmer: 'female', verse: 'male'
+};
+
+const FEMALE_WORDS = new Set(['female', 'woman', 'girl']);
+const MALE_WORDS = new Set(['male', 'man', 'boy']);
+// Vendors mark their neural voices in the name ("Microsoft Aria Online (Natural)")
+const PREMIUM_WORDS = new Set(['natural', 'neural', 'premium', 'wavenet', 'studio']);
+
+// Kokoro-style ids: accent letter, then f or m ("af_bella", "bm_george")
+const GENDERED_ID = /^[a-z]([fm])_/i;
+
+function getNameWords(name: string): string[] {
+  return name.toLowerCase().match(/[\p{L}]+(?:-[\p{L}]+)*/gu) || [];
+}
+
+export function getVoiceGender(name: string): VoiceGender {
+  const words = getNameWords(name);
+  if (words.some(word => FEMALE_WORDS.has(word))) return 'female';
+  if (words.some(word => MALE_WORDS.has(word))) return 'male';
+
+  const id = GENDERED_ID.exec(name);
+  if (id) return id[1].toLowerCase() === 'f' ? 'female' : 'male';
+
+  for (const word of words) {
+    if (VOICE_GENDERS[word]) return VOICE_GENDERS[word];
+  }
+  return 'neutral';
+}
+
+export function getVoiceQuality(voice: Pick<VoiceSource, 'name' | 'localService'>): VoiceQuality {
+  const words = getNameWords(voice.name);
+  if (!voice.localService || words.some(word => PREMIUM_WORDS.has(word))) return 'premium';
+  if (words.includes('enhanced')) return 'enhanced';
+  if (words.includes('compact') || words.includes('espeak')) return 'compact';
+  return 'standard';
+}
+
+export function isRemoteVoice(voice: Pick<VoiceSource, 'voiceURI'>): boolean {
+  return voice.voiceURI.startsWith(REMOTE_VOICE_PREFIX);
+}
+
+function getVoiceEngine(voice: Pick<VoiceSource, 'name' | 'voiceURI'>): string {
+  if (isRemoteVoice(voice)) return 'Remote';
+  const name = voice.name.toLowerCase();
+  if (name.includes('microsoft')) return 'Microsoft';
+  if (name.includes('google')) return 'Google';
+  if (name.includes('apple')) return 'Apple';
+  if (name.includes('amazon')) return 'Amazon';
+  return 'System';
+}
+
+function formatVoiceName(voice: Pick<VoiceSource, 'name' | 'localService'>): string {
+  let name = voice.name;
+
+  name = name.replace(/^Microsoft\s+/i, '');
+  name = name.replace(/^Google\s+/i, '');
+  name = name.replace(/^Apple\s+/i, '');
+
+  if (!voice.localService) {
+    name += ' (Online)';
+  }
+
+  return name;
+}
+
+export function formatVoiceLanguage(langCode: string): string {
+  const languageNames: Record<string, string> = {
+    'en-US': 'English (US)',
+    'en-GB': 'English (UK)',
+    'en-AU': 'English (Australia)',
+    'es-ES': 'Spanish (Spain)',
+    'es-MX': 'Spanish (Mexico)',
+    'fr-FR': 'French',
+    'de-DE': 'German',
+    'it-IT': 'Italian',
+    'pt-BR': 'Portuguese (Brazil)',
+    'ja-JP': 'Japanese',
+    'ko-KR': 'Korean',
+    'zh-CN': 'Chinese (Simplified)',
+    'zh-TW': 'Chinese (Traditional)'
+  };
+
+  return languageNames[langCode] || langCode;
+}
+
+export function describeVoice(voice: VoiceSource): VoiceInfo {
+  return {
+    name: voice.name,
+    lang: voice.lang,
+    voiceURI: voice.voiceURI,
+    localService: voice.localService,
+    default: voice.default,
+    displayName: formatVoiceName(voice),
+    languageDisplay: formatVoiceLanguage(voice.lang),
+    quality: getVoiceQuality(voice),
+    gender: getVoiceGender(voice.name),
+    engine: getVoiceEngine(voice)
+  };
+}
+
+export function getPreviewText(lang: string): string {
+  const previewTexts: Record<string, string> = {
+    'en': 'Hello! This is a preview of the selected voice. The quick brown fox jumps over the lazy dog.',
+    'es': '¡Hola! Esta es una vista previa de la voz seleccionada. El rápido zorro marrón salta sobre el perro perezoso.',
+    'fr': 'Bonjour! Ceci est un aperçu de la voix sélectionnée. Le rapide renard brun saute par-dessus le chien paresseux.',
+    'de': 'Hallo! Dies ist eine Vorschau der ausgewählten Stimme. Der schnelle braune Fuchs springt über den faulen Hund.',
+    'it': 'Ciao! Questa è un\'anteprima della voce selezionata. La rapida volpe marrone salta sopra il cane pigro.',
+    'pt': 'Olá! Esta é uma prévia da voz selecionada. A rápida raposa marrom pula sobre o cão preguiçoso.',
+    'ja': 'こんにちは！これは選択された音声のプレビューです。素早い茶色のキツネが怠け者の犬を飛び越えます。',
+    'ko': '안녕하세요! 선택한 음성의 미리보기입니다. 빠른 갈색 여우가 게으른 개를 뛰어넘습니다.',
+    'zh': '你好！这是所选语音的预览。敏捷的棕色狐狸跳过了懒狗。'
+  };
+
+  const langPrefix = lang.split('-')[0];
+  return previewTexts[langPrefix] || previewTexts['en'];
+}
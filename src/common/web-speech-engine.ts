@@ -0,0 +1,136 @@
+/**
+ * WebSpeechEngine - TTSEngine backed by the page's speechSynthesis (Web Speech API)
+ * Only usable where `window.speechSynthesis` exists, i.e. the content script and extension pages.
+ */
+
+import { TTSEngine, EngineVoice, EngineSpeakOptions, EngineEventListener } from './tts-engine';
+
+const VOICE_LOAD_TIMEOUT_MS = 2000;
+
+export class WebSpeechEngine implements TTSEngine {
+  readonly id = 'web-speech' as const;
+
+  isAvailable(): boolean {
+    return typeof window !== 'undefined' && 'speechSynthesis' in window;
+  }
+
+  // Voices load asynchronously in Chrome; waits for `voiceschanged` for a short while
+  getVoices(): Promise<EngineVoice[]> {
+    return new Promise((resolve) => {
+      let voices = speechSynthesis.getVoices();
+      if (voices.length > 0) {
+        resolve(voices.map(voice => this.toEngineVoice(voice)));
+        return;
+      }
+
+      let isResolved = false;
+      const finish = () => {
+        isResolved = true;
+        speechSynthesis.removeEventListener('voiceschanged', voicesChangedHandler);
+        resolve(voices.map(voice => this.toEngineVoice(voice)));
+      };
+
+      const voicesChangedHandler = () => {
+        if (isResolved) return;
+        voices = speechSynthesis.getVoices();
+        if (voices.length > 0) {
+          finish();
+        }
+      };
+
+      speechSynthesis.addEventListener('voiceschanged', voicesChangedHandler);
+      setTimeout(() => {
+        if (!isResolved) {
+          finish();
+        }
+      }, VOICE_LOAD_TIMEOUT_MS);
+    });
+  }
+
+  speak(text: string, options: EngineSpeakOptions, onEvent: EngineEventListener): void {
+    const utterance = new SpeechSynthesisUtterance(text);
+
+    const voice = options.voiceName
+      ? speechSynthesis.getVoices().find(candidate => candidate.name === options.voiceName)
+      : undefined;
+    utterance.voice = voice || null;
+    if (options.lang) {
+      utterance.lang = options.lang;
+    }
+    utterance.rate = options.rate;
+    utterance.pitch = options.pitch;
+    utterance.volume = options.volume;
+
+    utterance.onstart = () => onEvent({ type: 'start' });
+    utterance.onend = () => onEvent({ type: 'end' });
+    utterance.onboundary = (event: SpeechSynthesisEvent) => {
+      onEvent({
+        type: 'boundary',
+        name: event.name === 'sentence' ? 'sentence' : 'word',
+        charIndex: event.charIndex,
+        charLength: event.charLength
+      });
+    };
+    utterance.onerror = (event: SpeechSynthesisErrorEvent) => {
+      if (event.error === 'interrupted' || event.error === 'canceled') {
+        onEvent({ type: 'interrupted' });
+      } else {
+        onEvent({ type: 'error', error: event.error });
+      }
+    };
+    utterance.onpause = () => onEvent({ type: 'pause' });
+    utterance.onresume = () => onEvent({ type: 'resume' });
+
+    speechSynthesis.speak(utterance);
+  }
+
+  pause(): void {
+    speechSynthesis.pause();
+
+    // Chrome sometimes ignores the first pause request; check and retry once
+    setTimeout(() => {
+      if (!speechSynthesis.paused && speechSynthesis.speaking) {
+        console.warn('[TTS-Debug] WARNING: Pause may have failed - retrying');
+        speechSynthesis.pause();
+      }
+    }, 50);
+  }
+
+  resume(): void {
+    speechSynthesis.resume();
+
+    // Same for resume
+    setTimeout(() => {
+      if (speechSynthesis.paused) {
+        console.warn('[TTS-Debug] WARNING: Resume may have failed - retrying');
+        speechSynthesis.resume();
+      }
+    }, 50);
+  }
+
+  stop(): void {
+    const wasPaused = speechSynthesis.paused;
+    speechSynthesis.cancel();
+    if (wasPaused) {
+      // A cancelled queue stays paused in Chrome until resumed
+      speechSynthesis.resume();
+    }
+  }
+
+  isSpeaking(): boolean {
+    return speechSynthesis.speaking;
+  }
+
+  isPaused(): boolean {
+    return speechSynthesis.paused;
+  }
+
+  private toEngineVoice(voice: SpeechSynthesisVoice): EngineVoice {
+    return {
+      name: voice.name,
+      lang: voice.lang,
+      localService: voice.localService,
+      default: voice.default
+    };
+  }
+}
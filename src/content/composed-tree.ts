@@ -0,0 +1,145 @@
+/**
+ * Composed tree - the page as it is shown, including open shadow roots and same-origin frames
+ * Web components keep their text in shadow roots, and internal tools often render inside iframes; neither
+ * shows up in querySelectorAll or a TreeWalker over the top document. These helpers walk into both, in
+ * document order, with each shadow root and frame document taking the place of its host or frame element.
+ * Closed shadow roots and cross-origin frames can't be reached from here; cross-origin frames run their own
+ * content script for selections.
+ */
+
+type SelectionRoot = ShadowRoot & { getSelection?: () => Selection | null };
+
+const FRAME_SELECTOR = 'iframe, frame';
+
+// Nodes of a frame come from the frame's window, so `instanceof` with this window's classes fails for them
+export function isElementNode(node: Node | null | undefined): node is Element {
+  return node?.nodeType === Node.ELEMENT_NODE;
+}
+
+export function isShadowRoot(node: Node | null | undefined): node is ShadowRoot {
+  return node?.nodeType === Node.DOCUMENT_FRAGMENT_NODE && 'host' in node;
+}
+
+// The frame's document when the page may read it
+export function getFrameDocument(element: Element): Document | null {
+  if (!element.matches(FRAME_SELECTOR)) return null;
+  try {
+    return (element as HTMLIFrameElement).contentDocument;
+  } catch {
+    return null;
+  }
+}
+
+// Shadow root or frame document rendered in place of `element`'s own content
+function getInnerRoot(element: Element): ShadowRoot | Document | null {
+  return element.shadowRoot || getFrameDocument(element);
+}
+
+// Parent element, continuing from the top of a shadow root to its host and from a frame document to its frame
+export function getComposedParent(node: Node): Element | null {
+  if (node.parentElement) return node.parentElement;
+
+  const parent = node.parentNode;
+  if (isShadowRoot(parent)) return parent.host;
+
+  const doc = parent && parent.nodeType === Node.DOCUMENT_NODE ? (parent as Document) : null;
+  try {
+    return doc?.defaultView?.frameElement || null;
+  } catch {
+    return null;
+  }
+}
+
+// Calls `visit` for every node under `root` in document order; returning false skips the node's subtree
+export function walkComposedTree(root: Node, whatToShow: number, visit: (node: Node) => boolean | void): void {
+  const doc = root.ownerDocument || (root as Document);
+  // Elements are always walked, to find shadow hosts and frames
+  const walker = doc.createTreeWalker(root, whatToShow | NodeFilter.SHOW_ELEMENT);
+
+  let node: Node | null = walker.currentNode;
+  while (node) {
+    const isShown: boolean = node === root || Boolean(whatToShow & (1 << (node.nodeType - 1)));
+    const descend: boolean = !isShown || node === root || visit(node) !== false;
+
+    const inner = descend && isElementNode(node) ? getInnerRoot(node) : null;
+    if (inner) {
+      walkComposedTree(isShadowRoot(inner) ? inner : (inner as Document).documentElement, whatToShow, visit);
+    }
+    node = descend ? walker.nextNode() : (walker.nextSibling() || nextAfterSubtree(walker));
+  }
+}
+
+function nextAfterSubtree(walker: TreeWalker): Node | null {
+  while (walker.parentNode()) {
+    const sibling = walker.nextSibling();
+    if (sibling) return sibling;
+  }
+  return null;
+}
+
+// querySelectorAll that also looks inside open shadow roots and same-origin frames
+export function querySelectorAllDeep<T extends Element = Element>(root: ParentNode & Node, selector: string): T[] {
+  const matches: T[] = [];
+  walkComposedTree(root, NodeFilter.SHOW_ELEMENT, (node) => {
+    if ((node as Element).matches(selector)) matches.push(node as T);
+  });
+  return matches;
+}
+
+// The document and the documents of its same-origin frames, nested ones included
+export function getAccessibleDocuments(doc: Document): Document[] {
+  const documents = [doc];
+  doc.querySelectorAll(FRAME_SELECTOR).forEach((frame) => {
+    const frameDoc = getFrameDocument(frame);
+    if (frameDoc) documents.push(...getAccessibleDocuments(frameDoc));
+  });
+  return documents;
+}
+
+function getSelectionFrom(root: SelectionRoot): Selection | null {
+  const selection = root.getSelection?.() || null;
+  return selection && selection.rangeCount > 0 && !selection.isCollapsed ? selection : null;
+}
+
+/**
+ * The selection of `doc`, looking into the shadow roots around `hint` (usually where the last mouse press
+ * happened) and those holding focus. The document's own selection stops at the shadow host; Chrome only
+ * reports what is selected inside through ShadowRoot.getSelection().
+ */
+export function getDeepSelection(doc: Document, hint: Node | null = null): Selection | null {
+  const roots: SelectionRoot[] = [];
+
+  let root = hint?.getRootNode();
+  while (isShadowRoot(root)) {
+    roots.push(root);
+    root = root.host.getRootNode();
+  }
+
+  const focused: SelectionRoot[] = [];
+  let active = doc.activeElement;
+  while (active?.shadowRoot) {
+    focused.unshift(active.shadowRoot);
+    active = active.shadowRoot.activeElement;
+  }
+
+  // Innermost roots first
+  for (const candidate of [...roots, ...focused]) {
+    const selection = getSelectionFrom(candidate);
+    if (selection) return selection;
+  }
+  return (doc.defaultView || window).getSelection();
+}
+
+// `rect` of content in a frame document, moved into the top window's coordinates
+export function toTopWindowRect(rect: DOMRect, doc: Document): { top: number; left: number; width: number; height: number } {
+  let left = rect.left;
+  let top = rect.top;
+  let frame = getComposedParent(doc.documentElement);
+  while (frame) {
+    const frameRect = frame.getBoundingClientRect();
+    left += frameRect.left + frame.clientLeft;
+    top += frameRect.top + frame.clientTop;
+    frame = getComposedParent(frame.ownerDocument.documentElement);
+  }
+  return { top, left, width: rect.width, height: rect.height };
+}
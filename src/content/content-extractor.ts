@@ -0,0 +1,435 @@
+/**
+ * ContentExtractor - Readability-style main content detection for "Read entire page"
+ * Scores DOM blocks by text density, link density and semantic tags, then returns the
+ * readable blocks of the best container in document order together with their source elements.
+ * Code blocks are read according to the code reading policy (see @common/code-reading), data tables
+ * row by row (see TableReader) and images and figure captions according to the image reading policy
+ * (see @common/image-reading), in page reading and selections alike. Open shadow roots and same-origin
+ * frames are read as part of the page (see composed-tree).
+ */
+
+import { CodeReadingPolicy, DEFAULT_CODE_READING, getSpokenCode, verbalizeCode, verbalizeCodeLine } from '@common/code-reading';
+import { DEFAULT_IMAGE_READING, ImageReadingPolicy, getSpokenCaption } from '@common/image-reading';
+import { isDataTable, readTable } from './table-reader';
+import { IMAGE_SELECTOR, readImage } from './image-reader';
+import { getComposedParent, isElementNode, isShadowRoot, querySelectorAllDeep } from './composed-tree';
+
+export interface ReadableBlock {
+  element: HTMLElement;
+  text: string;
+  isHeading: boolean;
+  // Language declared for the block by a lang attribute inside the page, see getDeclaredLanguage()
+  lang?: string;
+}
+
+export interface ExtractionOptions {
+  minBlockLength?: number;
+  maxLinkDensity?: number;
+  // Site profile rules: read only inside / never inside elements matching these selectors
+  contentSelector?: string;
+  excludeSelector?: string;
+  codeReading?: CodeReadingPolicy;
+  // Introduce each table with its size and columns before its rows
+  summarizeTables?: boolean;
+  imageReading?: ImageReadingPolicy;
+}
+
+// How code, tables and images are read, for page reading and selections
+export type StructureReadingOptions = Required<Pick<ExtractionOptions, 'codeReading' | 'summarizeTables' | 'imageReading'>>;
+
+const BLOCK_SELECTOR = 'p, h1, h2, h3, h4, h5, h6, li, blockquote, pre, dd, dt, figcaption, td, div';
+const HEADING_TAGS = ['H1', 'H2', 'H3', 'H4', 'H5', 'H6'];
+
+const EXCLUDED_SELECTOR = [
+  'script', 'style', 'noscript', 'template', 'svg', 'canvas', 'iframe',
+  'nav', 'aside', 'form', 'button', 'select', 'dialog',
+  '[role="navigation"]', '[role="banner"]', '[role="contentinfo"]', '[role="complementary"]',
+  '[role="dialog"]', '[role="alertdialog"]', '[role="menu"]',
+  '[hidden]', '[aria-hidden="true"]',
+  // The extension's own notifications, so they never change what is read or the page fingerprint
+  '.tts-notification',
+].join(', ');
+
+const POSITIVE_PATTERN = /article|body|content|entry|hentry|main|page|post|text|blog|story/i;
+const NEGATIVE_PATTERN =
+  /\b(ad|ads|banner|breadcrumbs?|combx|comments?|consent|cookies?|disqus|footer|gdpr|masthead|menu|modal|nav|navbar|navigation|newsletter|popup|promo|related|share|sidebar|social|sponsor|subscribe|widget)\b|-ad-|advert/i;
+
+const DEFAULT_OPTIONS: Required<ExtractionOptions> = {
+  minBlockLength: 25,
+  maxLinkDensity: 0.5,
+  contentSelector: '',
+  excludeSelector: '',
+  codeReading: DEFAULT_CODE_READING,
+  summarizeTables: true,
+  imageReading: DEFAULT_IMAGE_READING,
+};
+
+export function normalizeText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function getClassWeight(element: Element): number {
+  let weight = 0;
+  const identity = `${typeof element.className === 'string' ? element.className : ''} ${element.id}`;
+
+  if (NEGATIVE_PATTERN.test(identity)) weight -= 25;
+  if (POSITIVE_PATTERN.test(identity)) weight += 25;
+  return weight;
+}
+
+function getTagWeight(element: Element): number {
+  switch (element.tagName) {
+    case 'ARTICLE':
+    case 'MAIN':
+      return 25;
+    case 'SECTION':
+    case 'DIV':
+      return 5;
+    case 'HEADER':
+    case 'FOOTER':
+      return -25;
+    default:
+      return element.getAttribute('role') === 'main' ? 25 : 0;
+  }
+}
+
+export function getLinkDensity(element: Element): number {
+  const textLength = normalizeText(element.textContent || '').length;
+  if (textLength === 0) return 0;
+
+  let linkLength = 0;
+  element.querySelectorAll('a').forEach((link) => {
+    linkLength += normalizeText(link.textContent || '').length;
+  });
+  return linkLength / textLength;
+}
+
+// `boundary` is a container the user chose explicitly (site profile); only exclusions inside it apply
+function isExcluded(element: Element, boundary: Element | null = null): boolean {
+  const excluded = element.closest(EXCLUDED_SELECTOR);
+  if (excluded && (!boundary || (excluded !== boundary && boundary.contains(excluded)))) return true;
+
+  // Site chrome such as cookie banners, headers and footers. Inside an article only widgets
+  // (share buttons, related links) are skipped, so the article's own header and title stay.
+  const article = element.closest('article, main, [role="main"]');
+  let current: Element | null = element;
+  while (current && current !== article && current !== boundary && current !== element.ownerDocument.body) {
+    const isPageChrome = !article && (current.tagName === 'HEADER' || current.tagName === 'FOOTER');
+    if (isPageChrome || getClassWeight(current) < 0) {
+      return true;
+    }
+    current = current.parentElement;
+  }
+
+  // Shadow content and frames are left out along with their host, or the element around the frame
+  const root = element.getRootNode();
+  const container = isShadowRoot(root) ? root.host : getComposedParent(element.ownerDocument.documentElement)?.parentElement;
+  return container && container !== boundary ? isExcluded(container, boundary) : false;
+}
+
+function isHidden(element: HTMLElement, cache: Map<Element, boolean>): boolean {
+  const view = element.ownerDocument.defaultView;
+  if (!view) return false;
+
+  const path: Element[] = [];
+  let current: Element | null = element;
+  let hidden = false;
+  while (current) {
+    const cached = cache.get(current);
+    if (cached !== undefined) {
+      hidden = cached;
+      break;
+    }
+    path.push(current);
+    // Up through shadow hosts and frames, whose elements have styles of their own window
+    const style = (current.ownerDocument.defaultView || view).getComputedStyle(current);
+    if (style.display === 'none' || style.visibility === 'hidden') {
+      hidden = true;
+      break;
+    }
+    current = getComposedParent(current);
+  }
+
+  path.forEach((visited) => cache.set(visited, hidden));
+  return hidden;
+}
+
+// A div only counts as a block when it holds text directly rather than through child blocks
+function hasDirectText(element: Element): boolean {
+  return Array.from(element.childNodes).some(
+    (node) => node.nodeType === Node.TEXT_NODE && normalizeText(node.textContent || '').length > 0
+  );
+}
+
+// Code as laid out, with <br> line breaks that textContent would lose
+export function getCodeSource(element: Element): string {
+  const copy = element.cloneNode(true) as Element;
+  copy.querySelectorAll('br').forEach(br => br.replaceWith('\n'));
+  return copy.textContent || '';
+}
+
+// Text of a prose block; inline <code> is verbalized along with it when code is verbalized
+function getBlockText(element: Element, codeReading: CodeReadingPolicy): string {
+  if (codeReading !== 'verbalize' || !element.querySelector('code')) {
+    return normalizeText(element.textContent || '');
+  }
+  const copy = element.cloneNode(true) as Element;
+  copy.querySelectorAll('code').forEach(code => code.replaceWith(verbalizeCodeLine(code.textContent || '')));
+  return normalizeText(copy.textContent || '');
+}
+
+function collectBlocks(root: Element, options: Required<ExtractionOptions>, boundary: Element | null = null): ReadableBlock[] {
+  const dataTables = new Map<Element, boolean>();
+  const isData = (table: HTMLTableElement) => {
+    if (!dataTables.has(table)) dataTables.set(table, isDataTable(table));
+    return dataTables.get(table)!;
+  };
+
+  const readsImages = options.imageReading !== 'skip';
+  const selector = readsImages ? `${BLOCK_SELECTOR}, table, ${IMAGE_SELECTOR}` : `${BLOCK_SELECTOR}, table`;
+  const isImage = (element: Element) => readsImages && element.matches(IMAGE_SELECTOR);
+
+  const candidates = querySelectorAllDeep<HTMLElement>(root, selector).filter((element) => {
+    if (element.tagName === 'DIV' && !hasDirectText(element)) return false;
+    // A code block is one block, however its highlighter wraps the lines
+    if (element.parentElement?.closest('pre')) return false;
+    // Images and captions speak for their content
+    if (readsImages && element.parentElement?.closest(`figcaption, [role="img"]`)) return false;
+    // Data tables are read as a whole, row by row; layout tables as the blocks in their cells
+    if (element.tagName === 'TABLE') return isData(element as HTMLTableElement);
+    const table = element.parentElement?.closest('table');
+    return !table || !isData(table);
+  });
+
+  // Keep the innermost block so nested content (li > p, blockquote > p) is read once
+  const hasCandidateDescendant = new Set<Element>();
+  for (const element of candidates) {
+    // An image is read after the paragraph around it rather than instead of it
+    if (isImage(element)) continue;
+    let parent = getComposedParent(element);
+    while (parent && !hasCandidateDescendant.has(parent)) {
+      hasCandidateDescendant.add(parent);
+      if (parent === root) break;
+      parent = getComposedParent(parent);
+    }
+  }
+
+  const hiddenCache = new Map<Element, boolean>();
+  const isOmitted = (element: HTMLElement) =>
+    // Inline SVG is excluded as icon markup, but one marked as an image is read by its name
+    isExcluded(element.tagName.toLowerCase() === 'svg' && element.parentElement ? element.parentElement : element, boundary) ||
+    isHidden(element, hiddenCache) ||
+    Boolean(options.excludeSelector && matchesSelector(element, options.excludeSelector));
+
+  const blocks: ReadableBlock[] = [];
+  for (const element of candidates) {
+    if (hasCandidateDescendant.has(element)) continue;
+
+    if (element.tagName === 'PRE') {
+      // Short snippets ("npm install") are kept; link density means nothing in code
+      const text = getSpokenCode(getCodeSource(element), options.codeReading);
+      if (!text || isOmitted(element)) continue;
+      blocks.push({ element, text, isHeading: false, lang: getDeclaredLanguage(element) || undefined });
+      continue;
+    }
+
+    if (isImage(element)) {
+      const text = readImage(element, options.imageReading);
+      if (!text || isOmitted(element)) continue;
+      blocks.push({ element, text, isHeading: false, lang: getDeclaredLanguage(element) || undefined });
+      continue;
+    }
+
+    if (element.tagName === 'FIGCAPTION' && readsImages) {
+      // Captions are kept however short they are
+      const text = getSpokenCaption(getBlockText(element, options.codeReading), options.imageReading);
+      if (!text || isOmitted(element)) continue;
+      blocks.push({ element, text, isHeading: false, lang: getDeclaredLanguage(element) || undefined });
+      continue;
+    }
+
+    if (element.tagName === 'TABLE') {
+      if (isOmitted(element)) continue;
+      const lang = getDeclaredLanguage(element) || undefined;
+      readTable(element as HTMLTableElement, { summarize: options.summarizeTables }).forEach(({ element: source, text }) => {
+        blocks.push({ element: source, text, isHeading: false, lang });
+      });
+      continue;
+    }
+
+    const isHeading = HEADING_TAGS.includes(element.tagName);
+    const text = getBlockText(element, options.codeReading);
+    if (!text) continue;
+    if (!isHeading && text.length < options.minBlockLength && element.tagName !== 'LI') continue;
+    if (getLinkDensity(element) > options.maxLinkDensity) continue;
+    if (isExcluded(element, boundary) || isHidden(element, hiddenCache)) continue;
+    if (options.excludeSelector && matchesSelector(element, options.excludeSelector)) continue;
+
+    blocks.push({ element, text, isHeading, lang: getDeclaredLanguage(element) || undefined });
+  }
+  return blocks;
+}
+
+/**
+ * Finds the element most likely to hold the main content by letting each paragraph
+ * vote for its parent (full score) and grandparent (half score).
+ */
+export function findMainContainer(doc: Document): Element {
+  const scores = new Map<Element, number>();
+
+  const addScore = (element: Element | null, value: number) => {
+    if (!element || element === element.ownerDocument.documentElement) return;
+    if (!scores.has(element)) {
+      scores.set(element, getTagWeight(element) + getClassWeight(element));
+    }
+    scores.set(element, scores.get(element)! + value);
+  };
+
+  querySelectorAllDeep(doc.body, 'p, pre, td, blockquote, li').forEach((paragraph) => {
+    if (isExcluded(paragraph)) return;
+
+    const text = normalizeText(paragraph.textContent || '');
+    if (text.length < DEFAULT_OPTIONS.minBlockLength) return;
+
+    const contentScore = 1 + text.split(',').length + Math.min(Math.floor(text.length / 100), 3);
+    const parent = getComposedParent(paragraph);
+    addScore(parent, contentScore);
+    addScore(parent && getComposedParent(parent), contentScore / 2);
+  });
+
+  let best: Element | null = null;
+  let bestScore = 0;
+  scores.forEach((score, element) => {
+    const adjusted = score * (1 - getLinkDensity(element));
+    if (adjusted > bestScore) {
+      best = element;
+      bestScore = adjusted;
+    }
+  });
+
+  if (!best) return doc.body;
+
+  // Content is often split across sibling containers; widen to the parent when a sibling scores well
+  const container: Element = best;
+  const parent = container.parentElement;
+  if (parent && parent !== doc.documentElement) {
+    const strongSiblings = Array.from(parent.children).filter(
+      (sibling) => sibling !== container && (scores.get(sibling) || 0) * (1 - getLinkDensity(sibling)) >= bestScore * 0.2
+    );
+    if (strongSiblings.length > 0) return parent;
+  }
+  return container;
+}
+
+// Selectors come from user-edited site profiles, so invalid ones are treated as matching nothing
+function matchesSelector(element: Element, selector: string): boolean {
+  try {
+    return element.closest(selector) !== null;
+  } catch {
+    return false;
+  }
+}
+
+function findContentRoots(doc: Document, selector: string): Element[] {
+  let roots: Element[];
+  try {
+    roots = querySelectorAllDeep(doc.body, selector);
+  } catch {
+    console.warn('Invalid content selector in site profile:', selector);
+    return [];
+  }
+  // Nested matches would read their content twice
+  return roots.filter(root => !roots.some(other => other !== root && other.contains(root)));
+}
+
+export function extractReadableBlocks(doc: Document = document, options: ExtractionOptions = {}): ReadableBlock[] {
+  const settings = { ...DEFAULT_OPTIONS, ...options };
+  if (!doc.body) return [];
+
+  if (settings.contentSelector) {
+    const roots = findContentRoots(doc, settings.contentSelector);
+    if (roots.length > 0) {
+      return roots.flatMap(root => collectBlocks(root, settings, root));
+    }
+  }
+
+  const container = findMainContainer(doc);
+  const blocks = collectBlocks(container, settings);
+  if (blocks.length > 0 || container === doc.body) {
+    return blocks;
+  }
+  return collectBlocks(doc.body, settings);
+}
+
+// Language of a lang attribute around `node` below <html>; the document's own language says less about a
+// particular passage, so it is left to callers as a fallback
+export function getDeclaredLanguage(node: Node): string | null {
+  const element = isElementNode(node) ? node : node.parentElement;
+  const declaring = element?.closest('[lang]');
+  if (!declaring || declaring === declaring.ownerDocument.documentElement) return null;
+  return declaring.getAttribute('lang')?.trim() || null;
+}
+
+function readTableRows(table: HTMLTableElement, range: Range, summarize: boolean): string {
+  return readTable(table, { summarize, isIncluded: element => range.intersectsNode(element) }).map(segment => segment.text).join('\n\n');
+}
+
+// Text of a selection with its code, tables and images read as in page reading, or null when it holds none.
+// A selection made only of code is verbalized whatever the policy, as the user picked that code on purpose.
+export function getStructuredText(range: Range, options: StructureReadingOptions): string | null {
+  const container = range.commonAncestorContainer;
+  const containerElement = isElementNode(container) ? container : container.parentElement;
+  if (containerElement?.closest('pre, code')) {
+    return verbalizeCode(range.toString());
+  }
+  // Words inside a single cell are read as selected
+  if (containerElement?.closest('td, th')) return null;
+
+  const enclosingTable = containerElement?.closest('table');
+  if (enclosingTable && isDataTable(enclosingTable)) {
+    return readTableRows(enclosingTable, range, false);
+  }
+
+  const readsImages = options.imageReading !== 'skip';
+  const fragment = range.cloneContents();
+  if (!fragment.querySelector(readsImages ? `pre, code, table, figcaption, ${IMAGE_SELECTOR}` : 'pre, code, table')) return null;
+
+  // The copies lack the rows outside the selection, headers included, so tables are read from the page
+  const copies = Array.from(fragment.querySelectorAll('table'));
+  const tables = Array.from((containerElement || document).querySelectorAll('table')).filter(table => range.intersectsNode(table));
+  if (copies.length === tables.length) {
+    copies.forEach((copy, index) => {
+      if (isDataTable(tables[index])) {
+        copy.replaceWith(`\n\n${readTableRows(tables[index], range, options.summarizeTables)}\n\n`);
+      }
+    });
+  }
+
+  if (readsImages) {
+    fragment.querySelectorAll('figcaption').forEach((caption) => {
+      const spoken = getSpokenCaption(normalizeText(caption.textContent || ''), options.imageReading);
+      caption.replaceWith(spoken ? `\n\n${spoken}\n\n` : '');
+    });
+    fragment.querySelectorAll(IMAGE_SELECTOR).forEach((image) => {
+      const spoken = image.closest('[aria-hidden="true"]') ? null : readImage(image, options.imageReading);
+      image.replaceWith(spoken ? `\n\n${spoken}\n\n` : '');
+    });
+  }
+
+  fragment.querySelectorAll('pre').forEach((pre) => {
+    const spoken = getSpokenCode(getCodeSource(pre), options.codeReading);
+    pre.replaceWith(spoken ? `\n\n${spoken}\n\n` : '\n\n');
+  });
+  if (options.codeReading === 'verbalize') {
+    fragment.querySelectorAll('code').forEach(code => code.replaceWith(verbalizeCodeLine(code.textContent || '')));
+  }
+  return fragment.textContent || '';
+}
+
+// Joins blocks into speakable text; headings and list items get terminal punctuation so they
+// become their own sentences instead of running into the next paragraph
+export function blocksToText(blocks: ReadableBlock[]): string {
+  return blocks
+    .map((block) => (/[.!?:;]$/.test(block.text) ? block.text : `${block.text}.`))
+    .join('\n\n');
+}
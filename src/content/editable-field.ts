@@ -0,0 +1,92 @@
+/**
+ * Editable fields - reading back what the reader is writing
+ * Text selected in a <textarea> or text <input> lives in the field's value, not in the page's selection,
+ * so it is read from the field itself. Contenteditable editors keep their text in the DOM and their
+ * selections are ordinary ones. With nothing selected, the field holding focus is read whole.
+ */
+
+import { getFrameDocument, isElementNode } from './composed-tree';
+
+export type TextControl = HTMLInputElement | HTMLTextAreaElement;
+
+export interface EditableText {
+  field: HTMLElement;
+  text: string;
+  // Where `text` starts in the value of a text control; 0 for editors
+  start: number;
+}
+
+// Input types holding words worth hearing; passwords are never read out
+const READABLE_INPUT_TYPES = ['text', 'search', 'url', 'tel', 'email'];
+
+export function isTextControl(node: Node | null | undefined): node is TextControl {
+  if (!isElementNode(node)) return false;
+  if (node.tagName === 'TEXTAREA') return true;
+  return node.tagName === 'INPUT' && READABLE_INPUT_TYPES.includes((node as HTMLInputElement).type.toLowerCase());
+}
+
+// The outermost contenteditable element around `node`; contenteditable="false" ends the editable region
+export function getEditingHost(node: Node | null | undefined): HTMLElement | null {
+  let element = isElementNode(node) ? node : node?.parentElement || null;
+  let host: HTMLElement | null = null;
+  while (element) {
+    const value = element.getAttribute('contenteditable');
+    if (value === 'false') break;
+    if (value !== null) host = element as HTMLElement;
+    element = element.parentElement;
+  }
+  return host;
+}
+
+// The focused element, following focus into open shadow roots and same-origin frames
+export function getDeepActiveElement(doc: Document): Element | null {
+  let active = doc.activeElement;
+  while (active) {
+    const inner: Element | null = active.shadowRoot?.activeElement || getFrameDocument(active)?.activeElement || null;
+    if (!inner) break;
+    active = inner;
+  }
+  return active;
+}
+
+// The text control or contenteditable editor holding focus
+export function getFocusedEditable(doc: Document): HTMLElement | null {
+  const active = getDeepActiveElement(doc);
+  return isTextControl(active) ? active : getEditingHost(active);
+}
+
+// Text selected inside a text control; types without a selection API (email) report none
+export function getControlSelection(control: TextControl): string {
+  const start = control.selectionStart ?? 0;
+  const end = control.selectionEnd ?? 0;
+  return end > start ? control.value.slice(start, end) : '';
+}
+
+/**
+ * What reading `field` covers: the selected part of a text control, otherwise the whole field.
+ * Selections in editors are read through the page selection, so editors are always whole here.
+ */
+export function getEditableText(field: HTMLElement): EditableText | null {
+  let text: string;
+  let start = 0;
+
+  if (isTextControl(field)) {
+    const selected = getControlSelection(field);
+    start = selected ? field.selectionStart ?? 0 : 0;
+    text = selected || field.value;
+  } else {
+    // innerText keeps the editor's line breaks between paragraphs
+    text = field.innerText || field.textContent || '';
+  }
+
+  return text.trim() ? { field, text, start } : null;
+}
+
+// Selects [start, end) of the control's value; a collapsed range just moves the caret
+export function selectInControl(control: TextControl, start: number, end: number): void {
+  try {
+    control.setSelectionRange(start, end);
+  } catch {
+    // Input types without a selection API keep their caret where it is
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * FrameSelectionReporter - selections in cross-origin frames
+ * The content script runs in every frame, but the page's own script reaches same-origin frames itself, so
+ * only frames it can't read run this instead. It reports the frame's selection to the background, which
+ * keeps track of the frame that owns the selection and asks it for the text when that selection is read.
+ * Speech, highlighting and the player stay with the top frame.
+ */
+
+import { MessageType, Message } from '@common/types/messages';
+import { devLog } from '@common/dev-utils';
+import { getAccessibleDocuments, getDeepSelection } from './composed-tree';
+import { getFocusedEditable, getControlSelection, isTextControl } from './editable-field';
+
+// Same limit as selections in the page
+const MAX_SELECTION_LENGTH = 5000;
+
+// Whether the top frame's content script can read this frame's document
+export function isReachableFromTop(): boolean {
+  if (window === window.top) return true;
+  try {
+    return Boolean(window.top?.document);
+  } catch {
+    return false;
+  }
+}
+
+export class FrameSelectionReporter {
+  private text = '';
+  private selectionDocument: Document = document;
+  private selectionHint: Node | null = null;
+
+  constructor() {
+    getAccessibleDocuments(document).forEach((doc) => {
+      doc.addEventListener('selectionchange', (event) => this.update(event));
+      doc.addEventListener('mouseup', (event) => this.update(event));
+    });
+    chrome.runtime.onMessage.addListener(this.handleMessage.bind(this));
+  }
+
+  private update(event: Event) {
+    const target = (event.composedPath?.()[0] ?? event.target) as Node | null;
+    if (target && typeof target.nodeType === 'number') {
+      this.selectionDocument = target.nodeType === Node.DOCUMENT_NODE ? target as Document : target.ownerDocument || document;
+      if (event.type === 'mouseup') {
+        this.selectionHint = target;
+      }
+    }
+
+    // Text selected in a text field isn't part of the frame's selection
+    const field = getFocusedEditable(document);
+    const selected = isTextControl(field)
+      ? getControlSelection(field)
+      : getDeepSelection(this.selectionDocument, this.selectionHint)?.toString();
+    const text = (selected || '').replace(/\s+/g, ' ').trim();
+    if (text === this.text) return;
+
+    this.text = text.length <= MAX_SELECTION_LENGTH ? text : '';
+    const message = this.text
+      ? { type: MessageType.SELECTION_CHANGED, payload: { text: this.text, hasSelection: true, url: window.location.href, title: document.title } }
+      : { type: MessageType.SELECTION_CLEARED };
+    chrome.runtime.sendMessage(message).catch(error => devLog('[Frame] Could not report selection:', error));
+  }
+
+  // Only selection requests are answered here; everything else is for the top frame
+  private handleMessage(request: Message, _sender: chrome.runtime.MessageSender, sendResponse: (response?: Record<string, unknown>) => void): boolean {
+    switch (request.type) {
+      case MessageType.GET_SELECTION:
+        sendResponse({ text: this.text, hasSelection: this.text.length > 0, info: null });
+        return false;
+
+      case MessageType.CLEAR_SELECTION:
+        this.text = '';
+        sendResponse({ success: true });
+        return false;
+
+      default:
+        return false;
+    }
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * ImageReader - finds what an image on the page says about itself
+ * The name follows the accessible name order (aria-labelledby, aria-label, alt, title) and the description
+ * comes from aria-describedby or aria-description. Decorative images (alt="", role="presentation") have neither.
+ */
+
+import { ImageReadingPolicy, getSpokenImage } from '@common/image-reading';
+
+export const IMAGE_SELECTOR = 'img, [role="img"]';
+
+function cleanText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+// Text of the elements whose ids are listed in `attribute`
+function getReferencedText(element: Element, attribute: string): string {
+  const ids = element.getAttribute(attribute)?.split(/\s+/).filter(Boolean) || [];
+  return cleanText(ids.map(id => element.ownerDocument.getElementById(id)?.textContent || '').join(' '));
+}
+
+export function isDecorativeImage(element: Element): boolean {
+  const role = element.getAttribute('role');
+  if (role === 'presentation' || role === 'none') return true;
+  return element.tagName === 'IMG' && element.getAttribute('alt')?.trim() === '' && !element.hasAttribute('aria-label');
+}
+
+export function getImageName(element: Element): string {
+  if (isDecorativeImage(element)) return '';
+  return getReferencedText(element, 'aria-labelledby') ||
+    cleanText(element.getAttribute('aria-label') || '') ||
+    cleanText(element.getAttribute('alt') || '') ||
+    cleanText(element.getAttribute('title') || '');
+}
+
+export function getImageDescription(element: Element): string {
+  // A description pointing at the figure caption is read as the caption already
+  const ids = element.getAttribute('aria-describedby')?.split(/\s+/).filter(Boolean) || [];
+  const describedByCaption = ids.some(id => element.ownerDocument.getElementById(id)?.closest('figcaption'));
+  if (describedByCaption) return '';
+  return getReferencedText(element, 'aria-describedby') || cleanText(element.getAttribute('aria-description') || '');
+}
+
+export function readImage(element: Element, policy: ImageReadingPolicy): string | null {
+  return getSpokenImage(getImageName(element), getImageDescription(element), policy);
+}
@@ -1,6 +1,40 @@
 import { MessageType, Message } from '@common/types/messages';
 import { devLog } from '@common/dev-utils';
-import { SpeechSynthesizer } from '@common/speech-synthesizer';
+import {
+  SpeechSynthesizer,
+  SeekUnit,
+  SeekDirection,
+  SpeechPosition,
+  SpeechBoundaryEvent,
+  PlaybackStateType,
+  LanguageSettings
+} from '@common/speech-synthesizer';
+import { TTSEngineId, DEFAULT_ENGINE, isEngineId } from '@common/tts-engine';
+import { ReadingProgressStore, fingerprintText } from '@common/reading-progress';
+import { SiteProfileStore, SiteProfile, ProsodySettings } from '@common/site-profiles';
+import { PronunciationLexicon, LexiconStore, LexiconEntry } from '@common/pronunciation-lexicon';
+import { DEFAULT_CODE_READING, isCodeReadingPolicy } from '@common/code-reading';
+import { DEFAULT_IMAGE_READING, isImageReadingPolicy } from '@common/image-reading';
+import { ShortcutStore, ShortcutMap, ShortcutAction, DEFAULT_SHORTCUTS, matchShortcut } from '@common/shortcuts';
+import { PDF_READER_SETTING, ORIGINAL_PDF_HASH, PAGE_NUMBER_ATTRIBUTE, getPageNumber } from '@common/pdf-reader';
+import type { ExportBlock, ExportScope } from '@common/audio-export';
+import { describeVoice, getPreviewText } from '@common/voice-metadata';
+import { SpeechHighlighter, HighlightStart, HIGHLIGHT_STYLES } from './speech-highlighter';
+import {
+  extractReadableBlocks,
+  blocksToText,
+  getDeclaredLanguage,
+  getStructuredText,
+  ReadableBlock,
+  ExtractionOptions,
+  StructureReadingOptions
+} from './content-extractor';
+import { ReadFromHereButton } from './read-from-here';
+import { ResumeToast } from './resume-toast';
+import { MiniPlayer } from './mini-player';
+import { FrameSelectionReporter, isReachableFromTop } from './frame-selection';
+import { getAccessibleDocuments, getDeepSelection, getFrameDocument, isElementNode, toTopWindowRect } from './composed-tree';
+import { EditableText, getFocusedEditable, getEditableText, getEditingHost, getControlSelection, isTextControl } from './editable-field';
 
 interface SelectionInfo {
   text: string;
@@ -13,6 +47,27 @@ interface SelectionInfo {
   timestamp: number;
 }
 
+// A reading of the page's extracted content, tracked so the position can be restored later
+interface PageReading {
+  fingerprint: string;
+  startBlockIndex: number;
+  blockCount: number;
+  // Page of each block in the PDF reader, and the number of pages; empty and 0 elsewhere
+  blockPages: (number | null)[];
+  pageCount: number;
+}
+
+// Number of leading blocks that identify the page content
+const FINGERPRINT_BLOCKS = 20;
+
+// Shortcut actions that move within the reading
+const SEEK_ACTIONS: Partial<Record<ShortcutAction, { unit: SeekUnit; direction: SeekDirection }>> = {
+  previousSentence: { unit: 'sentence', direction: 'previous' },
+  nextSentence: { unit: 'sentence', direction: 'next' },
+  previousParagraph: { unit: 'paragraph', direction: 'previous' },
+  nextParagraph: { unit: 'paragraph', direction: 'next' },
+};
+
 class TextSelectionHandler {
   private currentSelection: Selection | null = null;
   private selectionText: string = '';
@@ -20,7 +75,28 @@ class TextSelectionHandler {
   private selectionInfo: SelectionInfo | null = null;
   private _speechSynthesizer: SpeechSynthesizer | null = null;
   private lastShortcutTime = 0;
+  // Where selections are read from: the document of the last selection event (the page or a same-origin
+  // frame) and the node last pressed there, which may sit in a shadow root
+  private selectionDocument: Document = document;
+  private selectionHint: Node | null = null;
+  private listenedDocuments = new WeakSet<Document>();
+  private shortcuts: ShortcutMap = { ...DEFAULT_SHORTCUTS };
+  // Off on sites whose profile leaves the keys to the site
+  private shortcutsEnabled = true;
   private contentController: ContentScriptController | null = null;
+  private readFromHereButton = new ReadFromHereButton((target) => this.handleReadFromHere(target));
+  private readableBlockElements: Set<HTMLElement> | null = null;
+  private engineId: TTSEngineId = DEFAULT_ENGINE;
+  // Read Web Speech from the offscreen document so it survives navigation
+  private backgroundPlayback = false;
+  // Playback state of speech a background host is reading for this page
+  private backgroundSpeech = { active: false, paused: false };
+  // How code and tables are read, in selections and (through the controller) whole pages
+  private structureReading: StructureReadingOptions = {
+    codeReading: DEFAULT_CODE_READING,
+    summarizeTables: true,
+    imageReading: DEFAULT_IMAGE_READING
+  };
 
   public setContentController(controller: ContentScriptController): void {
     this.contentController = controller;
@@ -49,23 +125,22 @@ class TextSelectionHandler {
       return;
     }
 
-    // Listen for selection changes
-    document.addEventListener('selectionchange', this.handleSelectionChange.bind(this));
-    
-    // Listen for mouse events to detect selection completion
-    document.addEventListener('mouseup', this.handleMouseUp.bind(this));
-    
-    // Listen for keyboard events for keyboard-based selection
-    document.addEventListener('keyup', this.handleKeyUp.bind(this));
-    
-    // Add keyboard event listeners for stop functionality
-    document.addEventListener('keydown', this.handleKeyDown.bind(this));
+    // Selections and shortcuts in the page and in its same-origin frames
+    getAccessibleDocuments(document).forEach(doc => this.listenToDocument(doc));
+
+    // Alt + hover shows the "read from here" affordance next to a block
+    document.addEventListener('mousemove', this.handleMouseMove.bind(this));
+    window.addEventListener('blur', this.hideReadFromHere.bind(this));
     
     // Listen for messages from background script
     chrome.runtime.onMessage.addListener(this.handleMessage.bind(this));
     
     // Setup keyboard shortcuts
     this.setupKeyboardShortcuts();
+
+    this.loadReadingSettings();
+    this.loadShortcuts();
+    this.loadLexicon();
     
     devLog('TTS Text Selection Handler initialized');
     if (process.env.NODE_ENV === 'development') {
@@ -74,12 +149,59 @@ class TextSelectionHandler {
     }
   }
 
-  private handleSelectionChange() {
+  private listenToDocument(doc: Document) {
+    if (this.listenedDocuments.has(doc)) return;
+    this.listenedDocuments.add(doc);
+
+    // Listen for selection changes
+    doc.addEventListener('selectionchange', this.handleSelectionChange.bind(this));
+    
+    // Listen for mouse events to detect selection completion
+    doc.addEventListener('mouseup', this.handleMouseUp.bind(this));
+    
+    // Listen for keyboard events for keyboard-based selection
+    doc.addEventListener('keyup', this.handleKeyUp.bind(this));
+    
+    // Add keyboard event listeners for stop functionality
+    doc.addEventListener('keydown', this.handleKeyDown.bind(this));
+
+    // Frames added later or navigated to another document; load doesn't bubble, so it is captured
+    doc.addEventListener('load', (event) => {
+      const frameDoc = isElementNode(event.target as Node | null) ? getFrameDocument(event.target as Element) : null;
+      if (frameDoc) {
+        getAccessibleDocuments(frameDoc).forEach(inner => this.listenToDocument(inner));
+      }
+    }, true);
+  }
+
+  private trackSelectionSource(event: Event) {
+    const target = (event.composedPath?.()[0] ?? event.target) as Node | null;
+    if (!target || typeof target.nodeType !== 'number') return;
+
+    this.selectionDocument = target.nodeType === Node.DOCUMENT_NODE ? target as Document : target.ownerDocument || document;
+    if (event.type !== 'selectionchange') {
+      this.selectionHint = target;
+    }
+  }
+
+  private handleSelectionChange(event?: Event) {
+    if (event) {
+      this.trackSelectionSource(event);
+    }
     try {
+      const fieldText = this.getFieldSelectionText();
+      if (fieldText) {
+        this.currentSelection = null;
+        this.selectionText = fieldText;
+        this.isSelectionActive = true;
+        this.storeFieldInfo();
+        return;
+      }
+
       const selection = this.safeGetSelection();
       
       if (selection && selection.rangeCount > 0) {
-        const selectedText = selection.toString().trim();
+        const selectedText = this.getSelectionText(selection);
         
         if (selectedText.length > 0) {
           this.currentSelection = selection;
@@ -99,16 +221,77 @@ class TextSelectionHandler {
     }
   }
 
-  private handleMouseUp(_event: MouseEvent) {
+  private handleMouseUp(event: MouseEvent) {
+    this.trackSelectionSource(event);
     // Small delay to ensure selection is complete
     setTimeout(() => {
       this.processSelection();
     }, 10);
   }
 
+  private handleMouseMove(event: MouseEvent) {
+    if (!event.altKey) {
+      if (this.readableBlockElements) {
+        this.hideReadFromHere();
+      }
+      return;
+    }
+
+    const target = event.target instanceof Element ? event.target : null;
+    if (!target || this.readFromHereButton.contains(target)) return;
+
+    // Extract once per Alt press; hovering only walks up to the nearest readable block
+    if (!this.readableBlockElements) {
+      const blocks = this.contentController?.getReadableBlocks() || [];
+      this.readableBlockElements = new Set(blocks.map(block => block.element));
+    }
+
+    let current: Element | null = target;
+    while (current && !this.readableBlockElements.has(current as HTMLElement)) {
+      current = current.parentElement;
+    }
+
+    if (current) {
+      this.readFromHereButton.show(current as HTMLElement);
+    } else {
+      this.readFromHereButton.hide();
+    }
+  }
+
+  private hideReadFromHere() {
+    this.readFromHereButton.hide();
+    this.readableBlockElements = null;
+  }
+
+  private async handleReadFromHere(target: HTMLElement) {
+    this.readableBlockElements = null;
+    if (!this.contentController) {
+      this.showUserFeedback('Failed to read from here - controller not available', 'error');
+      return;
+    }
+
+    try {
+      const started = await this.contentController.speakFromElement(target);
+      if (started) {
+        this.showUserFeedback('▶️ Reading from here...', 'info');
+      } else {
+        this.showUserFeedback('Nothing to read from here', 'warning');
+      }
+    } catch (error) {
+      devLog('[ReadFromHere] Error starting speech:', error);
+      this.showUserFeedback('Failed to read from here', 'error');
+    }
+  }
+
   private handleKeyUp(event: KeyboardEvent) {
+    if (event.key === 'Alt') {
+      this.hideReadFromHere();
+      return;
+    }
+
     // Handle keyboard-based selection (Shift + Arrow keys, Ctrl+A, etc.)
     if (event.shiftKey || ['ArrowLeft', 'ArrowRight', 'ArrowUp', 'ArrowDown'].includes(event.key)) {
+      this.trackSelectionSource(event);
       setTimeout(() => {
         this.processSelection();
       }, 10);
@@ -116,6 +299,28 @@ class TextSelectionHandler {
   }
 
   private handleKeyDown(event: KeyboardEvent) {
+    if (!this.shortcutsEnabled) return;
+
+    const action = matchShortcut(event, this.shortcuts);
+    if (!action) return;
+
+    // Seeking works while reading, and is checked before the debounce so repeated presses
+    // step back several sentences. Text fields keep their word-selection behaviour.
+    const seek = SEEK_ACTIONS[action];
+    if (seek) {
+      const target = isElementNode(event.target as Node | null) ? event.target as Element : null;
+      if (!this.isTTSActive() || (target && this.isInputElement(target))) return;
+
+      event.preventDefault();
+      devLog('[Keyboard] Seek shortcut triggered:', action);
+      if (this.backgroundSpeech.active) {
+        this.controlBackgroundSpeech(MessageType.SEEK_TTS, { ...seek, source: 'keyboard' });
+      } else {
+        this.handleSeekSpeech({ ...seek, source: 'keyboard' });
+      }
+      return;
+    }
+
     const now = Date.now();
     
     // Debounce: Ignore if called within 300ms of last call
@@ -123,45 +328,46 @@ class TextSelectionHandler {
       devLog('[Keyboard] Ignoring duplicate shortcut (debounced)');
       return;
     }
-    
-    // Handle Ctrl+Shift+S - Start TTS
-    if (event.ctrlKey && event.shiftKey && event.key.toLowerCase() === 's') {
-      this.lastShortcutTime = now;
-      devLog('[Keyboard] Start TTS shortcut triggered: Ctrl+Shift+S');
-      event.preventDefault();
-      this.handleStartTTSShortcut();
-      return;
-    }
-    
-    // Handle Ctrl+Shift+X - Stop TTS  
-    if (event.ctrlKey && event.shiftKey && event.key.toLowerCase() === 'x') {
-      this.lastShortcutTime = now;
-      devLog('[Keyboard] Stop TTS shortcut triggered: Ctrl+Shift+X');
-      event.preventDefault();
-      this.handleStopTTSShortcut();
-      return;
-    }
-    
-    // Handle Ctrl+Shift+R - Read entire page
-    if (event.ctrlKey && event.shiftKey && event.key.toLowerCase() === 'r') {
-      this.lastShortcutTime = now;
-      devLog('[Keyboard] Read page shortcut triggered: Ctrl+Shift+R');
-      event.preventDefault();
-      this.handleReadPageShortcut();
-      return;
-    }
-    
-    // Handle Ctrl+Shift+Space for pause/resume
-    if (event.ctrlKey && event.shiftKey && event.key === ' ') {
-      this.lastShortcutTime = now;
-      devLog('[KEYBOARD-FIX-v4] TTS keyboard shortcut triggered: Ctrl+Shift+Space');
-      event.preventDefault();
-      this.handleTTSShortcut();
+    this.lastShortcutTime = now;
+    event.preventDefault();
+    devLog('[Keyboard] Shortcut triggered:', action, this.shortcuts[action]);
+
+    switch (action) {
+      case 'readSelection':
+        this.handleStartTTSShortcut();
+        break;
+      case 'stop':
+        this.handleStopTTSShortcut();
+        break;
+      case 'readPage':
+        this.handleReadPageShortcut();
+        break;
+      case 'togglePause':
+        this.handleTTSShortcut();
+        break;
     }
   }
 
+  public setShortcutsEnabled(enabled: boolean): void {
+    this.shortcutsEnabled = enabled;
+  }
+
+  private loadShortcuts(): void {
+    if (!chrome.storage?.sync) return;
+
+    const store = new ShortcutStore();
+    store.get()
+      .then((shortcuts) => {
+        this.shortcuts = shortcuts;
+      })
+      .catch((error) => devLog('Could not load keyboard shortcuts:', error));
+    store.onChanged((shortcuts) => {
+      this.shortcuts = shortcuts;
+    });
+  }
+
   private handleTTSShortcut() {
-    // Handle Ctrl+Shift+Space: pause/resume toggle
+    // Pause/resume toggle
     const isPlaying = this.isTTSPlaying();
     const isPaused = this.isTTSPaused();
     
@@ -183,16 +389,8 @@ class TextSelectionHandler {
   private async handleStartTTSShortcut() {
     devLog('[Keyboard] Start TTS shortcut handler called');
     
-    // Get the current selection
-    const selection = this.safeGetSelection();
-    
-    if (!selection || selection.rangeCount === 0) {
-      devLog('[Keyboard] No text selected');
-      this.showUserFeedback('Please select some text first', 'warning');
-      return;
-    }
-    
-    const selectedText = selection.toString().trim();
+    // The selection, or the whole text field being edited
+    const selectedText = this.getTextToRead();
     
     if (!selectedText) {
       devLog('[Keyboard] Selected text is empty');
@@ -304,6 +502,9 @@ class TextSelectionHandler {
   }
 
   private isTTSActive(): boolean {
+    if (this.backgroundSpeech.active) {
+      return true;
+    }
     if (this._speechSynthesizer) {
       const state = this._speechSynthesizer.getPlaybackState();
       return state.isPlaying || state.isPaused;
@@ -313,6 +514,14 @@ class TextSelectionHandler {
 
   private async togglePauseTTS(): Promise<void> {
     try {
+      if (this.backgroundSpeech.active) {
+        const result = await this.controlBackgroundSpeech(MessageType.TOGGLE_PAUSE_TTS, { source: 'keyboard' });
+        if (result?.success) {
+          this.showUserFeedback(result.isPaused ? '⏸️ Speech paused' : '▶️ Speech resumed', 'info');
+        }
+        return;
+      }
+
       // Toggle pause locally only (don't notify background to avoid double toggle)
       if (this._speechSynthesizer) {
         devLog('[KEYBOARD-FIX-v5] Calling togglePause on SpeechSynthesizer');
@@ -336,8 +545,15 @@ class TextSelectionHandler {
 
   private processSelection() {
     try {
+      const fieldText = this.getFieldSelectionText();
+      if (fieldText) {
+        this.validateAndStoreSelection(fieldText, null);
+        this.storeFieldInfo();
+        return;
+      }
+
       const selection = this.safeGetSelection();
-      const selectedText = selection ? selection.toString().trim() : '';
+      const selectedText = selection ? this.getSelectionText(selection) : '';
       
       if (selectedText.length > 0) {
         this.validateAndStoreSelection(selectedText, selection);
@@ -347,8 +563,9 @@ class TextSelectionHandler {
     }
   }
 
+  // `selection` is null for text selected inside a text field
   private validateAndStoreSelection(text: string, selection: Selection | null) {
-    if (this.isValidSelection(text) && selection) {
+    if (this.isValidSelection(text)) {
       this.selectionText = this.cleanSelectionText(text);
       this.currentSelection = selection;
       this.isSelectionActive = true;
@@ -381,22 +598,34 @@ class TextSelectionHandler {
   private storeSelectionInfo(selection: Selection) {
     if (selection.rangeCount > 0) {
       const range = selection.getRangeAt(0);
-      const rect = range.getBoundingClientRect();
-      
-      // Store selection metadata
-      this.selectionInfo = {
-        text: this.selectionText,
-        boundingRect: {
-          top: rect.top + window.scrollY,
-          left: rect.left + window.scrollX,
-          width: rect.width,
-          height: rect.height
-        },
-        timestamp: Date.now()
-      };
+      this.storeSelectionRect(range.getBoundingClientRect(), range.startContainer.ownerDocument || document);
     }
   }
 
+  // Text fields don't expose where their selection is drawn, so the field's box stands in for it
+  private storeFieldInfo() {
+    const field = getFocusedEditable(document);
+    if (field) {
+      this.storeSelectionRect(field.getBoundingClientRect(), field.ownerDocument);
+    }
+  }
+
+  private storeSelectionRect(clientRect: DOMRect, doc: Document) {
+    const rect = toTopWindowRect(clientRect, doc);
+
+    // Store selection metadata
+    this.selectionInfo = {
+      text: this.selectionText,
+      boundingRect: {
+        top: rect.top + window.scrollY,
+        left: rect.left + window.scrollX,
+        width: rect.width,
+        height: rect.height
+      },
+      timestamp: Date.now()
+    };
+  }
+
   private notifySelectionChange() {
     chrome.runtime.sendMessage({
       type: MessageType.SELECTION_CHANGED,
@@ -480,6 +709,14 @@ class TextSelectionHandler {
         this.handlePreviewVoice(request.payload || {});
         sendResponse({ success: true });
         break;
+
+      case MessageType.SEEK_SPEECH:
+        sendResponse(this.handleSeekSpeech(request.payload || {}));
+        break;
+
+      case MessageType.SET_SPEECH_RATE:
+        sendResponse(this.handleSetSpeechRate(request.payload || {}));
+        break;
         
       default:
         // Don't handle other message types here
@@ -506,6 +743,10 @@ class TextSelectionHandler {
       case 'stopped':
         this.showUserFeedback('⏹️ Speech stopped', 'info');
         break;
+
+      case 'queued':
+        this.showUserFeedback('📋 Added to reading queue', 'success');
+        break;
         
       case 'no-selection':
         this.showUserFeedback('⚠️ No text selected', 'warning');
@@ -526,7 +767,7 @@ class TextSelectionHandler {
     }
   }
 
-  private showUserFeedback(message: string, type: 'success' | 'warning' | 'error' | 'info') {
+  public showUserFeedback(message: string, type: 'success' | 'warning' | 'error' | 'info'): void {
     // Create a temporary notification element
     const notification = this.createNotificationElement(message, type);
     document.body.appendChild(notification);
@@ -612,11 +853,25 @@ class TextSelectionHandler {
     try {
       const text = data.text as string;
       const voice = data.voice as Record<string, unknown> | undefined;
+      const startAt = data.startAt as SpeechPosition | undefined;
+      const settings = data.settings as Partial<ProsodySettings> | undefined;
       
       if (!text || typeof text !== 'string') {
         throw new Error('No text provided for speech synthesis');
       }
 
+      const language = this.withPageLanguages(
+        data.language as LanguageSettings | undefined,
+        data.paragraphLangs as (string | null)[] | undefined,
+        text
+      );
+
+      // chrome.tts and the speech server only play outside the page
+      if (this.engineId !== 'web-speech' || this.backgroundPlayback) {
+        await this.speakInBackground(text, voice, startAt, settings, language);
+        return;
+      }
+
       if (!this._speechSynthesizer) {
         throw new Error('Speech synthesizer not available');
       }
@@ -648,7 +903,10 @@ class TextSelectionHandler {
         }
       }
 
-      await this._speechSynthesizer.speak(text);
+      // speak() stops any previous reading synchronously, so the highlight is prepared after that
+      const speaking = this._speechSynthesizer.speak(text, settings || {}, startAt, language);
+      this.contentController?.prepareReading(text, this.getHighlightStartForText(text));
+      await speaking;
       
       this.showUserFeedback('🔊 Speech started', 'success');
       
@@ -658,6 +916,154 @@ class TextSelectionHandler {
     }
   }
 
+  // Adds the languages the page declares to the reading's language settings: per paragraph when the
+  // caller knows them, else the lang around the selection being read
+  private withPageLanguages(
+    language: LanguageSettings | undefined,
+    paragraphLangs: (string | null)[] | undefined,
+    text: string
+  ): LanguageSettings | undefined {
+    if (!language?.autoDetect) return language;
+
+    const selectionNode = paragraphLangs ? null : this.getHighlightStartForText(text)?.startNode;
+    const selectionLang = selectionNode ? getDeclaredLanguage(selectionNode) : null;
+    return {
+      ...language,
+      paragraphLangs: paragraphLangs || (selectionLang ? text.split(/\n\s*\n/).map(() => selectionLang) : undefined),
+      documentLang: document.documentElement.lang || undefined
+    };
+  }
+
+  // chrome.tts reads in the background service worker, Web Speech in the offscreen document;
+  // highlighting follows their SPEECH_EVENT messages
+  private async speakInBackground(
+    text: string,
+    voice: Record<string, unknown> | undefined,
+    startAt: SpeechPosition | undefined,
+    settings: Partial<ProsodySettings> | undefined,
+    language: LanguageSettings | undefined
+  ): Promise<void> {
+    // Local Web Speech playback would talk over it
+    if (this.isLocalSpeechActive()) {
+      this._speechSynthesizer?.stop();
+    }
+
+    this.contentController?.prepareBackgroundReading(text, this.getHighlightStartForText(text));
+    const response = await chrome.runtime.sendMessage({
+      type: MessageType.SPEAK_IN_BACKGROUND,
+      payload: { text, voice, startAt, settings, language, engine: this.engineId }
+    });
+    if (!response?.success) {
+      throw new Error(response?.error || 'Background speech is not available');
+    }
+
+    this.showUserFeedback('🔊 Speech started', 'success');
+  }
+
+  private async controlBackgroundSpeech(
+    type: MessageType,
+    payload: Record<string, unknown>
+  ): Promise<Record<string, unknown> | null> {
+    try {
+      const response = await chrome.runtime.sendMessage({ type, payload });
+      return response?.data || null;
+    } catch (error) {
+      devLog('[TTS] Could not reach background speech:', error);
+      return null;
+    }
+  }
+
+  public setBackgroundSpeechState(state: PlaybackStateType): void {
+    if (state === 'stopped' || state === 'completed') {
+      this.backgroundSpeech = { active: false, paused: false };
+    } else if (state !== 'ended') {
+      this.backgroundSpeech = { active: true, paused: state === 'paused' };
+    }
+  }
+
+  private loadReadingSettings(): void {
+    if (!chrome.storage?.sync) return;
+
+    chrome.storage.sync.get({
+      ttsEngine: DEFAULT_ENGINE,
+      backgroundPlayback: false,
+      codeReading: DEFAULT_CODE_READING,
+      summarizeTables: true,
+      imageReading: DEFAULT_IMAGE_READING
+    })
+      .then((settings) => {
+        this.engineId = isEngineId(settings.ttsEngine) ? settings.ttsEngine : DEFAULT_ENGINE;
+        this.backgroundPlayback = settings.backgroundPlayback === true;
+        this.setCodeReading(settings.codeReading);
+        this.structureReading.summarizeTables = settings.summarizeTables !== false;
+        this.setImageReading(settings.imageReading);
+      })
+      .catch((error) => devLog('Could not load reading settings:', error));
+
+    chrome.storage.onChanged?.addListener((changes, areaName) => {
+      if (areaName !== 'sync') return;
+      if (changes.ttsEngine) {
+        this.engineId = isEngineId(changes.ttsEngine.newValue) ? changes.ttsEngine.newValue : DEFAULT_ENGINE;
+      }
+      if (changes.backgroundPlayback) {
+        this.backgroundPlayback = changes.backgroundPlayback.newValue === true;
+      }
+      if (changes.codeReading) {
+        this.setCodeReading(changes.codeReading.newValue);
+      }
+      if (changes.summarizeTables) {
+        this.structureReading.summarizeTables = changes.summarizeTables.newValue !== false;
+      }
+      if (changes.imageReading) {
+        this.setImageReading(changes.imageReading.newValue);
+      }
+    });
+  }
+
+  private setCodeReading(value: unknown): void {
+    this.structureReading.codeReading = isCodeReadingPolicy(value) ? value : DEFAULT_CODE_READING;
+  }
+
+  private setImageReading(value: unknown): void {
+    this.structureReading.imageReading = isImageReadingPolicy(value) ? value : DEFAULT_IMAGE_READING;
+  }
+
+  public getStructureReading(): StructureReadingOptions {
+    return { ...this.structureReading };
+  }
+
+  // Selected text as it is read: code, tables and images inside it follow the reading settings
+  private getSelectionText(selection: Selection): string {
+    const range = selection.rangeCount > 0 ? selection.getRangeAt(0) : null;
+    // Ranges of frame selections come from the frame's window, so they aren't instances of this window's Range
+    const structured = typeof range?.cloneContents === 'function' ? getStructuredText(range, this.structureReading) : null;
+    return (structured ?? selection.toString()).trim();
+  }
+
+  // Readings spoken here use the lexicon directly; background hosts get it from the background script
+  private loadLexicon(): void {
+    if (!chrome.storage?.local || !this._speechSynthesizer) return;
+
+    const store = new LexiconStore();
+    const apply = (entries: LexiconEntry[]) => {
+      this._speechSynthesizer?.setLexicon(
+        entries.length > 0 ? new PronunciationLexicon(entries) : null,
+        window.location.hostname
+      );
+    };
+
+    store.getAll()
+      .then(apply)
+      .catch((error) => devLog('Could not load pronunciation lexicon:', error));
+    store.onChanged(apply);
+  }
+
+  private isLocalSpeechActive(): boolean {
+    if (!this._speechSynthesizer) return false;
+    const state = this._speechSynthesizer.getPlaybackState();
+    return state.isPlaying || state.isPaused;
+  }
+
   private handleStopSpeech(data: Record<string, unknown> = {}): void {
     try {
       if (!this._speechSynthesizer) {
@@ -730,6 +1136,9 @@ class TextSelectionHandler {
   }
 
   public isTTSPlaying(): boolean {
+    if (this.backgroundSpeech.active) {
+      return !this.backgroundSpeech.paused;
+    }
     // Check if TTS is currently playing
     if (this._speechSynthesizer) {
       const state = this._speechSynthesizer.getPlaybackState();
@@ -739,6 +1148,9 @@ class TextSelectionHandler {
   }
 
   public isTTSPaused(): boolean {
+    if (this.backgroundSpeech.active) {
+      return this.backgroundSpeech.paused;
+    }
     // Check if TTS is currently paused
     if (this._speechSynthesizer) {
       const state = this._speechSynthesizer.getPlaybackState();
@@ -833,6 +1245,38 @@ class TextSelectionHandler {
     }
   }
 
+  private handleSeekSpeech(data: Record<string, unknown>): Record<string, unknown> {
+    const unit: SeekUnit = data.unit === 'paragraph' ? 'paragraph' : 'sentence';
+    const direction: SeekDirection = data.direction === 'previous' ? 'previous' : 'next';
+
+    if (!this._speechSynthesizer) {
+      return { success: false, error: 'Speech synthesizer not available' };
+    }
+
+    if (typeof data.fraction === 'number') {
+      const moved = this._speechSynthesizer.seekToFraction(data.fraction);
+      devLog('[Seek] to', data.fraction, 'from:', data.source || 'unknown', 'moved:', moved);
+      return { success: moved };
+    }
+
+    const moved = this._speechSynthesizer.seek(unit, direction);
+    devLog('[Seek]', direction, unit, 'from:', data.source || 'unknown', 'moved:', moved);
+    if (!moved) {
+      this.showUserFeedback(direction === 'next' ? `⚠️ No next ${unit}` : '⚠️ Speech not active', 'warning');
+    }
+    return { success: moved };
+  }
+
+  private handleSetSpeechRate(data: Record<string, unknown>): Record<string, unknown> {
+    if (!this._speechSynthesizer) {
+      return { success: false, error: 'Speech synthesizer not available' };
+    }
+
+    const changed = this._speechSynthesizer.changeRate(Number(data.rate));
+    devLog('[Rate]', data.rate, 'from:', data.source || 'unknown', 'changed:', changed);
+    return { success: changed };
+  }
+
   private async handlePreviewVoice(data: Record<string, unknown>): Promise<void> {
     try {
       const voice = data.voice as Record<string, unknown> | undefined;
@@ -847,7 +1291,7 @@ class TextSelectionHandler {
 
       // Get preview text based on language
       const lang = voice.lang as string || 'en';
-      const previewText = this.getPreviewText(lang);
+      const previewText = getPreviewText(lang);
 
       // Temporarily set the voice for preview
       const previousVoice = this._speechSynthesizer.getVoice();
@@ -869,32 +1313,58 @@ class TextSelectionHandler {
     }
   }
 
-  private getPreviewText(lang: string): string {
-    const previewTexts: Record<string, string> = {
-      'en': 'Hello! This is a preview of the selected voice. The quick brown fox jumps over the lazy dog.',
-      'es': '¡Hola! Esta es una vista previa de la voz seleccionada. El rápido zorro marrón salta sobre el perro perezoso.',
-      'fr': 'Bonjour! Ceci est un aperçu de la voix sélectionnée. Le rapide renard brun saute par-dessus le chien paresseux.',
-      'de': 'Hallo! Dies ist eine Vorschau der ausgewählten Stimme. Der schnelle braune Fuchs springt über den faulen Hund.',
-      'it': 'Ciao! Questa è un\'anteprima della voce selezionata. La rapida volpe marrone salta sopra il cane pigro.',
-      'pt': 'Olá! Esta é uma prévia da voz selecionada. A rápida raposa marrom pula sobre o cão preguiçoso.',
-      'ja': 'こんにちは！これは選択された音声のプレビューです。素早い茶色のキツネが怠け者の犬を飛び越えます。',
-      'ko': '안녕하세요! 선택한 음성의 미리보기입니다. 빠른 갈색 여우가 게으른 개를 뛰어넘습니다.',
-      'zh': '你好！这是所选语音的预览。敏捷的棕色狐狸跳过了懒狗。'
-    };
-    
-    const langPrefix = lang.split('-')[0];
-    return previewTexts[langPrefix] || previewTexts['en'];
-  }
-
   private safeGetSelection(): Selection | null {
     try {
-      return window.getSelection();
+      return getDeepSelection(this.selectionDocument, this.selectionHint);
     } catch (error) {
       this.handleSelectionError(error as Error, 'getSelection');
       return null;
     }
   }
 
+  // Text selected inside the focused text field, which window.getSelection() leaves out
+  private getFieldSelectionText(): string {
+    const field = getFocusedEditable(document);
+    return isTextControl(field) ? this.cleanSelectionText(getControlSelection(field)) : '';
+  }
+
+  // Text field or editor read whole or in part instead of the page selection, when it holds focus
+  private getEditableToRead(): EditableText | null {
+    const field = getFocusedEditable(document);
+    // A selection in an editor is an ordinary one; only a caret on its own reads the whole editor
+    if (!field || (!isTextControl(field) && this.selectionText)) return null;
+    return getEditableText(field);
+  }
+
+  // What "read selection" reads: the selection, or the whole text field being edited
+  public getTextToRead(): string {
+    const editable = this.getEditableToRead();
+    return editable ? editable.text.trim() : this.selectionText;
+  }
+
+  // Where to start highlighting when the spoken text is the live selection or a text field
+  private getHighlightStartForText(text: string): HighlightStart | null {
+    const editable = this.getEditableToRead();
+    if (editable && this.cleanSelectionText(editable.text) === this.cleanSelectionText(text)) {
+      return { root: editable.field, startNode: editable.field, startOffset: editable.start };
+    }
+
+    const selection = this.safeGetSelection();
+    if (!selection || selection.rangeCount === 0) return null;
+
+    if (this.cleanSelectionText(this.getSelectionText(selection)) !== this.cleanSelectionText(text)) {
+      return null;
+    }
+
+    const range = selection.getRangeAt(0);
+    return {
+      // Editors are highlighted through their own selection, so the map covers just the editor
+      root: getEditingHost(range.startContainer) || document.body,
+      startNode: range.startContainer,
+      startOffset: range.startOffset
+    };
+  }
+
   private validateSelectionEnvironment(): boolean {
     if (!window.getSelection) {
       devLog('Selection API not available');
@@ -965,6 +1435,24 @@ class TextSelectionHandler {
 class ContentScriptController {
   private highlightedElements: HTMLElement[] = [];
   private textSelectionHandler: TextSelectionHandler;
+  private speechHighlighter = new SpeechHighlighter();
+  private pendingHighlight: HighlightStart | null = null;
+  private pendingReading: PageReading | null = null;
+  // Reading handed to the background engine, prepared once it reports that it started
+  private pendingBackgroundReading: { text: string; selectionStart: HighlightStart | null } | null = null;
+  private activeReading: PageReading | null = null;
+  private progressStore = new ReadingProgressStore();
+  private resumeToast = new ResumeToast();
+  private miniPlayer = new MiniPlayer({
+    togglePause: () => this.sendPlayerCommand(MessageType.TOGGLE_PAUSE_TTS),
+    seek: (direction) => this.sendPlayerCommand(MessageType.SEEK_TTS, { unit: 'sentence', direction }),
+    setRate: (rate) => this.sendPlayerCommand(MessageType.SET_RATE_TTS, { rate }),
+    stop: () => this.sendPlayerCommand(MessageType.STOP_TTS)
+  });
+  private siteProfiles = new SiteProfileStore();
+  // Content/exclude selectors of this site's profile, applied to every page extraction
+  private extractionRules: ExtractionOptions = {};
+  private siteProfileLoaded: Promise<void> = Promise.resolve();
 
   constructor() {
     this.textSelectionHandler = new TextSelectionHandler();
@@ -979,6 +1467,11 @@ class ContentScriptController {
     // Setup event listeners and styles immediately - don't wait for voice enumeration
     this.setupEventListeners();
     this.injectStyles();
+    this.setupSpeechHighlighting();
+    this.setupSiteProfile();
+    this.setupReadingProgress();
+    this.setupMiniPlayer();
+    this.setupPdfReader();
 
     // Notify background that content script is ready (immediately functional)
     chrome.runtime.sendMessage({
@@ -997,6 +1490,208 @@ class ContentScriptController {
     }
   }
 
+  private setupSpeechHighlighting() {
+    const speechSynthesizer = this.textSelectionHandler.speechSynthesizer;
+    if (!speechSynthesizer) return;
+
+    speechSynthesizer.onBoundary((event) => this.speechHighlighter.handleBoundary(event));
+    speechSynthesizer.onPlaybackStateChange((state) => this.handleSpeechState(state, speechSynthesizer.getPosition()));
+
+    // Respect the "Highlight spoken text" option
+    if (chrome.storage?.sync) {
+      chrome.storage.sync.get({ highlightText: true })
+        .then((settings) => this.speechHighlighter.setEnabled(Boolean(settings.highlightText)))
+        .catch((error) => devLog('Could not load highlight setting:', error));
+    }
+  }
+
+  // Called right before speech starts so boundary events can be mapped back to the page
+  public prepareReading(text: string, selectionStart: HighlightStart | null): void {
+    const target = this.pendingHighlight || selectionStart;
+    this.pendingHighlight = null;
+    this.activeReading = this.pendingReading;
+    this.pendingReading = null;
+
+    if (target) {
+      this.speechHighlighter.start(target);
+    } else {
+      // Text that didn't come from the page (e.g. popup test speech) has nothing to highlight
+      this.speechHighlighter.stop();
+    }
+    devLog('[Highlight] Prepared for text:', text.substring(0, 50), 'active:', this.speechHighlighter.isActive());
+  }
+
+  // Like prepareReading(), for speech read by the background engine; applied when it reports 'started'
+  public prepareBackgroundReading(text: string, selectionStart: HighlightStart | null): void {
+    this.pendingBackgroundReading = { text, selectionStart };
+  }
+
+  // Boundary and state events of speech read by the background engine
+  private handleSpeechEvent(payload: Record<string, unknown>) {
+    if (payload.kind === 'boundary') {
+      this.speechHighlighter.handleBoundary(payload.event as SpeechBoundaryEvent);
+      return;
+    }
+
+    const state = payload.state as PlaybackStateType;
+    if (state === 'started' && this.pendingBackgroundReading) {
+      this.prepareReading(this.pendingBackgroundReading.text, this.pendingBackgroundReading.selectionStart);
+      this.pendingBackgroundReading = null;
+    }
+    this.textSelectionHandler.setBackgroundSpeechState(state);
+    this.handleSpeechState(state, (payload.position as SpeechPosition | null) || null);
+  }
+
+  private handleSpeechState(state: PlaybackStateType, position: SpeechPosition | null) {
+    if (state === 'stopped' || state === 'completed') {
+      this.speechHighlighter.stop();
+    }
+
+    if (state === 'started') {
+      this.saveReadingProgress(position);
+    } else if (state === 'completed') {
+      // Finished pages don't need to be resumed
+      if (this.activeReading && chrome.storage?.local) {
+        this.progressStore.remove(window.location.href);
+      }
+      this.activeReading = null;
+    } else if (state === 'stopped') {
+      // The position saved when the last sentence started is kept
+      this.activeReading = null;
+    }
+  }
+
+  private setupMiniPlayer() {
+    if (!chrome.storage?.sync) return;
+
+    chrome.storage.sync.get({ showMiniPlayer: true })
+      .then((settings) => this.miniPlayer.setEnabled(settings.showMiniPlayer !== false))
+      .catch((error) => devLog('Could not load mini player setting:', error));
+
+    chrome.storage.onChanged?.addListener((changes, areaName) => {
+      if (areaName === 'sync' && changes.showMiniPlayer) {
+        this.miniPlayer.setEnabled(changes.showMiniPlayer.newValue !== false);
+      }
+    });
+  }
+
+  private sendPlayerCommand(type: MessageType, payload: Record<string, unknown> = {}) {
+    chrome.runtime.sendMessage({ type, payload: { ...payload, source: 'mini-player' } })
+      .catch((error) => devLog('[MiniPlayer] Command failed:', type, error));
+  }
+
+  private setupSiteProfile() {
+    if (!chrome.storage?.sync) return;
+
+    this.siteProfileLoaded = this.siteProfiles.findForUrl(window.location.href)
+      .then(profile => this.applySiteProfile(profile))
+      .catch(error => devLog('[SiteProfile] Could not load site profile:', error));
+
+    this.siteProfiles.onChanged(() => {
+      this.siteProfiles.findForUrl(window.location.href)
+        .then(profile => this.applySiteProfile(profile))
+        .catch(error => devLog('[SiteProfile] Could not reload site profile:', error));
+    });
+  }
+
+  private applySiteProfile(profile: SiteProfile | null) {
+    this.extractionRules = {
+      contentSelector: profile?.contentSelector || undefined,
+      excludeSelector: profile?.excludeSelector || undefined
+    };
+    this.textSelectionHandler.setShortcutsEnabled(!profile?.disableShortcuts);
+  }
+
+  private extractBlocks(): ReadableBlock[] {
+    return extractReadableBlocks(document, { ...this.extractionRules, ...this.textSelectionHandler.getStructureReading() });
+  }
+
+  private setupReadingProgress() {
+    if (!chrome.storage?.local) return;
+
+    this.offerResume().catch(error => devLog('[Resume] Could not check saved position:', error));
+  }
+
+  // Saves the block and sentence being read so a later visit can continue from there
+  private saveReadingProgress(position: SpeechPosition | null) {
+    if (!this.activeReading || !position || !chrome.storage?.local) return;
+
+    const blockIndex = this.activeReading.startBlockIndex + position.paragraphIndex;
+    const page = this.activeReading.blockPages[blockIndex];
+    this.progressStore.save(window.location.href, {
+      fingerprint: this.activeReading.fingerprint,
+      blockIndex,
+      sentenceIndex: position.sentenceIndex,
+      blockCount: this.activeReading.blockCount,
+      ...(page ? { page, pageCount: this.activeReading.pageCount } : {}),
+      title: document.title,
+      updatedAt: Date.now()
+    });
+  }
+
+  private async offerResume() {
+    const entry = await this.progressStore.get(window.location.href);
+    if (!entry) return;
+
+    // The fingerprint depends on which blocks the site profile lets through
+    await this.siteProfileLoaded;
+    const blocks = this.extractBlocks();
+    if (this.getPageFingerprint(blocks) !== entry.fingerprint) {
+      devLog('[Resume] Page content changed since the last reading, not offering to resume');
+      return;
+    }
+
+    const percent = Math.round((entry.blockIndex / Math.max(entry.blockCount, 1)) * 100);
+    const message = entry.page
+      ? `Continue from page ${entry.page} of ${entry.pageCount}?`
+      : `Continue where you left off? (${percent}% read)`;
+    this.resumeToast.show(message, () => {
+      this.resumeReading().then(result => {
+        if (!result.success) {
+          devLog('[Resume] Could not resume:', result.error);
+        }
+      });
+    });
+  }
+
+  // Continues reading the page from the saved position, if the page content is unchanged
+  public async resumeReading(): Promise<{ success: boolean; error?: string }> {
+    this.resumeToast.hide();
+
+    const entry = await this.progressStore.get(window.location.href);
+    if (!entry) {
+      return { success: false, error: 'No saved position for this page' };
+    }
+
+    const blocks = this.extractBlocks();
+    if (this.getPageFingerprint(blocks) !== entry.fingerprint || entry.blockIndex >= blocks.length) {
+      return { success: false, error: 'The page has changed since it was last read' };
+    }
+
+    await this.speakBlocks(blocks, entry.blockIndex, entry.sentenceIndex);
+    return { success: true };
+  }
+
+  // Chrome's PDF viewer keeps the text out of reach; users who opted in get the PDF reader page instead
+  private setupPdfReader() {
+    if (!this.isPdfDocument() || window.location.hash.includes(ORIGINAL_PDF_HASH) || !chrome.storage?.sync) return;
+
+    chrome.storage.sync.get({ [PDF_READER_SETTING]: false })
+      .then((settings) => {
+        if (!settings[PDF_READER_SETTING]) return;
+        return chrome.runtime.sendMessage({ type: MessageType.OPEN_PDF_READER, payload: { url: window.location.href } });
+      })
+      .catch(error => devLog('[PDF] Could not open the PDF reader:', error));
+  }
+
+  private isPdfDocument(): boolean {
+    return document.contentType === 'application/pdf';
+  }
+
+  private getPageFingerprint(blocks: ReadableBlock[]): string {
+    return fingerprintText(blocks.slice(0, FINGERPRINT_BLOCKS).map(block => block.text).join('\n'));
+  }
+
   private async enumerateAndUpdateVoicesAsync() {
     try {
       // Check if we have access to speechSynthesis
@@ -1017,22 +1712,8 @@ class ContentScriptController {
             
             if (voices.length > 0) {
               // Convert to VoiceInfo format and send to background
-              const voiceInfos = voices.map(voice => {
-                try {
-                  return {
-                    ...voice,
-                    displayName: this.formatVoiceName(voice),
-                    languageDisplay: this.formatLanguage(voice.lang),
-                    quality: this.determineVoiceQuality(voice),
-                    gender: this.guessGender(voice.name),
-                    engine: this.determineEngine(voice),
-                    voiceURI: voice.name // Add missing property
-                  };
-                } catch (formatError) {
-                  devLog('Error formatting voice:', voice.name, formatError);
-                  return voice; // Return original voice if formatting fails
-                }
-              });
+              // The synthesizer's voices have no URI; their name identifies them
+              const voiceInfos = voices.map(voice => describeVoice({ ...voice, voiceURI: voice.name }));
               
               devLog('Formatted voice data:', voiceInfos.length, 'voices');
               
@@ -1065,74 +1746,6 @@ class ContentScriptController {
     }
   }
 
-  private formatVoiceName(voice: { name: string; localService: boolean }): string {
-    let name = voice.name;
-    
-    name = name.replace(/^Microsoft\s+/i, '');
-    name = name.replace(/^Google\s+/i, '');
-    name = name.replace(/^Apple\s+/i, '');
-    
-    if (!voice.localService) {
-      name += ' (Online)';
-    }
-    
-    return name;
-  }
-
-  private formatLanguage(langCode: string): string {
-    const languageNames: Record<string, string> = {
-      'en-US': 'English (US)',
-      'en-GB': 'English (UK)',
-      'en-AU': 'English (Australia)',
-      'es-ES': 'Spanish (Spain)',
-      'es-MX': 'Spanish (Mexico)',
-      'fr-FR': 'French',
-      'de-DE': 'German',
-      'it-IT': 'Italian',
-      'pt-BR': 'Portuguese (Brazil)',
-      'ja-JP': 'Japanese',
-      'ko-KR': 'Korean',
-      'zh-CN': 'Chinese (Simplified)',
-      'zh-TW': 'Chinese (Traditional)'
-    };
-    
-    return languageNames[langCode] || langCode;
-  }
-
-  private determineVoiceQuality(voice: { name: string; localService: boolean }): 'premium' | 'enhanced' | 'standard' | 'compact' {
-    if (!voice.localService) return 'premium';
-    if (voice.name.toLowerCase().includes('enhanced')) return 'enhanced';
-    if (voice.name.toLowerCase().includes('compact')) return 'compact';
-    return 'standard';
-  }
-
-  private guessGender(voiceName: string): 'male' | 'female' | 'neutral' {
-    const name = voiceName.toLowerCase();
-    
-    const femaleIndicators = ['female', 'woman', 'girl', 'samantha', 'victoria', 
-                             'kate', 'karen', 'nicole', 'jennifer', 'lisa'];
-    const maleIndicators = ['male', 'man', 'boy', 'daniel', 'thomas', 'james', 
-                           'robert', 'john', 'michael', 'david'];
-    
-    if (femaleIndicators.some(indicator => name.includes(indicator))) {
-      return 'female';
-    }
-    if (maleIndicators.some(indicator => name.includes(indicator))) {
-      return 'male';
-    }
-    
-    return 'neutral';
-  }
-
-  private determineEngine(voice: { name: string }): string {
-    const name = voice.name.toLowerCase();
-    if (name.includes('microsoft')) return 'Microsoft';
-    if (name.includes('google')) return 'Google';
-    if (name.includes('apple')) return 'Apple';
-    if (name.includes('amazon')) return 'Amazon';
-    return 'System';
-  }
-
   private setupEventListeners() {
     // Double-click to speak
     document.addEventListener('dblclick', (e) => {
@@ -1157,11 +1770,11 @@ class ContentScriptController {
                 } else {
                   const text = 'text' in message.payload 
                     ? String(message.payload.text) 
-                    : this.textSelectionHandler.getSelectedText();
+                    : this.textSelectionHandler.getTextToRead();
                   await this.speakText(text);
                 }
               } else {
-                await this.speakText(this.textSelectionHandler.getSelectedText());
+                await this.speakText(this.textSelectionHandler.getTextToRead());
               }
               sendResponse({ success: true });
             } catch (error) {
@@ -1171,6 +1784,21 @@ class ContentScriptController {
           return true; // Keep message channel open for async response
           break;
 
+        case MessageType.SPEECH_EVENT:
+          this.handleSpeechEvent(message.payload || {});
+          sendResponse({ success: true });
+          break;
+
+        case MessageType.RESUME_READING:
+          this.resumeReading()
+            .then(result => sendResponse(result))
+            .catch(error => sendResponse({ success: false, error: (error as Error).message }));
+          return true;
+
+        case MessageType.GET_EXPORT_CONTENT:
+          sendResponse({ success: true, ...this.getExportContent(message.payload?.scope) });
+          break;
+
         case MessageType.HIGHLIGHT_TEXT:
           if (message.payload && typeof message.payload === 'object' && 'text' in message.payload) {
             this.highlightText(String(message.payload.text));
@@ -1185,6 +1813,11 @@ class ContentScriptController {
           sendResponse({ success: true });
           break;
 
+        case MessageType.TTS_STATE_CHANGED:
+          this.miniPlayer.update(String(message.payload?.state), (message.payload?.playbackState as Record<string, unknown>) || {});
+          sendResponse({ success: true });
+          break;
+
         default:
           sendResponse({ success: false, error: 'Unknown message type' });
       }
@@ -1202,9 +1835,11 @@ class ContentScriptController {
         transition: background-color 0.3s ease;
       }
       
-      .tts-speaking {
-        outline: 2px solid #2196f3 !important;
-        outline-offset: 2px;
+      ${HIGHLIGHT_STYLES}
+
+      .tts-read-target {
+        outline: 2px dashed #3b82f6 !important;
+        outline-offset: 4px;
       }
       
       @keyframes tts-pulse {
@@ -1236,22 +1871,26 @@ class ContentScriptController {
     document.head.appendChild(style);
   }
 
-  private async speakText(text: string) {
+  // `paragraphLangs` are the languages the page declares for the paragraphs of `text`, if known
+  private async speakText(text: string, startAt?: SpeechPosition, paragraphLangs?: (string | null)[]) {
     if (!text) return;
 
     try {
-      // Get the currently selected voice from background script
-      const voiceResponse = await chrome.runtime.sendMessage({
-        type: MessageType.GET_VOICE_DATA
+      // Get the voice and speed for this page (selected voice, site profile) from background script
+      const response = await chrome.runtime.sendMessage({
+        type: MessageType.GET_SPEECH_SETTINGS,
+        payload: { url: window.location.href }
       });
       
-      const selectedVoice = voiceResponse?.selectedVoice || null;
+      const selectedVoice = response?.data?.voice || null;
+      const settings = response?.data?.settings;
+      const language = response?.data?.language;
 
       // Use the unified Web Speech API flow through TextSelectionHandler
       // This ensures proper state tracking and stop functionality
       this.textSelectionHandler.handleMessage({
         type: MessageType.START_SPEECH,
-        payload: { text, voice: selectedVoice }
+        payload: { text, voice: selectedVoice, settings, startAt, language, paragraphLangs }
       }, {} as chrome.runtime.MessageSender, () => {});
 
       // Visual feedback is now handled by the new TTS feedback system
@@ -1260,29 +1899,93 @@ class ContentScriptController {
       // Fallback to speaking without voice specification
       this.textSelectionHandler.handleMessage({
         type: MessageType.START_SPEECH,
-        payload: { text }
+        payload: { text, startAt }
       }, {} as chrome.runtime.MessageSender, () => {});
     }
   }
 
   public async speakFullPage() {
-    // If TTS is already playing or paused, stop it first to restart from beginning
+    // Read only the main content, skipping navigation, banners and footers
+    const blocks = this.extractBlocks();
+    if (blocks.length === 0) {
+      devLog('[speakFullPage] No readable content found');
+      if (this.isPdfDocument()) {
+        this.textSelectionHandler.showUserFeedback('Turn on "Open PDFs in the reader" in the options to read PDFs', 'warning');
+      }
+      return;
+    }
+
+    await this.speakBlocks(blocks);
+  }
+
+  public getReadableBlocks(): ReadableBlock[] {
+    return this.extractBlocks();
+  }
+
+  // What "Export as audio" renders: the selection (or text field) when asked for or when there is one, else the page
+  public getExportContent(scope?: unknown): { title: string; url: string; scope: ExportScope; blocks: ExportBlock[] } {
+    const documentLang = document.documentElement.lang || undefined;
+    const selected = scope === 'page' ? '' : this.textSelectionHandler.getTextToRead();
+    const base = { title: document.title, url: window.location.href };
+
+    if (selected || scope === 'selection') {
+      const blocks = selected.split(/\n\s*\n/)
+        .map(text => text.trim())
+        .filter(text => text.length > 0)
+        .map(text => ({ text, isHeading: false, lang: documentLang }));
+      return { ...base, scope: 'selection', blocks };
+    }
+
+    const blocks = this.extractBlocks().map(block => ({
+      text: block.text,
+      isHeading: block.isHeading,
+      lang: block.lang || documentLang
+    }));
+    return { ...base, scope: 'page', blocks };
+  }
+
+  // Reads from the block containing `element` to the end of the extracted content
+  public async speakFromElement(element: HTMLElement): Promise<boolean> {
+    const blocks = this.extractBlocks();
+    const startIndex = blocks.findIndex(block => block.element === element || block.element.contains(element));
+    if (startIndex === -1) {
+      devLog('[speakFromElement] Element is not part of the readable content');
+      return false;
+    }
+
+    await this.speakBlocks(blocks, startIndex);
+    return true;
+  }
+
+  // Reads `blocks` from `startIndex` on; `blocks` is the page's full extraction so progress can be tracked
+  private async speakBlocks(blocks: ReadableBlock[], startIndex = 0, sentenceIndex = 0) {
+    // If TTS is already playing or paused, stop it first so the new reading starts cleanly
     if (this.textSelectionHandler.isTTSPlaying() || this.textSelectionHandler.isTTSPaused()) {
-      devLog('[speakFullPage] TTS already active, stopping to restart from beginning');
+      devLog('[speakBlocks] TTS already active, stopping before restarting');
       await this.textSelectionHandler.handleStopTTSShortcut();
       
       // Small delay to ensure stop is processed before starting new speech
       await new Promise(resolve => setTimeout(resolve, 100));
     }
 
-    // Get main content (simplified version)
-    const content = document.body.innerText
-      .split('\n')
-      .filter((line) => line.trim().length > 0)
-      .join('. ');
-
-    devLog('[speakFullPage] Starting to read page content, length:', content.length);
-    await this.speakText(content);
+    const reading = blocks.slice(startIndex);
+    const content = blocksToText(reading);
+
+    devLog('[speakBlocks] Starting to read page content, blocks:', reading.length, 'length:', content.length);
+    this.pendingHighlight = { root: document.body, startNode: reading[0].element, startOffset: 0 };
+    const pageCount = document.querySelectorAll(`[${PAGE_NUMBER_ATTRIBUTE}]`).length;
+    this.pendingReading = {
+      fingerprint: this.getPageFingerprint(blocks),
+      startBlockIndex: startIndex,
+      blockCount: blocks.length,
+      blockPages: pageCount > 0 ? blocks.map(block => getPageNumber(block.element)) : [],
+      pageCount
+    };
+    await this.speakText(
+      content,
+      sentenceIndex > 0 ? { paragraphIndex: 0, sentenceIndex } : undefined,
+      reading.map(block => block.lang || null)
+    );
   }
 
   private highlightText(searchText: string) {
@@ -1322,6 +2025,10 @@ class ContentScriptController {
 
 
   private applySettings(settings: Record<string, unknown>) {
+    if (typeof settings.highlightText === 'boolean') {
+      this.speechHighlighter.setEnabled(settings.highlightText);
+    }
+
     if (settings.fontSize && typeof settings.fontSize === 'number') {
       document.documentElement.style.setProperty('--tts-font-size', `${settings.fontSize}px`);
     }
@@ -1332,10 +2039,14 @@ class ContentScriptController {
   }
 }
 
-// Initialize only once
+// Initialize only once; the top frame's script also covers the frames it can reach
 if (!window.__ttsContentScriptInitialized) {
   window.__ttsContentScriptInitialized = true;
-  new ContentScriptController();
+  if (window === window.top) {
+    new ContentScriptController();
+  } else if (!isReachableFromTop()) {
+    new FrameSelectionReporter();
+  }
 }
 
 // TypeScript declaration for the custom property
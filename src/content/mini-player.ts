@@ -0,0 +1,303 @@
+/**
+ * MiniPlayer - floating transport controls shown on the page while it is being read
+ * The popup closes as soon as the page is clicked, so this keeps play/pause, sentence skipping, speed, progress
+ * and the current sentence at hand. It lives in a shadow root so page styles can't reach it, can be dragged
+ * anywhere in the window, and only mirrors the TTS_STATE_CHANGED broadcasts; every button goes through the
+ * background like the popup's, wherever the speech is hosted.
+ */
+
+import { SeekDirection } from '@common/speech-synthesizer';
+
+export interface MiniPlayerActions {
+  togglePause(): void;
+  seek(direction: SeekDirection): void;
+  setRate(rate: number): void;
+  stop(): void;
+}
+
+interface MiniPlayerElements {
+  host: HTMLElement;
+  playPause: HTMLButtonElement;
+  speed: HTMLButtonElement;
+  progress: HTMLElement;
+  progressFill: HTMLElement;
+  text: HTMLElement;
+}
+
+// Speeds the speed button steps through
+export const MINI_PLAYER_RATES = [0.75, 1, 1.25, 1.5, 1.75, 2];
+
+const EDGE_MARGIN = 8;
+
+const STYLES = `
+  :host {
+    all: initial;
+  }
+  .player {
+    box-sizing: border-box;
+    width: 320px;
+    padding: 8px 10px 10px;
+    background: #1f2937;
+    color: white;
+    border-radius: 8px;
+    box-shadow: 0 4px 16px rgba(0,0,0,0.3);
+    font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+    font-size: 13px;
+    line-height: 1.4;
+  }
+  .handle {
+    display: flex;
+    align-items: center;
+    justify-content: space-between;
+    cursor: grab;
+    user-select: none;
+    touch-action: none;
+    color: #9ca3af;
+    font-size: 11px;
+  }
+  .handle.dragging {
+    cursor: grabbing;
+  }
+  .text {
+    margin: 6px 0 8px;
+    max-height: 3.6em;
+    overflow: hidden;
+    color: #e5e7eb;
+  }
+  .progress {
+    height: 4px;
+    margin-bottom: 8px;
+    background: #374151;
+    border-radius: 2px;
+    overflow: hidden;
+  }
+  .progress-fill {
+    height: 100%;
+    width: 0;
+    background: #3b82f6;
+    transition: width 0.3s ease;
+  }
+  .controls {
+    display: flex;
+    align-items: center;
+    gap: 6px;
+  }
+  button {
+    background: #374151;
+    color: white;
+    border: none;
+    border-radius: 4px;
+    padding: 5px 9px;
+    font: inherit;
+    cursor: pointer;
+  }
+  button:hover {
+    background: #4b5563;
+  }
+  button:focus-visible {
+    outline: 2px solid #3b82f6;
+    outline-offset: 1px;
+  }
+  .play-pause {
+    background: #3b82f6;
+  }
+  .speed {
+    margin-left: auto;
+    min-width: 52px;
+  }
+  .close {
+    background: transparent;
+    color: #9ca3af;
+    padding: 0 4px;
+  }
+`;
+
+export function getNextRate(rate: number): number {
+  return MINI_PLAYER_RATES.find(candidate => candidate > rate + 0.001) ?? MINI_PLAYER_RATES[0];
+}
+
+function formatRate(rate: number): string {
+  return `${Number(rate.toFixed(2))}x`;
+}
+
+export class MiniPlayer {
+  private elements: MiniPlayerElements | null = null;
+  private enabled = true;
+  // Closed by the user; stays closed until the next reading
+  private dismissed = false;
+  private rate = 1;
+  private position: { left: number; top: number } | null = null;
+
+  constructor(private readonly actions: MiniPlayerActions) {}
+
+  setEnabled(enabled: boolean): void {
+    this.enabled = enabled;
+    if (!enabled) {
+      this.hide();
+    }
+  }
+
+  // Mirrors a TTS_STATE_CHANGED broadcast
+  update(state: string, playbackState: Record<string, unknown> = {}): void {
+    if (state === 'stopped' || state === 'completed') {
+      this.hide();
+      this.dismissed = false;
+      return;
+    }
+    if (state !== 'started' && state !== 'paused' && state !== 'resumed') return;
+    if (!this.enabled || this.dismissed) return;
+
+    const elements = this.elements || this.create();
+    const isPaused = state === 'paused' || playbackState.isPaused === true;
+    elements.playPause.textContent = isPaused ? '▶' : '⏸';
+    elements.playPause.setAttribute('aria-label', isPaused ? 'Resume' : 'Pause');
+
+    if (typeof playbackState.currentText === 'string' && playbackState.currentText) {
+      elements.text.textContent = playbackState.currentText;
+    }
+
+    const index = Number(playbackState.sentenceIndex);
+    const count = Number(playbackState.sentenceCount);
+    if (count > 0 && index >= 0) {
+      const percent = Math.round((Math.min(index + 1, count) / count) * 100);
+      elements.progressFill.style.width = `${percent}%`;
+      elements.progress.setAttribute('aria-valuenow', String(percent));
+      elements.progress.setAttribute('aria-valuetext', `Sentence ${Math.min(index + 1, count)} of ${count}`);
+    }
+
+    const rate = Number(playbackState.rate);
+    if (rate > 0) {
+      this.rate = rate;
+      elements.speed.textContent = formatRate(rate);
+    }
+  }
+
+  hide(): void {
+    this.elements?.host.remove();
+    this.elements = null;
+  }
+
+  isVisible(): boolean {
+    return this.elements !== null;
+  }
+
+  private create(): MiniPlayerElements {
+    const host = document.createElement('div');
+    host.className = 'tts-mini-player';
+    host.style.cssText = 'position: fixed; right: 20px; bottom: 20px; z-index: 2147483647;';
+    const root = host.attachShadow({ mode: 'open' });
+
+    const style = document.createElement('style');
+    style.textContent = STYLES;
+
+    const player = document.createElement('div');
+    player.className = 'player';
+    player.setAttribute('role', 'region');
+    player.setAttribute('aria-label', 'Text to speech player');
+
+    const handle = document.createElement('div');
+    handle.className = 'handle';
+    handle.title = 'Drag to move';
+    const title = document.createElement('span');
+    title.textContent = '⠿ Reading aloud';
+    const close = this.createButton('✕', 'Hide player', () => {
+      this.dismissed = true;
+      this.hide();
+    });
+    close.classList.add('close');
+    handle.append(title, close);
+    handle.addEventListener('pointerdown', (event) => this.startDrag(event, host, handle));
+
+    const text = document.createElement('div');
+    text.className = 'text';
+    text.setAttribute('aria-live', 'off');
+
+    const progress = document.createElement('div');
+    progress.className = 'progress';
+    progress.setAttribute('role', 'progressbar');
+    progress.setAttribute('aria-label', 'Reading progress');
+    progress.setAttribute('aria-valuemin', '0');
+    progress.setAttribute('aria-valuemax', '100');
+    const progressFill = document.createElement('div');
+    progressFill.className = 'progress-fill';
+    progress.appendChild(progressFill);
+
+    const controls = document.createElement('div');
+    controls.className = 'controls';
+    const playPause = this.createButton('⏸', 'Pause', () => this.actions.togglePause());
+    playPause.classList.add('play-pause');
+    const speed = this.createButton(formatRate(this.rate), 'Change speed', () => {
+      this.rate = getNextRate(this.rate);
+      speed.textContent = formatRate(this.rate);
+      this.actions.setRate(this.rate);
+    });
+    speed.classList.add('speed');
+    controls.append(
+      this.createButton('⏮', 'Previous sentence', () => this.actions.seek('previous')),
+      playPause,
+      this.createButton('⏭', 'Next sentence', () => this.actions.seek('next')),
+      this.createButton('⏹', 'Stop', () => this.actions.stop()),
+      speed
+    );
+
+    player.append(handle, text, progress, controls);
+    root.append(style, player);
+    document.documentElement.appendChild(host);
+    if (this.position) {
+      this.moveTo(host, this.position.left, this.position.top);
+    }
+
+    this.elements = { host, playPause, speed, progress, progressFill, text };
+    return this.elements;
+  }
+
+  private createButton(label: string, ariaLabel: string, onClick: () => void): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.textContent = label;
+    button.title = ariaLabel;
+    button.setAttribute('aria-label', ariaLabel);
+    button.addEventListener('click', (event) => {
+      event.stopPropagation();
+      onClick();
+    });
+    return button;
+  }
+
+  private startDrag(event: PointerEvent, host: HTMLElement, handle: HTMLElement): void {
+    if (event.button !== 0 || (event.target as Element).closest('button')) return;
+    event.preventDefault();
+
+    const bounds = host.getBoundingClientRect();
+    const offsetX = event.clientX - bounds.left;
+    const offsetY = event.clientY - bounds.top;
+    handle.classList.add('dragging');
+
+    const move = (moveEvent: PointerEvent) => this.moveTo(host, moveEvent.clientX - offsetX, moveEvent.clientY - offsetY);
+    const end = () => {
+      handle.classList.remove('dragging');
+      window.removeEventListener('pointermove', move);
+      window.removeEventListener('pointerup', end);
+      window.removeEventListener('pointercancel', end);
+    };
+    window.addEventListener('pointermove', move);
+    window.addEventListener('pointerup', end);
+    window.addEventListener('pointercancel', end);
+  }
+
+  // Keeps the player inside the window; the position is reused when it shows up again on this page
+  private moveTo(host: HTMLElement, left: number, top: number): void {
+    const bounds = host.getBoundingClientRect();
+    const maxLeft = Math.max(EDGE_MARGIN, window.innerWidth - bounds.width - EDGE_MARGIN);
+    const maxTop = Math.max(EDGE_MARGIN, window.innerHeight - bounds.height - EDGE_MARGIN);
+    this.position = {
+      left: Math.min(Math.max(left, EDGE_MARGIN), maxLeft),
+      top: Math.min(Math.max(top, EDGE_MARGIN), maxTop)
+    };
+
+    host.style.left = `${this.position.left}px`;
+    host.style.top = `${this.position.top}px`;
+    host.style.right = 'auto';
+    host.style.bottom = 'auto';
+  }
+}
@@ -0,0 +1,102 @@
+/**
+ * ReadFromHereButton - floating play affordance for "read from here" mode
+ * Shown next to the hovered block while the modifier key is held; the element is created
+ * lazily so nothing is added to the page until the user actually uses the feature.
+ */
+
+export class ReadFromHereButton {
+  private button: HTMLButtonElement | null = null;
+  private target: HTMLElement | null = null;
+  private onActivate: (target: HTMLElement) => void;
+
+  constructor(onActivate: (target: HTMLElement) => void) {
+    this.onActivate = onActivate;
+  }
+
+  show(target: HTMLElement): void {
+    if (this.target === target && this.isVisible()) return;
+
+    this.clearTarget();
+    const button = this.getButton();
+    const rect = target.getBoundingClientRect();
+
+    button.style.top = `${rect.top + window.scrollY}px`;
+    button.style.left = `${Math.max(rect.left + window.scrollX - 32, window.scrollX + 4)}px`;
+    button.style.display = 'flex';
+
+    target.classList.add('tts-read-target');
+    this.target = target;
+  }
+
+  hide(): void {
+    if (this.button) {
+      this.button.style.display = 'none';
+    }
+    this.clearTarget();
+  }
+
+  isVisible(): boolean {
+    return this.button !== null && this.button.style.display !== 'none';
+  }
+
+  // True for events that happen on the affordance itself
+  contains(node: Node | null): boolean {
+    return this.button !== null && node !== null && this.button.contains(node);
+  }
+
+  destroy(): void {
+    this.hide();
+    this.button?.remove();
+    this.button = null;
+  }
+
+  private clearTarget(): void {
+    this.target?.classList.remove('tts-read-target');
+    this.target = null;
+  }
+
+  private getButton(): HTMLButtonElement {
+    if (this.button) return this.button;
+
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.className = 'tts-read-from-here';
+    button.textContent = '▶';
+    button.title = 'Read from here';
+    button.setAttribute('aria-label', 'Read from here');
+    button.style.cssText = `
+      position: absolute;
+      display: none;
+      align-items: center;
+      justify-content: center;
+      width: 24px;
+      height: 24px;
+      padding: 0;
+      border: none;
+      border-radius: 50%;
+      background: #3b82f6;
+      color: white;
+      font-size: 12px;
+      line-height: 1;
+      cursor: pointer;
+      box-shadow: 0 2px 8px rgba(0,0,0,0.3);
+      z-index: 2147483647;
+    `;
+
+    // Keep the page selection intact when pressing the button
+    button.addEventListener('mousedown', (event) => event.preventDefault());
+    button.addEventListener('click', (event) => {
+      event.preventDefault();
+      event.stopPropagation();
+      const target = this.target;
+      this.hide();
+      if (target) {
+        this.onActivate(target);
+      }
+    });
+
+    document.body.appendChild(button);
+    this.button = button;
+    return button;
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * ResumeToast - "Continue where you left off" prompt shown when a partly read page is revisited
+ * Created on demand and removed again once it is used, dismissed or times out.
+ */
+
+export class ResumeToast {
+  private element: HTMLElement | null = null;
+  private hideTimer: ReturnType<typeof setTimeout> | null = null;
+
+  show(message: string, onContinue: () => void, durationMs = 12000): void {
+    this.hide();
+
+    const toast = document.createElement('div');
+    toast.className = 'tts-notification tts-resume-toast';
+    toast.setAttribute('role', 'status');
+    toast.style.cssText = `
+      position: fixed;
+      bottom: 20px;
+      right: 20px;
+      display: flex;
+      align-items: center;
+      gap: 12px;
+      background: #1f2937;
+      color: white;
+      padding: 12px 16px;
+      border-radius: 6px;
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+      font-size: 14px;
+      box-shadow: 0 4px 16px rgba(0,0,0,0.3);
+      z-index: 2147483647;
+      max-width: 360px;
+      box-sizing: border-box;
+    `;
+
+    const text = document.createElement('span');
+    text.textContent = message;
+
+    const continueButton = this.createButton('Continue', '#3b82f6');
+    continueButton.addEventListener('click', () => {
+      this.hide();
+      onContinue();
+    });
+
+    const dismissButton = this.createButton('✕', 'transparent');
+    dismissButton.setAttribute('aria-label', 'Dismiss');
+    dismissButton.addEventListener('click', () => this.hide());
+
+    toast.append(text, continueButton, dismissButton);
+    document.body.appendChild(toast);
+    this.element = toast;
+    this.hideTimer = setTimeout(() => this.hide(), durationMs);
+  }
+
+  hide(): void {
+    if (this.hideTimer) {
+      clearTimeout(this.hideTimer);
+      this.hideTimer = null;
+    }
+    this.element?.remove();
+    this.element = null;
+  }
+
+  isVisible(): boolean {
+    return this.element !== null;
+  }
+
+  private createButton(label: string, background: string): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.textContent = label;
+    button.style.cssText = `
+      background: ${background};
+      color: white;
+      border: none;
+      border-radius: 4px;
+      padding: 6px 10px;
+      font-size: 13px;
+      cursor: pointer;
+      white-space: nowrap;
+    `;
+    return button;
+  }
+}
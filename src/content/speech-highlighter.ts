@@ -0,0 +1,423 @@
+/**
+ * SpeechHighlighter - live word highlighting in the page DOM
+ * Maps the words reported by SpeechSynthesizer boundary events back to text nodes
+ * by searching forward from the last spoken position, so the reader never loses their place.
+ * Text in open shadow roots and same-origin frames is part of the map; the highlight styles are
+ * added to those roots when a word in them is first highlighted, since page styles don't reach them.
+ * Text fields and contenteditable editors are never changed while they are read: the spoken word is
+ * selected instead, so the caret follows the reading and is left where it stopped.
+ */
+
+import { SpeechBoundaryEvent } from '@common/speech-synthesizer';
+import { isShadowRoot, walkComposedTree } from './composed-tree';
+import { TextControl, isTextControl, getEditingHost, selectInControl } from './editable-field';
+
+interface TextSegment {
+  node: Text;
+  start: number;
+}
+
+export interface HighlightStart {
+  root: Node;
+  startNode?: Node;
+  startOffset?: number;
+}
+
+interface WrappedWord {
+  original: Text;
+  replacements: Node[];
+}
+
+// How far ahead of the last match we look for the next spoken word
+const MAX_LOOKAHEAD = 500;
+// Max distance between consecutive words of a phrase (whitespace, punctuation, markup text)
+const PHRASE_GAP = 20;
+// Words used to find where a chunk starts after skipping ahead
+const PHRASE_WORDS = 4;
+const WORD_HIGHLIGHT = 'tts-word';
+const BLOCK_SELECTOR = 'p, li, h1, h2, h3, h4, h5, h6, blockquote, pre, td, th, dd, dt, figcaption, div';
+const WORD_CHAR = /[\p{L}\p{N}]/u;
+
+export const HIGHLIGHT_STYLES = `
+  .tts-speaking {
+    outline: 2px solid #2196f3 !important;
+    outline-offset: 2px;
+  }
+
+  ::highlight(tts-word),
+  .tts-word-highlight {
+    background-color: #ffeb3b;
+    color: black;
+  }
+`;
+
+function trimToWord(text: string): string {
+  return text.replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, '');
+}
+
+/**
+ * Flattened view of the text nodes under a root, used to translate
+ * offsets in the concatenated text back to DOM positions.
+ */
+export class TextMap {
+  private segments: TextSegment[] = [];
+  private text = '';
+  // Text controls have no text nodes; offsets are positions in their value
+  private control: TextControl | null = null;
+
+  constructor(root: Node) {
+    if (isTextControl(root)) {
+      this.control = root;
+      this.text = root.value.toLowerCase();
+    } else {
+      this.build(root);
+    }
+  }
+
+  private build(root: Node): void {
+    const parts: string[] = [];
+    let offset = 0;
+    walkComposedTree(root, NodeFilter.SHOW_ELEMENT | NodeFilter.SHOW_TEXT, (node) => {
+      if (node.nodeType !== Node.TEXT_NODE) {
+        return !(node as Element).matches('script, style, noscript, .tts-notification, .tts-read-from-here');
+      }
+      const data = (node as Text).data;
+      this.segments.push({ node: node as Text, start: offset });
+      parts.push(data);
+      offset += data.length;
+    });
+    this.text = parts.join('').toLowerCase();
+  }
+
+  get length(): number {
+    return this.text.length;
+  }
+
+  // Offset in the concatenated text for a DOM position (e.g. the start of a selection)
+  offsetOf(node: Node, offset: number): number {
+    if (node === this.control) {
+      return offset;
+    }
+
+    const segment = this.segments.find(s => s.node === node);
+    if (segment) {
+      return segment.start + offset;
+    }
+
+    // Element positions: use the first text node that follows the position
+    const target = node.childNodes[offset] || node;
+    const following = this.segments.find(s =>
+      target === s.node ||
+      target.contains(s.node) ||
+      Boolean(target.compareDocumentPosition(s.node) & Node.DOCUMENT_POSITION_FOLLOWING)
+    );
+    return following ? following.start : 0;
+  }
+
+  // Finds a whole-word occurrence of `word` between `from` and `from + maxDistance`
+  findWord(word: string, from: number, maxDistance = MAX_LOOKAHEAD): number {
+    const needle = word.toLowerCase();
+    const limit = from + maxDistance;
+    let index = this.text.indexOf(needle, from);
+
+    while (index !== -1 && index <= limit) {
+      const before = this.text.charAt(index - 1);
+      const after = this.text.charAt(index + needle.length);
+      if (!WORD_CHAR.test(before) && !WORD_CHAR.test(after)) {
+        return index;
+      }
+      index = this.text.indexOf(needle, index + 1);
+    }
+    return -1;
+  }
+
+  // Finds `words` in order, each following the previous one closely; returns the first word's offset
+  findPhrase(words: string[], from: number): number {
+    if (words.length === 0) return -1;
+
+    let index = this.findWord(words[0], from, Infinity);
+    while (index !== -1) {
+      let end = index + words[0].length;
+      const matched = words.slice(1).every(word => {
+        const next = this.findWord(word, end, PHRASE_GAP);
+        end = next + word.length;
+        return next !== -1;
+      });
+      if (matched) {
+        return index;
+      }
+      index = this.findWord(words[0], index + 1, Infinity);
+    }
+    return -1;
+  }
+
+  // Resolves a concatenated-text offset to the text node that contains it
+  locate(offset: number): { node: Text; offset: number } | null {
+    let low = 0;
+    let high = this.segments.length - 1;
+
+    while (low <= high) {
+      const mid = (low + high) >> 1;
+      const segment = this.segments[mid];
+      if (offset < segment.start) {
+        high = mid - 1;
+      } else if (offset >= segment.start + segment.node.data.length) {
+        low = mid + 1;
+      } else {
+        return { node: segment.node, offset: offset - segment.start };
+      }
+    }
+    return null;
+  }
+}
+
+export class SpeechHighlighter {
+  private textMap: TextMap | null = null;
+  private cursor = 0;
+  // Cursor at the start of each chunk, so seeking back can return to where a chunk began
+  private chunkStarts = new Map<number, number>();
+  private lastChunkIndex = -1;
+  private wrappedWord: WrappedWord | null = null;
+  private sentenceElement: Element | null = null;
+  // Registry holding the current word; frames have their own
+  private wordRegistry: HighlightRegistry | null = null;
+  private styledRoots = new WeakSet<Node>();
+  // Text field or editor being read, and where its last spoken word starts
+  private editable: HTMLElement | null = null;
+  private lastWordStart = -1;
+  private enabled = true;
+
+  setEnabled(enabled: boolean): void {
+    this.enabled = enabled;
+    if (!enabled) {
+      this.stop();
+    }
+  }
+
+  isActive(): boolean {
+    return this.textMap !== null;
+  }
+
+  start(target: HighlightStart): void {
+    this.stop();
+    if (!this.enabled) return;
+
+    this.textMap = new TextMap(target.root);
+    this.editable = isTextControl(target.root) ? target.root : getEditingHost(target.root);
+    this.cursor = target.startNode ? this.textMap.offsetOf(target.startNode, target.startOffset || 0) : 0;
+  }
+
+  stop(): void {
+    this.leaveCaret();
+    this.clearWord();
+    this.clearSentence();
+    this.textMap = null;
+    this.cursor = 0;
+    this.chunkStarts.clear();
+    this.lastChunkIndex = -1;
+    this.editable = null;
+    this.lastWordStart = -1;
+  }
+
+  handleBoundary(event: SpeechBoundaryEvent): void {
+    if (!this.textMap) return;
+
+    if (event.name === 'sentence') {
+      this.syncToChunk(event);
+      return;
+    }
+
+    const word = trimToWord(event.chunkText.substr(event.charIndex, event.charLength));
+    if (!word) return;
+
+    const index = this.textMap.findWord(word, this.cursor);
+    if (index === -1) {
+      // Word was rewritten during preprocessing (e.g. "Dr." -> "Doctor"); keep our place
+      return;
+    }
+
+    this.cursor = index + word.length;
+    this.highlightRange(index, index + word.length);
+  }
+
+  // Chunks normally follow each other; after a seek the cursor is moved to the new chunk
+  private syncToChunk(event: SpeechBoundaryEvent): void {
+    if (!this.textMap) return;
+
+    const knownStart = this.chunkStarts.get(event.chunkIndex);
+    if (knownStart !== undefined) {
+      this.cursor = knownStart;
+    } else if (event.chunkIndex > this.lastChunkIndex + 1) {
+      // Skipped ahead, possibly further than the lookahead window reaches
+      const words = event.chunkText.split(/\s+/).map(trimToWord).filter(Boolean).slice(0, PHRASE_WORDS);
+      const index = this.textMap.findPhrase(words, this.cursor);
+      if (index !== -1) {
+        this.cursor = index;
+      }
+    }
+
+    this.chunkStarts.set(event.chunkIndex, this.cursor);
+    this.lastChunkIndex = event.chunkIndex;
+  }
+
+  private highlightRange(start: number, end: number): void {
+    if (!this.textMap) return;
+
+    if (this.editable) {
+      this.selectInField(start, end);
+      return;
+    }
+
+    const position = this.textMap.locate(start);
+    if (!position) return;
+
+    const { node } = position;
+    // Words split across elements (e.g. <b>wo</b>rd) are highlighted up to the node boundary
+    const endOffset = Math.min(node.data.length, position.offset + (end - start));
+
+    this.clearWord();
+    this.addStyles(node);
+    this.markSentence(node);
+
+    const range = node.ownerDocument.createRange();
+    range.setStart(node, position.offset);
+    range.setEnd(node, endOffset);
+
+    const view = this.getHighlightWindow(node);
+    if (view) {
+      this.wordRegistry = view.CSS.highlights;
+      this.wordRegistry.set(WORD_HIGHLIGHT, new view.Highlight(range));
+      this.scrollIntoViewIfNeeded(range.getBoundingClientRect(), node.parentElement);
+    } else {
+      const mark = this.wrapWord(node, position.offset, endOffset);
+      if (mark) {
+        this.scrollIntoViewIfNeeded(mark.getBoundingClientRect(), mark);
+      }
+    }
+  }
+
+  private selectInField(start: number, end: number): void {
+    this.lastWordStart = start;
+    if (isTextControl(this.editable)) {
+      selectInControl(this.editable, start, end);
+      return;
+    }
+
+    const position = this.textMap?.locate(start);
+    if (!position) return;
+
+    const { node } = position;
+    const endOffset = Math.min(node.data.length, position.offset + (end - start));
+    node.ownerDocument.getSelection()?.setBaseAndExtent(node, position.offset, node, endOffset);
+    if (node.parentElement) {
+      this.scrollIntoViewIfNeeded(node.parentElement.getBoundingClientRect(), node.parentElement);
+    }
+  }
+
+  // Puts the caret at the start of the last spoken word, so editing can pick up where listening stopped
+  private leaveCaret(): void {
+    if (!this.editable || this.lastWordStart === -1) return;
+
+    if (isTextControl(this.editable)) {
+      selectInControl(this.editable, this.lastWordStart, this.lastWordStart);
+      return;
+    }
+    const position = this.textMap?.locate(this.lastWordStart);
+    if (position) {
+      position.node.ownerDocument.getSelection()?.collapse(position.node, position.offset);
+    }
+  }
+
+  private supportsHighlightApi(): boolean {
+    return typeof CSS !== 'undefined' && 'highlights' in CSS && typeof Highlight !== 'undefined';
+  }
+
+  // Window whose highlight registry styles `node`: the page's, or a same-origin frame's
+  private getHighlightWindow(node: Node): (Window & typeof globalThis) | null {
+    if (!this.supportsHighlightApi()) return null;
+    const view = (node.ownerDocument?.defaultView || window) as Window & typeof globalThis;
+    return view.CSS && 'highlights' in view.CSS && typeof view.Highlight !== 'undefined' ? view : null;
+  }
+
+  // Page styles don't apply inside shadow roots and frames, so they get their own copy
+  private addStyles(node: Node): void {
+    const root = node.getRootNode();
+    if (root === document || this.styledRoots.has(root)) return;
+    if (!isShadowRoot(root) && root.nodeType !== Node.DOCUMENT_NODE) return;
+
+    const doc = node.ownerDocument || document;
+    const style = doc.createElement('style');
+    style.textContent = HIGHLIGHT_STYLES;
+    if (isShadowRoot(root)) {
+      root.appendChild(style);
+    } else {
+      ((root as Document).head || (root as Document).documentElement).appendChild(style);
+    }
+    this.styledRoots.add(root);
+  }
+
+  // Replaces the text node with [before, <span>word</span>, after] and remembers the original
+  // so it can be put back untouched; this keeps the TextMap valid for the rest of the reading.
+  private wrapWord(node: Text, start: number, end: number): HTMLElement | null {
+    const parent = node.parentNode;
+    if (!parent) return null;
+
+    const doc = node.ownerDocument;
+    const mark = doc.createElement('span');
+    mark.className = 'tts-word-highlight';
+    mark.textContent = node.data.slice(start, end);
+
+    const replacements: Node[] = [
+      doc.createTextNode(node.data.slice(0, start)),
+      mark,
+      doc.createTextNode(node.data.slice(end)),
+    ];
+    replacements.forEach(replacement => parent.insertBefore(replacement, node));
+    parent.removeChild(node);
+
+    this.wrappedWord = { original: node, replacements };
+    return mark;
+  }
+
+  private clearWord(): void {
+    this.wordRegistry?.delete(WORD_HIGHLIGHT);
+    this.wordRegistry = null;
+
+    if (this.wrappedWord) {
+      const { original, replacements } = this.wrappedWord;
+      const parent = replacements[0].parentNode;
+      if (parent && replacements.every(node => node.parentNode === parent)) {
+        parent.insertBefore(original, replacements[0]);
+        replacements.forEach(node => parent.removeChild(node));
+      }
+      this.wrappedWord = null;
+    }
+  }
+
+  private markSentence(node: Text): void {
+    const block = node.parentElement?.closest(BLOCK_SELECTOR) || null;
+    if (block === this.sentenceElement) return;
+
+    this.clearSentence();
+    if (block && block !== node.ownerDocument.body) {
+      block.classList.add('tts-speaking');
+      this.sentenceElement = block;
+    }
+  }
+
+  private clearSentence(): void {
+    this.sentenceElement?.classList.remove('tts-speaking');
+    this.sentenceElement = null;
+  }
+
+  private scrollIntoViewIfNeeded(rect: DOMRect, element: Element | null): void {
+    if (!element || typeof element.scrollIntoView !== 'function') return;
+
+    const view = element.ownerDocument.defaultView || window;
+    const viewportHeight = view.innerHeight || element.ownerDocument.documentElement.clientHeight;
+    const margin = viewportHeight * 0.15;
+    if (rect.top < margin || rect.bottom > viewportHeight - margin) {
+      element.scrollIntoView({ block: 'center', behavior: 'smooth' });
+    }
+  }
+}
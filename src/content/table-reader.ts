@@ -0,0 +1,146 @@
+/**
+ * TableReader - turns data tables into speech, one row at a time
+ * Every cell is read with its column header ("Price: 12 dollars"), two-column key/value tables with their row
+ * header ("Released: 2024"), and a table can be introduced by its caption, size and columns first.
+ * Layout tables (no headers, role="presentation", tables inside tables) are left to ordinary block extraction.
+ */
+
+export interface TableSegment {
+  element: HTMLElement;
+  text: string;
+}
+
+export interface TableReadingOptions {
+  // Start with "Table: Prices, 3 rows, 2 columns: Product, Price."
+  summarize: boolean;
+  // Limits the rows and caption read, e.g. to those inside a selection
+  isIncluded?: (element: HTMLElement) => boolean;
+}
+
+interface GridCell {
+  element: HTMLTableCellElement;
+  text: string;
+  isHeader: boolean;
+}
+
+// Spans beyond this are authoring mistakes ("colspan=1000") rather than real columns
+const MAX_SPAN = 50;
+
+function cleanText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+export function isDataTable(table: HTMLTableElement): boolean {
+  const role = table.getAttribute('role');
+  if (role === 'presentation' || role === 'none') return false;
+  if (role === 'table' || role === 'grid') return true;
+  if (table.querySelector('table')) return false;
+  return Boolean(table.tHead || table.caption || table.querySelector('th'));
+}
+
+// Cells by row and column, with cells spanning several rows or columns repeated in each of them
+function buildGrid(table: HTMLTableElement): GridCell[][] {
+  const grid: GridCell[][] = [];
+  Array.from(table.rows).forEach((row, rowIndex) => {
+    const gridRow = (grid[rowIndex] ??= []);
+    let column = 0;
+    for (const element of Array.from(row.cells)) {
+      while (gridRow[column]) column++;
+
+      const cell: GridCell = { element, text: cleanText(element.textContent || ''), isHeader: element.tagName === 'TH' };
+      const rowSpan = Math.min(Math.max(element.rowSpan, 1), MAX_SPAN);
+      const colSpan = Math.min(Math.max(element.colSpan, 1), MAX_SPAN);
+      for (let r = 0; r < rowSpan; r++) {
+        const spannedRow = (grid[rowIndex + r] ??= []);
+        for (let c = 0; c < colSpan; c++) {
+          spannedRow[column + c] = cell;
+        }
+      }
+      column += colSpan;
+    }
+  });
+  return grid;
+}
+
+function isHeaderRow(row: HTMLTableRowElement, cells: GridCell[]): boolean {
+  return row.parentElement?.tagName === 'THEAD' || (cells.length > 0 && cells.every(cell => cell?.isHeader));
+}
+
+// Header text per column; stacked header rows are joined ("2024 Q1")
+function getColumnHeaders(grid: GridCell[][], headerRows: number[], width: number): string[] {
+  return Array.from({ length: width }, (_, column) => {
+    const parts: string[] = [];
+    headerRows.forEach((rowIndex) => {
+      const text = grid[rowIndex][column]?.text;
+      if (text && parts[parts.length - 1] !== text) {
+        parts.push(text);
+      }
+    });
+    return parts.join(' ');
+  });
+}
+
+function toSentences(parts: string[]): string {
+  return parts.map(part => part.replace(/[.;:,]+$/, '')).join('. ') + '.';
+}
+
+function readRow(cells: GridCell[], columnHeaders: string[]): string | null {
+  // The same cell spans several columns; read it once, under its first column
+  const unique = cells
+    .map((cell, column) => ({ cell, column }))
+    .filter(({ cell }, index) => cell && cells.indexOf(cell) === index);
+
+  const hasColumnHeaders = columnHeaders.some(Boolean);
+  const [first, ...rest] = unique;
+  if (!first) return null;
+
+  if (!hasColumnHeaders && first.cell.isHeader) {
+    const values = rest.map(({ cell }) => cell.text).filter(Boolean);
+    return values.length > 0 ? toSentences([`${first.cell.text}: ${values.join(', ')}`]) : toSentences([first.cell.text]);
+  }
+
+  const parts = unique
+    .filter(({ cell }) => cell.text)
+    .map(({ cell, column }) => {
+      const header = columnHeaders[column];
+      return header && header !== cell.text ? `${header}: ${cell.text}` : cell.text;
+    });
+  return parts.length > 0 ? toSentences(parts) : null;
+}
+
+function pluralize(count: number, word: string): string {
+  return `${count} ${word}${count === 1 ? '' : 's'}`;
+}
+
+export function readTable(table: HTMLTableElement, options: TableReadingOptions): TableSegment[] {
+  const grid = buildGrid(table);
+  const rows = Array.from(table.rows);
+  const width = Math.max(0, ...grid.map(row => row.length));
+
+  const headerRows = rows.flatMap((row, index) => (isHeaderRow(row, grid[index] || []) ? [index] : []));
+  const columnHeaders = getColumnHeaders(grid, headerRows, width);
+  const bodyRows = rows.flatMap((row, index) => (headerRows.includes(index) ? [] : [{ row, cells: grid[index] || [] }]));
+
+  const segments: TableSegment[] = [];
+  const caption = table.caption ? cleanText(table.caption.textContent || '') : '';
+  if (options.summarize) {
+    const headers = columnHeaders.filter(Boolean);
+    const title = caption ? `Table: ${caption.replace(/[.:]+$/, '')}` : 'Table';
+    const columns = headers.length > 0 ? `: ${headers.join(', ')}` : '';
+    segments.push({
+      element: table,
+      text: `${title}, ${pluralize(bodyRows.length, 'row')}, ${pluralize(width, 'column')}${columns}.`
+    });
+  } else if (caption && (!options.isIncluded || options.isIncluded(table.caption as HTMLElement))) {
+    segments.push({ element: table.caption as HTMLElement, text: toSentences([caption]) });
+  }
+
+  for (const { row, cells } of bodyRows) {
+    if (options.isIncluded && !options.isIncluded(row)) continue;
+    const text = readRow(cells, columnHeaders);
+    if (text) {
+      segments.push({ element: row, text });
+    }
+  }
+  return segments;
+}
@@ -0,0 +1,63 @@
+/**
+ * Offscreen document - hosts Web Speech and speech server playback for the background TTSManager
+ * The service worker has no speechSynthesis or audio elements, and speech in the page dies with it on
+ * navigation, so readings that should outlive the page are spoken here and reported back as OFFSCREEN_EVENT.
+ */
+
+import { MessageType, Message } from '@common/types/messages';
+import { SpeechHost, SpeechCommand, SpeechCommandResult, SpeechHostEvent } from '@common/speech-host';
+import { WebSpeechEngine } from '@common/web-speech-engine';
+import { RemoteTTSEngine, RemoteEngineConfig } from '@common/remote-tts-engine';
+
+class OffscreenSpeechController {
+  private host = new SpeechHost(new WebSpeechEngine(), (event, readingId) => this.report(event, readingId));
+  // Created by the first speech server reading, and again when its settings change
+  private remoteHost: SpeechHost | null = null;
+  private remoteConfig = '';
+
+  constructor() {
+    chrome.runtime.onMessage.addListener(
+      (message: Message, _sender, sendResponse: (response: SpeechCommandResult) => void) => {
+        // Every extension page sees runtime messages; only commands addressed here are answered
+        if (message.type !== MessageType.OFFSCREEN_SPEECH || !message.payload) {
+          return false;
+        }
+
+        this.getHost(message.payload)
+          .execute(message.payload as unknown as SpeechCommand)
+          .then(sendResponse)
+          .catch(error => sendResponse({ success: false, error: (error as Error).message }));
+        return true;
+      }
+    );
+  }
+
+  private getHost(payload: Record<string, unknown>): SpeechHost {
+    if (payload.engine !== 'remote') {
+      return this.host;
+    }
+
+    const config = payload.remote as RemoteEngineConfig | null | undefined;
+    if (config && JSON.stringify(config) !== this.remoteConfig) {
+      this.remoteHost?.execute({ command: 'stop' });
+      this.remoteConfig = JSON.stringify(config);
+      // Sentences the server can't speak are read with Web Speech
+      this.remoteHost = new SpeechHost(
+        new RemoteTTSEngine(config, new WebSpeechEngine()),
+        (event, readingId) => this.report(event, readingId)
+      );
+    }
+    return this.remoteHost || this.host;
+  }
+
+  private report(event: SpeechHostEvent, readingId: number): void {
+    chrome.runtime.sendMessage({
+      type: MessageType.OFFSCREEN_EVENT,
+      payload: { event, readingId }
+    }).catch(error => {
+      console.error('Failed to report offscreen speech event:', error);
+    });
+  }
+}
+
+new OffscreenSpeechController();
@@ -1,5 +1,16 @@
 import { MessageType, Message } from '@common/types/messages';
 import { devLog } from '@common/dev-utils';
+import { TTSEngineId, DEFAULT_ENGINE } from '@common/tts-engine';
+import { SiteProfileStore, SiteProfile, normalizeHostPattern } from '@common/site-profiles';
+import { getPrimaryLanguage } from '@common/language-detector';
+import { CodeReadingPolicy, DEFAULT_CODE_READING } from '@common/code-reading';
+import { ImageReadingPolicy, DEFAULT_IMAGE_READING } from '@common/image-reading';
+import { PDF_READER_ORIGINS } from '@common/pdf-reader';
+import { LexiconEditor } from './lexicon-editor';
+import { ShortcutEditor } from './shortcut-editor';
+import { RemoteEngineEditor } from './remote-engine-editor';
+import { VoiceBrowser } from './voice-browser';
+import { NormalizationEditor } from './normalization-editor';
 
 interface Settings {
   enabled: boolean;
@@ -10,11 +21,32 @@ interface Settings {
   volume: number;
   fontSize: number;
   highlightText: boolean;
+  showMiniPlayer: boolean;
+  ttsEngine: TTSEngineId;
+  backgroundPlayback: boolean;
+  autoLanguage: boolean;
+  normalizeText: boolean;
+  codeReading: CodeReadingPolicy;
+  summarizeTables: boolean;
+  imageReading: ImageReadingPolicy;
+  openPdfsInReader: boolean;
 }
 
+// Unchecked checkboxes are missing from FormData, so these are read from the form directly
+const CHECKBOX_SETTINGS: (keyof Settings)[] = ['enabled', 'highlightText', 'showMiniPlayer', 'backgroundPlayback', 'autoLanguage', 'normalizeText', 'summarizeTables', 'openPdfsInReader'];
+
 class OptionsController {
   private form: HTMLFormElement;
   private voices: SpeechSynthesisVoice[] = [];
+  private siteProfiles = new SiteProfileStore();
+  private lexiconEditor = new LexiconEditor(
+    (message, type) => this.showNotification(message, type),
+    () => this.getSelectedVoice()
+  );
+  private shortcutEditor = new ShortcutEditor((message, type) => this.showNotification(message, type));
+  private remoteEngineEditor = new RemoteEngineEditor((message, type) => this.showNotification(message, type));
+  private voiceBrowser = new VoiceBrowser((message, type) => this.showNotification(message, type));
+  private normalizationEditor = new NormalizationEditor((message, type) => this.showNotification(message, type));
   private defaultSettings: Settings = {
     enabled: true,
     theme: 'light',
@@ -24,6 +56,15 @@ class OptionsController {
     volume: 1.0,
     fontSize: 16,
     highlightText: true,
+    showMiniPlayer: true,
+    ttsEngine: DEFAULT_ENGINE,
+    backgroundPlayback: false,
+    autoLanguage: true,
+    normalizeText: true,
+    codeReading: DEFAULT_CODE_READING,
+    summarizeTables: true,
+    imageReading: DEFAULT_IMAGE_READING,
+    openPdfsInReader: false,
   };
 
   constructor() {
@@ -34,6 +75,14 @@ class OptionsController {
   private async initialize() {
     await this.loadVoices();
     await this.loadSettings();
+    // After the settings, whose stored voice may be older than the one selected in the popup
+    await this.voiceBrowser.init();
+    await this.renderLanguageVoices();
+    await this.normalizationEditor.init();
+    await this.renderSiteProfiles();
+    await this.lexiconEditor.init();
+    await this.shortcutEditor.init();
+    await this.remoteEngineEditor.init();
     this.setupEventListeners();
     this.updateRangeDisplays();
   }
@@ -42,7 +91,6 @@ class OptionsController {
     return new Promise<void>((resolve) => {
       const loadVoiceList = () => {
         this.voices = speechSynthesis.getVoices();
-        this.populateVoiceSelect();
         resolve();
       };
 
@@ -54,26 +102,57 @@ class OptionsController {
     });
   }
 
-  private populateVoiceSelect() {
-    const voiceSelect = document.getElementById('voice') as HTMLSelectElement;
+  // One voice choice per language that has voices, for readings that switch language
+  private async renderLanguageVoices() {
+    const list = document.getElementById('languageVoiceList');
+    if (!list) return;
 
-    // Clear existing options except default
-    while (voiceSelect.options.length > 1) {
-      voiceSelect.remove(1);
-    }
+    const response = await chrome.runtime.sendMessage({ type: MessageType.GET_VOICE_DATA }).catch(() => null);
+    const chosen: Record<string, string> = response?.data?.languageVoices || {};
 
-    // Add available voices
+    const voicesByLanguage = new Map<string, SpeechSynthesisVoice[]>();
     this.voices.forEach((voice) => {
-      const option = document.createElement('option');
-      option.value = voice.name;
-      option.textContent = `${voice.name} (${voice.lang})`;
+      const lang = getPrimaryLanguage(voice.lang);
+      voicesByLanguage.set(lang, [...(voicesByLanguage.get(lang) || []), voice]);
+    });
 
-      if (voice.default) {
-        option.textContent += ' - Default';
-      }
+    const languageNames = new Intl.DisplayNames([navigator.language], { type: 'language' });
+    const rows = Array.from(voicesByLanguage, ([lang, voices]) => ({ lang, name: languageNames.of(lang) || lang, voices }))
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map(({ lang, name, voices }) => {
+        const row = document.createElement('label');
+        row.className = 'language-voice';
 
-      voiceSelect.appendChild(option);
-    });
+        const title = document.createElement('span');
+        title.textContent = name;
+
+        const select = document.createElement('select');
+        select.className = 'form-control';
+        select.add(new Option('Automatic', ''));
+        voices.forEach(voice => select.add(new Option(`${voice.name} (${voice.lang})`, voice.name)));
+        select.value = chosen[lang] || '';
+        select.addEventListener('change', () => this.saveLanguageVoice(lang, select.value || null));
+
+        row.append(title, select);
+        return row;
+      });
+
+    list.replaceChildren(...rows);
+  }
+
+  private async saveLanguageVoice(lang: string, voiceName: string | null) {
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: MessageType.SET_LANGUAGE_VOICE,
+        payload: { lang, voiceName }
+      });
+      if (!response?.data?.success) {
+        throw new Error(response?.error || 'Voice not available');
+      }
+    } catch (error) {
+      console.error('Failed to save the language voice:', error);
+      this.showNotification('Could not save the voice for this language', 'error');
+    }
   }
 
   private async loadSettings() {
@@ -107,12 +186,31 @@ class OptionsController {
       this.resetSettings();
     });
 
+    // The PDF reader fetches PDFs itself, which needs host access; asked for while the click still counts as a gesture
+    const pdfReader = document.getElementById('openPdfsInReader') as HTMLInputElement | null;
+    pdfReader?.addEventListener('change', () => {
+      if (pdfReader.checked) {
+        this.requestPdfReaderAccess(pdfReader);
+      }
+    });
+
     // Range input updates
     ['rate', 'pitch', 'volume', 'fontSize'].forEach((id) => {
       const input = document.getElementById(id) as HTMLInputElement;
       input?.addEventListener('input', () => this.updateRangeDisplay(id));
     });
 
+    // Site profiles
+    const patternInput = document.getElementById('newSitePattern') as HTMLInputElement;
+    document.getElementById('addSiteProfile')?.addEventListener('click', () => this.addSiteProfile(patternInput));
+    patternInput?.addEventListener('keydown', (e) => {
+      // Enter would submit the settings form
+      if (e.key === 'Enter') {
+        e.preventDefault();
+        this.addSiteProfile(patternInput);
+      }
+    });
+
     // Export/Import
     document.getElementById('exportSettings')?.addEventListener('click', (e) => {
       e.preventDefault();
@@ -125,6 +223,159 @@ class OptionsController {
     });
   }
 
+  private async requestPdfReaderAccess(checkbox: HTMLInputElement) {
+    const granted = await chrome.permissions.request({ origins: PDF_READER_ORIGINS }).catch((error) => {
+      devLog('Could not request site access:', error);
+      return false;
+    });
+    if (!granted) {
+      checkbox.checked = false;
+      this.showNotification('PDFs can only be opened in the reader with access to the sites they come from', 'error');
+    }
+  }
+
+  private getSelectedVoice(): SpeechSynthesisVoice | null {
+    const voiceName = (document.getElementById('voice') as HTMLInputElement | null)?.value;
+    return this.voices.find(voice => voice.name === voiceName) || null;
+  }
+
+  private async addSiteProfile(input: HTMLInputElement) {
+    const pattern = normalizeHostPattern(input.value);
+    if (!pattern) {
+      this.showNotification('Enter a site such as wiki.example.com', 'error');
+      return;
+    }
+
+    await this.siteProfiles.save(pattern, {});
+    input.value = '';
+    await this.renderSiteProfiles();
+  }
+
+  private async renderSiteProfiles() {
+    const list = document.getElementById('siteProfileList');
+    if (!list) return;
+
+    const profiles = await this.siteProfiles.getAll();
+    list.replaceChildren(...profiles.map(profile => this.createSiteProfileCard(profile)));
+  }
+
+  private createSiteProfileCard(profile: SiteProfile): HTMLElement {
+    const card = document.createElement('div');
+    card.className = 'site-profile-card';
+
+    const header = document.createElement('div');
+    header.className = 'site-profile-card-header';
+    const title = document.createElement('h3');
+    title.textContent = profile.pattern;
+    const removeButton = document.createElement('button');
+    removeButton.type = 'button';
+    removeButton.className = 'btn btn-secondary';
+    removeButton.textContent = 'Remove';
+    removeButton.addEventListener('click', async () => {
+      await this.siteProfiles.remove(profile.pattern);
+      await this.renderSiteProfiles();
+    });
+    header.append(title, removeButton);
+
+    const voiceSelect = document.createElement('select');
+    voiceSelect.className = 'form-control';
+    voiceSelect.add(new Option('Selected voice', ''));
+    this.voices.forEach(voice => voiceSelect.add(new Option(`${voice.name} (${voice.lang})`, voice.name)));
+    voiceSelect.value = profile.voice || '';
+
+    const fields = document.createElement('div');
+    fields.className = 'site-profile-fields';
+    fields.append(
+      this.createProfileField('Voice', voiceSelect, () => ({ voice: voiceSelect.value || undefined })),
+      this.createNumberField('Speed', profile.rate, 0.5, 2, (rate) => ({ rate })),
+      this.createNumberField('Pitch', profile.pitch, 0, 2, (pitch) => ({ pitch })),
+      this.createNumberField('Volume', profile.volume, 0, 1, (volume) => ({ volume })),
+      this.createTextField('Read only', profile.contentSelector, '.post-body', (contentSelector) => ({ contentSelector })),
+      this.createTextField('Never read', profile.excludeSelector, '.comments, .toc', (excludeSelector) => ({ excludeSelector })),
+      this.createCheckboxField('Page shortcuts off', profile.disableShortcuts, (disableShortcuts) => ({ disableShortcuts }))
+    );
+
+    card.append(header, fields);
+    card.dataset.pattern = profile.pattern;
+    return card;
+  }
+
+  private createProfileField(
+    label: string,
+    control: HTMLInputElement | HTMLSelectElement,
+    toChanges: () => Partial<SiteProfile>
+  ): HTMLElement {
+    const field = document.createElement('div');
+    const labelElement = document.createElement('label');
+    labelElement.textContent = label;
+    labelElement.append(control);
+
+    // Each field is saved as soon as it changes
+    control.addEventListener('change', () => {
+      const pattern = control.closest<HTMLElement>('.site-profile-card')?.dataset.pattern;
+      if (!pattern) return;
+      this.siteProfiles.save(pattern, toChanges()).then(() => {
+        this.showNotification(`Saved profile for ${pattern}`, 'success');
+      }).catch(error => {
+        console.error('Failed to save site profile:', error);
+        this.showNotification('Could not save the site profile', 'error');
+      });
+    });
+
+    field.append(labelElement);
+    return field;
+  }
+
+  // Empty number fields fall back to the global setting
+  private createNumberField(
+    label: string,
+    value: number | undefined,
+    min: number,
+    max: number,
+    toChanges: (value: number | undefined) => Partial<SiteProfile>
+  ): HTMLElement {
+    const input = document.createElement('input');
+    input.type = 'number';
+    input.className = 'form-control';
+    input.min = String(min);
+    input.max = String(max);
+    input.step = '0.1';
+    input.placeholder = 'Default';
+    input.value = value === undefined ? '' : String(value);
+
+    return this.createProfileField(label, input, () => {
+      const parsed = parseFloat(input.value);
+      return toChanges(isNaN(parsed) ? undefined : Math.min(max, Math.max(min, parsed)));
+    });
+  }
+
+  private createTextField(
+    label: string,
+    value: string | undefined,
+    placeholder: string,
+    toChanges: (value: string | undefined) => Partial<SiteProfile>
+  ): HTMLElement {
+    const input = document.createElement('input');
+    input.type = 'text';
+    input.className = 'form-control';
+    input.placeholder = placeholder;
+    input.value = value || '';
+
+    return this.createProfileField(label, input, () => toChanges(input.value.trim() || undefined));
+  }
+
+  private createCheckboxField(
+    label: string,
+    value: boolean | undefined,
+    toChanges: (value: boolean | undefined) => Partial<SiteProfile>
+  ): HTMLElement {
+    const input = document.createElement('input');
+    input.type = 'checkbox';
+    input.checked = value === true;
+
+    return this.createProfileField(label, input, () => toChanges(input.checked || undefined));
+  }
+
   private updateRangeDisplays() {
     ['rate', 'pitch', 'volume', 'fontSize'].forEach((id) => {
       this.updateRangeDisplay(id);
@@ -161,10 +412,8 @@ class OptionsController {
 
     // Process form data
     for (const [key, value] of formData.entries()) {
-      if (key in this.defaultSettings) {
-        if (key === 'enabled' || key === 'highlightText') {
-          settings[key] = (this.form.elements.namedItem(key) as HTMLInputElement)?.checked || false;
-        } else if (['rate', 'pitch', 'volume', 'fontSize'].includes(key)) {
+      if (key in this.defaultSettings && !CHECKBOX_SETTINGS.includes(key as keyof Settings)) {
+        if (['rate', 'pitch', 'volume', 'fontSize'].includes(key)) {
           settings[key] = parseFloat(value as string);
         } else {
           settings[key] = value as string;
@@ -172,6 +421,13 @@ class OptionsController {
       }
     }
 
+    CHECKBOX_SETTINGS.forEach((key) => {
+      const input = this.form.elements.namedItem(key) as HTMLInputElement | null;
+      if (input) {
+        settings[key] = input.checked;
+      }
+    });
+
     // Save to storage
     await chrome.storage.sync.set(settings);
 
@@ -192,6 +448,7 @@ class OptionsController {
       await chrome.storage.sync.clear();
       await chrome.storage.sync.set(this.defaultSettings);
       await this.loadSettings();
+      await this.normalizationEditor.load();
       this.updateRangeDisplays();
 
       this.showNotification('Settings reset to defaults', 'info');
@@ -226,6 +483,7 @@ class OptionsController {
         if (typeof settings === 'object') {
           await chrome.storage.sync.set(settings);
           await this.loadSettings();
+          await this.normalizationEditor.load();
           this.updateRangeDisplays();
 
           this.showNotification('Settings imported successfully!', 'success');
@@ -0,0 +1,207 @@
+/**
+ * LexiconEditor - the "Pronunciations" section of the options page
+ * Edits the pronunciation lexicon in place (every change is saved right away), imports and exports it
+ * as JSON, and lets the user hear how a sample sentence comes out with the current rules.
+ */
+
+import {
+  LexiconEntry,
+  LexiconStore,
+  PronunciationLexicon,
+  createLexiconEntry,
+  validateLexiconEntry,
+  exportLexicon,
+  importLexicon
+} from '@common/pronunciation-lexicon';
+import { normalizeHostPattern } from '@common/site-profiles';
+
+type Notify = (message: string, type: 'success' | 'error' | 'info') => void;
+
+export class LexiconEditor {
+  private store = new LexiconStore();
+  private entries: LexiconEntry[] = [];
+  private tableBody: HTMLTableSectionElement;
+  private emptyMessage: HTMLElement;
+
+  constructor(
+    private readonly notify: Notify,
+    // Voice used by "Test pronunciation", also deciding which language-scoped entries apply
+    private readonly getTestVoice: () => SpeechSynthesisVoice | null
+  ) {
+    this.tableBody = document.getElementById('lexiconEntries') as HTMLTableSectionElement;
+    this.emptyMessage = document.getElementById('lexiconEmpty') as HTMLElement;
+  }
+
+  async init(): Promise<void> {
+    if (!this.tableBody) return;
+
+    this.entries = await this.store.getAll();
+    this.render();
+
+    document.getElementById('addLexiconEntry')?.addEventListener('click', () => this.addEntry());
+    document.getElementById('importLexicon')?.addEventListener('click', () => this.importEntries());
+    document.getElementById('exportLexicon')?.addEventListener('click', () => this.exportEntries());
+    document.getElementById('testLexicon')?.addEventListener('click', () => this.testPronunciation());
+
+    // The section lives inside the settings form; Enter in a field shouldn't submit it
+    this.tableBody.closest('section')?.addEventListener('keydown', (e) => {
+      if (e.key === 'Enter' && e.target instanceof HTMLInputElement) {
+        e.preventDefault();
+        if (e.target.id === 'lexiconTestText') {
+          this.testPronunciation();
+        }
+      }
+    });
+  }
+
+  private render() {
+    this.tableBody.replaceChildren(...this.entries.map(entry => this.createRow(entry)));
+    this.emptyMessage.hidden = this.entries.length > 0;
+  }
+
+  private createRow(entry: LexiconEntry): HTMLTableRowElement {
+    const row = document.createElement('tr');
+
+    const match = this.createTextInput(entry.match, 'kubectl', 'Text or pattern to replace');
+    const replacement = this.createTextInput(entry.replacement, 'cube control', 'What the voice says instead');
+    const isRegex = this.createCheckbox(entry.isRegex, 'Regular expression');
+    const caseSensitive = this.createCheckbox(entry.caseSensitive, 'Match case');
+    const lang = this.createTextInput(entry.lang || '', 'any', 'Only for voices of this language, e.g. en or de-CH');
+    const site = this.createTextInput(entry.site || '', 'any site', 'Only on this site, e.g. *.example.com');
+
+    const removeButton = document.createElement('button');
+    removeButton.type = 'button';
+    removeButton.className = 'btn btn-secondary lexicon-remove';
+    removeButton.textContent = '✕';
+    removeButton.title = 'Remove pronunciation';
+    removeButton.addEventListener('click', () => {
+      this.entries = this.entries.filter(candidate => candidate.id !== entry.id);
+      this.render();
+      this.save();
+    });
+
+    const update = () => {
+      const updated: LexiconEntry = {
+        ...entry,
+        match: match.value,
+        replacement: replacement.value,
+        isRegex: isRegex.checked,
+        caseSensitive: caseSensitive.checked,
+        lang: lang.value.trim() || undefined,
+        site: normalizeHostPattern(site.value) || undefined
+      };
+
+      const error = validateLexiconEntry(updated);
+      match.setCustomValidity(error || '');
+      match.title = error || 'Text or pattern to replace';
+      if (error && updated.match) {
+        // Keep invalid patterns out of storage until they are fixed
+        return;
+      }
+
+      entry = updated;
+      this.entries = this.entries.map(candidate => (candidate.id === entry.id ? entry : candidate));
+      this.save();
+    };
+    [match, replacement, isRegex, caseSensitive, lang, site].forEach(input => input.addEventListener('change', update));
+
+    [match, replacement, isRegex, caseSensitive, lang, site, removeButton].forEach(control => {
+      const cell = document.createElement('td');
+      cell.append(control);
+      row.append(cell);
+    });
+    return row;
+  }
+
+  private createTextInput(value: string, placeholder: string, title: string): HTMLInputElement {
+    const input = document.createElement('input');
+    input.type = 'text';
+    input.className = 'form-control';
+    input.value = value;
+    input.placeholder = placeholder;
+    input.title = title;
+    return input;
+  }
+
+  private createCheckbox(checked: boolean, title: string): HTMLInputElement {
+    const input = document.createElement('input');
+    input.type = 'checkbox';
+    input.checked = checked;
+    input.title = title;
+    input.setAttribute('aria-label', title);
+    return input;
+  }
+
+  private addEntry() {
+    this.entries = [...this.entries, createLexiconEntry()];
+    this.render();
+    this.tableBody.querySelector<HTMLInputElement>('tr:last-child input')?.focus();
+  }
+
+  private async save() {
+    try {
+      // Rows that were added but not filled in yet are not stored
+      await this.store.saveAll(this.entries.filter(entry => entry.match));
+    } catch (error) {
+      console.error('Failed to save pronunciations:', error);
+      this.notify('Could not save pronunciations', 'error');
+    }
+  }
+
+  private exportEntries() {
+    const dataUri = 'data:application/json;charset=utf-8,' + encodeURIComponent(exportLexicon(this.entries.filter(entry => entry.match)));
+
+    const link = document.createElement('a');
+    link.setAttribute('href', dataUri);
+    link.setAttribute('download', 'tts-pronunciations.json');
+    link.click();
+  }
+
+  private importEntries() {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.json';
+
+    input.addEventListener('change', async (e) => {
+      const file = (e.target as HTMLInputElement).files?.[0];
+      if (!file) return;
+
+      try {
+        const imported = importLexicon(await file.text());
+        // Imported entries replace existing ones with the same text and scope
+        const key = (entry: LexiconEntry) => `${entry.match}\u0000${entry.lang || ''}\u0000${entry.site || ''}`;
+        const importedKeys = new Set(imported.map(key));
+        this.entries = [...this.entries.filter(entry => !importedKeys.has(key(entry))), ...imported];
+
+        this.render();
+        await this.save();
+        this.notify(`Imported ${imported.length} pronunciation${imported.length === 1 ? '' : 's'}`, 'success');
+      } catch (error) {
+        console.error('Failed to import pronunciations:', error);
+        this.notify('Failed to import pronunciations', 'error');
+      }
+    });
+
+    input.click();
+  }
+
+  // Speaks the sample with the current rules; site scopes are ignored so every rule can be tried here
+  private testPronunciation() {
+    const input = document.getElementById('lexiconTestText') as HTMLInputElement | null;
+    const result = document.getElementById('lexiconTestResult');
+    const text = input?.value.trim();
+    if (!text || !result) return;
+
+    const voice = this.getTestVoice();
+    const lexicon = new PronunciationLexicon(this.entries.map(entry => ({ ...entry, site: undefined })));
+    const spoken = lexicon.apply(text, { lang: voice?.lang || navigator.language });
+    result.textContent = spoken === text ? 'No pronunciation rule applies to this text' : `Spoken as: ${spoken}`;
+
+    speechSynthesis.cancel();
+    const utterance = new SpeechSynthesisUtterance(spoken);
+    if (voice) {
+      utterance.voice = voice;
+    }
+    speechSynthesis.speak(utterance);
+  }
+}
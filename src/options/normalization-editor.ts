@@ -0,0 +1,107 @@
+/**
+ * NormalizationEditor - which numbers, dates and symbols are read in words, per language
+ * One row of categories for each language the text normalizer has rules for; every change is saved right away.
+ * Unchecked categories are left as written for text in that language. The whole row list is greyed out while
+ * "Read numbers, dates and units in words" is off.
+ */
+
+import {
+  NormalizationCategory,
+  DisabledNormalizations,
+  NORMALIZATION_CATEGORIES,
+  DEFAULT_NORMALIZATION_RULES,
+  parseDisabledNormalizations
+} from '@common/text-normalizer';
+
+type Notify = (message: string, type: 'success' | 'error' | 'info') => void;
+
+const CATEGORY_LABELS: Record<NormalizationCategory, string> = {
+  phoneNumbers: 'Phone numbers',
+  dates: 'Dates',
+  versions: 'Versions',
+  times: 'Times',
+  currency: 'Prices',
+  percentages: 'Percentages',
+  ranges: 'Ranges',
+  units: 'Units',
+  romanNumerals: 'Roman numerals',
+  ordinals: 'Ordinals'
+};
+
+export class NormalizationEditor {
+  private disabled: DisabledNormalizations = {};
+  private list: HTMLElement;
+  private toggle: HTMLInputElement;
+
+  constructor(private readonly notify: Notify) {
+    this.list = document.getElementById('normalizationList') as HTMLElement;
+    this.toggle = document.getElementById('normalizeText') as HTMLInputElement;
+  }
+
+  async init(): Promise<void> {
+    if (!this.list) return;
+
+    await this.load();
+    this.toggle?.addEventListener('change', () => this.updateEnabled());
+  }
+
+  // Also after the settings are reset
+  async load(): Promise<void> {
+    if (!this.list) return;
+
+    const stored = await chrome.storage.sync.get({ disabledNormalizations: {} });
+    this.disabled = parseDisabledNormalizations(stored.disabledNormalizations);
+    this.render();
+    this.updateEnabled();
+  }
+
+  private render() {
+    const languageNames = new Intl.DisplayNames([navigator.language], { type: 'language' });
+    const rows = Object.keys(DEFAULT_NORMALIZATION_RULES).map((lang) => {
+      const row = document.createElement('fieldset');
+      row.className = 'normalization-language';
+
+      const legend = document.createElement('legend');
+      legend.textContent = languageNames.of(lang) || lang;
+      row.appendChild(legend);
+
+      NORMALIZATION_CATEGORIES.forEach((category) => {
+        const label = document.createElement('label');
+        label.className = 'normalization-category';
+        const checkbox = document.createElement('input');
+        checkbox.type = 'checkbox';
+        checkbox.checked = !this.disabled[lang]?.includes(category);
+        checkbox.addEventListener('change', () => this.setCategory(lang, category, checkbox.checked));
+        label.append(checkbox, CATEGORY_LABELS[category]);
+        row.appendChild(label);
+      });
+      return row;
+    });
+
+    this.list.replaceChildren(...rows);
+  }
+
+  private updateEnabled() {
+    const enabled = !this.toggle || this.toggle.checked;
+    this.list.querySelectorAll('fieldset').forEach((fieldset) => {
+      fieldset.disabled = !enabled;
+    });
+  }
+
+  private async setCategory(lang: string, category: NormalizationCategory, enabled: boolean) {
+    const categories = (this.disabled[lang] || []).filter(item => item !== category);
+    if (!enabled) categories.push(category);
+    if (categories.length) {
+      this.disabled[lang] = NORMALIZATION_CATEGORIES.filter(item => categories.includes(item));
+    } else {
+      delete this.disabled[lang];
+    }
+
+    try {
+      await chrome.storage.sync.set({ disabledNormalizations: this.disabled });
+    } catch (error) {
+      console.error('Error saving number reading settings:', error);
+      this.notify('Error saving number reading settings', 'error');
+    }
+  }
+}
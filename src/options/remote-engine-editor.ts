@@ -0,0 +1,104 @@
+/**
+ * RemoteEngineEditor - the "Speech Server" section of the options page
+ * Sets up an OpenAI-compatible speech server (see RemoteTTSEngine). Saving asks for access to the server's
+ * origin, which the offscreen document and the export page need to fetch audio from it.
+ */
+
+import {
+  RemoteEngineConfig,
+  RemoteEngineStore,
+  DEFAULT_REMOTE_CONFIG,
+  fetchRemoteVoices,
+  getServerOrigins
+} from '@common/remote-tts-engine';
+
+type Notify = (message: string, type: 'success' | 'error' | 'info') => void;
+
+export class RemoteEngineEditor {
+  private store = new RemoteEngineStore();
+  private fields: Record<keyof RemoteEngineConfig, HTMLInputElement>;
+  private status: HTMLElement;
+
+  constructor(private readonly notify: Notify) {
+    this.fields = {
+      baseUrl: document.getElementById('remoteBaseUrl') as HTMLInputElement,
+      apiKey: document.getElementById('remoteApiKey') as HTMLInputElement,
+      model: document.getElementById('remoteModel') as HTMLInputElement,
+      voicesEndpoint: document.getElementById('remoteVoicesEndpoint') as HTMLInputElement
+    };
+    this.status = document.getElementById('remoteStatus') as HTMLElement;
+  }
+
+  async init(): Promise<void> {
+    if (!this.fields.baseUrl) return;
+
+    const config = (await this.store.get()) || DEFAULT_REMOTE_CONFIG;
+    (Object.keys(this.fields) as (keyof RemoteEngineConfig)[]).forEach((key) => {
+      this.fields[key].value = config[key];
+    });
+
+    document.getElementById('saveRemoteEngine')?.addEventListener('click', () => this.save());
+    document.getElementById('testRemoteEngine')?.addEventListener('click', () => this.test());
+  }
+
+  private readConfig(): RemoteEngineConfig | null {
+    const baseUrl = this.fields.baseUrl.value.trim();
+    if (baseUrl && !getServerOrigins({ baseUrl }).length) {
+      this.notify('Enter the server address as a URL, such as http://localhost:8880/v1', 'error');
+      return null;
+    }
+
+    return {
+      baseUrl,
+      apiKey: this.fields.apiKey.value.trim(),
+      model: this.fields.model.value.trim() || DEFAULT_REMOTE_CONFIG.model,
+      voicesEndpoint: this.fields.voicesEndpoint.value.trim() || DEFAULT_REMOTE_CONFIG.voicesEndpoint
+    };
+  }
+
+  private async save() {
+    const config = this.readConfig();
+    if (!config) return;
+
+    // Must run in the click's user gesture, before anything else is awaited
+    if (config.baseUrl && !(await this.requestAccess(config))) return;
+
+    try {
+      await this.store.save(config);
+      this.notify(config.baseUrl ? 'Speech server saved' : 'Speech server removed', 'success');
+    } catch (error) {
+      console.error('Error saving speech server:', error);
+      this.notify('Error saving speech server', 'error');
+    }
+  }
+
+  private async test() {
+    const config = this.readConfig();
+    if (!config?.baseUrl) {
+      this.notify('Enter the server address first', 'error');
+      return;
+    }
+    if (!(await this.requestAccess(config))) return;
+
+    this.status.textContent = 'Connecting…';
+    try {
+      const voices = await fetchRemoteVoices(config);
+      this.status.textContent = voices.length
+        ? `Connected: ${voices.length} ${voices.length === 1 ? 'voice' : 'voices'} (${voices.slice(0, 5).map(voice => voice.name).join(', ')}${voices.length > 5 ? ', …' : ''})`
+        : 'Connected, but the server lists no voices; its default voice is used';
+    } catch (error) {
+      this.status.textContent = `Could not reach the server: ${(error as Error).message}`;
+    }
+  }
+
+  private async requestAccess(config: RemoteEngineConfig): Promise<boolean> {
+    const granted = await chrome.permissions.request({ origins: getServerOrigins(config) }).catch((error) => {
+      console.error('Could not request access to the speech server:', error);
+      return false;
+    });
+    if (!granted) {
+      this.notify('The extension needs access to the server to fetch speech from it', 'error');
+    }
+    return granted;
+  }
+}
@@ -0,0 +1,178 @@
+/**
+ * ShortcutEditor - the "Keyboard Shortcuts" section of the options page
+ * Records new in-page shortcuts from key presses (every change is saved right away), flags conflicts, and lists
+ * the browser-wide shortcuts, which only Chrome's own shortcuts page can change.
+ */
+
+import {
+  ShortcutAction,
+  ShortcutMap,
+  ShortcutStore,
+  SHORTCUT_ACTIONS,
+  DEFAULT_SHORTCUTS,
+  getShortcutFromEvent,
+  validateShortcut,
+  findShortcutConflicts,
+  formatShortcut
+} from '@common/shortcuts';
+
+type Notify = (message: string, type: 'success' | 'error' | 'info') => void;
+
+interface BrowserCommand {
+  shortcut: string;
+  description: string;
+}
+
+export class ShortcutEditor {
+  private store = new ShortcutStore();
+  private shortcuts: ShortcutMap = { ...DEFAULT_SHORTCUTS };
+  private commands: BrowserCommand[] = [];
+  private list: HTMLElement;
+  private commandList: HTMLElement;
+
+  constructor(private readonly notify: Notify) {
+    this.list = document.getElementById('shortcutList') as HTMLElement;
+    this.commandList = document.getElementById('commandList') as HTMLElement;
+  }
+
+  async init(): Promise<void> {
+    if (!this.list) return;
+
+    this.shortcuts = await this.store.get();
+    this.commands = await this.loadCommands();
+    this.render();
+    this.renderCommands();
+
+    document.getElementById('resetShortcuts')?.addEventListener('click', () => {
+      this.shortcuts = { ...DEFAULT_SHORTCUTS };
+      this.render();
+      this.save();
+    });
+    document.getElementById('openCommandSettings')?.addEventListener('click', () => {
+      chrome.tabs.create({ url: 'chrome://extensions/shortcuts' }).catch(error => {
+        console.error('Could not open the browser shortcut settings:', error);
+      });
+    });
+  }
+
+  // Commands with a key assigned; Chrome leaves out keys that another extension already took
+  private async loadCommands(): Promise<BrowserCommand[]> {
+    if (!chrome.commands?.getAll) return [];
+
+    try {
+      const commands = await chrome.commands.getAll();
+      return commands
+        .filter(command => command.name && !command.name.startsWith('_'))
+        .map(command => ({ shortcut: command.shortcut || '', description: command.description || command.name || '' }));
+    } catch (error) {
+      console.error('Could not load browser shortcuts:', error);
+      return [];
+    }
+  }
+
+  private render() {
+    const conflicts = findShortcutConflicts(this.shortcuts, this.commands.filter(command => command.shortcut));
+    this.list.replaceChildren(...SHORTCUT_ACTIONS.map(({ action, label }) => this.createRow(action, label, conflicts[action])));
+  }
+
+  private renderCommands() {
+    if (!this.commandList) return;
+
+    this.commandList.replaceChildren(...this.commands.map(command => {
+      const item = document.createElement('div');
+      item.className = 'shortcut-item';
+      const description = document.createElement('span');
+      description.className = 'shortcut-action';
+      description.textContent = command.description;
+      const key = document.createElement('span');
+      key.className = command.shortcut ? 'shortcut-key' : 'form-help';
+      key.textContent = command.shortcut || 'Not set';
+      item.append(description, key);
+      return item;
+    }));
+  }
+
+  private createRow(action: ShortcutAction, label: string, conflict: string | undefined): HTMLElement {
+    const row = document.createElement('div');
+    row.className = 'shortcut-item';
+
+    const name = document.createElement('span');
+    name.className = 'shortcut-action';
+    name.textContent = label;
+
+    const input = document.createElement('input');
+    input.type = 'text';
+    input.readOnly = true;
+    input.className = 'form-control shortcut-input';
+    input.value = formatShortcut(this.shortcuts[action]);
+    input.placeholder = 'Off';
+    input.title = 'Click and press the new shortcut';
+    input.setAttribute('aria-label', `Shortcut for ${label}`);
+    input.addEventListener('keydown', (event) => this.recordShortcut(event, action, input));
+
+    const clearButton = document.createElement('button');
+    clearButton.type = 'button';
+    clearButton.className = 'btn btn-secondary shortcut-clear';
+    clearButton.textContent = 'Clear';
+    clearButton.title = `Turn off the shortcut for ${label}`;
+    clearButton.addEventListener('click', () => this.setShortcut(action, ''));
+
+    const controls = document.createElement('span');
+    controls.className = 'shortcut-controls';
+    controls.append(input, clearButton);
+
+    row.append(name, controls);
+    if (conflict) {
+      const message = document.createElement('p');
+      message.className = 'shortcut-conflict';
+      message.textContent = conflict;
+      input.setAttribute('aria-invalid', 'true');
+      row.append(message);
+    }
+    return row;
+  }
+
+  private recordShortcut(event: KeyboardEvent, action: ShortcutAction, input: HTMLInputElement) {
+    const hasModifier = event.ctrlKey || event.altKey || event.metaKey || event.shiftKey;
+    // Plain Tab still moves focus, so the list stays usable from the keyboard
+    if (event.key === 'Tab' && !event.ctrlKey && !event.altKey && !event.metaKey) return;
+    event.preventDefault();
+
+    if (!hasModifier && event.key === 'Escape') {
+      input.blur();
+      return;
+    }
+    if (!hasModifier && (event.key === 'Backspace' || event.key === 'Delete')) {
+      this.setShortcut(action, '');
+      return;
+    }
+
+    const shortcut = getShortcutFromEvent(event);
+    if (!shortcut) return;
+
+    const error = validateShortcut(shortcut);
+    if (error) {
+      this.notify(error, 'error');
+      return;
+    }
+    this.setShortcut(action, shortcut);
+  }
+
+  private setShortcut(action: ShortcutAction, shortcut: string) {
+    if (this.shortcuts[action] === shortcut) return;
+
+    this.shortcuts = { ...this.shortcuts, [action]: shortcut };
+    this.render();
+    this.list.querySelectorAll<HTMLInputElement>('.shortcut-input')[SHORTCUT_ACTIONS.findIndex(item => item.action === action)]?.focus();
+    this.save();
+  }
+
+  private async save() {
+    try {
+      await this.store.save(this.shortcuts);
+    } catch (error) {
+      console.error('Failed to save keyboard shortcuts:', error);
+      this.notify('Could not save keyboard shortcuts', 'error');
+    }
+  }
+}
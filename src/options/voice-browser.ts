@@ -0,0 +1,301 @@
+/**
+ * VoiceBrowser - the voice picker of the options page
+ * Lists the voices the background knows (system voices and the speech server's) with search and filters,
+ * favorites (starred here, offered first in the popup) and recently used voices, and plays a preview in place.
+ * Choosing a voice selects it right away, like the popup does.
+ */
+
+import { MessageType } from '@common/types/messages';
+import { VoiceInfo, MAX_FAVORITE_VOICES } from '@common/voice-manager';
+import { describeVoice, getPreviewText, isRemoteVoice } from '@common/voice-metadata';
+import { VoiceFilter, filterVoices, getVoiceLanguages } from '@common/voice-catalog';
+import { RemoteTTSEngine, RemoteEngineStore } from '@common/remote-tts-engine';
+
+type Notify = (message: string, type: 'success' | 'error' | 'info') => void;
+
+const QUALITY_LABELS: Record<VoiceInfo['quality'], string> = {
+  premium: 'Premium',
+  enhanced: 'Enhanced',
+  standard: 'Standard',
+  compact: 'Compact'
+};
+
+const GENDER_LABELS: Record<VoiceInfo['gender'], string> = {
+  female: 'Female',
+  male: 'Male',
+  neutral: ''
+};
+
+interface VoiceData {
+  voices?: VoiceInfo[];
+  selectedVoice?: VoiceInfo | null;
+  favoriteVoices?: VoiceInfo[];
+  recentVoices?: VoiceInfo[];
+}
+
+export class VoiceBrowser {
+  private voices: VoiceInfo[] = [];
+  private selected: string | null = null;
+  private favorites: string[] = [];
+  private recents: string[] = [];
+  private previewing: string | null = null;
+  private remotePreview: RemoteTTSEngine | null = null;
+  private elements = {
+    // Hidden field of the settings form holding the selected voice's name
+    voice: document.getElementById('voice') as HTMLInputElement,
+    search: document.getElementById('voiceSearch') as HTMLInputElement,
+    language: document.getElementById('voiceLanguageFilter') as HTMLSelectElement,
+    gender: document.getElementById('voiceGenderFilter') as HTMLSelectElement,
+    quality: document.getElementById('voiceQualityFilter') as HTMLSelectElement,
+    location: document.getElementById('voiceLocationFilter') as HTMLSelectElement,
+    favorites: document.getElementById('voiceFavorites') as HTMLElement,
+    recents: document.getElementById('voiceRecents') as HTMLElement,
+    count: document.getElementById('voiceCount') as HTMLElement,
+    results: document.getElementById('voiceResults') as HTMLElement
+  };
+
+  constructor(private readonly notify: Notify) {}
+
+  async init(): Promise<void> {
+    if (!this.elements.results) return;
+
+    await this.load();
+
+    this.elements.search.addEventListener('input', () => this.renderResults());
+    this.elements.search.addEventListener('keydown', (e) => {
+      // Enter would submit the settings form
+      if (e.key === 'Enter') e.preventDefault();
+    });
+    [this.elements.language, this.elements.gender, this.elements.quality, this.elements.location].forEach((select) => {
+      select.addEventListener('change', () => this.renderResults());
+    });
+  }
+
+  private async load() {
+    let data = await this.getVoiceData();
+
+    // Before the popup or a page has reported voices, the background has none; this page can list them itself
+    if (!data.voices?.length && typeof speechSynthesis !== 'undefined' && speechSynthesis.getVoices().length) {
+      await chrome.runtime.sendMessage({
+        type: MessageType.UPDATE_VOICE_DATA,
+        payload: { voices: speechSynthesis.getVoices().map(voice => describeVoice(voice)) }
+      }).catch(error => console.error('Failed to report voices:', error));
+      data = await this.getVoiceData();
+    }
+
+    this.voices = data.voices || [];
+    this.selected = data.selectedVoice?.name || null;
+    this.favorites = (data.favoriteVoices || []).map(voice => voice.name);
+    this.recents = (data.recentVoices || []).map(voice => voice.name);
+    if (this.selected) {
+      this.elements.voice.value = this.selected;
+    }
+
+    const current = this.elements.language.value;
+    this.elements.language.replaceChildren(
+      new Option('All languages', ''),
+      ...getVoiceLanguages(this.voices, navigator.language).map(({ code, name, count }) => new Option(`${name} (${count})`, code))
+    );
+    this.elements.language.value = current;
+
+    this.render();
+  }
+
+  private async getVoiceData(): Promise<VoiceData> {
+    const response = await chrome.runtime.sendMessage({ type: MessageType.GET_VOICE_DATA }).catch((error) => {
+      console.error('Failed to load voices:', error);
+      return null;
+    });
+    return response?.data || {};
+  }
+
+  private render() {
+    this.renderShortlist(this.elements.favorites, this.favorites, 'Star voices below to keep them at hand');
+    this.renderShortlist(this.elements.recents, this.recents, 'Voices you choose show up here');
+    this.renderResults();
+  }
+
+  private renderShortlist(container: HTMLElement, names: string[], emptyText: string) {
+    const voices = names
+      .map(name => this.voices.find(voice => voice.name === name))
+      .filter((voice): voice is VoiceInfo => !!voice);
+
+    if (!voices.length) {
+      const empty = document.createElement('span');
+      empty.className = 'form-help';
+      empty.textContent = emptyText;
+      container.replaceChildren(empty);
+      return;
+    }
+
+    container.replaceChildren(...voices.map((voice) => {
+      const chip = document.createElement('button');
+      chip.type = 'button';
+      chip.className = 'voice-chip';
+      chip.textContent = voice.displayName;
+      chip.title = `${voice.name} (${voice.languageDisplay})`;
+      chip.setAttribute('aria-pressed', String(voice.name === this.selected));
+      chip.addEventListener('click', () => this.select(voice));
+      return chip;
+    }));
+  }
+
+  private renderResults() {
+    const filter: VoiceFilter = {
+      query: this.elements.search.value.trim(),
+      language: this.elements.language.value || undefined,
+      gender: (this.elements.gender.value || undefined) as VoiceFilter['gender'],
+      quality: (this.elements.quality.value || undefined) as VoiceFilter['quality'],
+      location: (this.elements.location.value || undefined) as VoiceFilter['location']
+    };
+    const matches = filterVoices(this.voices, filter);
+
+    this.elements.count.textContent = this.voices.length
+      ? `${matches.length} of ${this.voices.length} voices`
+      : 'No voices yet. Voices are listed once the browser has loaded them; try reopening this page.';
+    this.elements.results.replaceChildren(...matches.map(voice => this.createRow(voice)));
+  }
+
+  private createRow(voice: VoiceInfo): HTMLElement {
+    const row = document.createElement('li');
+    row.className = 'voice-row';
+    row.classList.toggle('selected', voice.name === this.selected);
+
+    const favorite = this.favorites.includes(voice.name);
+    const star = document.createElement('button');
+    star.type = 'button';
+    star.className = 'voice-star';
+    star.textContent = favorite ? '★' : '☆';
+    star.title = favorite ? 'Remove from favorites' : 'Add to favorites';
+    star.setAttribute('aria-pressed', String(favorite));
+    star.addEventListener('click', () => this.toggleFavorite(voice));
+
+    const info = document.createElement('div');
+    info.className = 'voice-row-info';
+    const name = document.createElement('span');
+    name.className = 'voice-row-name';
+    name.textContent = voice.displayName;
+    name.title = voice.name;
+    const details = document.createElement('span');
+    details.className = 'voice-row-details';
+    details.textContent = [
+      voice.languageDisplay,
+      GENDER_LABELS[voice.gender],
+      QUALITY_LABELS[voice.quality],
+      isRemoteVoice(voice) ? 'Speech server' : voice.localService ? 'On device' : 'Online'
+    ].filter(Boolean).join(' · ');
+    info.append(name, details);
+
+    const preview = document.createElement('button');
+    preview.type = 'button';
+    preview.className = 'btn btn-secondary voice-row-button';
+    preview.textContent = this.previewing === voice.name ? 'Stop' : 'Preview';
+    preview.addEventListener('click', () => this.preview(voice));
+
+    const use = document.createElement('button');
+    use.type = 'button';
+    use.className = 'btn btn-primary voice-row-button';
+    use.textContent = voice.name === this.selected ? 'Selected' : 'Use';
+    use.disabled = voice.name === this.selected;
+    use.addEventListener('click', () => this.select(voice));
+
+    row.append(star, info, preview, use);
+    return row;
+  }
+
+  private async select(voice: VoiceInfo) {
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: MessageType.SELECT_VOICE,
+        payload: { voiceName: voice.name }
+      });
+      if (!response?.data?.success) {
+        throw new Error(response?.error || 'Voice not available');
+      }
+    } catch (error) {
+      console.error('Failed to select voice:', error);
+      this.notify('Could not select this voice', 'error');
+      return;
+    }
+
+    this.selected = voice.name;
+    this.elements.voice.value = voice.name;
+    this.recents = [voice.name, ...this.recents.filter(name => name !== voice.name)].slice(0, 5);
+    this.render();
+    this.notify(`Reading with ${voice.displayName}`, 'success');
+  }
+
+  private async toggleFavorite(voice: VoiceInfo) {
+    const favorites = this.favorites.includes(voice.name)
+      ? this.favorites.filter(name => name !== voice.name)
+      : [...this.favorites, voice.name];
+    if (favorites.length > MAX_FAVORITE_VOICES) {
+      this.notify(`Up to ${MAX_FAVORITE_VOICES} voices can be favorites; unstar one first`, 'info');
+      return;
+    }
+
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: MessageType.SET_FAVORITE_VOICES,
+        payload: { voiceNames: favorites }
+      });
+      if (!response?.success) {
+        throw new Error(response?.error || 'Favorites not saved');
+      }
+      this.favorites = (response.data.favoriteVoices as VoiceInfo[]).map(favorite => favorite.name);
+      this.render();
+    } catch (error) {
+      console.error('Failed to save favorite voices:', error);
+      this.notify('Could not save favorite voices', 'error');
+    }
+  }
+
+  private async preview(voice: VoiceInfo) {
+    const stopping = this.previewing === voice.name;
+    this.stopPreview();
+    this.previewing = stopping ? null : voice.name;
+    this.renderResults();
+    if (stopping) return;
+
+    const done = () => {
+      if (this.previewing === voice.name) {
+        this.previewing = null;
+        this.renderResults();
+      }
+    };
+    const text = getPreviewText(voice.lang);
+
+    if (!isRemoteVoice(voice)) {
+      const utterance = new SpeechSynthesisUtterance(text);
+      utterance.voice = speechSynthesis.getVoices().find(systemVoice => systemVoice.name === voice.name) || null;
+      utterance.lang = voice.lang;
+      utterance.onend = done;
+      utterance.onerror = done;
+      speechSynthesis.speak(utterance);
+      return;
+    }
+
+    const config = await new RemoteEngineStore().get();
+    if (!config) {
+      this.notify('Set up the speech server to preview its voices', 'error');
+      done();
+      return;
+    }
+    this.remotePreview = new RemoteTTSEngine(config);
+    this.remotePreview.speak(text, { voiceName: voice.name, lang: voice.lang || undefined, rate: 1, pitch: 1, volume: 0.8 }, (event) => {
+      if (event.type === 'error') {
+        this.notify(`Preview failed: ${event.error}`, 'error');
+      }
+      if (event.type === 'end' || event.type === 'error' || event.type === 'interrupted') {
+        done();
+      }
+    });
+  }
+
+  private stopPreview() {
+    this.previewing = null;
+    speechSynthesis.cancel();
+    this.remotePreview?.stop();
+    this.remotePreview = null;
+  }
+}
@@ -0,0 +1,144 @@
+/**
+ * PDF reader page - shows a PDF's text so it can be read like any other page
+ * The PDF is loaded with pdf.js and the text of each page is laid out as headings and paragraphs
+ * (see text-layout) inside a section carrying its page number. Once all pages are in place the content
+ * script is started here, so extraction, highlighting, the player and saved positions work as on websites.
+ */
+
+import * as pdfjsLib from 'pdfjs-dist';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import type { TextItem, TextMarkedContent } from 'pdfjs-dist/types/src/display/api';
+import { devLog } from '@common/dev-utils';
+import { ORIGINAL_PDF_HASH, PAGE_NUMBER_ATTRIBUTE, getPdfFileUrl } from '@common/pdf-reader';
+import { layoutPageText, PdfTextRun } from './text-layout';
+
+interface PdfInfo {
+  Title?: string;
+  Language?: string;
+}
+
+function isTextItem(item: TextItem | TextMarkedContent): item is TextItem {
+  return 'str' in item;
+}
+
+function toRun(item: TextItem): PdfTextRun {
+  return {
+    text: item.str,
+    x: item.transform[4],
+    y: item.transform[5],
+    width: item.width,
+    height: item.height,
+    hasEOL: item.hasEOL
+  };
+}
+
+class PdfReaderPage {
+  private pages = document.getElementById('pages') as HTMLElement;
+  private status = document.getElementById('status') as HTMLElement;
+  private pageIndicator = document.getElementById('pageIndicator') as HTMLElement;
+  private fileUrl = getPdfFileUrl(window.location.href);
+  private pageCount = 0;
+
+  constructor() {
+    this.load().catch((error) => {
+      console.error('Error opening PDF:', error);
+      this.setStatus(`This PDF could not be opened: ${(error as Error).message}`, true);
+    });
+  }
+
+  private async load() {
+    if (!this.fileUrl) {
+      throw new Error('no PDF address was given');
+    }
+
+    const original = document.getElementById('openOriginal') as HTMLAnchorElement;
+    original.href = `${this.fileUrl.split('#')[0]}#${ORIGINAL_PDF_HASH}`;
+
+    pdfjsLib.GlobalWorkerOptions.workerSrc = chrome.runtime.getURL('pdf.worker.min.mjs');
+    const pdf = await pdfjsLib.getDocument({ url: this.fileUrl, withCredentials: true }).promise;
+    this.pageCount = pdf.numPages;
+    await this.applyMetadata(pdf);
+
+    let hasText = false;
+    for (let number = 1; number <= pdf.numPages; number++) {
+      this.setStatus(`Loading page ${number} of ${pdf.numPages}…`);
+      const page = await pdf.getPage(number);
+      const content = await page.getTextContent();
+      const section = this.renderPage(number, content.items.filter(isTextItem).map(toRun));
+      hasText = hasText || section.childElementCount > 0;
+      this.pages.appendChild(section);
+      page.cleanup();
+    }
+
+    if (!hasText) {
+      this.setStatus('This PDF has no text to read; it may be made of scanned images.', true);
+      return;
+    }
+
+    this.setStatus('');
+    this.updatePageIndicator();
+    window.addEventListener('scroll', () => this.updatePageIndicator(), { passive: true });
+    this.scrollToRequestedPage();
+    this.startContentScript();
+  }
+
+  private async applyMetadata(pdf: PDFDocumentProxy) {
+    const info = await pdf.getMetadata()
+      .then(metadata => metadata.info as PdfInfo)
+      .catch(() => ({} as PdfInfo));
+
+    const fileName = decodeURIComponent(new URL(this.fileUrl || '').pathname.split('/').pop() || 'PDF');
+    document.title = info.Title?.trim() || fileName;
+    (document.getElementById('documentTitle') as HTMLElement).textContent = document.title;
+    // Lets language detection pick a voice before the first words are read
+    if (info.Language) {
+      document.documentElement.lang = info.Language;
+    }
+  }
+
+  private renderPage(number: number, runs: PdfTextRun[]): HTMLElement {
+    const section = document.createElement('section');
+    section.className = 'pdf-page';
+    section.setAttribute(PAGE_NUMBER_ATTRIBUTE, String(number));
+    section.setAttribute('aria-label', `Page ${number}`);
+
+    layoutPageText(runs).forEach((block) => {
+      const element = document.createElement(block.kind === 'heading' ? 'h2' : 'p');
+      element.textContent = block.text;
+      section.appendChild(element);
+    });
+    return section;
+  }
+
+  // Open parameters of the PDF address, e.g. report.pdf#page=4
+  private scrollToRequestedPage() {
+    const match = /(?:^|&)page=(\d+)/.exec(new URL(this.fileUrl || '').hash.slice(1));
+    const page = match ? this.pages.querySelector(`[${PAGE_NUMBER_ATTRIBUTE}="${match[1]}"]`) : null;
+    page?.scrollIntoView();
+  }
+
+  // The page crossing the upper third of the window
+  private updatePageIndicator() {
+    const line = window.innerHeight / 3;
+    const sections = Array.from(this.pages.children) as HTMLElement[];
+    const current = sections.find(section => section.getBoundingClientRect().bottom > line) || sections[sections.length - 1];
+    const number = current?.getAttribute(PAGE_NUMBER_ATTRIBUTE);
+    this.pageIndicator.textContent = number ? `Page ${number} of ${this.pageCount}` : '';
+  }
+
+  // Content scripts don't run in extension pages, so it is loaded like a page script once the text is here
+  private startContentScript() {
+    const script = document.createElement('script');
+    script.src = 'content.js';
+    document.body.appendChild(script);
+    devLog('[PDF] Reader ready:', this.pageCount, 'pages');
+  }
+
+  private setStatus(message: string, isError = false) {
+    this.status.textContent = message;
+    this.status.hidden = !message;
+    this.status.classList.toggle('error', isError);
+  }
+}
+
+new PdfReaderPage();
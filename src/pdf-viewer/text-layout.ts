@@ -0,0 +1,119 @@
+/**
+ * Text layout - turns the positioned text runs of a PDF page into paragraphs
+ * PDFs have no paragraphs, only runs of text placed on the page. Runs are joined into lines by their
+ * baseline, and lines into paragraphs unless a wider gap or a change of font size separates them.
+ * Words hyphenated across lines are joined again, so they are read as one word. Lone page numbers
+ * are dropped; hearing them between paragraphs only gets in the way.
+ */
+
+// A text run as pdf.js reports it, in page coordinates (y grows upwards)
+export interface PdfTextRun {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  hasEOL: boolean;
+}
+
+export interface PdfTextBlock {
+  kind: 'heading' | 'paragraph';
+  text: string;
+}
+
+interface Line {
+  text: string;
+  y: number;
+  height: number;
+  lastRunEnd: number;
+}
+
+// Runs whose baselines differ by less than this share of the font size are on the same line
+const SAME_LINE = 0.5;
+// A gap this much wider than the usual line spacing starts a new paragraph
+const PARAGRAPH_GAP = 1.4;
+// Lines this much larger than the page's body text are headings
+const HEADING_SIZE = 1.25;
+const MAX_HEADING_LENGTH = 150;
+const PAGE_NUMBER = /^(page\s+)?\d+(\s*(of|\/)\s*\d+)?$/i;
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+function groupLines(runs: PdfTextRun[]): Line[] {
+  const lines: Line[] = [];
+  let current: Line | null = null;
+  let endsLine = false;
+
+  runs.forEach((run) => {
+    const height = run.height || 1;
+    if (!current || endsLine || Math.abs(current.y - run.y) > height * SAME_LINE) {
+      if (run.text.trim()) {
+        current = { text: run.text, y: run.y, height, lastRunEnd: run.x + run.width };
+        lines.push(current);
+      }
+    } else {
+      // Runs of one line are often split mid-sentence without a space between them
+      const needsSpace = run.x - current.lastRunEnd > height * 0.15 && !/\s$/.test(current.text) && !/^\s/.test(run.text);
+      current.text += (needsSpace ? ' ' : '') + run.text;
+      current.height = Math.max(current.height, height);
+      current.lastRunEnd = run.x + run.width;
+    }
+    endsLine = run.hasEOL;
+  });
+
+  return lines
+    .map(line => ({ ...line, text: line.text.replace(/\s+/g, ' ').trim() }))
+    .filter(line => line.text.length > 0);
+}
+
+// Joins a paragraph's lines, undoing hyphenation at line ends ("exam-" + "ple" -> "example");
+// before a capital the hyphen is part of the word ("Franco-" + "German")
+function joinLines(lines: Line[]): string {
+  return lines.reduce((text, line) => {
+    if (!text) return line.text;
+    if (/\p{L}-$/u.test(text)) {
+      return /^\p{Ll}/u.test(line.text) ? text.slice(0, -1) + line.text : text + line.text;
+    }
+    return `${text} ${line.text}`;
+  }, '');
+}
+
+export function layoutPageText(runs: PdfTextRun[]): PdfTextBlock[] {
+  const lines = groupLines(runs);
+  if (lines.length === 0) return [];
+
+  const bodySize = median(lines.map(line => line.height));
+  const spacings = lines.slice(1)
+    .map((line, index) => lines[index].y - line.y)
+    .filter(gap => gap > 0);
+  const lineSpacing = median(spacings) || bodySize * 1.2;
+  const isLarge = (line: Line) => line.height >= bodySize * HEADING_SIZE;
+
+  const groups: Line[][] = [];
+  lines.forEach((line, index) => {
+    const previous = lines[index - 1];
+    const gap = previous ? previous.y - line.y : 0;
+    const startsParagraph = !previous ||
+      gap > lineSpacing * PARAGRAPH_GAP ||
+      // Moving up the page means a new column
+      gap < 0 ||
+      isLarge(line) !== isLarge(previous);
+    if (startsParagraph) {
+      groups.push([line]);
+    } else {
+      groups[groups.length - 1].push(line);
+    }
+  });
+
+  return groups
+    .map((group): PdfTextBlock => {
+      const text = joinLines(group);
+      const heading = group.every(isLarge) && text.length <= MAX_HEADING_LENGTH;
+      return { kind: heading ? 'heading' : 'paragraph', text };
+    })
+    .filter(block => !PAGE_NUMBER.test(block.text));
+}
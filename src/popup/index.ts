@@ -1,5 +1,13 @@
 import { MessageType, Message } from '@common/types/messages';
 import { VoiceInfo } from '@common/voice-manager';
+import { describeVoice, getPreviewText } from '@common/voice-metadata';
+import { filterVoices } from '@common/voice-catalog';
+import { SeekUnit, SeekDirection } from '@common/speech-synthesizer';
+import { SpeechProgress, formatDuration } from '@common/speech-progress';
+import { QueueItem, ReadingQueueState } from '@common/reading-queue';
+import { ReadingProgressStore } from '@common/reading-progress';
+import { SiteProfileStore, getHostname } from '@common/site-profiles';
+import { RemoteEngineStore } from '@common/remote-tts-engine';
 import {
   TTSState,
   validateTTSState,
@@ -18,6 +26,15 @@ const debugLog = (...args: unknown[]) => {
 class PopupController {
   private elements: {
     speakPage: HTMLButtonElement;
+    resumeReadingBtn: HTMLButtonElement;
+    resumeReadingInfo: HTMLSpanElement;
+    exportAudioBtn: HTMLButtonElement;
+    siteProfile: HTMLElement;
+    siteHost: HTMLElement;
+    siteRate: HTMLInputElement;
+    siteRateValue: HTMLSpanElement;
+    saveSiteProfileBtn: HTMLButtonElement;
+    removeSiteProfileBtn: HTMLButtonElement;
     testText: HTMLTextAreaElement;
     testSpeak: HTMLButtonElement;
     openOptions: HTMLAnchorElement;
@@ -27,10 +44,25 @@ class PopupController {
     ttsStatus: HTMLDivElement;
     currentText: HTMLDivElement;
     textPreview: HTMLSpanElement;
+    readingProgress: HTMLElement;
+    progressBar: HTMLElement;
+    progressFill: HTMLElement;
+    progressElapsed: HTMLSpanElement;
+    progressRemaining: HTMLSpanElement;
     playPauseBtn: HTMLButtonElement;
     stopBtn: HTMLButtonElement;
     forceStopBtn: HTMLButtonElement;
+    prevParagraphBtn: HTMLButtonElement;
+    prevSentenceBtn: HTMLButtonElement;
+    nextSentenceBtn: HTMLButtonElement;
+    nextParagraphBtn: HTMLButtonElement;
+    queuePlayBtn: HTMLButtonElement;
+    queueSkipBtn: HTMLButtonElement;
+    queueClearBtn: HTMLButtonElement;
+    queueList: HTMLUListElement;
+    queueEmpty: HTMLDivElement;
     voiceSelect: HTMLSelectElement;
+    voiceSearch: HTMLInputElement;
     previewBtn: HTMLButtonElement;
     initStatus: HTMLDivElement;
   };
@@ -46,19 +78,47 @@ class PopupController {
     currentText: '',
   };
 
+  // Last reported progress and when it arrived; the times keep counting in between while playing
+  private progress: { value: SpeechProgress; receivedAt: number } | null = null;
+  private progressTimer: ReturnType<typeof setInterval> | null = null;
+
   private voiceData: {
     voices: VoiceInfo[];
     selectedVoice: VoiceInfo | null;
+    // Starred in the options page; listed first with the recently used voices
+    favoriteVoices: VoiceInfo[];
+    recentVoices: VoiceInfo[];
   } = {
     voices: [],
-    selectedVoice: null
+    selectedVoice: null,
+    favoriteVoices: [],
+    recentVoices: []
   };
 
   private isPreviewPlaying = false;
 
+  private siteProfiles = new SiteProfileStore();
+  // Pattern a "Save for this site" applies to: the matching profile's, or the active tab's hostname
+  private sitePattern: string | null = null;
+
+  private queueState: ReadingQueueState = {
+    items: [],
+    currentId: null,
+    isPlaying: false
+  };
+
   constructor() {
     this.elements = {
       speakPage: document.getElementById('speakPage') as HTMLButtonElement,
+      resumeReadingBtn: document.getElementById('resumeReadingBtn') as HTMLButtonElement,
+      resumeReadingInfo: document.getElementById('resumeReadingInfo') as HTMLSpanElement,
+      exportAudioBtn: document.getElementById('exportAudioBtn') as HTMLButtonElement,
+      siteProfile: document.getElementById('siteProfile') as HTMLElement,
+      siteHost: document.getElementById('siteHost') as HTMLElement,
+      siteRate: document.getElementById('siteRate') as HTMLInputElement,
+      siteRateValue: document.getElementById('siteRateValue') as HTMLSpanElement,
+      saveSiteProfileBtn: document.getElementById('saveSiteProfileBtn') as HTMLButtonElement,
+      removeSiteProfileBtn: document.getElementById('removeSiteProfileBtn') as HTMLButtonElement,
       testText: document.getElementById('testText') as HTMLTextAreaElement,
       testSpeak: document.getElementById('testSpeak') as HTMLButtonElement,
       openOptions: document.getElementById('openOptions') as HTMLAnchorElement,
@@ -68,10 +128,25 @@ class PopupController {
       ttsStatus: document.getElementById('ttsStatus') as HTMLDivElement,
       currentText: document.getElementById('currentText') as HTMLDivElement,
       textPreview: document.getElementById('textPreview') as HTMLSpanElement,
+      readingProgress: document.getElementById('readingProgress') as HTMLElement,
+      progressBar: document.getElementById('progressBar') as HTMLElement,
+      progressFill: document.getElementById('progressFill') as HTMLElement,
+      progressElapsed: document.getElementById('progressElapsed') as HTMLSpanElement,
+      progressRemaining: document.getElementById('progressRemaining') as HTMLSpanElement,
       playPauseBtn: document.getElementById('playPauseBtn') as HTMLButtonElement,
       stopBtn: document.getElementById('stopBtn') as HTMLButtonElement,
       forceStopBtn: document.getElementById('forceStopBtn') as HTMLButtonElement,
+      prevParagraphBtn: document.getElementById('prevParagraphBtn') as HTMLButtonElement,
+      prevSentenceBtn: document.getElementById('prevSentenceBtn') as HTMLButtonElement,
+      nextSentenceBtn: document.getElementById('nextSentenceBtn') as HTMLButtonElement,
+      nextParagraphBtn: document.getElementById('nextParagraphBtn') as HTMLButtonElement,
+      queuePlayBtn: document.getElementById('queuePlayBtn') as HTMLButtonElement,
+      queueSkipBtn: document.getElementById('queueSkipBtn') as HTMLButtonElement,
+      queueClearBtn: document.getElementById('queueClearBtn') as HTMLButtonElement,
+      queueList: document.getElementById('queueList') as HTMLUListElement,
+      queueEmpty: document.getElementById('queueEmpty') as HTMLDivElement,
       voiceSelect: document.getElementById('voiceSelect') as HTMLSelectElement,
+      voiceSearch: document.getElementById('voiceSearch') as HTMLInputElement,
       previewBtn: document.getElementById('previewBtn') as HTMLButtonElement,
       initStatus: document.getElementById('initStatus') as HTMLDivElement,
     };
@@ -84,6 +159,10 @@ class PopupController {
     await this.updateTTSState();
     await this.enumerateAndUpdateVoices();
     await this.loadVoiceData();
+    await this.loadQueue();
+    await this.loadReadingProgress();
+    await this.loadSiteProfile();
+    await this.loadExportAvailability();
     this.setupEventListeners();
     this.updateUI();
   }
@@ -129,7 +208,7 @@ class PopupController {
         const voices = speechSynthesis.getVoices();
         
         if (voices.length > 0) {
-          const voiceInfos = this.processVoices(voices);
+          const voiceInfos = voices.map(voice => describeVoice(voice));
           resolve(voiceInfos);
         } else if (attempts < maxAttempts) {
           attempts++;
@@ -144,89 +223,6 @@ class PopupController {
     });
   }
 
-  private processVoices(voices: SpeechSynthesisVoice[]): VoiceInfo[] {
-    return voices.map(voice => ({
-      name: voice.name,
-      lang: voice.lang,
-      voiceURI: voice.voiceURI,
-      localService: voice.localService,
-      default: voice.default,
-      displayName: this.formatVoiceName(voice),
-      languageDisplay: this.formatLanguage(voice.lang),
-      quality: this.determineVoiceQuality(voice),
-      gender: this.guessGender(voice.name),
-      engine: this.determineEngine(voice)
-    }));
-  }
-
-  private formatVoiceName(voice: SpeechSynthesisVoice): string {
-    let name = voice.name;
-    
-    name = name.replace(/^Microsoft\s+/i, '');
-    name = name.replace(/^Google\s+/i, '');
-    name = name.replace(/^Apple\s+/i, '');
-    
-    if (!voice.localService) {
-      name += ' (Online)';
-    }
-    
-    return name;
-  }
-
-  private formatLanguage(langCode: string): string {
-    const languageNames: Record<string, string> = {
-      'en-US': 'English (US)',
-      'en-GB': 'English (UK)',
-      'en-AU': 'English (Australia)',
-      'es-ES': 'Spanish (Spain)',
-      'es-MX': 'Spanish (Mexico)',
-      'fr-FR': 'French',
-      'de-DE': 'German',
-      'it-IT': 'Italian',
-      'pt-BR': 'Portuguese (Brazil)',
-      'ja-JP': 'Japanese',
-      'ko-KR': 'Korean',
-      'zh-CN': 'Chinese (Simplified)',
-      'zh-TW': 'Chinese (Traditional)'
-    };
-    
-    return languageNames[langCode] || langCode;
-  }
-
-  private determineVoiceQuality(voice: SpeechSynthesisVoice): VoiceInfo['quality'] {
-    if (!voice.localService) return 'premium';
-    if (voice.name.toLowerCase().includes('enhanced')) return 'enhanced';
-    if (voice.name.toLowerCase().includes('compact')) return 'compact';
-    return 'standard';
-  }
-
-  private guessGender(voiceName: string): VoiceInfo['gender'] {
-    const name = voiceName.toLowerCase();
-    
-    const femaleIndicators = ['female', 'woman', 'girl', 'samantha', 'victoria', 
-                             'kate', 'karen', 'nicole', 'jennifer', 'lisa'];
-    const maleIndicators = ['male', 'man', 'boy', 'daniel', 'thomas', 'james', 
-                           'robert', 'john', 'michael', 'david'];
-    
-    if (femaleIndicators.some(indicator => name.includes(indicator))) {
-      return 'female';
-    }
-    if (maleIndicators.some(indicator => name.includes(indicator))) {
-      return 'male';
-    }
-    
-    return 'neutral';
-  }
-
-  private determineEngine(voice: SpeechSynthesisVoice): string {
-    const name = voice.name.toLowerCase();
-    if (name.includes('microsoft')) return 'Microsoft';
-    if (name.includes('google')) return 'Google';
-    if (name.includes('apple')) return 'Apple';
-    if (name.includes('amazon')) return 'Amazon';
-    return 'System';
-  }
-
   private async loadVoiceData() {
     try {
       const response = await chrome.runtime.sendMessage({
@@ -236,7 +232,9 @@ class PopupController {
       if (response && response.success && response.data) {
         this.voiceData = {
           voices: response.data.voices as VoiceInfo[] || [],
-          selectedVoice: response.data.selectedVoice as VoiceInfo | null
+          selectedVoice: response.data.selectedVoice as VoiceInfo | null,
+          favoriteVoices: response.data.favoriteVoices as VoiceInfo[] || [],
+          recentVoices: response.data.recentVoices as VoiceInfo[] || []
         };
         
         // If we got empty voices, retry after a delay (content script might still be loading)
@@ -263,7 +261,9 @@ class PopupController {
       if (response && response.success && response.data) {
         this.voiceData = {
           voices: response.data.voices as VoiceInfo[] || [],
-          selectedVoice: response.data.selectedVoice as VoiceInfo | null
+          selectedVoice: response.data.selectedVoice as VoiceInfo | null,
+          favoriteVoices: response.data.favoriteVoices as VoiceInfo[] || [],
+          recentVoices: response.data.recentVoices as VoiceInfo[] || []
         };
         
         debugLog('Retry loaded voice data:', this.voiceData.voices.length, 'voices');
@@ -280,11 +280,31 @@ class PopupController {
 
   private setupEventListeners() {
     this.elements.speakPage.addEventListener('click', () => this.speakCurrentPage());
+    this.elements.resumeReadingBtn.addEventListener('click', () => this.resumeReading());
+    this.elements.exportAudioBtn.addEventListener('click', () => this.exportAudio());
+    this.elements.siteRate.addEventListener('input', () => this.updateSiteRateDisplay());
+    this.elements.saveSiteProfileBtn.addEventListener('click', () => this.saveSiteProfile());
+    this.elements.removeSiteProfileBtn.addEventListener('click', () => this.removeSiteProfile());
     this.elements.testSpeak.addEventListener('click', () => this.testSpeech());
     this.elements.playPauseBtn.addEventListener('click', () => this.handlePlayPause());
     this.elements.stopBtn.addEventListener('click', () => this.handleStop());
     this.elements.forceStopBtn.addEventListener('click', () => this.handleForceStop());
+    this.elements.prevParagraphBtn.addEventListener('click', () => this.handleSeek('paragraph', 'previous'));
+    this.elements.prevSentenceBtn.addEventListener('click', () => this.handleSeek('sentence', 'previous'));
+    this.elements.nextSentenceBtn.addEventListener('click', () => this.handleSeek('sentence', 'next'));
+    this.elements.nextParagraphBtn.addEventListener('click', () => this.handleSeek('paragraph', 'next'));
+    this.elements.progressBar.addEventListener('click', (e) => this.handleProgressClick(e));
+    this.elements.progressBar.addEventListener('keydown', (e) => {
+      if (e.key === 'ArrowLeft' || e.key === 'ArrowRight') {
+        e.preventDefault();
+        this.handleSeek('sentence', e.key === 'ArrowLeft' ? 'previous' : 'next');
+      }
+    });
+    this.elements.queuePlayBtn.addEventListener('click', () => this.sendQueueCommand(MessageType.QUEUE_PLAY));
+    this.elements.queueSkipBtn.addEventListener('click', () => this.sendQueueCommand(MessageType.QUEUE_SKIP));
+    this.elements.queueClearBtn.addEventListener('click', () => this.sendQueueCommand(MessageType.QUEUE_CLEAR));
     this.elements.voiceSelect.addEventListener('change', () => this.handleVoiceChange());
+    this.elements.voiceSearch.addEventListener('input', () => this.populateVoiceDropdown());
     this.elements.previewBtn.addEventListener('click', () => this.handlePreviewVoice());
     this.elements.openOptions.addEventListener('click', (e) => {
       e.preventDefault();
@@ -300,6 +320,9 @@ class PopupController {
         this.handleTTSStateChange(message.payload || {});
       } else if (message.type === MessageType.VOICE_CHANGED) {
         this.loadVoiceData();
+      } else if (message.type === MessageType.QUEUE_UPDATED && message.payload) {
+        this.queueState = message.payload as unknown as ReadingQueueState;
+        this.renderQueue();
       }
     });
   }
@@ -315,6 +338,120 @@ class PopupController {
     }
   }
 
+  // Offers to continue the active tab's page where the last reading stopped
+  private async loadReadingProgress() {
+    try {
+      const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+      const entry = tab?.url ? await new ReadingProgressStore().get(tab.url) : null;
+
+      this.elements.resumeReadingBtn.hidden = !entry;
+      if (entry) {
+        const percent = Math.round((entry.blockIndex / Math.max(entry.blockCount, 1)) * 100);
+        this.elements.resumeReadingInfo.textContent = `${percent}% read`;
+        this.elements.resumeReadingBtn.title = entry.title;
+      }
+    } catch (error) {
+      debugLog('Error loading reading progress:', error);
+    }
+  }
+
+  // Shows the speed used on the active tab's site and whether a site profile sets it
+  private async loadSiteProfile() {
+    try {
+      const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+      const hostname = tab?.url && /^https?:/.test(tab.url) ? getHostname(tab.url) : null;
+
+      this.elements.siteProfile.hidden = !hostname;
+      if (!tab?.url || !hostname) {
+        this.sitePattern = null;
+        return;
+      }
+
+      const [profile, defaults] = await Promise.all([
+        this.siteProfiles.findForUrl(tab.url),
+        chrome.storage.sync.get({ rate: 1 })
+      ]);
+      this.sitePattern = profile?.pattern || hostname;
+      this.elements.siteHost.textContent = this.sitePattern;
+      this.elements.siteRate.value = String(profile?.rate ?? defaults.rate);
+      this.elements.removeSiteProfileBtn.hidden = !profile;
+      this.updateSiteRateDisplay();
+    } catch (error) {
+      debugLog('Error loading site profile:', error);
+    }
+  }
+
+  private updateSiteRateDisplay() {
+    this.elements.siteRateValue.textContent = `${parseFloat(this.elements.siteRate.value).toFixed(1)}x`;
+  }
+
+  // Saves the selected voice and the speed as this site's profile; its content rules are kept
+  private async saveSiteProfile() {
+    if (!this.sitePattern) return;
+
+    try {
+      await this.siteProfiles.save(this.sitePattern, {
+        voice: this.elements.voiceSelect.value || undefined,
+        rate: parseFloat(this.elements.siteRate.value)
+      });
+      this.showTemporaryMessage(`Saved for ${this.sitePattern}`);
+      await this.loadSiteProfile();
+    } catch (error) {
+      debugLog('Error saving site profile:', error);
+      this.showError('Could not save the site profile');
+    }
+  }
+
+  private async removeSiteProfile() {
+    if (!this.sitePattern) return;
+
+    try {
+      await this.siteProfiles.remove(this.sitePattern);
+      this.showTemporaryMessage('Using default settings on this site');
+      await this.loadSiteProfile();
+    } catch (error) {
+      debugLog('Error removing site profile:', error);
+      this.showError('Could not remove the site profile');
+    }
+  }
+
+  private async resumeReading() {
+    const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+    if (!tab.id) return;
+
+    try {
+      const response = await chrome.tabs.sendMessage(tab.id, { type: MessageType.RESUME_READING });
+      if (response && !response.success) {
+        this.showTemporaryMessage(response.error || 'Could not continue reading');
+        this.elements.resumeReadingBtn.hidden = true;
+      }
+    } catch (error) {
+      debugLog('Error resuming reading:', error);
+      this.showError('Reload the page to continue reading');
+    }
+  }
+
+  // Only the speech server renders audio; system voices play straight to the speakers
+  private async loadExportAvailability() {
+    this.elements.exportAudioBtn.hidden = !(await new RemoteEngineStore().get());
+  }
+
+  // The background collects the text and opens the export page in a new tab
+  private async exportAudio() {
+    const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+    if (!tab.id) return;
+
+    try {
+      const response = await chrome.runtime.sendMessage({ type: MessageType.EXPORT_AUDIO, payload: { tabId: tab.id } });
+      if (response && !response.success) {
+        this.showTemporaryMessage(response.error || 'Could not export this page');
+      }
+    } catch (error) {
+      debugLog('Error exporting audio:', error);
+      this.showError('Could not export this page');
+    }
+  }
+
   private async testSpeech() {
     debugLog('Test Speech button clicked');
     debugLog('Test Speech button clicked - starting debug trace');
@@ -389,6 +526,7 @@ class PopupController {
         // Background returns: { isActive, isPaused, currentTabId, forceStopAttempts, hasTimeout }
         this.ttsState.isPlaying = data?.isActive || false;
         this.ttsState.isPaused = data?.isPaused || false;
+        this.setProgress(data?.progress);
         
         debugLog('[updateTTSState] Mapped state:', {
           isPlaying: this.ttsState.isPlaying,
@@ -448,6 +586,12 @@ class PopupController {
       this.ttsState.currentText = (playbackState as Record<string, unknown>).currentText as string;
     }
 
+    if (state === 'stopped' || state === 'completed') {
+      this.setProgress(null);
+    } else if (playbackData?.progress) {
+      this.setProgress(playbackData.progress);
+    }
+
     this.updateTTSUI();
   }
 
@@ -511,6 +655,151 @@ class PopupController {
     }
   }
 
+  private async handleSeek(unit: SeekUnit, direction: SeekDirection) {
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: MessageType.SEEK_TTS,
+        payload: { unit, direction, source: 'popup' },
+      });
+
+      if (!response?.success || !response.data?.success) {
+        this.showTemporaryMessage(direction === 'next' ? `No next ${unit}` : 'Nothing to go back to');
+      }
+    } catch (error) {
+      debugLog('Error seeking TTS:', error);
+      this.showError('Failed to seek');
+    }
+  }
+
+  // Jumps to the sentence nearest to the clicked point of the progress bar
+  private async handleProgressClick(event: MouseEvent) {
+    const bounds = this.elements.progressBar.getBoundingClientRect();
+    if (bounds.width === 0 || !(this.ttsState.isPlaying || this.ttsState.isPaused)) return;
+
+    const fraction = Math.min(Math.max((event.clientX - bounds.left) / bounds.width, 0), 1);
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: MessageType.SEEK_TTS,
+        payload: { fraction, source: 'popup' },
+      });
+
+      if (!response?.success || !response.data?.success) {
+        this.showTemporaryMessage('Could not jump there');
+      }
+    } catch (error) {
+      debugLog('Error seeking TTS:', error);
+      this.showError('Failed to seek');
+    }
+  }
+
+  private setProgress(progress: unknown) {
+    const value = progress && typeof progress === 'object' ? progress as SpeechProgress : null;
+    this.progress = value && value.totalChars > 0 ? { value, receivedAt: Date.now() } : null;
+    this.renderProgress();
+
+    const isCounting = this.progress !== null && this.ttsState.isPlaying && !this.ttsState.isPaused;
+    if (isCounting && !this.progressTimer) {
+      this.progressTimer = setInterval(() => this.renderProgress(), 1000);
+    } else if (!isCounting && this.progressTimer) {
+      clearInterval(this.progressTimer);
+      this.progressTimer = null;
+    }
+  }
+
+  private renderProgress() {
+    if (!this.progress) {
+      this.elements.readingProgress.hidden = true;
+      return;
+    }
+
+    const { value, receivedAt } = this.progress;
+    // The reported times are as of the start of the sentence; count on from there while playing
+    const sinceReport = this.ttsState.isPlaying && !this.ttsState.isPaused ? Date.now() - receivedAt : 0;
+    const percent = Math.round((value.spokenChars / value.totalChars) * 100);
+
+    this.elements.readingProgress.hidden = false;
+    this.elements.progressFill.style.width = `${percent}%`;
+    this.elements.progressBar.setAttribute('aria-valuenow', String(percent));
+    this.elements.progressElapsed.textContent = formatDuration(value.elapsedMs + sinceReport);
+    this.elements.progressRemaining.textContent = `${formatDuration(Math.max(value.remainingMs - sinceReport, 0))} left`;
+  }
+
+  private async loadQueue() {
+    try {
+      const response = await chrome.runtime.sendMessage({ type: MessageType.QUEUE_GET });
+      if (response && response.success && response.data) {
+        this.queueState = response.data as ReadingQueueState;
+      }
+    } catch (error) {
+      debugLog('Error loading reading queue:', error);
+    }
+    this.renderQueue();
+  }
+
+  private async sendQueueCommand(type: MessageType, payload?: Record<string, unknown>) {
+    try {
+      const response = await chrome.runtime.sendMessage({ type, payload });
+      const error = response?.error || response?.data?.error;
+      if (error) {
+        this.showTemporaryMessage(error);
+      }
+      // The list itself is refreshed by QUEUE_UPDATED
+    } catch (error) {
+      debugLog('Error sending queue command:', type, error);
+      this.showError('Reading queue is not available');
+    }
+  }
+
+  private renderQueue() {
+    const { items, currentId, isPlaying } = this.queueState;
+    const list = this.elements.queueList;
+    list.innerHTML = '';
+
+    items.forEach((item, index) => {
+      list.appendChild(this.createQueueItemElement(item, index, items.length, item.id === currentId));
+    });
+
+    this.elements.queueEmpty.style.display = items.length === 0 ? 'block' : 'none';
+    this.elements.queuePlayBtn.disabled = items.length === 0;
+    this.elements.queueSkipBtn.disabled = !isPlaying;
+    this.elements.queueClearBtn.disabled = items.length === 0;
+  }
+
+  private createQueueItemElement(item: QueueItem, index: number, count: number, isCurrent: boolean): HTMLLIElement {
+    const icons: Record<QueueItem['kind'], string> = { selection: '✂️', page: '📄', url: '🔗' };
+
+    const li = document.createElement('li');
+    li.className = isCurrent ? 'queue-item current' : 'queue-item';
+
+    const icon = document.createElement('span');
+    icon.textContent = icons[item.kind];
+
+    const title = document.createElement('span');
+    title.className = 'queue-item-title';
+    title.textContent = item.title;
+    title.title = `Play from here\n${item.url}`;
+    title.addEventListener('click', () => this.sendQueueCommand(MessageType.QUEUE_PLAY, { id: item.id }));
+
+    const upBtn = this.createQueueButton('▲', 'Move up', index === 0, () =>
+      this.sendQueueCommand(MessageType.QUEUE_MOVE, { id: item.id, toIndex: index - 1 }));
+    const downBtn = this.createQueueButton('▼', 'Move down', index === count - 1, () =>
+      this.sendQueueCommand(MessageType.QUEUE_MOVE, { id: item.id, toIndex: index + 1 }));
+    const removeBtn = this.createQueueButton('✕', 'Remove', false, () =>
+      this.sendQueueCommand(MessageType.QUEUE_REMOVE, { id: item.id }));
+
+    li.append(icon, title, upBtn, downBtn, removeBtn);
+    return li;
+  }
+
+  private createQueueButton(label: string, title: string, disabled: boolean, onClick: () => void): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.textContent = label;
+    button.title = title;
+    button.disabled = disabled;
+    button.addEventListener('click', onClick);
+    return button;
+  }
+
   private updateTTSUI() {
     // Debug: Log current state before UI update
     debugLog('[updateTTSUI] Current state:', {
@@ -552,6 +841,14 @@ class PopupController {
     this.elements.playPauseBtn.disabled = !(this.ttsState.isPlaying || this.ttsState.isPaused);
     this.elements.stopBtn.disabled = !(this.ttsState.isPlaying || this.ttsState.isPaused);
     this.elements.forceStopBtn.disabled = !(this.ttsState.isPlaying || this.ttsState.isPaused);
+    [
+      this.elements.prevParagraphBtn,
+      this.elements.prevSentenceBtn,
+      this.elements.nextSentenceBtn,
+      this.elements.nextParagraphBtn,
+    ].forEach(button => {
+      button.disabled = !(this.ttsState.isPlaying || this.ttsState.isPaused);
+    });
   }
 
   private updatePlayPauseButton(mode: 'play' | 'pause' | 'resume') {
@@ -630,39 +927,59 @@ class PopupController {
     // Hide loading status when voices are loaded
     this.elements.initStatus.style.display = 'none';
     
+    const query = this.elements.voiceSearch.value.trim();
+    const voices = query ? filterVoices(this.voiceData.voices, { query }) : this.voiceData.voices;
+    const selectedName = this.voiceData.selectedVoice?.name;
+    let selectedShown = false;
+
+    const createOption = (voice: VoiceInfo) => {
+      const option = document.createElement('option');
+      option.value = voice.name;
+      option.textContent = voice.displayName;
+
+      // A voice can be in the shortlists and its language group; only one of them shows it selected
+      if (voice.name === selectedName && !selectedShown) {
+        option.selected = true;
+        selectedShown = true;
+      }
+
+      // Add quality indicator
+      if (voice.quality === 'premium') {
+        option.textContent += ' ⭐';
+      }
+      return option;
+    };
+    const appendGroup = (label: string, groupVoices: VoiceInfo[]) => {
+      if (!groupVoices.length) return;
+      const optgroup = document.createElement('optgroup');
+      optgroup.label = label;
+      groupVoices.forEach(voice => optgroup.appendChild(createOption(voice)));
+      this.elements.voiceSelect.appendChild(optgroup);
+    };
+
+    if (!query) {
+      const available = (list: VoiceInfo[]) => list.filter(voice => this.voiceData.voices.some(v => v.name === voice.name));
+      const favorites = available(this.voiceData.favoriteVoices);
+      appendGroup('Favorites', favorites);
+      appendGroup('Recent', available(this.voiceData.recentVoices).filter(voice => !favorites.some(v => v.name === voice.name)));
+    }
+
     // Group voices by language
     const voicesByLang = new Map<string, VoiceInfo[]>();
-    this.voiceData.voices.forEach(voice => {
+    voices.forEach(voice => {
       if (!voicesByLang.has(voice.languageDisplay)) {
         voicesByLang.set(voice.languageDisplay, []);
       }
       voicesByLang.get(voice.languageDisplay)!.push(voice);
     });
-    
-    // Create optgroups for each language
-    voicesByLang.forEach((voices, language) => {
-      const optgroup = document.createElement('optgroup');
-      optgroup.label = language;
-      
-      voices.forEach(voice => {
-        const option = document.createElement('option');
-        option.value = voice.name;
-        option.textContent = voice.displayName;
-        
-        if (this.voiceData.selectedVoice && voice.name === this.voiceData.selectedVoice.name) {
-          option.selected = true;
-        }
-        
-        // Add quality indicator
-        if (voice.quality === 'premium') {
-          option.textContent += ' ⭐';
-        }
-        
-        optgroup.appendChild(option);
-      });
-      
-      this.elements.voiceSelect.appendChild(optgroup);
-    });
+    voicesByLang.forEach((groupVoices, language) => appendGroup(language, groupVoices));
+
+    // The selected voice didn't match the search; a placeholder keeps picking the first match a change
+    if (!selectedShown) {
+      const placeholder = new Option(voices.length ? `${voices.length} matching voices` : 'No matching voices', '', true, true);
+      placeholder.disabled = true;
+      this.elements.voiceSelect.prepend(placeholder);
+    }
   }
 
 
@@ -724,7 +1041,7 @@ class PopupController {
   }
   
   private async playVoicePreview(voice: VoiceInfo): Promise<void> {
-    const previewText = this.getPreviewText(voice.lang);
+    const previewText = getPreviewText(voice.lang);
     
     return new Promise((resolve, reject) => {
       const utterance = new SpeechSynthesisUtterance(previewText);
@@ -750,24 +1067,6 @@ class PopupController {
     });
   }
   
-  private getPreviewText(lang: string): string {
-    const previewTexts: Record<string, string> = {
-      'en': 'Hello! This is a preview of the selected voice. The quick brown fox jumps over the lazy dog.',
-      'es': '¡Hola! Esta es una vista previa de la voz seleccionada. El rápido zorro marrón salta sobre el perro perezoso.',
-      'fr': 'Bonjour! Ceci est un aperçu de la voix sélectionnée. Le rapide renard brun saute par-dessus le chien paresseux.',
-      'de': 'Hallo! Dies ist eine Vorschau der ausgewählten Stimme. Der schnelle braune Fuchs springt über den faulen Hund.',
-      'it': 'Ciao! Questa è un\'anteprima della voce selezionata. La rapida volpe marrone salta sopra il cane pigro.',
-      'pt': 'Olá! Esta é uma prévia da voz selecionada. A rápida raposa marrom pula sobre o cão preguiçoso.',
-      'ja': 'こんにちは！これは選択された音声のプレビューです。素早い茶色のキツネが怠け者の犬を飛び越えます。',
-      'ko': '안녕하세요! 선택한 음성의 미리보기입니다. 빠른 갈색 여우가 게으른 개를 뛰어넘습니다.',
-      'zh': '你好！这是所选语音的预览。敏捷的棕色狐狸跳过了懒狗。'
-    };
-    
-    const langPrefix = lang.split('-')[0];
-    return previewTexts[langPrefix] || previewTexts['en'];
-  }
-
-
   private showTemporaryMessage(message: string) {
     const originalText = this.elements.ttsStatus.querySelector('.status-text')!.textContent;
     const originalClass = this.elements.ttsStatus.className;
@@ -0,0 +1,271 @@
+/**
+ * @jest-environment node
+ */
+// WAV encoding uses TextEncoder, which the jsdom environment lacks
+import {
+  renderExport,
+  encodeWav,
+  decodeWav,
+  resample,
+  getExportFileName,
+  registerAudioEngine,
+  createAudioEngine,
+  AudioExportStore,
+  ExportBlock,
+} from '@common/audio-export';
+import { AudioRenderingEngine, EngineSpeakOptions, EngineVoice, RenderedAudio, TTSEngineId, canRenderAudio } from '@common/tts-engine';
+import { PronunciationLexicon, createLexiconEntry } from '@common/pronunciation-lexicon';
+
+// Renders every character as SAMPLES_PER_CHAR samples of a constant level, so lengths are predictable
+const SAMPLES_PER_CHAR = 10;
+
+class StubAudioEngine implements AudioRenderingEngine {
+  public rendered: { text: string; options: EngineSpeakOptions }[] = [];
+
+  constructor(
+    readonly id: TTSEngineId = 'web-speech',
+    private sampleRate = 1000,
+    private available = true
+  ) {}
+
+  isAvailable(): boolean {
+    return this.available;
+  }
+
+  async getVoices(): Promise<EngineVoice[]> {
+    return [];
+  }
+
+  async renderAudio(text: string, options: EngineSpeakOptions): Promise<RenderedAudio> {
+    this.rendered.push({ text, options });
+    return { sampleRate: this.sampleRate, samples: new Float32Array(text.length * SAMPLES_PER_CHAR).fill(0.5) };
+  }
+
+  speak(): void {}
+  pause(): void {}
+  resume(): void {}
+  stop(): void {}
+  isSpeaking(): boolean { return false; }
+  isPaused(): boolean { return false; }
+}
+
+const speak: EngineSpeakOptions = { rate: 1, pitch: 1, volume: 1 };
+
+const readString = (view: DataView, offset: number, length: number) =>
+  String.fromCharCode(...Array.from({ length }, (_, i) => view.getUint8(offset + i)));
+
+// Offsets of the RIFF chunks by id
+const readChunks = (buffer: ArrayBuffer): Record<string, number> => {
+  const view = new DataView(buffer);
+  const chunks: Record<string, number> = {};
+  for (let offset = 12; offset < buffer.byteLength; offset += 8 + view.getUint32(offset + 4, true)) {
+    chunks[readString(view, offset, 4)] = offset;
+  }
+  return chunks;
+};
+
+describe('renderExport', () => {
+  const blocks: ExportBlock[] = [
+    { text: 'Intro.', isHeading: false },
+    { text: 'Part one', isHeading: true },
+    { text: 'First. Second.', isHeading: false },
+  ];
+
+  test('should render each sentence and put pauses between sentences, paragraphs and after headings', async () => {
+    const engine = new StubAudioEngine();
+    const audio = await renderExport(engine, blocks, { speak });
+
+    expect(engine.rendered.map(call => call.text)).toEqual(['Intro.', 'Part one', 'First.', 'Second.']);
+    const speech = (6 + 8 + 6 + 7) * SAMPLES_PER_CHAR;
+    // 0.5 s before the heading, 1 s after it and 0.2 s between the two sentences, at 1000 Hz
+    expect(audio.samples.length).toBe(speech + 500 + 1000 + 200);
+    expect(audio.samples[0]).toBe(0.5);
+  });
+
+  test('should start a chapter at every heading, with one for the text before the first', async () => {
+    const audio = await renderExport(new StubAudioEngine(), blocks, { speak, title: 'My article' });
+
+    expect(audio.chapters).toEqual([
+      { title: 'My article', startTime: 0 },
+      { title: 'Part one', startTime: (60 + 500) / 1000 },
+    ]);
+  });
+
+  test('should leave out the extra chapter when the text starts with a heading', async () => {
+    const audio = await renderExport(new StubAudioEngine(), blocks.slice(1), { speak, title: 'My article' });
+
+    expect(audio.chapters).toEqual([{ title: 'Part one', startTime: 0 }]);
+  });
+
+  test('should apply the lexicon and speech normalization before rendering', async () => {
+    const engine = new StubAudioEngine();
+    const lexicon = new PronunciationLexicon([createLexiconEntry({ match: 'SQL', replacement: 'sequel' })]);
+
+    await renderExport(engine, [{ text: 'Dr. Codd wrote SQL.', isHeading: false, lang: 'en' }], { speak, lexicon });
+
+    expect(engine.rendered[0].text).toBe('Doctor Codd wrote sequel.');
+    expect(engine.rendered[0].options.lang).toBe('en');
+  });
+
+  test('should report progress and stop when cancelled', async () => {
+    const controller = new AbortController();
+    const progress: number[] = [];
+
+    await expect(renderExport(new StubAudioEngine(), blocks, { speak }, (rendered) => {
+      progress.push(rendered);
+      if (rendered === 2) controller.abort();
+    }, controller.signal)).rejects.toThrow('Export cancelled');
+    expect(progress).toEqual([1, 2]);
+  });
+
+  test('should refuse to export nothing', async () => {
+    await expect(renderExport(new StubAudioEngine(), [{ text: '   ', isHeading: false }], { speak }))
+      .rejects.toThrow('There is no text to export');
+  });
+});
+
+describe('resample', () => {
+  test('should convert between sample rates keeping the ends', () => {
+    const result = resample(new Float32Array([0, 1]), 1000, 2000);
+
+    expect(result.length).toBe(4);
+    expect(result[0]).toBe(0);
+    expect(result[3]).toBe(1);
+  });
+});
+
+describe('encodeWav', () => {
+  const audio: RenderedAudio = { sampleRate: 8000, samples: new Float32Array([0, 1, -1, 0.5]) };
+
+  test('should write a 16-bit mono PCM file', () => {
+    const buffer = encodeWav(audio);
+    const view = new DataView(buffer);
+
+    expect(readString(view, 0, 4)).toBe('RIFF');
+    expect(view.getUint32(4, true)).toBe(buffer.byteLength - 8);
+    expect(readString(view, 8, 4)).toBe('WAVE');
+    expect(view.getUint16(22, true)).toBe(1);
+    expect(view.getUint32(24, true)).toBe(8000);
+    expect(view.getUint16(34, true)).toBe(16);
+    expect(view.getUint32(40, true)).toBe(8);
+    expect([0, 1, 2, 3].map(i => view.getInt16(44 + i * 2, true))).toEqual([0, 32767, -32768, 16383]);
+    expect(Object.keys(readChunks(buffer))).toEqual(['fmt ', 'data']);
+  });
+
+  test('should mark chapters with cue points and labels', () => {
+    const buffer = encodeWav(audio, [{ title: 'Intro', startTime: 0 }, { title: 'Café', startTime: 0.0005 }]);
+    const view = new DataView(buffer);
+    const chunks = readChunks(buffer);
+
+    expect(Object.keys(chunks)).toEqual(['fmt ', 'data', 'cue ', 'LIST']);
+    expect(view.getUint32(chunks['cue '] + 8, true)).toBe(2);
+    // Second cue point: id 2 at sample 4
+    expect(view.getUint32(chunks['cue '] + 12 + 24, true)).toBe(2);
+    expect(view.getUint32(chunks['cue '] + 12 + 24 + 4, true)).toBe(4);
+
+    const list = chunks.LIST;
+    expect(readString(view, list + 8, 4)).toBe('adtl');
+    expect(readString(view, list + 12, 4)).toBe('labl');
+    expect(readString(view, list + 24, 5)).toBe('Intro');
+    // "Intro\0" makes the first label 10 bytes; UTF-8 text keeps its bytes
+    const second = list + 12 + 8 + 10;
+    expect(view.getUint32(second + 8, true)).toBe(2);
+    expect(new TextDecoder().decode(new Uint8Array(buffer, second + 12, 5))).toBe('Café');
+  });
+});
+
+describe('decodeWav', () => {
+  test('should read back what encodeWav writes', () => {
+    const audio = decodeWav(encodeWav({ sampleRate: 8000, samples: new Float32Array([0, -1, 0.5]) }, [{ title: 'Intro', startTime: 0 }]));
+
+    expect(audio.sampleRate).toBe(8000);
+    expect(Array.from(audio.samples)).toEqual([0, -1, expect.closeTo(0.5, 3)]);
+  });
+
+  test('should mix 8-bit stereo down to mono', () => {
+    const buffer = new ArrayBuffer(44 + 4);
+    const view = new DataView(buffer);
+    const write = (offset: number, text: string) => text.split('').forEach((char, i) => view.setUint8(offset + i, char.charCodeAt(0)));
+    write(0, 'RIFF');
+    view.setUint32(4, 40, true);
+    write(8, 'WAVE');
+    write(12, 'fmt ');
+    view.setUint32(16, 16, true);
+    view.setUint16(20, 1, true);
+    view.setUint16(22, 2, true);
+    view.setUint32(24, 1000, true);
+    view.setUint16(34, 8, true);
+    write(36, 'data');
+    view.setUint32(40, 4, true);
+    [255, 128, 0, 0].forEach((sample, i) => view.setUint8(44 + i, sample));
+
+    const audio = decodeWav(buffer);
+    expect(audio.sampleRate).toBe(1000);
+    expect(audio.samples.length).toBe(2);
+    expect(audio.samples[0]).toBeCloseTo(0.5, 2);
+    expect(audio.samples[1]).toBe(-1);
+  });
+
+  test('should refuse other files', () => {
+    expect(() => decodeWav(new TextEncoder().encode('ID3 not a wav file').buffer)).toThrow('Not a WAV file');
+  });
+});
+
+describe('getExportFileName', () => {
+  test.each([
+    ['What is: "TTS"?', 'wav', 'What is TTS.wav'],
+    ['  Spaced \n out  ', 'webm', 'Spaced out.webm'],
+    ['', 'wav', 'Reading.wav'],
+  ])('should turn %j into a file name', (title, extension, expected) => {
+    expect(getExportFileName(title, extension)).toBe(expected);
+  });
+});
+
+describe('Audio engines', () => {
+  test('should prefer the chosen engine and skip unavailable ones', () => {
+    const offline = new StubAudioEngine('chrome-tts', 1000, false);
+    const fallback = new StubAudioEngine('web-speech');
+    registerAudioEngine('chrome-tts', () => offline);
+    registerAudioEngine('web-speech', () => fallback);
+
+    expect(createAudioEngine('chrome-tts')).toBe(fallback);
+    expect(canRenderAudio(fallback)).toBe(true);
+  });
+
+  test('should pass over engines that only play through the speakers', () => {
+    const speakerOnly = new StubAudioEngine('chrome-tts');
+    Object.defineProperty(speakerOnly, 'renderAudio', { value: undefined });
+    const fallback = new StubAudioEngine('web-speech');
+    registerAudioEngine('chrome-tts', () => speakerOnly);
+    registerAudioEngine('web-speech', () => fallback);
+
+    expect(canRenderAudio(speakerOnly)).toBe(false);
+    expect(createAudioEngine('chrome-tts')).toBe(fallback);
+  });
+});
+
+describe('AudioExportStore', () => {
+  let stored: Record<string, unknown>;
+
+  beforeEach(() => {
+    stored = {};
+    (chrome.storage.local.get as jest.Mock).mockImplementation(async (key: string) => ({ [key]: stored[key] }));
+    (chrome.storage.local.set as jest.Mock).mockImplementation(async (items: Record<string, unknown>) => {
+      Object.assign(stored, items);
+    });
+  });
+
+  test('should find saved jobs by id and keep only the most recent', async () => {
+    const store = new AudioExportStore();
+    const job = { title: 'Article', url: 'https://example.com/a', scope: 'page' as const, blocks: [] };
+
+    const first = await store.save(job);
+    for (let i = 0; i < 5; i++) {
+      await store.save({ ...job, title: `Article ${i}` });
+    }
+
+    expect(await store.get(first.id)).toBeNull();
+    const last = await store.save({ ...job, title: 'Latest' });
+    expect((await store.get(last.id))?.title).toBe('Latest');
+  });
+});
@@ -0,0 +1,74 @@
+import { ChromeTTSEngine } from '@common/chrome-tts-engine';
+import { EngineEvent } from '@common/tts-engine';
+
+type SpeakCall = [string, chrome.tts.SpeakOptions, () => void];
+
+describe('ChromeTTSEngine', () => {
+  let engine: ChromeTTSEngine;
+  let events: EngineEvent[];
+
+  const lastSpeak = (): SpeakCall => {
+    const calls = (chrome.tts.speak as jest.Mock).mock.calls;
+    return calls[calls.length - 1] as SpeakCall;
+  };
+  const emit = (event: chrome.tts.TtsEvent) => lastSpeak()[1].onEvent?.(event);
+  const speak = (voiceName?: string) =>
+    engine.speak('Hello world', { voiceName, rate: 1, pitch: 1, volume: 1 }, (event) => events.push(event));
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    Object.assign(chrome.tts, { pause: jest.fn(), resume: jest.fn() });
+    (chrome.tts.getVoices as jest.Mock).mockImplementation((callback: (voices: chrome.tts.TtsVoice[]) => void) =>
+      callback([{ voiceName: 'Google US English', lang: 'en-US', remote: true }])
+    );
+    engine = new ChromeTTSEngine();
+    events = [];
+  });
+
+  test('should report start, word boundaries and end', () => {
+    speak();
+    emit({ type: 'start', charIndex: 0 });
+    emit({ type: 'word', charIndex: 6, length: 5 });
+    expect(engine.isSpeaking()).toBe(true);
+    emit({ type: 'end', charIndex: 11 });
+
+    expect(events).toEqual([
+      { type: 'start' },
+      { type: 'boundary', name: 'word', charIndex: 6, charLength: 5 },
+      { type: 'end' },
+    ]);
+    expect(engine.isSpeaking()).toBe(false);
+  });
+
+  test('should only pass voices that chrome.tts knows', async () => {
+    expect(await engine.getVoices()).toEqual([
+      { name: 'Google US English', lang: 'en-US', localService: false, default: true },
+    ]);
+
+    speak('Google US English');
+    expect(lastSpeak()[1].voiceName).toBe('Google US English');
+
+    speak('Microsoft David');
+    expect(lastSpeak()[1].voiceName).toBeUndefined();
+  });
+
+  test('should treat stopping as an interruption, not an error', () => {
+    speak();
+    emit({ type: 'start' });
+    engine.stop();
+    emit({ type: 'interrupted' });
+
+    expect(chrome.tts.stop).toHaveBeenCalled();
+    expect(events[events.length - 1]).toEqual({ type: 'interrupted' });
+  });
+
+  test('should not stay paused after stopping', () => {
+    speak();
+    engine.pause();
+    expect(engine.isPaused()).toBe(true);
+
+    engine.stop();
+    expect((chrome.tts as unknown as { resume: jest.Mock }).resume).toHaveBeenCalled();
+    expect(engine.isPaused()).toBe(false);
+  });
+});
@@ -0,0 +1,37 @@
+import { splitIdentifier, verbalizeCodeLine, verbalizeCode, getSpokenCode } from '@common/code-reading';
+
+describe('Code reading', () => {
+  test.each([
+    ['getUserName', 'get user name'],
+    ['HTTPServer', 'HTTP server'],
+    ['parseJSONResponse', 'parse JSON response'],
+    ['snake_case_name', 'snake case name'],
+    ['MAX_RETRY_COUNT', 'MAX RETRY COUNT'],
+    ['__init__', 'init'],
+  ])('should split %s into words', (identifier, words) => {
+    expect(splitIdentifier(identifier)).toBe(words);
+  });
+
+  test.each([
+    ['if (a === b && c !== d) {', 'if open paren a strictly equals b and c strictly not equals d close paren open brace'],
+    ['const add = (x, y) => x + y;', 'const add equals open paren x, y close paren arrow x plus y'],
+    ['items[0]?.value ?? 42', 'items open bracket 0 close bracket question mark dot value or else 42'],
+    ['i++', 'i plus plus'],
+  ])('should verbalize %s', (line, words) => {
+    expect(verbalizeCodeLine(line)).toBe(words);
+  });
+
+  test('should read every line as a sentence and drop empty ones', () => {
+    expect(verbalizeCode('let total = 0;\n\nreturn total;')).toBe('let total equals 0. return total.');
+  });
+
+  test('should speak code according to the policy', () => {
+    const code = 'npm install\nnpm test\n';
+
+    expect(getSpokenCode(code, 'skip')).toBeNull();
+    expect(getSpokenCode(code, 'announce')).toBe('Code block, 2 lines.');
+    expect(getSpokenCode('npm test', 'announce')).toBe('Code block, 1 line.');
+    expect(getSpokenCode(code, 'verbalize')).toBe('npm install. npm test.');
+    expect(getSpokenCode('   ', 'announce')).toBeNull();
+  });
+});
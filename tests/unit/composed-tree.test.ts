@@ -0,0 +1,64 @@
+import {
+  querySelectorAllDeep,
+  getComposedParent,
+  getAccessibleDocuments,
+  getDeepSelection,
+} from '@/content/composed-tree';
+
+function addFrame(parent: Element, html: string): HTMLIFrameElement {
+  const frame = document.createElement('iframe');
+  parent.appendChild(frame);
+  frame.contentDocument!.body.innerHTML = html;
+  return frame;
+}
+
+describe('Composed tree', () => {
+  let host: HTMLElement;
+  let frame: HTMLIFrameElement;
+
+  beforeEach(() => {
+    document.body.innerHTML = `
+      <p id="before">Before</p>
+      <x-card id="host"></x-card>
+      <div id="frame-holder"></div>
+      <p id="after">After</p>
+    `;
+    host = document.getElementById('host')!;
+    host.attachShadow({ mode: 'open' }).innerHTML = '<section><p id="shadow">In the shadow root</p></section>';
+    frame = addFrame(document.getElementById('frame-holder')!, '<p id="framed">In the frame</p>');
+  });
+
+  test('should find elements in shadow roots and frames in document order', () => {
+    expect(querySelectorAllDeep(document.body, 'p').map(p => p.id)).toEqual(['before', 'shadow', 'framed', 'after']);
+  });
+
+  test('should skip closed shadow roots', () => {
+    const closed = document.createElement('div');
+    closed.attachShadow({ mode: 'closed' }).innerHTML = '<p id="hidden">Private</p>';
+    document.body.appendChild(closed);
+
+    expect(querySelectorAllDeep(document.body, 'p').map(p => p.id)).not.toContain('hidden');
+  });
+
+  test('should walk up from shadow roots to their host and from frames to the frame', () => {
+    const section = host.shadowRoot!.querySelector('section')!;
+    const framed = frame.contentDocument!.getElementById('framed')!;
+
+    expect(getComposedParent(section)).toBe(host);
+    expect(getComposedParent(framed.ownerDocument.documentElement)).toBe(frame);
+  });
+
+  test('should list nested same-origin frame documents', () => {
+    const inner = addFrame(frame.contentDocument!.body, '<p>Nested</p>');
+
+    expect(getAccessibleDocuments(document)).toEqual([document, frame.contentDocument, inner.contentDocument]);
+  });
+
+  test('should prefer the selection inside the shadow root that was pressed', () => {
+    const shadowSelection = { rangeCount: 1, isCollapsed: false } as unknown as Selection;
+    Object.assign(host.shadowRoot!, { getSelection: () => shadowSelection });
+
+    expect(getDeepSelection(document, host.shadowRoot!.getElementById('shadow'))).toBe(shadowSelection);
+    expect(getDeepSelection(document, document.getElementById('before'))).toBe(window.getSelection());
+  });
+});
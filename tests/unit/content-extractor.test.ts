@@ -0,0 +1,325 @@
+import {
+  extractReadableBlocks,
+  findMainContainer,
+  blocksToText,
+  getLinkDensity,
+  getDeclaredLanguage,
+  getStructuredText,
+} from '@/content/content-extractor';
+
+const ARTICLE_PAGE = `
+  <header class="site-header">
+    <nav><a href="/">Home</a> <a href="/news">News</a> <a href="/about">About us and our team</a></nav>
+  </header>
+  <div id="cookie-banner">We use cookies to improve your experience on this website. Accept?</div>
+  <div class="layout">
+    <article class="post">
+      <header><h1>Understanding the Web Speech API</h1></header>
+      <p>The Web Speech API lets pages speak text aloud, with voices, rates and pitches.</p>
+      <p>Most browsers ship several voices, and some of them are provided by online services.</p>
+      <div class="share-buttons"><p>Share this article on your favourite social network</p></div>
+      <ul>
+        <li>Short item</li>
+        <li><p>A list item that wraps a paragraph of text.</p></li>
+      </ul>
+    </article>
+    <aside class="sidebar"><p>Related posts that you might also enjoy reading today.</p></aside>
+  </div>
+  <footer><p>Copyright 2025 Example Corporation. All rights reserved worldwide.</p></footer>
+`;
+
+describe('Content extraction', () => {
+  beforeEach(() => {
+    document.body.innerHTML = ARTICLE_PAGE;
+  });
+
+  test('should pick the article as the main container', () => {
+    expect(findMainContainer(document).tagName).toBe('ARTICLE');
+  });
+
+  test('should return article blocks in document order', () => {
+    const texts = extractReadableBlocks(document).map((block) => block.text);
+
+    expect(texts).toEqual([
+      'Understanding the Web Speech API',
+      'The Web Speech API lets pages speak text aloud, with voices, rates and pitches.',
+      'Most browsers ship several voices, and some of them are provided by online services.',
+      'Short item',
+      'A list item that wraps a paragraph of text.',
+    ]);
+  });
+
+  test('should keep references to the source elements', () => {
+    const [heading, firstParagraph] = extractReadableBlocks(document);
+
+    expect(heading.isHeading).toBe(true);
+    expect(heading.element.tagName).toBe('H1');
+    expect(firstParagraph.element.tagName).toBe('P');
+  });
+
+  test('should skip hidden blocks', () => {
+    document.querySelector('article p')!.setAttribute('style', 'display: none');
+
+    const texts = extractReadableBlocks(document).map((block) => block.text);
+    expect(texts).not.toContain('The Web Speech API lets pages speak text aloud, with voices, rates and pitches.');
+  });
+
+  test('should skip link-heavy blocks', () => {
+    document.body.innerHTML = `
+      <main>
+        <p>This paragraph is the actual content of the page, and should be read.</p>
+        <p><a href="/a">Previous article about voices</a> <a href="/b">Next article</a></p>
+      </main>
+    `;
+
+    const blocks = extractReadableBlocks(document);
+    expect(blocks).toHaveLength(1);
+    expect(getLinkDensity(document.querySelectorAll('p')[1])).toBeGreaterThan(0.5);
+  });
+
+  test('should fall back to the body when there is no clear container', () => {
+    document.body.innerHTML = '<div>Just a short line of text directly inside a div</div>';
+
+    const blocks = extractReadableBlocks(document);
+    expect(blocks.map((block) => block.text)).toEqual(['Just a short line of text directly inside a div']);
+  });
+
+  test('should turn blocks into separate sentences', () => {
+    const text = blocksToText(extractReadableBlocks(document).slice(0, 2));
+
+    expect(text).toBe(
+      'Understanding the Web Speech API.\n\nThe Web Speech API lets pages speak text aloud, with voices, rates and pitches.'
+    );
+  });
+
+  test('should read only inside the content selector of a site profile', () => {
+    const texts = extractReadableBlocks(document, { contentSelector: '.sidebar' }).map((block) => block.text);
+
+    expect(texts).toEqual(['Related posts that you might also enjoy reading today.']);
+  });
+
+  test('should fall back to detection when the content selector matches nothing or is invalid', () => {
+    const detected = extractReadableBlocks(document).map((block) => block.text);
+
+    expect(extractReadableBlocks(document, { contentSelector: '.missing' }).map((block) => block.text)).toEqual(detected);
+    expect(extractReadableBlocks(document, { contentSelector: '[[' }).map((block) => block.text)).toEqual(detected);
+  });
+
+  test('should skip blocks inside the exclude selector', () => {
+    const texts = extractReadableBlocks(document, { excludeSelector: 'ul' }).map((block) => block.text);
+
+    expect(texts).not.toContain('Short item');
+    expect(texts).toContain('The Web Speech API lets pages speak text aloud, with voices, rates and pitches.');
+  });
+
+  test('should note languages declared inside the page', () => {
+    document.documentElement.lang = 'en';
+    document.body.innerHTML = `
+      <article>
+        <p>This paragraph is written in the language of the whole document.</p>
+        <blockquote lang="es-ES"><p>Este párrafo está escrito en español, como dice su atributo.</p></blockquote>
+      </article>`;
+
+    expect(extractReadableBlocks(document).map((block) => block.lang)).toEqual([undefined, 'es-ES']);
+    expect(getDeclaredLanguage(document.querySelector('blockquote p')!.firstChild!)).toBe('es-ES');
+    document.documentElement.removeAttribute('lang');
+  });
+});
+
+describe('Code blocks', () => {
+  const DOCS_PAGE = `
+    <article>
+      <p>Call <code>getUserName()</code> to read the name of the signed in user.</p>
+      <pre><code><span>const name = getUserName();</span>
+<span>if (name) {</span>
+<span>  greet(name);</span>
+<span>}</span></code></pre>
+      <p>The function returns null when nobody is signed in.</p>
+    </article>`;
+
+  beforeEach(() => {
+    document.body.innerHTML = DOCS_PAGE;
+  });
+
+  test.each([
+    ['announce', ['Code block, 4 lines.']],
+    ['skip', []],
+    ['verbalize', ['const name equals get user name open paren close paren. if open paren name close paren open brace. greet open paren name close paren. close brace.']],
+  ] as const)('should %s code blocks', (codeReading, codeTexts) => {
+    const texts = extractReadableBlocks(document, { codeReading }).map((block) => block.text);
+
+    expect(texts).toEqual([
+      expect.stringContaining('to read the name of the signed in user.'),
+      ...codeTexts,
+      'The function returns null when nobody is signed in.',
+    ]);
+  });
+
+  test('should verbalize inline code only when verbalizing', () => {
+    expect(extractReadableBlocks(document, { codeReading: 'announce' })[0].text).toContain('getUserName()');
+    expect(extractReadableBlocks(document, { codeReading: 'verbalize' })[0].text)
+      .toBe('Call get user name open paren close paren to read the name of the signed in user.');
+  });
+
+  test('should apply the policy to selections that include code', () => {
+    const range = document.createRange();
+    range.setStartBefore(document.querySelector('pre')!);
+    range.setEndAfter(document.querySelectorAll('p')[1]);
+
+    expect(getStructuredText(range, { codeReading: 'announce', summarizeTables: true, imageReading: 'alt' })).toContain('Code block, 4 lines.');
+    expect(getStructuredText(range, { codeReading: 'skip', summarizeTables: true, imageReading: 'alt' })).not.toContain('greet');
+  });
+
+  test('should read a selection of nothing but code out', () => {
+    const range = document.createRange();
+    range.selectNodeContents(document.querySelectorAll('pre span')[2]);
+
+    expect(getStructuredText(range, { codeReading: 'skip', summarizeTables: true, imageReading: 'alt' })).toBe('greet open paren name close paren.');
+  });
+
+  test('should leave selections without code to the caller', () => {
+    const range = document.createRange();
+    range.selectNodeContents(document.querySelectorAll('p')[1]);
+
+    expect(getStructuredText(range, { codeReading: 'verbalize', summarizeTables: true, imageReading: 'alt' })).toBeNull();
+  });
+});
+
+describe('Tables', () => {
+  beforeEach(() => {
+    document.body.innerHTML = `
+      <article>
+        <p>Our prices changed this month, as the following table shows in detail.</p>
+        <table>
+          <caption>Prices</caption>
+          <thead><tr><th>Product</th><th>Price</th></tr></thead>
+          <tbody>
+            <tr><td>Widget</td><td>$12</td></tr>
+            <tr><td>Gadget</td><td>$30</td></tr>
+          </tbody>
+        </table>
+        <p>Prices include taxes and are valid until the end of the year.</p>
+      </article>`;
+  });
+
+  test('should read data tables row by row in page order', () => {
+    const blocks = extractReadableBlocks(document);
+
+    expect(blocks.map((block) => block.text)).toEqual([
+      'Our prices changed this month, as the following table shows in detail.',
+      'Table: Prices, 2 rows, 2 columns: Product, Price.',
+      'Product: Widget. Price: $12.',
+      'Product: Gadget. Price: $30.',
+      'Prices include taxes and are valid until the end of the year.',
+    ]);
+    expect(blocks[2].element.tagName).toBe('TR');
+  });
+
+  test('should read layout tables as ordinary blocks', () => {
+    document.body.innerHTML = `
+      <table role="presentation"><tr><td><p>A paragraph laid out with a table, long enough to be read.</p></td></tr></table>`;
+
+    expect(extractReadableBlocks(document).map((block) => block.text)).toEqual([
+      'A paragraph laid out with a table, long enough to be read.',
+    ]);
+  });
+
+  test('should read the selected rows with their headers', () => {
+    const range = document.createRange();
+    range.setStart(document.querySelectorAll('tbody td')[2], 0);
+    range.setEnd(document.querySelectorAll('tbody td')[3], 1);
+
+    expect(getStructuredText(range, { codeReading: 'announce', summarizeTables: true, imageReading: 'alt' })).toBe('Product: Gadget. Price: $30.');
+  });
+
+  test('should read tables inside a larger selection', () => {
+    const range = document.createRange();
+    range.selectNodeContents(document.querySelector('article')!);
+
+    const text = getStructuredText(range, { codeReading: 'announce', summarizeTables: false, imageReading: 'alt' })!;
+    expect(text).toContain('Prices.\n\nProduct: Widget. Price: $12.\n\nProduct: Gadget. Price: $30.');
+    expect(text).toContain('valid until the end of the year');
+  });
+});
+
+describe('Images', () => {
+  beforeEach(() => {
+    document.body.innerHTML = `
+      <article>
+        <p>The route climbs for most of the day <img src="icon.png" alt=""> before it reaches the pass.</p>
+        <figure>
+          <img src="map.png" alt="Map of the route" aria-describedby="map-details">
+          <figcaption>Day one</figcaption>
+        </figure>
+        <p id="map-details">The trail starts at the lake and ends at the hut, twelve kilometers later.</p>
+        <svg role="img" aria-label="Elevation profile"><path d="M0 0"></path></svg>
+        <img src="spacer.gif" role="presentation" alt="spacer">
+      </article>`;
+  });
+
+  test.each([
+    ['alt', ['Image: Map of the route.', 'Caption: Day one.']],
+    ['describe', ['Image: Map of the route. The trail starts at the lake and ends at the hut, twelve kilometers later.', 'Caption: Day one.']],
+  ] as const)('should read images and captions in page order with %s', (imageReading, figureTexts) => {
+    expect(extractReadableBlocks(document, { imageReading }).map((block) => block.text)).toEqual([
+      'The route climbs for most of the day before it reaches the pass.',
+      ...figureTexts,
+      'The trail starts at the lake and ends at the hut, twelve kilometers later.',
+      'Image: Elevation profile.',
+    ]);
+  });
+
+  test('should leave images out when skipped', () => {
+    const texts = extractReadableBlocks(document, { imageReading: 'skip' }).map((block) => block.text);
+
+    expect(texts.some((text) => text.startsWith('Image:') || text.startsWith('Caption:'))).toBe(false);
+  });
+
+  test('should read images and captions inside a selection', () => {
+    const range = document.createRange();
+    range.selectNode(document.querySelector('figure')!);
+
+    const text = getStructuredText(range, { codeReading: 'announce', summarizeTables: true, imageReading: 'alt' })!;
+    expect(text.trim().split(/\s*\n\n\s*/)).toEqual(['Image: Map of the route.', 'Caption: Day one.']);
+  });
+});
+
+describe('Shadow roots and frames', () => {
+  test('should read open shadow roots and same-origin frames in page order', () => {
+    document.body.innerHTML = `
+      <main>
+        <p>The introduction of the page, before any web component is rendered.</p>
+        <x-article></x-article>
+        <iframe></iframe>
+      </main>
+    `;
+    document.querySelector('x-article')!.attachShadow({ mode: 'open' }).innerHTML =
+      '<p>A paragraph rendered by a web component inside its shadow root.</p>';
+    document.querySelector('iframe')!.contentDocument!.body.innerHTML =
+      '<p>A paragraph of an internal tool that renders inside a frame.</p>';
+
+    expect(extractReadableBlocks(document).map(block => block.text)).toEqual([
+      'The introduction of the page, before any web component is rendered.',
+      'A paragraph rendered by a web component inside its shadow root.',
+      'A paragraph of an internal tool that renders inside a frame.',
+    ]);
+  });
+
+  test('should leave out shadow content of excluded or hidden hosts', () => {
+    document.body.innerHTML = `
+      <main>
+        <p>The only paragraph of this page that should be read aloud.</p>
+        <nav><x-menu></x-menu></nav>
+        <x-panel style="display: none"></x-panel>
+      </main>
+    `;
+    document.querySelector('x-menu')!.attachShadow({ mode: 'open' }).innerHTML =
+      '<p>Menu entries rendered inside the navigation component.</p>';
+    document.querySelector('x-panel')!.attachShadow({ mode: 'open' }).innerHTML =
+      '<p>A collapsed panel that the reader cannot see right now.</p>';
+
+    expect(extractReadableBlocks(document).map(block => block.text)).toEqual([
+      'The only paragraph of this page that should be read aloud.',
+    ]);
+  });
+});
@@ -0,0 +1,66 @@
+import {
+  isTextControl,
+  getEditingHost,
+  getFocusedEditable,
+  getEditableText,
+} from '@/content/editable-field';
+
+describe('Editable fields', () => {
+  beforeEach(() => {
+    document.body.innerHTML = `
+      <textarea id="notes">First draft. Second thought.</textarea>
+      <input id="title" type="text" value="A title">
+      <input id="secret" type="password" value="hunter2">
+      <div id="editor" contenteditable="true" tabindex="0">
+        <p id="line">Edited <b id="bold">here</b></p>
+        <span contenteditable="false"><i id="locked">Fixed</i></span>
+      </div>
+      <p id="plain">Not editable</p>
+    `;
+  });
+
+  test.each([
+    ['notes', true],
+    ['title', true],
+    ['secret', false],
+    ['editor', false],
+  ])('should tell whether #%s is a text control', (id, expected) => {
+    expect(isTextControl(document.getElementById(id))).toBe(expected);
+  });
+
+  test('should find the editor around a node and stop at non-editable islands', () => {
+    const editor = document.getElementById('editor');
+
+    expect(getEditingHost(document.getElementById('bold')!.firstChild)).toBe(editor);
+    expect(getEditingHost(document.getElementById('locked'))).toBeNull();
+    expect(getEditingHost(document.getElementById('plain'))).toBeNull();
+  });
+
+  test('should find a focused field inside a shadow root', () => {
+    const host = document.createElement('x-form');
+    document.body.appendChild(host);
+    host.attachShadow({ mode: 'open' }).innerHTML = '<textarea>In the shadow</textarea>';
+    const field = host.shadowRoot!.querySelector('textarea')!;
+    field.focus();
+
+    expect(getFocusedEditable(document)).toBe(field);
+  });
+
+  test('should read the selected part of a text control, or all of it', () => {
+    const notes = document.getElementById('notes') as HTMLTextAreaElement;
+
+    notes.setSelectionRange(13, 28);
+    expect(getEditableText(notes)).toEqual({ field: notes, text: 'Second thought.', start: 13 });
+
+    notes.setSelectionRange(5, 5);
+    expect(getEditableText(notes)).toEqual({ field: notes, text: 'First draft. Second thought.', start: 0 });
+  });
+
+  test('should read editors whole and skip empty fields', () => {
+    const editor = document.getElementById('editor')!;
+    const empty = document.createElement('textarea');
+
+    expect(getEditableText(editor)?.text).toMatch(/Edited here\s+Fixed/);
+    expect(getEditableText(empty)).toBeNull();
+  });
+});
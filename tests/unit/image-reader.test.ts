@@ -0,0 +1,44 @@
+import { getImageName, getImageDescription, isDecorativeImage, readImage } from '@/content/image-reader';
+
+function createImage(html: string): Element {
+  document.body.innerHTML = html;
+  return document.querySelector('[data-test]')!;
+}
+
+describe('ImageReader', () => {
+  test.each([
+    ['<img data-test src="a.png" alt="A red kite">', 'A red kite'],
+    ['<img data-test src="a.png" alt="Photo" aria-label="Kite over the hills">', 'Kite over the hills'],
+    ['<span id="l1">Kite</span><span id="l2">in flight</span><img data-test src="a.png" alt="Photo" aria-labelledby="l1 l2">', 'Kite in flight'],
+    ['<img data-test src="a.png" title="Sunset">', 'Sunset'],
+    ['<div data-test role="img" aria-label="Five stars">★★★★★</div>', 'Five stars'],
+    ['<img data-test src="a.png" alt="">', ''],
+    ['<img data-test src="a.png" role="presentation" alt="Divider">', ''],
+    ['<img data-test src="a.png">', ''],
+  ])('should name %s', (html, expected) => {
+    expect(getImageName(createImage(html))).toBe(expected);
+  });
+
+  test('should treat empty alt text and presentation roles as decorative', () => {
+    expect(isDecorativeImage(createImage('<img data-test alt="">'))).toBe(true);
+    expect(isDecorativeImage(createImage('<img data-test alt="Chart" role="none">'))).toBe(true);
+    expect(isDecorativeImage(createImage('<img data-test alt="Chart">'))).toBe(false);
+  });
+
+  test('should describe images but not repeat their caption', () => {
+    const described = createImage('<img data-test alt="Chart" aria-describedby="d"><p id="d">Sales doubled in May.</p>');
+    expect(getImageDescription(described)).toBe('Sales doubled in May.');
+
+    const captioned = createImage('<figure><img data-test alt="Chart" aria-describedby="c"><figcaption id="c">Sales</figcaption></figure>');
+    expect(getImageDescription(captioned)).toBe('');
+  });
+
+  test('should read images by policy', () => {
+    const image = createImage('<img data-test alt="Chart of sales" aria-description="Sales doubled in May">');
+
+    expect(readImage(image, 'alt')).toBe('Image: Chart of sales.');
+    expect(readImage(image, 'describe')).toBe('Image: Chart of sales. Sales doubled in May.');
+    expect(readImage(image, 'skip')).toBeNull();
+    expect(readImage(createImage('<img data-test alt="">'), 'describe')).toBeNull();
+  });
+});
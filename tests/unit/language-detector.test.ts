@@ -0,0 +1,37 @@
+import { detectLanguage, getPrimaryLanguage } from '@common/language-detector';
+
+describe('detectLanguage', () => {
+  test.each([
+    ['en', 'The weather was terrible, so we stayed at home and watched a movie with the kids.'],
+    ['es', 'El tiempo era horrible, así que nos quedamos en casa y vimos una película con los niños.'],
+    ['fr', 'Le temps était horrible, alors nous sommes restés à la maison et avons regardé un film.'],
+    ['de', 'Das Wetter war schrecklich, also blieben wir zu Hause und sahen mit den Kindern einen Film.'],
+    ['it', 'Ricordati di salvare il tuo lavoro prima di chiudere la finestra.'],
+    ['pt', 'Os engenheiros de software escrevem testes para garantir que o código funciona como esperado.'],
+    ['nl', 'Vergeet niet je werk op te slaan voordat je het venster sluit.'],
+  ])('should recognise %s text', (lang, text) => {
+    expect(detectLanguage(text)).toBe(lang);
+  });
+
+  test('should recognise languages by their script', () => {
+    expect(detectLanguage('Привет, как дела?')).toBe('ru');
+    expect(detectLanguage('Привіт, як справи? Її немає.')).toBe('uk');
+    expect(detectLanguage('これは日本語の文章です。')).toBe('ja');
+    expect(detectLanguage('这是中文。')).toBe('zh');
+    expect(detectLanguage('안녕하세요')).toBe('ko');
+    expect(detectLanguage('Καλημέρα σας')).toBe('el');
+  });
+
+  test('should not guess from too little text', () => {
+    expect(detectLanguage('Chapter 3')).toBeNull();
+    expect(detectLanguage('42 — 17')).toBeNull();
+  });
+});
+
+describe('getPrimaryLanguage', () => {
+  test('should strip region and script subtags', () => {
+    expect(getPrimaryLanguage('en-GB')).toBe('en');
+    expect(getPrimaryLanguage('zh_Hant_TW')).toBe('zh');
+    expect(getPrimaryLanguage(' PT ')).toBe('pt');
+  });
+});
@@ -0,0 +1,93 @@
+import { MiniPlayer, MiniPlayerActions, getNextRate } from '@/content/mini-player';
+
+describe('MiniPlayer', () => {
+  let actions: jest.Mocked<MiniPlayerActions>;
+  let player: MiniPlayer;
+
+  const root = () => document.querySelector('.tts-mini-player')?.shadowRoot;
+  const button = (label: string) => root()!.querySelector<HTMLButtonElement>(`button[aria-label="${label}"]`)!;
+
+  beforeEach(() => {
+    document.body.innerHTML = '';
+    document.querySelectorAll('.tts-mini-player').forEach((element) => element.remove());
+    actions = { togglePause: jest.fn(), seek: jest.fn(), setRate: jest.fn(), stop: jest.fn() };
+    player = new MiniPlayer(actions);
+  });
+
+  test('should show the current sentence and progress while reading', () => {
+    player.update('started', { isPaused: false, currentText: 'Second sentence.', sentenceIndex: 1, sentenceCount: 4, rate: 1.25 });
+
+    expect(root()!.querySelector('.text')!.textContent).toBe('Second sentence.');
+    expect((root()!.querySelector('.progress-fill') as HTMLElement).style.width).toBe('50%');
+    expect(root()!.querySelector('[role="progressbar"]')!.getAttribute('aria-valuetext')).toBe('Sentence 2 of 4');
+    expect(root()!.querySelector('.speed')!.textContent).toBe('1.25x');
+  });
+
+  test('should follow pauses and hide when reading ends', () => {
+    player.update('started', { currentText: 'Hello.' });
+    player.update('paused', { isPaused: true });
+    expect(button('Resume')).not.toBeNull();
+    expect(root()!.querySelector('.text')!.textContent).toBe('Hello.');
+
+    player.update('completed', {});
+    expect(player.isVisible()).toBe(false);
+    expect(document.querySelector('.tts-mini-player')).toBeNull();
+  });
+
+  test('should send its controls as commands', () => {
+    player.update('started', { rate: 1 });
+
+    button('Pause').click();
+    button('Next sentence').click();
+    button('Previous sentence').click();
+    button('Change speed').click();
+    button('Stop').click();
+
+    expect(actions.togglePause).toHaveBeenCalled();
+    expect(actions.seek.mock.calls).toEqual([['next'], ['previous']]);
+    expect(actions.setRate).toHaveBeenCalledWith(1.25);
+    expect(actions.stop).toHaveBeenCalled();
+  });
+
+  test('should stay closed until the next reading', () => {
+    player.update('started', {});
+    button('Hide player').click();
+
+    player.update('started', {});
+    expect(player.isVisible()).toBe(false);
+
+    player.update('stopped', {});
+    player.update('started', {});
+    expect(player.isVisible()).toBe(true);
+  });
+
+  test('should not show when turned off', () => {
+    player.setEnabled(false);
+    player.update('started', {});
+
+    expect(player.isVisible()).toBe(false);
+  });
+
+  test('should keep the place it was dragged to', () => {
+    player.update('started', {});
+    const handle = root()!.querySelector('.handle')!;
+
+    handle.dispatchEvent(new MouseEvent('pointerdown', { button: 0, clientX: 0, clientY: 0, bubbles: true }));
+    window.dispatchEvent(new MouseEvent('pointermove', { clientX: 100, clientY: 60 }));
+    window.dispatchEvent(new MouseEvent('pointerup'));
+
+    player.update('stopped', {});
+    player.update('started', {});
+    const host = document.querySelector<HTMLElement>('.tts-mini-player')!;
+    expect(host.style.left).toBe('100px');
+    expect(host.style.top).toBe('60px');
+  });
+
+  test.each([
+    [1, 1.25],
+    [1.1, 1.25],
+    [2, 0.75],
+  ])('should step the speed from %s to %s', (rate, next) => {
+    expect(getNextRate(rate)).toBe(next);
+  });
+});
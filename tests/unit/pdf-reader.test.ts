@@ -0,0 +1,32 @@
+import { getPdfReaderUrl, getPdfFileUrl, getPageNumber } from '@common/pdf-reader';
+import { extractReadableBlocks } from '@/content/content-extractor';
+
+describe('PDF reader', () => {
+  beforeAll(() => {
+    Object.assign(chrome.runtime, { getURL: (path: string) => `chrome-extension://abc/${path}` });
+  });
+
+  test('should open PDFs in the reader and tell which PDF a reader shows', () => {
+    const file = 'https://example.com/papers/report.pdf?v=2#page=3';
+    const reader = getPdfReaderUrl(file);
+
+    expect(reader.startsWith('chrome-extension://abc/pdf-viewer.html?file=')).toBe(true);
+    expect(getPdfFileUrl(reader)).toBe(file);
+    expect(getPdfFileUrl('https://example.com/pdf-viewer.html?file=x')).toBeNull();
+    expect(getPdfFileUrl(undefined)).toBeNull();
+  });
+
+  test('should find the page of the blocks extracted from the reader', () => {
+    document.body.innerHTML = `
+      <main id="pages">
+        <section class="pdf-page" data-page-number="1"><h2>Annual report</h2><p>The first page has an opening paragraph.</p></section>
+        <section class="pdf-page" data-page-number="2"><p>The second page goes on with the results.</p></section>
+      </main>
+    `;
+
+    const blocks = extractReadableBlocks(document);
+
+    expect(blocks.map(block => getPageNumber(block.element))).toEqual([1, 1, 2]);
+    expect(getPageNumber(document.body)).toBeNull();
+  });
+});
@@ -0,0 +1,106 @@
+import {
+  PronunciationLexicon,
+  LexiconStore,
+  createLexiconEntry,
+  validateLexiconEntry,
+  exportLexicon,
+  importLexicon,
+} from '@common/pronunciation-lexicon';
+
+describe('PronunciationLexicon', () => {
+  test('should replace literal text as whole words only', () => {
+    const lexicon = new PronunciationLexicon([
+      createLexiconEntry({ match: 'AI', replacement: 'A.I.' }),
+      createLexiconEntry({ match: 'C++', replacement: 'C plus plus' }),
+    ]);
+
+    expect(lexicon.apply('AI and MAIL, written in C++.')).toBe('A.I. and MAIL, written in C plus plus.');
+  });
+
+  test('should respect case sensitivity', () => {
+    const lexicon = new PronunciationLexicon([
+      createLexiconEntry({ match: 'US', replacement: 'United States', caseSensitive: true }),
+      createLexiconEntry({ match: 'nginx', replacement: 'engine x' }),
+    ]);
+
+    expect(lexicon.apply('Let us visit the US. NGINX runs here.')).toBe('Let us visit the United States. engine x runs here.');
+  });
+
+  test('should apply regex entries with groups in list order', () => {
+    const lexicon = new PronunciationLexicon([
+      createLexiconEntry({ match: '\\bv(\\d+)\\.(\\d+)\\b', replacement: 'version $1 point $2', isRegex: true }),
+      createLexiconEntry({ match: 'version', replacement: 'release' }),
+    ]);
+
+    expect(lexicon.apply('Upgrade to v2.5 now')).toBe('Upgrade to release 2 point 5 now');
+  });
+
+  test('should limit entries to their language and site', () => {
+    const lexicon = new PronunciationLexicon([
+      createLexiconEntry({ match: 'Gif', replacement: 'jif', lang: 'en' }),
+      createLexiconEntry({ match: 'PR', replacement: 'pull request', site: '*.github.com' }),
+    ]);
+
+    expect(lexicon.apply('Gif PR', { lang: 'en-GB', hostname: 'gist.github.com' })).toBe('jif pull request');
+    expect(lexicon.apply('Gif PR', { lang: 'de-DE', hostname: 'example.com' })).toBe('Gif PR');
+    expect(lexicon.apply('Gif PR')).toBe('Gif PR');
+  });
+
+  test('should skip invalid entries instead of failing', () => {
+    const lexicon = new PronunciationLexicon([
+      createLexiconEntry({ match: '(unclosed', replacement: 'x', isRegex: true }),
+      createLexiconEntry({ match: 'a*', replacement: 'x', isRegex: true }),
+    ]);
+
+    expect(lexicon.isEmpty()).toBe(true);
+    expect(lexicon.apply('(unclosed')).toBe('(unclosed');
+    expect(validateLexiconEntry({ match: '(unclosed', isRegex: true })).toMatch(/Invalid regular expression/);
+    expect(validateLexiconEntry({ match: 'a*', isRegex: true })).toBe('The pattern matches empty text');
+    expect(validateLexiconEntry({ match: '(unclosed', isRegex: false })).toBeNull();
+  });
+});
+
+describe('Lexicon import and export', () => {
+  test('should round-trip entries without their ids', () => {
+    const entries = [
+      createLexiconEntry({ match: 'SQL', replacement: 'sequel', caseSensitive: true, lang: 'en' }),
+      createLexiconEntry({ match: '#(\\d+)', replacement: 'number $1', isRegex: true, site: 'github.com' }),
+    ];
+
+    const json = exportLexicon(entries);
+    expect(JSON.parse(json).entries[0]).not.toHaveProperty('id');
+
+    const imported = importLexicon(json);
+    expect(imported.map(({ id: _id, ...entry }) => entry)).toEqual(entries.map(({ id: _id, ...entry }) => entry));
+    expect(imported[0].id).toEqual(expect.any(String));
+  });
+
+  test('should drop unusable entries and reject other files', () => {
+    const imported = importLexicon(JSON.stringify([
+      { match: 'ok', replacement: 'okay', site: 'HTTPS://Example.com/' },
+      { match: '(', replacement: 'x', isRegex: true },
+      { match: 42, replacement: 'x' },
+      null,
+    ]));
+
+    expect(imported).toHaveLength(1);
+    expect(imported[0]).toMatchObject({ match: 'ok', site: 'example.com', isRegex: false });
+    expect(() => importLexicon('{"theme": "dark"}')).toThrow('Expected a list of pronunciation entries');
+  });
+});
+
+describe('LexiconStore', () => {
+  test('should keep entries in local storage', async () => {
+    const stored: Record<string, unknown> = {};
+    (chrome.storage.local.get as jest.Mock).mockImplementation(async (key: string) => ({ [key]: stored[key] }));
+    (chrome.storage.local.set as jest.Mock).mockImplementation(async (items: Record<string, unknown>) => {
+      Object.assign(stored, items);
+    });
+    const store = new LexiconStore();
+
+    expect(await store.getAll()).toEqual([]);
+    const entry = createLexiconEntry({ match: 'TTS', replacement: 'text to speech' });
+    await store.saveAll([entry]);
+    expect(await store.getAll()).toEqual([entry]);
+  });
+});
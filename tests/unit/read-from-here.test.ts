@@ -0,0 +1,46 @@
+import { ReadFromHereButton } from '@/content/read-from-here';
+
+describe('ReadFromHereButton', () => {
+  let onActivate: jest.Mock;
+  let button: ReadFromHereButton;
+
+  beforeEach(() => {
+    document.body.innerHTML = '<p id="first">First paragraph</p><p id="second">Second paragraph</p>';
+    onActivate = jest.fn();
+    button = new ReadFromHereButton(onActivate);
+  });
+
+  afterEach(() => {
+    button.destroy();
+  });
+
+  test('should not touch the page until it is shown', () => {
+    expect(document.querySelector('.tts-read-from-here')).toBeNull();
+    expect(button.isVisible()).toBe(false);
+  });
+
+  test('should mark the hovered block and move between blocks', () => {
+    const first = document.getElementById('first')!;
+    const second = document.getElementById('second')!;
+
+    button.show(first);
+    expect(button.isVisible()).toBe(true);
+    expect(first.classList.contains('tts-read-target')).toBe(true);
+
+    button.show(second);
+    expect(first.classList.contains('tts-read-target')).toBe(false);
+    expect(second.classList.contains('tts-read-target')).toBe(true);
+    expect(document.querySelectorAll('.tts-read-from-here')).toHaveLength(1);
+  });
+
+  test('should activate with the current block and hide', () => {
+    const second = document.getElementById('second')!;
+    button.show(second);
+
+    (document.querySelector('.tts-read-from-here') as HTMLButtonElement).click();
+
+    expect(onActivate).toHaveBeenCalledWith(second);
+    expect(button.isVisible()).toBe(false);
+    expect(second.classList.contains('tts-read-target')).toBe(false);
+  });
+});
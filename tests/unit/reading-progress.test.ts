@@ -0,0 +1,71 @@
+import { ReadingProgressStore, ReadingProgressEntry, normalizeUrl, fingerprintText } from '@common/reading-progress';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const entry = (overrides: Partial<ReadingProgressEntry> = {}): ReadingProgressEntry => ({
+  fingerprint: fingerprintText('Some article text'),
+  blockIndex: 4,
+  sentenceIndex: 2,
+  blockCount: 10,
+  title: 'Article',
+  updatedAt: Date.now(),
+  ...overrides,
+});
+
+describe('normalizeUrl', () => {
+  test('should ignore fragments, tracking parameters and parameter order', () => {
+    expect(normalizeUrl('https://Example.com/post/?b=2&utm_source=x&a=1#section-3'))
+      .toBe(normalizeUrl('https://example.com/post?a=1&b=2'));
+  });
+
+  test('should keep parameters that select different content', () => {
+    expect(normalizeUrl('https://example.com/post?id=1')).not.toBe(normalizeUrl('https://example.com/post?id=2'));
+  });
+});
+
+describe('fingerprintText', () => {
+  test('should ignore whitespace and case differences', () => {
+    expect(fingerprintText('Hello   World\n')).toBe(fingerprintText('hello world'));
+    expect(fingerprintText('Hello world')).not.toBe(fingerprintText('Hello there'));
+  });
+});
+
+describe('ReadingProgressStore', () => {
+  let stored: Record<string, unknown>;
+  let store: ReadingProgressStore;
+
+  beforeEach(() => {
+    stored = {};
+    (chrome.storage.local.get as jest.Mock).mockImplementation(async (key: string) => ({ [key]: stored[key] }));
+    (chrome.storage.local.set as jest.Mock).mockImplementation(async (items: Record<string, unknown>) => {
+      Object.assign(stored, items);
+    });
+    store = new ReadingProgressStore();
+  });
+
+  test('should return the saved position for the same page', async () => {
+    await store.save('https://example.com/post#top', entry());
+
+    expect(await store.get('https://example.com/post')).toEqual(entry({ updatedAt: expect.any(Number) }));
+  });
+
+  test('should not offer a position when the page content changed', async () => {
+    await store.save('https://example.com/post', entry());
+
+    expect(await store.get('https://example.com/post', fingerprintText('Rewritten article'))).toBeNull();
+    expect(await store.get('https://example.com/post', fingerprintText('Some article text'))).not.toBeNull();
+  });
+
+  test('should expire old positions', async () => {
+    await store.save('https://example.com/old', entry({ updatedAt: Date.now() - 31 * DAY_MS }));
+
+    expect(await store.get('https://example.com/old')).toBeNull();
+  });
+
+  test('should forget a finished page', async () => {
+    await store.save('https://example.com/post', entry());
+    await store.remove('https://example.com/post');
+
+    expect(await store.get('https://example.com/post')).toBeNull();
+  });
+});
@@ -0,0 +1,142 @@
+import { ReadingQueue, NewQueueItem, parseQueueItem } from '@common/reading-queue';
+
+const page = (title: string): NewQueueItem => ({ kind: 'page', title, url: `https://example.com/${title}` });
+
+describe('ReadingQueue', () => {
+  let queue: ReadingQueue;
+
+  beforeEach(async () => {
+    (chrome.storage.local.get as jest.Mock).mockResolvedValue({});
+    (chrome.storage.local.set as jest.Mock).mockResolvedValue(undefined);
+    (chrome.runtime.sendMessage as jest.Mock).mockReturnValue(Promise.resolve());
+
+    queue = new ReadingQueue();
+    await queue.init();
+  });
+
+  const titles = () => queue.getState().items.map(item => item.title);
+
+  test('should add items in order and persist them', async () => {
+    await queue.add(page('a'));
+    await queue.add({ kind: 'selection', title: 'Quote', url: 'https://example.com/a', text: 'Quote', tabId: 3 });
+
+    expect(titles()).toEqual(['a', 'Quote']);
+    expect(chrome.storage.local.set).toHaveBeenLastCalledWith({
+      readingQueue: expect.objectContaining({ items: expect.any(Array), isPlaying: false }),
+    });
+  });
+
+  test('should reorder and remove items', async () => {
+    const a = await queue.add(page('a'));
+    await queue.add(page('b'));
+    const c = await queue.add(page('c'));
+
+    await queue.move(c.id, 0);
+    expect(titles()).toEqual(['c', 'a', 'b']);
+
+    await queue.remove(a.id);
+    expect(titles()).toEqual(['c', 'b']);
+  });
+
+  test('should drop finished items and advance to the next one', async () => {
+    await queue.add(page('a'));
+    await queue.add(page('b'));
+
+    expect((await queue.start())?.title).toBe('a');
+    expect((await queue.complete())?.title).toBe('b');
+    expect(titles()).toEqual(['b']);
+
+    expect(await queue.complete()).toBeNull();
+    expect(queue.getState()).toEqual({ items: [], currentId: null, isPlaying: false });
+  });
+
+  test('should keep skipped items', async () => {
+    await queue.add(page('a'));
+    const b = await queue.add(page('b'));
+
+    await queue.start();
+    expect((await queue.skip())?.id).toBe(b.id);
+    expect(titles()).toEqual(['a', 'b']);
+
+    expect(await queue.skip()).toBeNull();
+    expect(queue.isActive()).toBe(false);
+  });
+
+  test('should stop playing when the current item is removed', async () => {
+    const a = await queue.add(page('a'));
+    await queue.start(a.id);
+
+    await queue.remove(a.id);
+    expect(queue.isActive()).toBe(false);
+    expect(queue.getCurrentItem()).toBeNull();
+  });
+
+  test('should restore the stored queue', async () => {
+    const stored = {
+      items: [{ id: 'queue-1', kind: 'url', title: 'Link', url: 'https://example.com', addedAt: 1 }],
+      currentId: 'queue-1',
+      isPlaying: true,
+    };
+    (chrome.storage.local.get as jest.Mock).mockResolvedValue({ readingQueue: stored });
+
+    const restored = new ReadingQueue();
+    await restored.init();
+
+    expect(restored.getState()).toEqual(stored);
+    expect(restored.getCurrentItem()?.title).toBe('Link');
+  });
+
+  test('should wait for the stored queue before changing it', async () => {
+    let resolveStored!: (value: unknown) => void;
+    (chrome.storage.local.get as jest.Mock).mockReturnValue(new Promise(resolve => { resolveStored = resolve; }));
+    const waking = new ReadingQueue();
+    waking.init();
+
+    const adding = waking.add(page('new'));
+    resolveStored({
+      readingQueue: { items: [{ id: 'queue-1', kind: 'page', title: 'old', url: 'https://example.com/old', addedAt: 1 }], currentId: null, isPlaying: false },
+    });
+    await adding;
+
+    expect(waking.getState().items.map(item => item.title)).toEqual(['old', 'new']);
+    expect((chrome.storage.local.set as jest.Mock).mock.lastCall[0].readingQueue.items).toHaveLength(2);
+  });
+
+  test('should keep the playing item\'s tab across restarts', async () => {
+    await queue.add(page('a'));
+    await queue.start();
+    await queue.setTabId(7);
+
+    const saved = (chrome.storage.local.set as jest.Mock).mock.lastCall[0];
+    expect(saved.readingQueue.tabId).toBe(7);
+
+    (chrome.storage.local.get as jest.Mock).mockResolvedValue(saved);
+    const restored = new ReadingQueue();
+    await restored.init();
+    expect(restored.getTabId()).toBe(7);
+
+    await restored.stop();
+    expect(restored.getTabId()).toBeNull();
+  });
+});
+
+describe('parseQueueItem', () => {
+  test('should accept pages, links and selections', () => {
+    expect(parseQueueItem({ kind: 'page', url: 'https://example.com/a', title: 'A', tabId: 3 }))
+      .toEqual({ kind: 'page', url: 'https://example.com/a', title: 'A', tabId: 3 });
+    expect(parseQueueItem({ kind: 'selection', url: 'https://example.com/a', text: 'Quote' }))
+      .toEqual({ kind: 'selection', url: 'https://example.com/a', title: 'https://example.com/a', text: 'Quote' });
+  });
+
+  test.each([
+    ['no payload', undefined],
+    ['an unknown kind', { kind: 'video', url: 'https://example.com' }],
+    ['a missing URL', { kind: 'page', title: 'A' }],
+    ['a script URL', { kind: 'url', url: 'javascript:alert(1)' }],
+    ['a selection without text', { kind: 'selection', url: 'https://example.com', text: ' ' }],
+    ['text that is not a string', { kind: 'page', url: 'https://example.com', text: 42 }],
+  ])('should reject %s', (_case, payload) => {
+    expect(parseQueueItem(payload)).toBeNull();
+  });
+});
+
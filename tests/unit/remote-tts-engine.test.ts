@@ -0,0 +1,240 @@
+/**
+ * @jest-environment node
+ */
+// Runs against a local HTTP server with Node's fetch, which the jsdom environment lacks
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import {
+  RemoteTTSEngine,
+  RemoteEngineConfig,
+  AudioPlayer,
+  parseRemoteVoices,
+  resolveEndpoint,
+  fetchRemoteVoices
+} from '@common/remote-tts-engine';
+import { encodeWav } from '@common/audio-export';
+import { EngineEvent, EngineEventListener, EngineSpeakOptions, EngineVoice, TTSEngine } from '@common/tts-engine';
+
+interface SpeechRequest {
+  authorization?: string;
+  body: { model: string; input: string; voice?: string; speed: number; response_format: string };
+}
+
+class FakePlayer implements AudioPlayer {
+  src = '';
+  volume = 1;
+  onended: AudioPlayer['onended'] = null;
+  onerror: AudioPlayer['onerror'] = null;
+  play = jest.fn(async () => undefined);
+  pause = jest.fn();
+
+  finish() {
+    this.onended?.call(this as unknown as HTMLAudioElement, new Event('ended'));
+  }
+
+  fail() {
+    this.onerror?.call(this as unknown as HTMLAudioElement, new Event('error'));
+  }
+}
+
+class StubFallback implements TTSEngine {
+  readonly id = 'web-speech' as const;
+  public spoken: { text: string; options: EngineSpeakOptions; onEvent: EngineEventListener }[] = [];
+
+  isAvailable(): boolean { return true; }
+  async getVoices(): Promise<EngineVoice[]> { return []; }
+  speak(text: string, options: EngineSpeakOptions, onEvent: EngineEventListener): void {
+    this.spoken.push({ text, options, onEvent });
+  }
+  pause(): void {}
+  resume(): void {}
+  stop(): void {}
+  isSpeaking(): boolean { return false; }
+  isPaused(): boolean { return false; }
+}
+
+const speak: EngineSpeakOptions = { rate: 1.5, pitch: 1, volume: 0.8 };
+
+const waitFor = async (condition: () => boolean) => {
+  for (let i = 0; i < 100 && !condition(); i++) {
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+  expect(condition()).toBe(true);
+};
+
+describe('parseRemoteVoices', () => {
+  test.each([
+    ['a list of names', ['alloy', 'echo'], ['alloy', 'echo']],
+    ['objects under "voices"', { voices: [{ voice_id: 'af_bella', language: 'en-US' }, { name: 'bm_george' }] }, ['af_bella', 'bm_george']],
+    ['objects under "data"', { data: [{ id: 'nova' }, { id: 'nova' }, { label: 'no id' }] }, ['nova']],
+    ['anything else', { error: 'nope' }, []],
+  ])('should read %s', (_shape, json, names) => {
+    expect(parseRemoteVoices(json).map(voice => voice.name)).toEqual(names);
+  });
+
+  test('should keep the language and mark voices as remote', () => {
+    expect(parseRemoteVoices([{ id: 'af_bella', lang: 'en-US' }])).toEqual([
+      { name: 'af_bella', lang: 'en-US', localService: false, default: true },
+    ]);
+  });
+});
+
+describe('resolveEndpoint', () => {
+  test.each([
+    ['http://localhost:8880/v1/', 'audio/voices', 'http://localhost:8880/v1/audio/voices'],
+    ['http://localhost:8880/v1', '/audio/speech', 'http://localhost:8880/v1/audio/speech'],
+    ['http://localhost:8880/v1', 'https://voices.example.com/list', 'https://voices.example.com/list'],
+  ])('should resolve %s + %s', (baseUrl, path, expected) => {
+    expect(resolveEndpoint(baseUrl, path)).toBe(expected);
+  });
+});
+
+describe('RemoteTTSEngine', () => {
+  let server: Server;
+  let config: RemoteEngineConfig;
+  let requests: SpeechRequest[];
+  let failSpeech: boolean;
+  let voicesAuthorization: string | undefined;
+  let players: FakePlayer[];
+  let fallback: StubFallback;
+  let engine: RemoteTTSEngine;
+  let events: EngineEvent[];
+
+  const wav = Buffer.from(encodeWav({ sampleRate: 8000, samples: new Float32Array([0, 0.5, -0.5, 0]) }));
+
+  const handle = (request: IncomingMessage, response: ServerResponse) => {
+    if (request.url === '/v1/audio/voices') {
+      voicesAuthorization = request.headers.authorization;
+      response.setHeader('Content-Type', 'application/json');
+      response.end(JSON.stringify({ voices: [{ id: 'af_bella', language: 'en-US' }, { id: 'bm_george', language: 'en-GB' }] }));
+      return;
+    }
+
+    let body = '';
+    request.on('data', chunk => { body += chunk; });
+    request.on('end', () => {
+      requests.push({ authorization: request.headers.authorization, body: JSON.parse(body) });
+      if (failSpeech) {
+        response.statusCode = 500;
+        response.end('model not loaded');
+      } else {
+        response.setHeader('Content-Type', 'audio/wav');
+        response.end(wav);
+      }
+    });
+  };
+
+  beforeAll(async () => {
+    server = createServer(handle);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    config = { baseUrl: `http://127.0.0.1:${port}/v1`, apiKey: 'secret', model: 'kokoro', voicesEndpoint: 'audio/voices' };
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    failSpeech = false;
+    players = [];
+    fallback = new StubFallback();
+    engine = new RemoteTTSEngine(config, fallback, () => {
+      const player = new FakePlayer();
+      players.push(player);
+      return player;
+    });
+    events = [];
+  });
+
+  test('should list the server voices with the API key', async () => {
+    expect((await fetchRemoteVoices(config)).map(voice => voice.lang)).toEqual(['en-US', 'en-GB']);
+    expect(voicesAuthorization).toBe('Bearer secret');
+    expect((await engine.getVoices()).map(voice => voice.name)).toEqual(['af_bella', 'bm_george']);
+  });
+
+  test('should fetch each sentence and play it through an audio element', async () => {
+    engine.speak('Hello there.', { ...speak, voiceName: 'bm_george' }, event => events.push(event));
+    await waitFor(() => events.length > 0);
+
+    expect(requests).toEqual([{
+      authorization: 'Bearer secret',
+      body: { model: 'kokoro', input: 'Hello there.', voice: 'bm_george', speed: 1.5, response_format: 'mp3' },
+    }]);
+    expect(players[0].src).toMatch(/^blob:/);
+    expect(players[0].volume).toBe(0.8);
+    expect(events).toEqual([{ type: 'start' }]);
+    expect(engine.isSpeaking()).toBe(true);
+
+    players[0].finish();
+    expect(events).toEqual([{ type: 'start' }, { type: 'end' }]);
+    expect(engine.isSpeaking()).toBe(false);
+  });
+
+  test('should use the first server voice for voices it does not have', async () => {
+    engine.speak('Hello.', { ...speak, voiceName: 'Google US English' }, event => events.push(event));
+    await waitFor(() => events.length > 0);
+
+    expect(requests[0].body.voice).toBe('af_bella');
+  });
+
+  test('should request prefetched sentences only once', async () => {
+    engine.prefetch([{ text: 'Second.', options: speak }, { text: 'Third.', options: speak }]);
+    await waitFor(() => requests.length === 2);
+
+    engine.speak('Second.', speak, event => events.push(event));
+    await waitFor(() => events.length > 0);
+
+    expect(requests.map(request => request.body.input)).toEqual(['Second.', 'Third.']);
+  });
+
+  test('should report stopping as an interruption', async () => {
+    engine.speak('Hello.', speak, event => events.push(event));
+    await waitFor(() => events.length > 0);
+
+    engine.stop();
+    expect(events).toEqual([{ type: 'start' }, { type: 'interrupted' }]);
+    expect(players[0].pause).toHaveBeenCalled();
+  });
+
+  test('should read with the fallback engine when the server fails, and skip the server for a while', async () => {
+    failSpeech = true;
+    engine.speak('Hello.', { ...speak, voiceName: 'af_bella' }, event => events.push(event));
+    await waitFor(() => fallback.spoken.length > 0);
+
+    expect(fallback.spoken[0].text).toBe('Hello.');
+    expect(fallback.spoken[0].options.voiceName).toBeUndefined();
+    fallback.spoken[0].onEvent({ type: 'end' });
+    expect(events).toEqual([{ type: 'end' }]);
+
+    engine.speak('Next.', speak, event => events.push(event));
+    expect(fallback.spoken[1].text).toBe('Next.');
+    expect(requests).toHaveLength(1);
+  });
+
+  test('should read the sentence with the fallback engine when its audio cannot be played', async () => {
+    engine.speak('Hello.', { ...speak, voiceName: 'af_bella' }, event => events.push(event));
+    await waitFor(() => players.length > 0);
+
+    players[0].fail();
+    expect(fallback.spoken.map(spoken => spoken.text)).toEqual(['Hello.']);
+    fallback.spoken[0].onEvent({ type: 'end' });
+    expect(events).not.toContainEqual(expect.objectContaining({ type: 'error' }));
+    expect(events[events.length - 1]).toEqual({ type: 'end' });
+  });
+
+  test('should report an error without a server or fallback', () => {
+    new RemoteTTSEngine({ ...config, baseUrl: '' }).speak('Hello.', speak, event => events.push(event));
+
+    expect(events).toEqual([{ type: 'error', error: 'The speech server is not available' }]);
+  });
+
+  test('should render sentences to samples for exporting', async () => {
+    const audio = await engine.renderAudio('Hello.', speak);
+
+    expect(requests[0].body.response_format).toBe('wav');
+    expect(audio.sampleRate).toBe(8000);
+    expect(Array.from(audio.samples)).toEqual([0, expect.closeTo(0.5, 3), -0.5, 0]);
+  });
+});
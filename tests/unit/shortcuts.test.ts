@@ -0,0 +1,109 @@
+import {
+  ShortcutStore,
+  DEFAULT_SHORTCUTS,
+  getShortcutFromEvent,
+  normalizeShortcut,
+  validateShortcut,
+  resolveShortcuts,
+  matchShortcut,
+  findShortcutConflicts,
+  formatShortcut,
+} from '@common/shortcuts';
+
+function keyEvent(key: string, code: string, modifiers: Partial<Record<'ctrlKey' | 'altKey' | 'shiftKey' | 'metaKey', boolean>> = {}) {
+  return { key, code, ctrlKey: false, altKey: false, shiftKey: false, metaKey: false, ...modifiers };
+}
+
+describe('Reading key presses', () => {
+  test.each([
+    [keyEvent('S', 'KeyS', { ctrlKey: true, shiftKey: true }), 'Ctrl+Shift+S'],
+    // Alt changes the character on Macs and other layouts; the key position still says "S"
+    [keyEvent('ß', 'KeyS', { altKey: true }), 'Alt+S'],
+    [keyEvent(' ', 'Space', { ctrlKey: true, shiftKey: true }), 'Ctrl+Shift+Space'],
+    [keyEvent('ArrowLeft', 'ArrowLeft', { shiftKey: true, ctrlKey: true }), 'Ctrl+Shift+ArrowLeft'],
+    [keyEvent('!', 'Digit1', { metaKey: true, shiftKey: true }), 'Shift+Meta+1'],
+    [keyEvent('Shift', 'ShiftLeft', { shiftKey: true }), null],
+  ])('should turn a key press into its shortcut (%#)', (event, expected) => {
+    expect(getShortcutFromEvent(event)).toBe(expected);
+  });
+
+  test.each([
+    ['shift + ctrl + s', 'Ctrl+Shift+S'],
+    ['Cmd+Option+space', 'Alt+Meta+Space'],
+    ['Ctrl+Left', 'Ctrl+ArrowLeft'],
+    ['Ctrl+Shift', null],
+    ['Ctrl+A+B', null],
+  ])('should normalize "%s"', (text, expected) => {
+    expect(normalizeShortcut(text)).toBe(expected);
+  });
+
+  test('should require a modifier that does not type text', () => {
+    expect(validateShortcut('Shift+S')).toMatch(/Needs Ctrl, Alt or Cmd/);
+    expect(validateShortcut('S')).not.toBeNull();
+    expect(validateShortcut('Alt+S')).toBeNull();
+  });
+
+  test('should match key presses against the configured shortcuts only', () => {
+    const shortcuts = { ...DEFAULT_SHORTCUTS, readPage: 'Alt+R', stop: '' };
+
+    expect(matchShortcut(keyEvent('r', 'KeyR', { altKey: true }), shortcuts)).toBe('readPage');
+    expect(matchShortcut(keyEvent('E', 'KeyE', { ctrlKey: true, shiftKey: true }), shortcuts)).toBeNull();
+    expect(matchShortcut(keyEvent('X', 'KeyX', { ctrlKey: true, shiftKey: true }), shortcuts)).toBeNull();
+    expect(matchShortcut(keyEvent('ArrowDown', 'ArrowDown', { ctrlKey: true, shiftKey: true }), shortcuts)).toBe('nextParagraph');
+  });
+});
+
+describe('Shortcut settings', () => {
+  test('should keep defaults for missing or invalid entries and allow turning shortcuts off', () => {
+    expect(resolveShortcuts(undefined)).toEqual(DEFAULT_SHORTCUTS);
+    expect(resolveShortcuts({ readPage: 'alt+shift+e', stop: '', togglePause: 'P', unknown: 'Ctrl+U' })).toEqual({
+      ...DEFAULT_SHORTCUTS,
+      readPage: 'Alt+Shift+E',
+      stop: '',
+    });
+  });
+
+  test('should not take over the browser\'s hard reload by default', () => {
+    expect(Object.values(DEFAULT_SHORTCUTS)).not.toContain('Ctrl+Shift+R');
+    expect(findShortcutConflicts(DEFAULT_SHORTCUTS)).toEqual({});
+  });
+
+  test('should report shortcuts used twice, reserved by the browser or taken by a browser-wide command', () => {
+    const conflicts = findShortcutConflicts(
+      { ...DEFAULT_SHORTCUTS, readPage: 'Ctrl+Shift+R', stop: 'Ctrl+Shift+S', togglePause: 'Alt+Shift+P', nextSentence: 'Meta+T' },
+      [{ shortcut: 'Alt+Shift+P', description: 'Pause or resume reading' }]
+    );
+
+    expect(conflicts).toEqual({
+      readSelection: 'Also used for "Stop"',
+      stop: 'Also used for "Read selected text"',
+      readPage: 'Used by the browser (hard reload)',
+      togglePause: 'Taken by the browser-wide shortcut for "Pause or resume reading"',
+      nextSentence: 'Used by the browser (new tab)',
+    });
+  });
+
+  test('should display arrows and Cmd', () => {
+    expect(formatShortcut('Shift+Meta+ArrowLeft')).toBe('Shift+Cmd+←');
+  });
+});
+
+describe('ShortcutStore', () => {
+  let stored: Record<string, unknown>;
+
+  beforeEach(() => {
+    stored = {};
+    (chrome.storage.sync.get as jest.Mock).mockImplementation(async (key: string) => ({ [key]: stored[key] }));
+    (chrome.storage.sync.set as jest.Mock).mockImplementation(async (items: Record<string, unknown>) => {
+      Object.assign(stored, items);
+    });
+  });
+
+  test('should save shortcuts and read them back over the defaults', async () => {
+    const store = new ShortcutStore();
+    expect(await store.get()).toEqual(DEFAULT_SHORTCUTS);
+
+    await store.save({ ...DEFAULT_SHORTCUTS, readSelection: 'Alt+S' });
+    expect((await store.get()).readSelection).toBe('Alt+S');
+  });
+});
@@ -0,0 +1,79 @@
+import {
+  SiteProfileStore,
+  normalizeHostPattern,
+  matchesHostPattern,
+  applySiteProfile,
+} from '@common/site-profiles';
+
+const DEFAULTS = { rate: 1, pitch: 1, volume: 1 };
+
+describe('Host patterns', () => {
+  test('should normalize URLs and case to a bare hostname', () => {
+    expect(normalizeHostPattern(' https://Wiki.Example.com:8080/page?x=1 ')).toBe('wiki.example.com');
+    expect(normalizeHostPattern('*.Example.com/')).toBe('*.example.com');
+    expect(normalizeHostPattern('*')).toBe('');
+  });
+
+  test('should match wildcards against the domain and its subdomains only', () => {
+    expect(matchesHostPattern('*.example.com', 'example.com')).toBe(true);
+    expect(matchesHostPattern('*.example.com', 'wiki.example.com')).toBe(true);
+    expect(matchesHostPattern('*.example.com', 'notexample.com')).toBe(false);
+    expect(matchesHostPattern('example.com', 'wiki.example.com')).toBe(false);
+  });
+});
+
+describe('applySiteProfile', () => {
+  test('should override only the fields the profile sets', () => {
+    expect(applySiteProfile(DEFAULTS, { pattern: 'example.com', rate: 1.5, contentSelector: '.post-body', updatedAt: 0 }))
+      .toEqual({
+        rate: 1.5,
+        pitch: 1,
+        volume: 1,
+        voice: undefined,
+        contentSelector: '.post-body',
+        excludeSelector: undefined,
+        profilePattern: 'example.com',
+      });
+    expect(applySiteProfile(DEFAULTS, null)).toEqual(DEFAULTS);
+  });
+});
+
+describe('SiteProfileStore', () => {
+  let stored: Record<string, unknown>;
+  let store: SiteProfileStore;
+
+  beforeEach(() => {
+    stored = {};
+    (chrome.storage.sync.get as jest.Mock).mockImplementation(async (key: string) => ({ [key]: stored[key] }));
+    (chrome.storage.sync.set as jest.Mock).mockImplementation(async (items: Record<string, unknown>) => {
+      Object.assign(stored, items);
+    });
+    store = new SiteProfileStore();
+  });
+
+  test('should prefer the most specific matching profile', async () => {
+    await store.save('*.example.com', { rate: 1.2 });
+    await store.save('wiki.example.com', { rate: 0.8 });
+
+    expect((await store.findForUrl('https://wiki.example.com/Page'))?.rate).toBe(0.8);
+    expect((await store.findForUrl('https://blog.example.com/post'))?.rate).toBe(1.2);
+    expect(await store.findForUrl('https://other.org/')).toBeNull();
+  });
+
+  test('should update an existing profile without losing its other fields', async () => {
+    await store.save('https://wiki.example.com/', { contentSelector: '.post-body' });
+    await store.save('wiki.example.com', { voice: 'Alice', rate: 1.4 });
+
+    const profiles = await store.getAll();
+    expect(profiles).toHaveLength(1);
+    expect(profiles[0]).toMatchObject({ pattern: 'wiki.example.com', contentSelector: '.post-body', voice: 'Alice', rate: 1.4 });
+  });
+
+  test('should remove profiles and reject empty patterns', async () => {
+    await store.save('example.com', { rate: 1.1 });
+    await store.remove('EXAMPLE.com');
+
+    expect(await store.getAll()).toEqual([]);
+    await expect(store.save('  ', {})).rejects.toThrow('Invalid site pattern');
+  });
+});
@@ -0,0 +1,205 @@
+import { SpeechHighlighter, TextMap } from '@/content/speech-highlighter';
+import { SpeechBoundaryEvent } from '@common/speech-synthesizer';
+
+const wordEvent = (chunkText: string, word: string, from = 0): SpeechBoundaryEvent => ({
+  chunkIndex: 0,
+  chunkText,
+  charIndex: chunkText.indexOf(word, from),
+  charLength: word.length,
+  name: 'word',
+});
+
+describe('TextMap', () => {
+  beforeEach(() => {
+    document.body.innerHTML = `
+      <p id="first">The quick <b>brown</b> fox</p>
+      <script>var brown = 1;</script>
+      <p id="second">jumps over the lazy dog</p>
+    `;
+  });
+
+  test('should find whole words only', () => {
+    const map = new TextMap(document.body);
+
+    const index = map.findWord('the', 0);
+    expect(index).toBeGreaterThanOrEqual(0);
+    // The next match is in the second paragraph
+    const next = map.findWord('the', index + 3);
+    expect(map.locate(next)?.node.parentElement?.id).toBe('second');
+  });
+
+  test('should ignore script content', () => {
+    const map = new TextMap(document.body);
+    const index = map.findWord('brown', 0);
+
+    expect(map.locate(index)?.node.parentElement?.tagName).toBe('B');
+    expect(map.findWord('var', 0)).toBe(-1);
+  });
+
+  test('should respect the lookahead window', () => {
+    const map = new TextMap(document.body);
+    expect(map.findWord('dog', 0, 5)).toBe(-1);
+  });
+
+  test('should resolve offsets for DOM positions', () => {
+    const map = new TextMap(document.body);
+    const second = document.getElementById('second')!;
+
+    const offset = map.offsetOf(second.firstChild!, 6);
+    expect(map.findWord('over', offset)).toBe(offset);
+  });
+});
+
+describe('SpeechHighlighter', () => {
+  let highlighter: SpeechHighlighter;
+
+  beforeEach(() => {
+    document.body.innerHTML = `
+      <p id="first">Dr. Smith reads the news.</p>
+      <p id="second">Then the weather.</p>
+    `;
+    highlighter = new SpeechHighlighter();
+  });
+
+  test('should wrap the spoken word and restore the original text', () => {
+    const chunk = 'Doctor Smith reads the news.';
+    highlighter.start({ root: document.body });
+
+    highlighter.handleBoundary(wordEvent(chunk, 'Smith'));
+
+    const mark = document.querySelector('.tts-word-highlight');
+    expect(mark?.textContent).toBe('Smith');
+    expect(document.getElementById('first')?.classList.contains('tts-speaking')).toBe(true);
+
+    highlighter.stop();
+    expect(document.querySelector('.tts-word-highlight')).toBeNull();
+    expect(document.getElementById('first')?.textContent).toBe('Dr. Smith reads the news.');
+    expect(document.getElementById('first')?.childNodes.length).toBe(1);
+  });
+
+  test('should keep its place when a word cannot be found', () => {
+    const chunk = 'Doctor Smith reads the news.';
+    highlighter.start({ root: document.body });
+
+    highlighter.handleBoundary(wordEvent(chunk, 'Doctor'));
+    expect(document.querySelector('.tts-word-highlight')).toBeNull();
+
+    highlighter.handleBoundary(wordEvent(chunk, 'the'));
+    expect(document.querySelector('.tts-word-highlight')?.parentElement?.id).toBe('first');
+  });
+
+  test('should move forward through the page', () => {
+    highlighter.start({ root: document.body });
+
+    highlighter.handleBoundary(wordEvent('Doctor Smith reads the news.', 'the'));
+    highlighter.handleBoundary(wordEvent('Then the weather.', 'the', 1));
+
+    expect(document.querySelector('.tts-word-highlight')?.parentElement?.id).toBe('second');
+    expect(document.getElementById('first')?.classList.contains('tts-speaking')).toBe(false);
+    expect(document.getElementById('second')?.classList.contains('tts-speaking')).toBe(true);
+  });
+
+  test('should start from the given position', () => {
+    const second = document.getElementById('second')!;
+    highlighter.start({ root: document.body, startNode: second, startOffset: 0 });
+
+    highlighter.handleBoundary(wordEvent('Then the weather.', 'the', 1));
+
+    expect(document.querySelector('.tts-word-highlight')?.parentElement?.id).toBe('second');
+  });
+
+  test('should return to an earlier sentence after seeking back', () => {
+    const sentence = (chunkIndex: number, chunkText: string): SpeechBoundaryEvent => ({
+      chunkIndex,
+      chunkText,
+      charIndex: 0,
+      charLength: chunkText.length,
+      name: 'sentence',
+    });
+    highlighter.start({ root: document.body });
+
+    highlighter.handleBoundary(sentence(0, 'Doctor Smith reads the news.'));
+    highlighter.handleBoundary(wordEvent('Doctor Smith reads the news.', 'news'));
+    highlighter.handleBoundary(sentence(1, 'Then the weather.'));
+    highlighter.handleBoundary(wordEvent('Then the weather.', 'weather'));
+    highlighter.handleBoundary(sentence(0, 'Doctor Smith reads the news.'));
+    highlighter.handleBoundary(wordEvent('Doctor Smith reads the news.', 'Smith'));
+
+    expect(document.querySelector('.tts-word-highlight')?.parentElement?.id).toBe('first');
+  });
+
+  test('should find a sentence that was skipped to', () => {
+    const filler = 'Some filler words in between. '.repeat(30);
+    document.body.innerHTML = `
+      <p id="first">Dr. Smith reads the news.</p>
+      <p>${filler}</p>
+      <p id="last">Finally the end arrives.</p>
+    `;
+    const chunk = 'Finally the end arrives.';
+    highlighter.start({ root: document.body });
+
+    highlighter.handleBoundary({ chunkIndex: 0, chunkText: 'Doctor Smith reads the news.', charIndex: 0, charLength: 28, name: 'sentence' });
+    highlighter.handleBoundary({ chunkIndex: 32, chunkText: chunk, charIndex: 0, charLength: chunk.length, name: 'sentence' });
+    highlighter.handleBoundary(wordEvent(chunk, 'end'));
+
+    expect(document.querySelector('.tts-word-highlight')?.parentElement?.id).toBe('last');
+  });
+
+  test('should do nothing when disabled', () => {
+    highlighter.setEnabled(false);
+    highlighter.start({ root: document.body });
+
+    highlighter.handleBoundary(wordEvent('Doctor Smith reads the news.', 'Smith'));
+
+    expect(highlighter.isActive()).toBe(false);
+    expect(document.querySelector('.tts-word-highlight')).toBeNull();
+  });
+});
+
+describe('Highlighting in shadow roots', () => {
+  test('should highlight words inside open shadow roots and style them there', () => {
+    document.body.innerHTML = '<p>Read this</p><x-note></x-note>';
+    const shadow = document.querySelector('x-note')!.attachShadow({ mode: 'open' });
+    shadow.innerHTML = '<p>then the component</p>';
+    const highlighter = new SpeechHighlighter();
+
+    highlighter.start({ root: document.body });
+    highlighter.handleBoundary(wordEvent('Read this then the component', 'component'));
+
+    expect(shadow.querySelector('.tts-word-highlight')?.textContent).toBe('component');
+    expect(shadow.querySelector('style')?.textContent).toContain('tts-word-highlight');
+    highlighter.stop();
+  });
+});
+
+describe('Highlighting in editable fields', () => {
+  test('should select the spoken word in a text field and leave the caret there', () => {
+    document.body.innerHTML = '<textarea>Their going home. Its late.</textarea>';
+    const field = document.querySelector('textarea')!;
+    const highlighter = new SpeechHighlighter();
+
+    highlighter.start({ root: field, startNode: field, startOffset: 18 });
+    highlighter.handleBoundary(wordEvent('Its late.', 'late'));
+
+    expect(field.value.slice(field.selectionStart!, field.selectionEnd!)).toBe('late');
+    highlighter.stop();
+    expect([field.selectionStart, field.selectionEnd]).toEqual([22, 22]);
+    expect(field.value).toBe('Their going home. Its late.');
+  });
+
+  test('should select words in an editor without changing its content', () => {
+    document.body.innerHTML = '<div contenteditable="true"><p>Teh cat <b>sat</b></p></div>';
+    const editor = document.querySelector('div')!;
+    const html = editor.innerHTML;
+    const highlighter = new SpeechHighlighter();
+
+    highlighter.start({ root: editor });
+    highlighter.handleBoundary(wordEvent('Teh cat sat', 'sat'));
+
+    expect(document.getSelection()?.toString()).toBe('sat');
+    expect(editor.innerHTML).toBe(html);
+    expect(editor.querySelector('.tts-speaking')).toBeNull();
+    highlighter.stop();
+    expect(document.getSelection()?.isCollapsed).toBe(true);
+  });
+});
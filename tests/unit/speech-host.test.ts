@@ -0,0 +1,78 @@
+import { SpeechHost, SpeechHostEvent } from '@common/speech-host';
+import { TTSEngine, EngineEventListener } from '@common/tts-engine';
+
+function createEngine(listeners: EngineEventListener[]): TTSEngine {
+  return {
+    id: 'web-speech',
+    isAvailable: () => true,
+    getVoices: () => Promise.resolve([{ name: 'Alice', lang: 'en-US', localService: true, default: true }]),
+    speak: jest.fn((_text, _options, onEvent: EngineEventListener) => {
+      listeners.push(onEvent);
+    }),
+    pause: jest.fn(),
+    resume: jest.fn(),
+    stop: jest.fn(),
+    isSpeaking: () => true,
+    isPaused: () => false,
+  };
+}
+
+describe('SpeechHost', () => {
+  let listeners: EngineEventListener[];
+  let engine: TTSEngine;
+  let events: Array<{ event: SpeechHostEvent; readingId: number }>;
+  let host: SpeechHost;
+
+  beforeEach(() => {
+    listeners = [];
+    engine = createEngine(listeners);
+    events = [];
+    host = new SpeechHost(engine, (event, readingId) => events.push({ event, readingId }));
+  });
+
+  test('should tag state and boundary events with the reading they belong to', async () => {
+    await host.execute({ command: 'speak', readingId: 1, text: 'First one. Second one.' });
+    listeners[0]({ type: 'start' });
+    listeners[0]({ type: 'boundary', name: 'word', charIndex: 6 });
+
+    expect(events.map(({ readingId }) => readingId)).not.toContain(0);
+    expect(events[0].event).toMatchObject({ kind: 'state', state: 'started', position: { paragraphIndex: 0, sentenceIndex: 0 } });
+    expect(events).toContainEqual({
+      event: { kind: 'boundary', event: expect.objectContaining({ name: 'word', charIndex: 6 }) },
+      readingId: 1,
+    });
+  });
+
+  test('should report the replaced reading as stopped under its own id', async () => {
+    await host.execute({ command: 'speak', readingId: 1, text: 'First reading.' });
+    listeners[0]({ type: 'start' });
+    events = [];
+
+    await host.execute({ command: 'speak', readingId: 2, text: 'Second reading.' });
+    listeners[1]({ type: 'start' });
+
+    const states = events.filter(({ event }) => event.kind === 'state');
+    expect(states.map(({ event, readingId }) => [event.kind === 'state' && event.state, readingId])).toEqual([
+      ['stopped', 1],
+      ['started', 2],
+    ]);
+  });
+
+  test('should select the requested voice once voices are loaded', async () => {
+    await host.execute({ command: 'speak', readingId: 1, text: 'Hello.', voiceName: 'Alice' });
+
+    expect((engine.speak as jest.Mock).mock.calls[0][1]).toMatchObject({ voiceName: 'Alice' });
+  });
+
+  test('should run playback commands through the engine', async () => {
+    await host.execute({ command: 'speak', readingId: 1, text: 'First one. Second one.' });
+    listeners[0]({ type: 'start' });
+
+    expect(await host.execute({ command: 'togglePause' })).toEqual({ success: true, isPaused: true });
+    expect(engine.pause).toHaveBeenCalled();
+
+    expect(await host.execute({ command: 'stop' })).toEqual({ success: true });
+    expect(engine.stop).toHaveBeenCalled();
+    expect(events[events.length - 1].event).toMatchObject({ kind: 'state', state: 'stopped' });
+  });
+});
@@ -0,0 +1,92 @@
+import { SpeechProgressTracker, DEFAULT_WORDS_PER_MINUTE, countWords, formatDuration } from '@common/speech-progress';
+
+describe('SpeechProgressTracker', () => {
+  let time: number;
+  let tracker: SpeechProgressTracker;
+
+  // Twenty words each
+  const SENTENCES = Array.from({ length: 3 }, (_, index) => `Sentence ${index} ` + 'word '.repeat(17) + 'end.');
+
+  beforeEach(() => {
+    time = 0;
+    tracker = new SpeechProgressTracker(() => time);
+    tracker.start(SENTENCES);
+  });
+
+  test('should count the whole text up front', () => {
+    const progress = tracker.getProgress();
+
+    expect(progress.totalWords).toBe(60);
+    expect(progress.totalChars).toBe(SENTENCES.join('').length);
+    expect(progress.spokenWords).toBe(0);
+    expect(progress.remainingMs).toBe(Math.round((60 / DEFAULT_WORDS_PER_MINUTE) * 60000));
+  });
+
+  test('should follow word boundaries within a sentence', () => {
+    tracker.sentenceStarted(0);
+    tracker.wordStarted(SENTENCES[0].indexOf('word'));
+
+    expect(tracker.getProgress().spokenWords).toBe(2);
+    expect(tracker.getProgress().spokenChars).toBe(SENTENCES[0].indexOf('word'));
+  });
+
+  test('should estimate the time left from the measured pace and the rate', () => {
+    // Twenty words in five seconds is 240 words per minute
+    tracker.sentenceStarted(0);
+    time = 5000;
+    tracker.sentenceEnded();
+    tracker.sentenceStarted(1);
+
+    let progress = tracker.getProgress();
+    expect(progress.wordsPerMinute).toBe(240);
+    expect(progress.remainingMs).toBe(10000);
+    expect(progress.elapsedMs).toBe(5000);
+
+    tracker.setRate(2);
+    progress = tracker.getProgress();
+    expect(progress.wordsPerMinute).toBe(480);
+    expect(progress.remainingMs).toBe(5000);
+  });
+
+  test('should leave pauses and interrupted sentences out of the pace', () => {
+    tracker.sentenceStarted(0);
+    time = 2000;
+    tracker.pause();
+    time = 60000;
+    tracker.resume();
+    time = 63000;
+    tracker.sentenceEnded();
+    expect(tracker.getProgress().elapsedMs).toBe(5000);
+    expect(tracker.getProgress().wordsPerMinute).toBe(240);
+
+    tracker.sentenceStarted(1);
+    time = 64000;
+    tracker.sentenceInterrupted();
+    expect(tracker.getProgress().elapsedMs).toBe(6000);
+    expect(tracker.getProgress().wordsPerMinute).toBe(240);
+  });
+
+  test.each([
+    [0, 0],
+    [0.3, 1],
+    [0.6, 2],
+    [1, 2],
+  ])('should find the sentence nearest to %s of the text', (fraction, index) => {
+    expect(tracker.getSentenceAt(fraction)).toBe(index);
+  });
+});
+
+describe('formatDuration', () => {
+  test.each([
+    [0, '0:00'],
+    [192000, '3:12'],
+    [3725000, '1:02:05'],
+    [-100, '0:00'],
+  ])('%s ms', (ms, expected) => {
+    expect(formatDuration(ms)).toBe(expected);
+  });
+
+  test('should count words', () => {
+    expect(countWords('  One two\nthree ')).toBe(3);
+  });
+});
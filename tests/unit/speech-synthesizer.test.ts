@@ -0,0 +1,314 @@
+import { SpeechSynthesizer, PlaybackStateType } from '@common/speech-synthesizer';
+import { TTSEngine, EngineEventListener } from '@common/tts-engine';
+import { PronunciationLexicon, createLexiconEntry } from '@common/pronunciation-lexicon';
+
+class FakeUtterance {
+  text: string;
+  voice: SpeechSynthesisVoice | null = null;
+  rate = 1;
+  pitch = 1;
+  volume = 1;
+  onstart: (() => void) | null = null;
+  onend: (() => void) | null = null;
+  onerror: ((event: { error: string }) => void) | null = null;
+  onboundary: ((event: { name: string; charIndex: number; charLength?: number }) => void) | null = null;
+  onpause: (() => void) | null = null;
+  onresume: (() => void) | null = null;
+
+  constructor(text: string) {
+    this.text = text;
+  }
+}
+
+describe('SpeechSynthesizer queue', () => {
+  let spoken: FakeUtterance[];
+  let synthesizer: SpeechSynthesizer;
+
+  const current = () => spoken[spoken.length - 1];
+  // Plays the current utterance to the end, which queues the next one
+  const finishCurrent = () => {
+    const utterance = current();
+    utterance.onstart?.();
+    utterance.onend?.();
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    spoken = [];
+
+    Object.assign(window, {
+      speechSynthesis: {
+        speak: jest.fn((utterance: FakeUtterance) => spoken.push(utterance)),
+        cancel: jest.fn(),
+        pause: jest.fn(),
+        resume: jest.fn(),
+        getVoices: jest.fn(() => []),
+        addEventListener: jest.fn(),
+        removeEventListener: jest.fn(),
+        speaking: false,
+        paused: false,
+        pending: false,
+      },
+    });
+    Object.assign(global, { SpeechSynthesisUtterance: FakeUtterance });
+    (chrome.runtime.sendMessage as jest.Mock).mockReturnValue(Promise.resolve());
+
+    synthesizer = new SpeechSynthesizer();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('should speak one sentence at a time', () => {
+    synthesizer.speak('Pi is 3.14 exactly. Is it?\n\nYes!');
+
+    expect(current().text).toBe('Pi is 3.14 exactly.');
+    finishCurrent();
+    expect(current().text).toBe('Is it?');
+    finishCurrent();
+    expect(current().text).toBe('Yes!');
+  });
+
+  test('should apply the pronunciation lexicon before the built-in rules', () => {
+    synthesizer.setLexicon(new PronunciationLexicon([
+      createLexiconEntry({ match: 'Dr.', replacement: 'Drive' }),
+      createLexiconEntry({ match: 'PR', replacement: 'pull request', site: 'github.com' }),
+    ]), 'github.com');
+    synthesizer.speak('Turn onto Main Dr. and open a PR.');
+
+    expect(current().text).toBe('Turn onto Main Drive and open a pull request.');
+  });
+
+  test('should read numbers and dates in words unless turned off', () => {
+    synthesizer.speak('Released 2024-10-19 at $1.2M.');
+    expect(current().text).toBe('Released October 19, 2024 at 1.2 million dollars.');
+
+    synthesizer.speak('Released 2024-10-19 at $1.2M.', {}, undefined, { autoDetect: false, normalizeText: false });
+    expect(current().text).toBe('Released 2024-10-19 at $1.2M.');
+
+    synthesizer.speak('Released 2024-10-19 at $1.2M.', {}, undefined, { autoDetect: false, disabledNormalizations: { en: ['dates'] } });
+    expect(current().text).toBe('Released 2024-10-19 at 1.2 million dollars.');
+  });
+
+  test('should keep a pitch and volume of 0', () => {
+    synthesizer.speak('Quiet please.', { pitch: 0, volume: 0 });
+
+    expect(current().pitch).toBe(0);
+    expect(current().volume).toBe(0);
+  });
+
+  test('should speak SSML segment by segment with their prosody and pauses', async () => {
+    synthesizer.speak('<speak>Ready. <break time="800ms"/><prosody rate="fast" volume="soft">Go now.</prosody></speak>', { rate: 1.2 });
+
+    expect(current().text).toBe('Ready.');
+    expect(current().rate).toBe(1.2);
+    finishCurrent();
+    expect(spoken).toHaveLength(1);
+
+    await jest.advanceTimersByTimeAsync(800);
+    expect(current().text).toBe('Go now.');
+    expect(current().rate).toBe(1.5);
+    expect(current().volume).toBe(0.7);
+  });
+
+  test('should change the speed of the reading in progress', () => {
+    synthesizer.speak('First one. Second one.', { rate: 1 });
+    current().onstart?.();
+
+    expect(synthesizer.changeRate(1.5)).toBe(true);
+    expect(current().text).toBe('First one.');
+    expect(current().rate).toBe(1.5);
+    expect(synthesizer.getPlaybackState()).toEqual(expect.objectContaining({ sentenceIndex: 0, sentenceCount: 2, rate: 1.5 }));
+
+    finishCurrent();
+    expect(current().rate).toBe(1.5);
+    expect(synthesizer.changeRate(20)).toBe(false);
+  });
+
+  test('should move to the next and previous sentence', () => {
+    synthesizer.speak('First one. Second one. Third one.');
+    current().onstart?.();
+
+    expect(synthesizer.seek('sentence', 'next')).toBe(true);
+    expect(speechSynthesis.cancel).toHaveBeenCalled();
+    expect(current().text).toBe('Second one.');
+
+    current().onstart?.();
+    expect(synthesizer.seek('sentence', 'previous')).toBe(true);
+    expect(current().text).toBe('First one.');
+
+    // At the start, "previous" restarts the first sentence
+    expect(synthesizer.seek('sentence', 'previous')).toBe(true);
+    expect(current().text).toBe('First one.');
+  });
+
+  test('should ignore the end of a cancelled sentence', () => {
+    synthesizer.speak('First one. Second one. Third one.');
+    const cancelled = current();
+    cancelled.onstart?.();
+
+    synthesizer.seek('sentence', 'next');
+    const count = spoken.length;
+    cancelled.onend?.();
+
+    expect(spoken).toHaveLength(count);
+    expect(current().text).toBe('Second one.');
+  });
+
+  test('should report progress and seek to the nearest sentence', () => {
+    synthesizer.speak('First one. Second one. Third one. Fourth one.');
+    finishCurrent();
+    current().onstart?.();
+
+    const { progress } = synthesizer.getPlaybackState();
+    expect(progress.totalWords).toBe(8);
+    expect(progress.spokenWords).toBe(2);
+
+    expect(synthesizer.seekToFraction(0.8)).toBe(true);
+    expect(current().text).toBe('Fourth one.');
+  });
+
+  test('should move by paragraph', () => {
+    synthesizer.speak('Intro one. Intro two.\n\nMiddle part.\n\nLast part.');
+    current().onstart?.();
+
+    expect(synthesizer.seek('paragraph', 'next')).toBe(true);
+    expect(current().text).toBe('Middle part.');
+    expect(synthesizer.seek('paragraph', 'next')).toBe(true);
+    expect(current().text).toBe('Last part.');
+    expect(synthesizer.seek('paragraph', 'next')).toBe(false);
+
+    expect(synthesizer.seek('paragraph', 'previous')).toBe(true);
+    expect(current().text).toBe('Middle part.');
+  });
+
+  test('should start at a saved position and report it', () => {
+    synthesizer.speak('Intro one. Intro two.\n\nMiddle one. Middle two.', {}, { paragraphIndex: 1, sentenceIndex: 1 });
+
+    expect(current().text).toBe('Middle two.');
+    expect(synthesizer.getPosition()).toEqual({ paragraphIndex: 1, sentenceIndex: 1 });
+  });
+
+  test('should keep paragraph indexes when the lexicon empties a paragraph', () => {
+    synthesizer.setLexicon(new PronunciationLexicon([createLexiconEntry({ match: 'Advertisement', replacement: '' })]));
+    synthesizer.speak('Intro part.\n\nAdvertisement\n\nLast one. Last two.', {}, { paragraphIndex: 2, sentenceIndex: 1 });
+
+    expect(current().text).toBe('Last two.');
+    expect(synthesizer.getPosition()).toEqual({ paragraphIndex: 2, sentenceIndex: 1 });
+
+    expect(synthesizer.seek('paragraph', 'previous')).toBe(true);
+    expect(current().text).toBe('Intro part.');
+    expect(synthesizer.getPosition()).toEqual({ paragraphIndex: 0, sentenceIndex: 0 });
+  });
+
+  test('should not seek when nothing is being read', () => {
+    expect(synthesizer.seek('sentence', 'next')).toBe(false);
+  });
+
+  test('should report completion after the last sentence only', () => {
+    const states: PlaybackStateType[] = [];
+    synthesizer.onPlaybackStateChange((state) => states.push(state));
+
+    synthesizer.speak('First one. Second one.');
+    finishCurrent();
+    expect(states).not.toContain('completed');
+
+    finishCurrent();
+    expect(states[states.length - 1]).toBe('completed');
+    expect(synthesizer.seek('sentence', 'previous')).toBe(false);
+  });
+});
+
+describe('SpeechSynthesizer with another engine', () => {
+  test('should speak through the given engine and report to the given reporter', () => {
+    const listeners: EngineEventListener[] = [];
+    const engine: TTSEngine = {
+      id: 'chrome-tts',
+      isAvailable: () => true,
+      getVoices: () => Promise.resolve([]),
+      speak: jest.fn((_text, _options, onEvent: EngineEventListener) => {
+        listeners.push(onEvent);
+      }),
+      pause: jest.fn(),
+      resume: jest.fn(),
+      stop: jest.fn(),
+      isSpeaking: () => true,
+      isPaused: () => false,
+    };
+    const report = jest.fn();
+
+    const synthesizer = new SpeechSynthesizer(engine, report);
+    synthesizer.speak('First one. Second one.');
+    listeners[0]({ type: 'start' });
+    listeners[0]({ type: 'end' });
+
+    expect((engine.speak as jest.Mock).mock.calls.map(([text]) => text)).toEqual(['First one.', 'Second one.']);
+    expect(report).toHaveBeenCalledWith(expect.objectContaining({
+      payload: expect.objectContaining({ state: 'started' }),
+    }));
+
+    synthesizer.stop();
+    expect(engine.stop).toHaveBeenCalled();
+  });
+});
+
+describe('SpeechSynthesizer language switching', () => {
+  const createEngine = () => {
+    const listeners: EngineEventListener[] = [];
+    const engine: TTSEngine = {
+      id: 'chrome-tts',
+      isAvailable: () => true,
+      getVoices: () => Promise.resolve([
+        { name: 'English', lang: 'en-US', localService: true, default: true },
+        { name: 'Castellano', lang: 'es-ES', localService: true, default: false },
+        { name: 'Mexicano', lang: 'es-MX', localService: true, default: false },
+      ]),
+      speak: jest.fn((_text, _options, onEvent: EngineEventListener) => {
+        listeners.push(onEvent);
+      }),
+      pause: jest.fn(),
+      resume: jest.fn(),
+      stop: jest.fn(),
+      isSpeaking: () => true,
+      isPaused: () => false,
+    };
+    const playAll = () => {
+      for (let i = 0; i < listeners.length; i++) {
+        listeners[i]({ type: 'start' });
+        listeners[i]({ type: 'end' });
+      }
+    };
+    const voiceNames = () => (engine.speak as jest.Mock).mock.calls.map(([, options]) => options.voiceName);
+    return { engine, playAll, voiceNames };
+  };
+
+  const TEXT = 'The weather was terrible, so we stayed at home.\n\n' +
+    'El tiempo era horrible, así que nos quedamos en casa.\n\n' +
+    'Hola.';
+
+  test('should read each paragraph with a voice for its language', async () => {
+    const { engine, playAll, voiceNames } = createEngine();
+    const synthesizer = new SpeechSynthesizer(engine, jest.fn());
+    await synthesizer.whenVoicesLoaded();
+    synthesizer.setVoice('English');
+
+    synthesizer.speak(TEXT, {}, undefined, { autoDetect: true, voices: { es: 'Mexicano' }, paragraphLangs: [null, null, 'es-ES'] });
+    playAll();
+
+    // "Hola." is too short to detect, the page declares it; both Spanish paragraphs get the preferred voice
+    expect(voiceNames()).toEqual(['English', 'Mexicano', 'Mexicano']);
+  });
+
+  test('should keep one voice when switching is off', async () => {
+    const { engine, playAll, voiceNames } = createEngine();
+    const synthesizer = new SpeechSynthesizer(engine, jest.fn());
+    await synthesizer.whenVoicesLoaded();
+    synthesizer.setVoice('English');
+
+    synthesizer.speak(TEXT, {}, undefined, { autoDetect: false, paragraphLangs: [null, null, 'es-ES'] });
+    playAll();
+
+    expect(voiceNames()).toEqual(['English', 'English', 'English']);
+  });
+});
@@ -0,0 +1,67 @@
+import { parseSSML, isSSML, toSSMLDocument } from '@common/ssml-parser';
+
+const NEUTRAL = { rate: 1, pitch: 1, volume: 1 };
+
+describe('isSSML', () => {
+  test('should recognise documents by their speak root', () => {
+    expect(isSSML('<speak>Hello</speak>')).toBe(true);
+    expect(isSSML('<?xml version="1.0"?>\n<speak version="1.1" xml:lang="en-US">Hi</speak>')).toBe(true);
+    expect(isSSML('Use <speak> tags')).toBe(false);
+    expect(toSSMLDocument('Hello <break/> world')).toBe('<speak>Hello <break/> world</speak>');
+  });
+});
+
+describe('parseSSML', () => {
+  test('should turn breaks into pauses before the following text', () => {
+    expect(parseSSML('<speak>Wait <break time="1.5s"/> for it <break strength="weak"/> now</speak>')).toEqual([
+      { text: 'Wait', prosody: NEUTRAL, lang: undefined, pauseBefore: 0, paragraphIndex: 0 },
+      { text: 'for it', prosody: NEUTRAL, lang: undefined, pauseBefore: 1500, paragraphIndex: 0 },
+      { text: 'now', prosody: NEUTRAL, lang: undefined, pauseBefore: 250, paragraphIndex: 0 },
+    ]);
+  });
+
+  test('should scale prosody, nesting relative values', () => {
+    const segments = parseSSML(
+      '<speak>Normal <prosody rate="slow" volume="-6dB">slow and soft <prosody rate="200%" pitch="+2st">faster</prosody></prosody> <emphasis level="strong">now</emphasis>!</speak>'
+    );
+
+    expect(segments.map(segment => segment.text)).toEqual(['Normal', 'slow and soft', 'faster', 'now!']);
+    expect(segments[1].prosody.rate).toBe(0.75);
+    expect(segments[1].prosody.volume).toBeCloseTo(0.501, 3);
+    expect(segments[2].prosody.rate).toBe(1.5);
+    expect(segments[2].prosody.pitch).toBeCloseTo(1.122, 3);
+    expect(segments[3].prosody).toEqual({ rate: 0.85, pitch: 1.1, volume: 1 });
+  });
+
+  test('should rewrite say-as and sub content', () => {
+    const segments = parseSSML(
+      '<speak>Call <say-as interpret-as="telephone">555-0199</say-as>, spell <say-as interpret-as="characters">NASA</say-as>, ' +
+      'the <say-as interpret-as="ordinal">22</say-as> time, read <sub alias="World Wide Web Consortium">W3C</sub> &amp; more.</speak>'
+    );
+
+    expect(segments.map(segment => segment.text).join(' ')).toBe(
+      'Call 5 5 5 - 0 1 9 9, spell N A S A, the 22nd time, read World Wide Web Consortium & more.'
+    );
+  });
+
+  test('should mark language switches and count paragraphs', () => {
+    const segments = parseSSML(
+      '<speak xml:lang="en-US"><p>Say <lang xml:lang="fr-FR">bonjour</lang> politely.</p><p><s>Second paragraph.</s></p></speak>'
+    );
+
+    expect(segments.map(({ text, lang, paragraphIndex }) => ({ text, lang, paragraphIndex }))).toEqual([
+      { text: 'Say', lang: 'en-US', paragraphIndex: 0 },
+      { text: 'bonjour', lang: 'fr-FR', paragraphIndex: 0 },
+      { text: 'politely.', lang: 'en-US', paragraphIndex: 0 },
+      { text: 'Second paragraph.', lang: 'en-US', paragraphIndex: 1 },
+    ]);
+  });
+
+  test('should read malformed markup and unknown elements as text', () => {
+    expect(parseSSML('<speak>Keep <mark name="x"/><voice name="a">this</voice> and 1 < 2 <emphasis>unclosed</speak>')
+      .map(segment => segment.text)).toEqual(['Keep this and 1 < 2', 'unclosed']);
+    expect(parseSSML('<speak><!-- note --><prosody rate="bogus">plain</prosody></speak>')).toEqual([
+      { text: 'plain', prosody: NEUTRAL, lang: undefined, pauseBefore: 0, paragraphIndex: 0 },
+    ]);
+  });
+});
@@ -0,0 +1,86 @@
+import { isDataTable, readTable } from '@/content/table-reader';
+
+function createTable(html: string): HTMLTableElement {
+  document.body.innerHTML = html;
+  return document.querySelector('table')!;
+}
+
+const readTexts = (table: HTMLTableElement, summarize = false) => readTable(table, { summarize }).map((segment) => segment.text);
+
+describe('TableReader', () => {
+  test.each([
+    ['<table><tr><th>Name</th></tr><tr><td>Ada</td></tr></table>', true],
+    ['<table><caption>Scores</caption><tr><td>1</td></tr></table>', true],
+    ['<table role="grid"><tr><td>1</td></tr></table>', true],
+    ['<table><tr><td>Just layout</td></tr></table>', false],
+    ['<table role="presentation"><tr><th>Name</th></tr></table>', false],
+    ['<table><tr><th>Outer</th></tr><tr><td><table><tr><td>Inner</td></tr></table></td></tr></table>', false],
+  ])('should tell data tables from layout tables: %s', (html, expected) => {
+    expect(isDataTable(createTable(html))).toBe(expected);
+  });
+
+  test('should prefix cells with their column headers and skip empty cells', () => {
+    const table = createTable(`
+      <table>
+        <tr><th>Product</th><th>Price</th><th>Notes</th></tr>
+        <tr><td>Widget</td><td>12 dollars</td><td></td></tr>
+      </table>`);
+
+    expect(readTexts(table)).toEqual(['Product: Widget. Price: 12 dollars.']);
+  });
+
+  test('should summarize the size and columns first', () => {
+    const table = createTable(`
+      <table>
+        <caption>Team</caption>
+        <thead><tr><th>Name</th><th>Role</th></tr></thead>
+        <tbody><tr><td>Ada</td><td>Engineer</td></tr></tbody>
+      </table>`);
+
+    expect(readTexts(table, true)).toEqual(['Table: Team, 1 row, 2 columns: Name, Role.', 'Name: Ada. Role: Engineer.']);
+    expect(readTexts(table)).toEqual(['Team.', 'Name: Ada. Role: Engineer.']);
+  });
+
+  test('should read key/value tables with their row headers', () => {
+    const table = createTable(`
+      <table>
+        <tr><th>Released</th><td>2024</td></tr>
+        <tr><th>License</th><td>MIT</td></tr>
+      </table>`);
+
+    expect(readTexts(table)).toEqual(['Released: 2024.', 'License: MIT.']);
+  });
+
+  test('should follow spanning cells to their headers', () => {
+    const table = createTable(`
+      <table>
+        <thead>
+          <tr><th rowspan="2">City</th><th colspan="2">Temperature</th></tr>
+          <tr><th>Low</th><th>High</th></tr>
+        </thead>
+        <tbody>
+          <tr><td>Oslo</td><td>-3</td><td>4</td></tr>
+          <tr><td>Rome</td><td colspan="2">12</td></tr>
+        </tbody>
+      </table>`);
+
+    expect(readTexts(table, true)).toEqual([
+      'Table, 2 rows, 3 columns: City, Temperature Low, Temperature High.',
+      'City: Oslo. Temperature Low: -3. Temperature High: 4.',
+      'City: Rome. Temperature Low: 12.',
+    ]);
+  });
+
+  test('should read only the rows asked for', () => {
+    const table = createTable(`
+      <table>
+        <tr><th>Name</th></tr>
+        <tr><td>Ada</td></tr>
+        <tr><td>Grace</td></tr>
+      </table>`);
+
+    const segments = readTable(table, { summarize: false, isIncluded: (row) => row.textContent === 'Grace' });
+    expect(segments.map((segment) => segment.text)).toEqual(['Name: Grace.']);
+    expect(segments[0].element).toBe(table.rows[2]);
+  });
+});
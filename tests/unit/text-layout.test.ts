@@ -0,0 +1,61 @@
+import { layoutPageText, PdfTextRun } from '@/pdf-viewer/text-layout';
+
+// Runs of one line each, 14pt apart unless `y` says otherwise
+function lines(...texts: (string | [string, Partial<PdfTextRun>])[]): PdfTextRun[] {
+  let y = 800;
+  return texts.map((entry) => {
+    const [text, overrides] = typeof entry === 'string' ? [entry, {}] : entry;
+    y = overrides.y ?? y - 14;
+    return { text, x: 72, y, width: text.length * 5, height: 10, hasEOL: true, ...overrides };
+  });
+}
+
+describe('PDF text layout', () => {
+  test('should join the lines of a paragraph and split paragraphs at wider gaps', () => {
+    const blocks = layoutPageText(lines(
+      'The first paragraph runs',
+      'over two lines.',
+      ['A second paragraph starts', { y: 744 }],
+      'after a gap.'
+    ));
+
+    expect(blocks).toEqual([
+      { kind: 'paragraph', text: 'The first paragraph runs over two lines.' },
+      { kind: 'paragraph', text: 'A second paragraph starts after a gap.' },
+    ]);
+  });
+
+  test('should undo hyphenation at line ends but keep hyphenated names', () => {
+    const blocks = layoutPageText(lines('A long exam-', 'ple of the Franco-', 'German border.'));
+
+    expect(blocks[0].text).toBe('A long example of the Franco-German border.');
+  });
+
+  test('should join runs on the same baseline, adding spaces where the runs are apart', () => {
+    const runs: PdfTextRun[] = [
+      { text: 'Split', x: 72, y: 700, width: 25, height: 10, hasEOL: false },
+      { text: 'ted', x: 97, y: 700, width: 15, height: 10, hasEOL: false },
+      { text: 'words', x: 120, y: 700, width: 25, height: 10, hasEOL: true },
+    ];
+
+    expect(layoutPageText(runs)).toEqual([{ kind: 'paragraph', text: 'Splitted words' }]);
+  });
+
+  test('should mark larger short lines as headings and drop page numbers', () => {
+    const blocks = layoutPageText(lines(
+      ['Introduction', { height: 18 }],
+      'Body text of the page',
+      'continues here.',
+      ['12', { y: 40 }]
+    ));
+
+    expect(blocks).toEqual([
+      { kind: 'heading', text: 'Introduction' },
+      { kind: 'paragraph', text: 'Body text of the page continues here.' },
+    ]);
+  });
+
+  test('should return nothing for pages without text', () => {
+    expect(layoutPageText([{ text: ' ', x: 0, y: 0, width: 0, height: 0, hasEOL: true }])).toEqual([]);
+  });
+});
@@ -0,0 +1,176 @@
+import {
+  TextNormalizer,
+  normalizeForSpeech,
+  parseDisabledNormalizations,
+  DEFAULT_NORMALIZATION_RULES
+} from '@common/text-normalizer';
+
+describe('normalizeForSpeech', () => {
+  describe('English', () => {
+    test.each([
+      // Dates
+      ['Released on 2024-10-19.', 'Released on October 19, 2024.'],
+      ['Due 10/19/2024', 'Due October 19, 2024'],
+      ['Due 19/10/2024', 'Due October 19, 2024'],
+      ['Not a date: 2024-13-45', 'Not a date: 2024-13-45'],
+      // Times
+      ['Doors open at 14:30', 'Doors open at 2:30 PM'],
+      ['Call me at 9:05am', 'Call me at 9:05 AM'],
+      ['See you at 9 p.m.', 'See you at 9 PM'],
+      ['It starts at 9:00', "It starts at 9 o'clock"],
+      ['John 3:16', 'John 3:16'],
+      // Currency
+      ['Raised $1.2M last year', 'Raised 1.2 million dollars last year'],
+      ['It costs $3.50', 'It costs 3 dollars and 50 cents'],
+      ['Only $1 today', 'Only 1 dollar today'],
+      ['A €5k budget', 'A 5 thousand euros budget'],
+      ['Fined 200 USD', 'Fined 200 dollars'],
+      ['£0.99 each', '99 pence each'],
+      // Percentages and ranges
+      ['Up 45% this year', 'Up 45 percent this year'],
+      ['Pages 10-20', 'Pages 10 to 20'],
+      ['From 1990–1995', 'From 1990 to 1995'],
+      ['A 10-20% discount', 'A 10 to 20 percent discount'],
+      ['COVID-19 cases', 'COVID-19 cases'],
+      ['They won 3-2', 'They won 3-2'],
+      ['A 1-1 draw', 'A 1-1 draw'],
+      // Units
+      ['Limited to 3km/h', 'Limited to 3 kilometers per hour'],
+      ['A 1 km walk', 'A 1 kilometer walk'],
+      ['Heat to 180 °C', 'Heat to 180 degrees Celsius'],
+      ['Lows of -5°C tonight', 'Lows of minus 5 degrees Celsius tonight'],
+      ['Down to −40 °F', 'Down to minus 40 degrees Fahrenheit'],
+      ['Download 2.5 GB', 'Download 2.5 gigabytes'],
+      ['Falls at 9.8 m/s', 'Falls at 9.8 meters per second'],
+      ['Music of the 90s', 'Music of the 90s'],
+      // Versions
+      ['Update to v2.3.1 now', 'Update to version 2 point 3 point 1 now'],
+      ['Requires 10.15.7', 'Requires 10 point 15 point 7'],
+      ['Pi is 3.14', 'Pi is 3.14'],
+      ['Open 192.168.1.1 in a browser', 'Open 192 dot 168 dot 1 dot 1 in a browser'],
+      // Phone numbers
+      ['Call +1 (555) 123-4567', 'Call plus 1, 5 5 5, 1 2 3, 4 5 6 7'],
+      ['Call 555-123-4567', 'Call 5 5 5, 1 2 3, 4 5 6 7'],
+      // Roman numerals
+      ['After World War II', 'After World War 2'],
+      ['Read Chapter IV first', 'Read Chapter 4 first'],
+      ['King Henry VIII died', 'King Henry the eighth died'],
+      ['Queen Elizabeth II spoke', 'Queen Elizabeth the second spoke'],
+      ['Malcolm X spoke', 'Malcolm X spoke'],
+      ['Playing Grand Theft Auto V', 'Playing Grand Theft Auto V'],
+      ['Final Fantasy VII remake', 'Final Fantasy VII remake'],
+      ['In part I agree', 'In part I agree'],
+      ['Then I left', 'Then I left'],
+      // Ordinals
+      ['The 21st century', 'The twenty-first century'],
+      ['Her 2nd and 3rd tries', 'Her second and third tries'],
+      ['The 100th visitor', 'The one hundredth visitor'],
+    ])('%s', (input, expected) => {
+      expect(normalizeForSpeech(input, 'en-US')).toBe(expected);
+    });
+  });
+
+  describe('Spanish', () => {
+    test.each([
+      ['Publicado el 2024-10-19', 'Publicado el 19 de octubre de 2024'],
+      ['Vence el 19/10/2024', 'Vence el 19 de octubre de 2024'],
+      ['Cuesta 3,50 €', 'Cuesta 3 euros con 50 céntimos'],
+      ['Recaudó $1,2M', 'Recaudó 1,2 millones de dólares'],
+      ['Subió un 45%', 'Subió un 45 por ciento'],
+      ['Páginas 10-20', 'Páginas 10 a 20'],
+      ['A 3km/h', 'A 3 kilómetros por hora'],
+      ['Abre a las 14:30', 'Abre a las 14 y 30'],
+      ['Abre a las 14:30 h', 'Abre a las 14 y 30'],
+      ['El 1.er piso', 'El primer piso'],
+      ['La 2ª vez', 'La segunda vez'],
+      ['Quedó en 3.º lugar', 'Quedó en tercer lugar'],
+      ['Llegó 3.º', 'Llegó tercero'],
+      ['El 1.º de mayo', 'El primero de mayo'],
+      ['El 2.º puesto', 'El segundo puesto'],
+      ['Ganaron 3-1', 'Ganaron 3-1'],
+      ['Hará -3 °C', 'Hará menos 3 grados Celsius'],
+      ['El rey Felipe VI', 'El rey Felipe sexto'],
+      ['En el siglo XXI', 'En el siglo 21'],
+    ])('%s', (input, expected) => {
+      expect(normalizeForSpeech(input, 'es-ES')).toBe(expected);
+    });
+  });
+
+  describe('French', () => {
+    test.each([
+      ['Publié le 2024-10-19', 'Publié le 19 octobre 2024'],
+      ['Il coûte 3,50 €', 'Il coûte 3 euros et 50 centimes'],
+      ['Une hausse de 45 %', 'Une hausse de 45 pour cent'],
+      ['Un budget de 3 M$', 'Un budget de 3 millions de dollars'],
+      ['Levée de 1,5 M€', "Levée de 1,5 million d'euros"],
+      ['Le 1er mai', 'Le premier mai'],
+      ['Au 3e étage', 'Au troisième étage'],
+      ['Rendez-vous à 14:30', 'Rendez-vous à 14 heures 30'],
+      ['Rendez-vous à 14:30 h', 'Rendez-vous à 14 heures 30'],
+      ['Louis XIV régna', 'Louis 14 régna'],
+      ['Rocky II sort en salle', 'Rocky II sort en salle'],
+    ])('%s', (input, expected) => {
+      expect(normalizeForSpeech(input, 'fr')).toBe(expected);
+    });
+  });
+
+  describe('German', () => {
+    test.each([
+      ['Erschienen am 19.10.2024', 'Erschienen am 19. Oktober 2024'],
+      ['Kostet 3,50 €', 'Kostet 3 Euro und 50 Cent'],
+      ['Umsatz von 2 Mio. €', 'Umsatz von 2 Millionen Euro'],
+      ['Beginn um 14:30', 'Beginn um 14 Uhr 30'],
+      ['Beginn um 14:30 Uhr', 'Beginn um 14 Uhr 30'],
+      ['Ab 9:00 Uhr geöffnet', 'Ab 9 Uhr geöffnet'],
+      ['Maximal 130 km/h', 'Maximal 130 Kilometer pro Stunde'],
+      ['Bis zu -10 °C', 'Bis zu minus 10 Grad Celsius'],
+      ['Server 10.0.0.1 antwortet', 'Server 10 Punkt 0 Punkt 0 Punkt 1 antwortet'],
+      ['Bevölkerung 1.234.567', 'Bevölkerung 1.234.567'],
+      ['Ludwig XIV. starb', 'Ludwig 14. starb'],
+      ['Teil von Windows XP und Rambo III.', 'Teil von Windows XP und Rambo III.'],
+      ['Am 3. Mai', 'Am 3. Mai'],
+    ])('%s', (input, expected) => {
+      expect(normalizeForSpeech(input, 'de-DE')).toBe(expected);
+    });
+  });
+
+  test('should leave text in languages without rules alone', () => {
+    expect(normalizeForSpeech('Costa 3,50 € il 2024-10-19', 'it')).toBe('Costa 3,50 € il 2024-10-19');
+  });
+
+  test('should use English rules when no language is known', () => {
+    expect(normalizeForSpeech('Up 45%')).toBe('Up 45 percent');
+  });
+
+  test('should skip the categories switched off for the text\'s language', () => {
+    const disabled = { de: ['times' as const] };
+    expect(normalizeForSpeech('Um 14:30 Uhr, 45%', 'de-DE', disabled)).toBe('Um 14:30 Uhr, 45 Prozent');
+    expect(normalizeForSpeech('At 14:30', 'en', disabled)).toBe('At 2:30 PM');
+  });
+});
+
+describe('TextNormalizer', () => {
+  test('should skip disabled categories', () => {
+    const normalizer = new TextNormalizer(DEFAULT_NORMALIZATION_RULES, ['dates', 'units']);
+    expect(normalizer.normalize('On 2024-10-19 we ran 5 km, up 10%', 'en')).toBe('On 2024-10-19 we ran 5 km, up 10 percent');
+  });
+
+  test('should accept rules for further languages', () => {
+    const normalizer = new TextNormalizer({
+      ...DEFAULT_NORMALIZATION_RULES,
+      it: { ...DEFAULT_NORMALIZATION_RULES.fr, locale: 'it-IT', words: { ...DEFAULT_NORMALIZATION_RULES.fr.words, percent: 'per cento' } }
+    });
+    expect(normalizer.normalize('Sale del 45%', 'it-IT')).toBe('Sale del 45 per cento');
+  });
+});
+
+describe('parseDisabledNormalizations', () => {
+  test('should keep known categories per primary language', () => {
+    expect(parseDisabledNormalizations({ 'de-DE': ['times', 'colors'], fr: [], es: 'dates' })).toEqual({ de: ['times'] });
+  });
+
+  test.each([null, 'dates', ['dates']])('should ignore %p', (value) => {
+    expect(parseDisabledNormalizations(value)).toEqual({});
+  });
+});
+
@@ -0,0 +1,49 @@
+import { filterVoices, getVoiceLanguages } from '@common/voice-catalog';
+import { describeVoice } from '@common/voice-metadata';
+
+const voice = (name: string, lang: string, localService = true) =>
+  describeVoice({ name, lang, voiceURI: name, localService, default: false });
+
+const voices = [
+  voice('Samantha', 'en-US'),
+  voice('Daniel', 'en-GB'),
+  voice('Google español', 'es-ES', false),
+  voice('Paulina', 'es-MX'),
+  voice('Ava (Enhanced)', 'en-US'),
+  voice('eSpeak English', 'en'),
+];
+
+const names = (list: ReturnType<typeof voice>[]) => list.map(v => v.name);
+
+describe('filterVoices', () => {
+  test('should list every voice best quality first without a filter', () => {
+    expect(names(filterVoices(voices, {}))).toEqual([
+      'Google español', 'Ava (Enhanced)', 'Daniel', 'Paulina', 'Samantha', 'eSpeak English',
+    ]);
+  });
+
+  test.each([
+    ['a name', { query: 'sam' }, ['Samantha']],
+    ['words in any order', { query: 'uk daniel' }, ['Daniel']],
+    ['a language name', { query: 'mexico' }, ['Paulina']],
+    ['a primary language', { language: 'es' }, ['Google español', 'Paulina']],
+    ['gender', { gender: 'female' as const, language: 'en' }, ['Ava (Enhanced)', 'Samantha']],
+    ['quality', { quality: 'compact' as const }, ['eSpeak English']],
+    ['online voices', { location: 'remote' as const }, ['Google español']],
+  ])('should filter by %s', (_by, filter, expected) => {
+    expect(names(filterVoices(voices, filter))).toEqual(expected);
+  });
+
+  test('should find nothing when a query word does not match', () => {
+    expect(filterVoices(voices, { query: 'samantha german' })).toEqual([]);
+  });
+});
+
+describe('getVoiceLanguages', () => {
+  test('should count voices per primary language, sorted by name', () => {
+    expect(getVoiceLanguages(voices)).toEqual([
+      { code: 'en', name: 'English', count: 4 },
+      { code: 'es', name: 'Spanish', count: 2 },
+    ]);
+  });
+});
@@ -117,7 +117,7 @@ describe('VoiceManager', () => {
       
       await voiceManager.init();
       
-      expect(mockChrome.storage.sync.get).toHaveBeenCalledWith(['selectedVoice', 'favoriteVoices', 'recentVoices']);
+      expect(mockChrome.storage.sync.get).toHaveBeenCalledWith(['selectedVoice', 'favoriteVoices', 'recentVoices', 'defaultVoices']);
     });
 
     test('should handle initialization errors gracefully', async () => {
@@ -292,6 +292,38 @@ describe('VoiceManager', () => {
     });
   });
 
+  describe('voices per language', () => {
+    test('should store a voice per primary language', async () => {
+      await voiceManager.init();
+
+      expect(await voiceManager.setLanguageVoice('es-MX', 'Google español')).toBe(true);
+      expect(voiceManager.getLanguageVoices()).toEqual({ es: 'Google español' });
+      expect(mockChrome.storage.sync.set).toHaveBeenCalledWith(expect.objectContaining({
+        defaultVoices: { es: expect.objectContaining({ name: 'Google español' }) },
+      }));
+
+      expect(await voiceManager.setLanguageVoice('es', null)).toBe(true);
+      expect(voiceManager.getLanguageVoices()).toEqual({});
+    });
+
+    test('should reject voices of another language', async () => {
+      await voiceManager.init();
+
+      expect(await voiceManager.setLanguageVoice('fr', 'Google español')).toBe(false);
+      expect(voiceManager.getLanguageVoices()).toEqual({});
+    });
+
+    test('should prefer the stored voice for the browser language as default', async () => {
+      mockChrome.storage.sync.get.mockResolvedValue({
+        defaultVoices: { en: { name: 'Enhanced Voice', lang: 'en-GB' } },
+      });
+
+      await voiceManager.init();
+
+      expect(voiceManager.getSelectedVoice()?.name).toBe('Enhanced Voice');
+    });
+  });
+
   describe('favorite voices', () => {
     test('should set and get favorite voices', async () => {
       await voiceManager.init();
@@ -508,4 +540,27 @@ describe('VoiceManager', () => {
       expect(voice.languageDisplay).toBe('xx-XX');
     });
   });
+
+  describe('speech server voices', () => {
+    const remoteVoices = [{ name: 'af_bella', lang: 'en-US', localService: false, default: true }];
+
+    test('should list server voices with the system voices and mark their engine', async () => {
+      await voiceManager.init();
+      await voiceManager.setRemoteVoices(remoteVoices);
+
+      const voice = voiceManager.getAvailableVoices().find(v => v.name === 'af_bella');
+      expect(voice).toMatchObject({ voiceURI: 'remote:af_bella', engine: 'Remote' });
+      expect(voiceManager.getAvailableVoices()).toHaveLength(mockVoices.length + 1);
+      expect(voiceManager.getAvailableVoices().filter(v => v.engine === 'Remote')).toHaveLength(1);
+    });
+
+    test('should keep server voices when system voices are updated', async () => {
+      await voiceManager.init();
+      await voiceManager.setRemoteVoices(remoteVoices);
+
+      await voiceManager.updateVoiceData(voiceManager.getAvailableVoices().filter(v => v.name === 'Google español'));
+
+      expect(voiceManager.getAvailableVoices().map(v => v.name)).toEqual(['af_bella', 'Google español']);
+    });
+  });
 });
\ No newline at end of file
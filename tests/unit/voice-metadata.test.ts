@@ -0,0 +1,67 @@
+import { describeVoice, getVoiceGender, getVoiceQuality } from '@common/voice-metadata';
+
+describe('getVoiceGender', () => {
+  test.each([
+    ['Google UK English Female', 'female'],
+    ['Google UK English Male', 'male'],
+    ['Microsoft David Desktop - English (United States)', 'male'],
+    ['Microsoft Aria Online (Natural) - English (United States)', 'female'],
+    ['Samantha', 'female'],
+    ['Mónica', 'female'],
+    ['af_bella', 'female'],
+    ['bm_george', 'male'],
+    ['nova', 'female'],
+    ['alloy', 'neutral'],
+    ['Google Deutsch', 'neutral'],
+  ])('should take %s for %s', (name, gender) => {
+    expect(getVoiceGender(name)).toBe(gender);
+  });
+
+  test('should match gender words as whole words', () => {
+    // "Emanuel" contains "man", "Romana" contains "man" too
+    expect(getVoiceGender('Emanuel')).toBe('neutral');
+    expect(getVoiceGender('Romana')).toBe('neutral');
+  });
+});
+
+describe('getVoiceQuality', () => {
+  test.each([
+    ['Microsoft Jenny Online (Natural) - English (United States)', true, 'premium'],
+    ['Google US English', false, 'premium'],
+    ['Ava (Enhanced)', true, 'enhanced'],
+    ['eSpeak English', true, 'compact'],
+    ['Samantha', true, 'standard'],
+  ])('should rate %s (local: %s) as %s', (name, localService, quality) => {
+    expect(getVoiceQuality({ name, localService })).toBe(quality);
+  });
+});
+
+describe('describeVoice', () => {
+  test('should describe a system voice', () => {
+    expect(describeVoice({
+      name: 'Microsoft David Desktop',
+      lang: 'en-US',
+      voiceURI: 'Microsoft David Desktop',
+      localService: true,
+      default: false
+    })).toEqual({
+      name: 'Microsoft David Desktop',
+      lang: 'en-US',
+      voiceURI: 'Microsoft David Desktop',
+      localService: true,
+      default: false,
+      displayName: 'David Desktop',
+      languageDisplay: 'English (US)',
+      quality: 'standard',
+      gender: 'male',
+      engine: 'Microsoft'
+    });
+  });
+
+  test('should mark speech server voices', () => {
+    const voice = describeVoice({ name: 'af_bella', lang: 'en-US', voiceURI: 'remote:af_bella', localService: false, default: false });
+
+    expect(voice.engine).toBe('Remote');
+    expect(voice.gender).toBe('female');
+  });
+});
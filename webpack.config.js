@@ -14,6 +14,9 @@ module.exports = (env, argv) => {
       content: './src/content/index.ts',
       popup: './src/popup/index.ts',
       options: './src/options/index.ts',
+      offscreen: './src/offscreen/index.ts',
+      'pdf-viewer': './src/pdf-viewer/index.ts',
+      'audio-export': './src/audio-export/index.ts',
     },
     
     output: {
@@ -65,6 +68,12 @@ module.exports = (env, argv) => {
           { from: 'src/popup/popup.css', to: 'popup.css' },
           { from: 'src/options/options.html', to: 'options.html' },
           { from: 'src/options/options.css', to: 'options.css' },
+          { from: 'src/offscreen/offscreen.html', to: 'offscreen.html' },
+          { from: 'src/pdf-viewer/pdf-viewer.html', to: 'pdf-viewer.html' },
+          { from: 'src/pdf-viewer/pdf-viewer.css', to: 'pdf-viewer.css' },
+          { from: 'node_modules/pdfjs-dist/build/pdf.worker.min.mjs', to: 'pdf.worker.min.mjs' },
+          { from: 'src/audio-export/audio-export.html', to: 'audio-export.html' },
+          { from: 'src/audio-export/audio-export.css', to: 'audio-export.css' },
         ],
       }),
     ],